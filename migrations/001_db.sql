@@ -66,7 +66,7 @@ CREATE TABLE IF NOT EXISTS users (
   mobile_number TEXT,
   profile_pic_url TEXT
 );
--- Insert default admin (username: admin, password: admin)
+-- Insert default admin with a placeholder hash that never verifies; set its first password as described in README_D1_SETUP.md
 INSERT OR IGNORE INTO users (username, password_hash, full_name)
 VALUES ('admin', '0000000000000000000000000000000000000000000000000000000000000000', 'Default Admin');
 
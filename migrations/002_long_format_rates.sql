@@ -0,0 +1,52 @@
+-- === LONG-FORMAT FOREX RATES ===
+-- Replaces the wide forex_rates table (one <CODE>_buy/<CODE>_sell column pair per currency)
+-- with one row per (date, currency). New currencies published by NRB no longer need an ALTER.
+--
+-- buy/sell keep the same meaning as the old wide columns (NPR per single unit).
+-- unit is the quantity NRB quotes the currency in (e.g. 100 for INR), so quoted = buy * unit.
+-- source is 'nrb' (scheduler / admin fetch), 'manual' (admin edit) or 'legacy' (this backfill).
+
+-- 1. Keep the old table around until the backfill has been verified.
+ALTER TABLE forex_rates RENAME TO forex_rates_legacy;
+DROP INDEX IF EXISTS idx_date;
+
+-- 2. Table: forex_rates (long format)
+CREATE TABLE IF NOT EXISTS forex_rates (
+  date TEXT NOT NULL,
+  iso3 TEXT NOT NULL,
+  buy REAL,
+  sell REAL,
+  unit INTEGER NOT NULL DEFAULT 1,
+  source TEXT NOT NULL DEFAULT 'nrb',
+  fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (date, iso3)
+);
+CREATE INDEX IF NOT EXISTS idx_forex_rates_iso3_date ON forex_rates(iso3, date);
+
+-- 3. Backfill from the wide table (one SELECT per legacy column pair).
+INSERT OR IGNORE INTO forex_rates (date, iso3, buy, sell, unit, source, fetched_at)
+SELECT date, 'INR', INR_buy, INR_sell, 100, 'legacy', updated_at FROM forex_rates_legacy WHERE INR_buy IS NOT NULL OR INR_sell IS NOT NULL
+UNION ALL SELECT date, 'USD', USD_buy, USD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE USD_buy IS NOT NULL OR USD_sell IS NOT NULL
+UNION ALL SELECT date, 'EUR', EUR_buy, EUR_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE EUR_buy IS NOT NULL OR EUR_sell IS NOT NULL
+UNION ALL SELECT date, 'GBP', GBP_buy, GBP_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE GBP_buy IS NOT NULL OR GBP_sell IS NOT NULL
+UNION ALL SELECT date, 'CHF', CHF_buy, CHF_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE CHF_buy IS NOT NULL OR CHF_sell IS NOT NULL
+UNION ALL SELECT date, 'AUD', AUD_buy, AUD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE AUD_buy IS NOT NULL OR AUD_sell IS NOT NULL
+UNION ALL SELECT date, 'CAD', CAD_buy, CAD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE CAD_buy IS NOT NULL OR CAD_sell IS NOT NULL
+UNION ALL SELECT date, 'SGD', SGD_buy, SGD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE SGD_buy IS NOT NULL OR SGD_sell IS NOT NULL
+UNION ALL SELECT date, 'JPY', JPY_buy, JPY_sell, 10, 'legacy', updated_at FROM forex_rates_legacy WHERE JPY_buy IS NOT NULL OR JPY_sell IS NOT NULL
+UNION ALL SELECT date, 'CNY', CNY_buy, CNY_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE CNY_buy IS NOT NULL OR CNY_sell IS NOT NULL
+UNION ALL SELECT date, 'SAR', SAR_buy, SAR_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE SAR_buy IS NOT NULL OR SAR_sell IS NOT NULL
+UNION ALL SELECT date, 'QAR', QAR_buy, QAR_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE QAR_buy IS NOT NULL OR QAR_sell IS NOT NULL
+UNION ALL SELECT date, 'THB', THB_buy, THB_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE THB_buy IS NOT NULL OR THB_sell IS NOT NULL
+UNION ALL SELECT date, 'AED', AED_buy, AED_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE AED_buy IS NOT NULL OR AED_sell IS NOT NULL
+UNION ALL SELECT date, 'MYR', MYR_buy, MYR_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE MYR_buy IS NOT NULL OR MYR_sell IS NOT NULL
+UNION ALL SELECT date, 'KRW', KRW_buy, KRW_sell, 100, 'legacy', updated_at FROM forex_rates_legacy WHERE KRW_buy IS NOT NULL OR KRW_sell IS NOT NULL
+UNION ALL SELECT date, 'SEK', SEK_buy, SEK_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE SEK_buy IS NOT NULL OR SEK_sell IS NOT NULL
+UNION ALL SELECT date, 'DKK', DKK_buy, DKK_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE DKK_buy IS NOT NULL OR DKK_sell IS NOT NULL
+UNION ALL SELECT date, 'HKD', HKD_buy, HKD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE HKD_buy IS NOT NULL OR HKD_sell IS NOT NULL
+UNION ALL SELECT date, 'KWD', KWD_buy, KWD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE KWD_buy IS NOT NULL OR KWD_sell IS NOT NULL
+UNION ALL SELECT date, 'BHD', BHD_buy, BHD_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE BHD_buy IS NOT NULL OR BHD_sell IS NOT NULL
+UNION ALL SELECT date, 'OMR', OMR_buy, OMR_sell, 1, 'legacy', updated_at FROM forex_rates_legacy WHERE OMR_buy IS NOT NULL OR OMR_sell IS NOT NULL;
+
+-- 4. Once the row counts have been checked, the legacy table can be dropped:
+-- DROP TABLE forex_rates_legacy;
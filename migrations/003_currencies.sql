@@ -0,0 +1,46 @@
+-- === CURRENCY REGISTRY ===
+-- Replaces the compile-time CURRENCY_MAP. Admins manage rows from the dashboard;
+-- the scheduler registers any currency NRB starts publishing (region 'other').
+
+-- Table: currencies
+CREATE TABLE IF NOT EXISTS currencies (
+  iso3 TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  unit INTEGER NOT NULL DEFAULT 1,
+  region TEXT NOT NULL DEFAULT 'other',
+  flag_code TEXT,
+  display_order INTEGER NOT NULL DEFAULT 999,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_currencies_order ON currencies(enabled, display_order);
+
+INSERT OR IGNORE INTO currencies (iso3, name, unit, region, flag_code, display_order)
+VALUES
+  ('INR', 'Indian Rupee', 100, 'asian', 'in', 1),
+  ('USD', 'U.S. Dollar', 1, 'other', 'us', 2),
+  ('EUR', 'European Euro', 1, 'european', 'eu', 3),
+  ('GBP', 'UK Pound Sterling', 1, 'european', 'gb', 4),
+  ('CHF', 'Swiss Franc', 1, 'european', 'ch', 5),
+  ('AUD', 'Australian Dollar', 1, 'other', 'au', 6),
+  ('CAD', 'Canadian Dollar', 1, 'other', 'ca', 7),
+  ('SGD', 'Singapore Dollar', 1, 'asian', 'sg', 8),
+  ('JPY', 'Japanese Yen', 10, 'asian', 'jp', 9),
+  ('CNY', 'Chinese Yuan', 1, 'asian', 'cn', 10),
+  ('SAR', 'Saudi Arabian Riyal', 1, 'middle-east', 'sa', 11),
+  ('QAR', 'Qatari Riyal', 1, 'middle-east', 'qa', 12),
+  ('THB', 'Thai Baht', 1, 'asian', 'th', 13),
+  ('AED', 'U.A.E Dirham', 1, 'middle-east', 'ae', 14),
+  ('MYR', 'Malaysian Ringgit', 1, 'asian', 'my', 15),
+  ('KRW', 'South Korean Won', 100, 'asian', 'kr', 16),
+  ('SEK', 'Swedish Kroner', 1, 'european', 'se', 17),
+  ('DKK', 'Danish Kroner', 1, 'european', 'dk', 18),
+  ('HKD', 'Hong Kong Dollar', 1, 'asian', 'hk', 19),
+  ('KWD', 'Kuwaity Dinar', 1, 'middle-east', 'kw', 20),
+  ('BHD', 'Bahrain Dinar', 1, 'middle-east', 'bh', 21),
+  ('OMR', 'Omani Rial', 1, 'middle-east', 'om', 22);
+
+-- Public endpoint for the registry
+INSERT OR IGNORE INTO api_access_settings (endpoint, access_level, quota_per_hour)
+VALUES ('/api/currencies', 'public', -1);
@@ -0,0 +1,37 @@
+-- === HISTORICAL BACKFILL JOBS ===
+-- An admin-created job walks a date range through the NRB API in windows of chunk_days.
+-- The cursor (cursor_date + cursor_page) is persisted so each scheduled run resumes where
+-- the previous one stopped. Per-date outcomes are logged in backfill_job_dates.
+
+-- Table: backfill_jobs
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  from_date TEXT NOT NULL,
+  to_date TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'update', -- 'update' | 'replace'
+  chunk_days INTEGER NOT NULL DEFAULT 30,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending' | 'running' | 'completed' | 'cancelled'
+  cursor_date TEXT NOT NULL,
+  cursor_page INTEGER NOT NULL DEFAULT 1,
+  attempts INTEGER NOT NULL DEFAULT 0, -- consecutive failures on the current cursor
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  dates_stored INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_status ON backfill_jobs(status, id);
+
+-- Table: backfill_job_dates
+CREATE TABLE IF NOT EXISTS backfill_job_dates (
+  job_id INTEGER NOT NULL,
+  date TEXT NOT NULL,
+  status TEXT NOT NULL, -- 'stored' | 'no_data' | 'error'
+  rates_count INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (job_id, date)
+);
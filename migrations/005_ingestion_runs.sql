@@ -0,0 +1,38 @@
+-- === INGESTION AUDIT LOG & DATA-QUALITY ANOMALIES ===
+-- Every daily NRB cron run writes one ingestion_runs row; after a successful store the
+-- validator records anything suspicious in data_anomalies for the admin "Data Health" tab.
+
+-- Table: ingestion_runs
+CREATE TABLE IF NOT EXISTS ingestion_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cron TEXT NOT NULL,
+  target_date TEXT NOT NULL,
+  status TEXT NOT NULL, -- 'success' | 'no_data' | 'error'
+  http_status INTEGER,
+  currencies_received INTEGER NOT NULL DEFAULT 0,
+  currencies_stored INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_date ON ingestion_runs(target_date);
+
+-- Table: data_anomalies
+-- iso3 is '' for anomalies about a whole date (gaps), so the UNIQUE key still dedupes them.
+CREATE TABLE IF NOT EXISTS data_anomalies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER,
+  date TEXT NOT NULL,
+  iso3 TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL, -- 'buy_gt_sell' | 'jump' | 'missing_currency' | 'gap'
+  detail TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open', -- 'open' | 'resolved'
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  resolved_at TEXT,
+  resolved_by TEXT,
+  UNIQUE (date, iso3, type)
+);
+CREATE INDEX IF NOT EXISTS idx_data_anomalies_status ON data_anomalies(status, date);
+
+-- Day-over-day change (in percent) above which a rate is flagged
+INSERT OR IGNORE INTO site_settings (key, value) VALUES ('anomaly_jump_threshold_pct', '5');
@@ -0,0 +1,5 @@
+-- === ROLE-BASED ACCESS CONTROL ===
+-- Roles: 'superadmin', 'editor', 'data-operator', 'viewer' (see src/permissions.ts).
+-- Everyone was a full admin before roles were enforced, so existing admins become superadmins.
+-- The column default stays 'admin', which the worker also treats as superadmin.
+UPDATE users SET role = 'superadmin', updated_at = datetime('now') WHERE role = 'admin';
@@ -0,0 +1,26 @@
+-- === TWO-FACTOR AUTHENTICATION (TOTP) ===
+-- A user_totp row is created when enrollment starts and becomes active once the user
+-- confirms a code. Recovery codes are stored hashed and can each be used once.
+
+-- Table: user_totp
+CREATE TABLE IF NOT EXISTS user_totp (
+  username TEXT PRIMARY KEY,
+  secret TEXT NOT NULL, -- base32
+  enabled INTEGER NOT NULL DEFAULT 0,
+  last_step INTEGER, -- last accepted 30s time step, so a code can't be replayed
+  enabled_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Table: user_recovery_codes
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user ON user_recovery_codes(username);
+
+-- When 'true', every account must enroll before it can finish logging in
+INSERT OR IGNORE INTO site_settings (key, value) VALUES ('require_2fa', 'false');
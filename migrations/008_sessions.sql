@@ -0,0 +1,19 @@
+-- === SERVER-SIDE SESSIONS ===
+-- One row per login. Access tokens carry the session id as their `jti` and are only
+-- accepted while the session is active; the refresh token rotates on every use.
+
+-- Table: sessions
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY, -- jti of every access token issued for this session
+  username TEXT NOT NULL,
+  refresh_token_hash TEXT NOT NULL, -- SHA-256 of the current refresh token's secret part
+  previous_refresh_token_hash TEXT, -- tolerated briefly after rotation (concurrent tabs)
+  rotated_at TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_sessions_username ON sessions(username, revoked_at);
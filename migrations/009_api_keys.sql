@@ -0,0 +1,30 @@
+-- === API KEYS ===
+-- Personal keys for third-party consumers of the public API. Only a hash of each key
+-- is stored; the key itself is shown once when it is issued or rotated.
+
+-- Table: api_keys
+CREATE TABLE IF NOT EXISTS api_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the full key
+  key_prefix TEXT NOT NULL, -- first characters, so admins can tell keys apart
+  owner TEXT NOT NULL, -- who the key was issued to (person, company or email)
+  label TEXT,
+  scopes TEXT NOT NULL DEFAULT '["*"]', -- JSON array of endpoints from api_access_settings, or "*"
+  quota_per_hour INTEGER NOT NULL DEFAULT -1, -- -1 for unlimited
+  quota_per_day INTEGER NOT NULL DEFAULT -1,
+  expires_at TEXT, -- NULL never expires
+  revoked_at TEXT,
+  last_used_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Table: api_key_usage
+-- Request counts per key and UTC hour; daily quotas sum the hours of the current day.
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id INTEGER NOT NULL,
+  hour TEXT NOT NULL, -- 'YYYY-MM-DD HH:00:00'
+  requests INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, hour)
+);
@@ -0,0 +1,6 @@
+-- === RATE STATISTICS ENDPOINT ===
+-- Registers /api/stats/:currency in API access control so it can be restricted or
+-- given a quota like the other public endpoints.
+
+INSERT OR IGNORE INTO api_access_settings (endpoint, access_level, quota_per_hour)
+VALUES ('/api/stats/:currency', 'public', -1);
@@ -0,0 +1,6 @@
+-- === BULK EXPORT ENDPOINT ===
+-- Registers /api/export in API access control. Exports can be large, so the public
+-- quota starts at 60 requests per hour per IP; API keys use their own quotas.
+
+INSERT OR IGNORE INTO api_access_settings (endpoint, access_level, quota_per_hour)
+VALUES ('/api/export', 'public', 60);
@@ -0,0 +1,7 @@
+-- === CROSS-RATE CONVERSION ENDPOINTS ===
+-- Registers /api/convert and /api/cross-rates in API access control.
+
+INSERT OR IGNORE INTO api_access_settings (endpoint, access_level, quota_per_hour)
+VALUES
+  ('/api/convert', 'public', -1),
+  ('/api/cross-rates', 'public', -1);
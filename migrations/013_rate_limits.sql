@@ -0,0 +1,7 @@
+-- === KV RATE LIMITING ===
+-- Public quotas are now counted in KV with a sliding window (src/rate-limit.ts), so the
+-- per-request log behind the old COUNT(*) check is no longer written or read. The log
+-- itself is rolled up and dropped by 014_api_usage.sql.
+-- burst_per_minute caps requests within any one minute on top of the hourly quota.
+
+ALTER TABLE api_access_settings ADD COLUMN burst_per_minute INTEGER NOT NULL DEFAULT -1;
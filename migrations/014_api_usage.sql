@@ -0,0 +1,23 @@
+-- === API USAGE ANALYTICS ===
+-- Public API requests per UTC hour, endpoint, caller and status class, for the usage
+-- charts under "API Access Control". Rows older than 90 days are pruned by the cron.
+
+-- Table: api_usage_hourly
+CREATE TABLE IF NOT EXISTS api_usage_hourly (
+  hour TEXT NOT NULL, -- 'YYYY-MM-DD HH:00:00'
+  endpoint TEXT NOT NULL, -- api_access_settings key
+  identifier TEXT NOT NULL, -- 'key:<key prefix>', or the caller's IP
+  status_class TEXT NOT NULL, -- '2xx', '3xx', '401', '403', '429', '4xx' or '5xx'
+  requests INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (hour, endpoint, identifier, status_class)
+);
+CREATE INDEX IF NOT EXISTS idx_api_usage_hourly_identifier ON api_usage_hourly(identifier, hour);
+
+-- Carry over the old per-request log (allowed requests only, so all of it counts as 2xx)
+INSERT INTO api_usage_hourly (hour, endpoint, identifier, status_class, requests)
+SELECT strftime('%Y-%m-%d %H:00:00', request_time), endpoint, identifier, '2xx', COUNT(*)
+FROM api_usage_logs
+GROUP BY 1, 2, 3
+ON CONFLICT(hour, endpoint, identifier, status_class) DO UPDATE SET requests = requests + excluded.requests;
+
+DROP TABLE IF EXISTS api_usage_logs;
@@ -0,0 +1,36 @@
+-- === WEBHOOKS ===
+-- Subscriptions that are POSTed a signed JSON payload when rates are published or revised,
+-- or a post is published, managed under "Webhooks" in the dashboard. Every delivery is
+-- logged; failed ones are retried with exponential backoff by the `*/5 * * * *` cron.
+
+-- Table: webhooks
+CREATE TABLE IF NOT EXISTS webhooks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL, -- HMAC-SHA256 signing key, shown to the admin once
+  events TEXT NOT NULL DEFAULT '["rates.published"]', -- JSON array of event types
+  currencies TEXT NOT NULL DEFAULT '[]', -- JSON array of ISO codes; empty for every currency
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Table: webhook_deliveries
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL, -- The JSON body, exactly as signed
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'delivered' or 'failed' (gave up)
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT, -- When a pending delivery is next tried
+  last_attempt_at TEXT,
+  response_status INTEGER, -- HTTP status of the last attempt, NULL if it never got one
+  last_error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  delivered_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
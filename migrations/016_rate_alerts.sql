@@ -0,0 +1,31 @@
+-- === EMAIL RATE ALERTS ===
+-- Public subscriptions to "tell me when USD sell goes above 135" style alerts. Each alert is
+-- confirmed from an emailed link (double opt-in) before it is active; alerts are checked
+-- after every successful ingestion and a subscriber gets one email per day at most.
+
+-- Table: alert_subscribers
+CREATE TABLE IF NOT EXISTS alert_subscribers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT NOT NULL UNIQUE, -- Lower-cased
+  unsubscribe_token TEXT NOT NULL UNIQUE, -- In every email's one-click unsubscribe link
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  unsubscribed_at TEXT
+);
+
+-- Table: rate_alerts
+CREATE TABLE IF NOT EXISTS rate_alerts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  subscriber_id INTEGER NOT NULL REFERENCES alert_subscribers(id) ON DELETE CASCADE,
+  iso3 TEXT NOT NULL,
+  side TEXT NOT NULL, -- 'buy' or 'sell'
+  condition TEXT NOT NULL, -- 'above', 'below' or 'percent_change' (either way)
+  threshold REAL NOT NULL, -- NPR per quoted unit (e.g. per 10 JPY) for above/below; percent for percent_change
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending' (not confirmed yet), 'active' or 'cancelled'
+  confirm_token TEXT UNIQUE, -- Cleared once confirmed
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  confirmed_at TEXT,
+  last_triggered_date TEXT, -- Rate date the alert last fired for
+  last_triggered_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_status ON rate_alerts(status, iso3);
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_subscriber ON rate_alerts(subscriber_id);
@@ -0,0 +1,42 @@
+-- === DAILY RATES NEWSLETTER ===
+-- Subscribers get one email per published NRB date with the day's rates and day-over-day
+-- arrows, optionally limited to the currencies they picked. Addresses are confirmed from an
+-- emailed link (double opt-in). Every send is recorded per subscriber so the three daily
+-- crons, and the five-minute cron that finishes large sends, never email anyone twice.
+
+-- Table: subscribers
+CREATE TABLE IF NOT EXISTS subscribers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT NOT NULL UNIQUE, -- Lower-cased
+  currencies TEXT NOT NULL DEFAULT '[]', -- JSON array of ISO3 codes; empty means all currencies
+  pending_currencies TEXT, -- Requested preferences, applied when the confirm link is opened
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending' (not confirmed yet), 'active' or 'unsubscribed'
+  confirm_token TEXT UNIQUE, -- Cleared once confirmed
+  confirm_requested_at TEXT,
+  unsubscribe_token TEXT NOT NULL UNIQUE, -- In every email's one-click unsubscribe link
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  confirmed_at TEXT,
+  unsubscribed_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_subscribers_status ON subscribers(status);
+
+-- Table: newsletter_issues (one row per rate date that was, or is being, sent)
+CREATE TABLE IF NOT EXISTS newsletter_issues (
+  rate_date TEXT PRIMARY KEY,
+  started_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT, -- Set once every active subscriber has a delivery row (and, since 018, no send left to retry)
+  sent INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0
+);
+
+-- Table: newsletter_deliveries
+CREATE TABLE IF NOT EXISTS newsletter_deliveries (
+  rate_date TEXT NOT NULL,
+  subscriber_id INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sending', -- 'sending' (claimed by a run), 'sent' or 'failed'
+  error TEXT, -- Why the send failed
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  sent_at TEXT,
+  PRIMARY KEY (rate_date, subscriber_id)
+);
+CREATE INDEX IF NOT EXISTS idx_newsletter_deliveries_subscriber ON newsletter_deliveries(subscriber_id);
@@ -0,0 +1,5 @@
+-- === NEWSLETTER SEND RETRIES ===
+-- A send the email provider refused is retried by later runs of the five-minute cron, up to
+-- three attempts in all; an issue is only complete once no retryable send is left.
+
+ALTER TABLE newsletter_deliveries ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;
@@ -6,11 +6,13 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Routes, Route } from "react-router-dom";
 import { lazy, Suspense } from "react";
 import Index from "./pages/Index";
-import ProtectedRoute from "./components/ProtectedRoute";
+import ProtectedRoute, { RequirePermission } from "./components/ProtectedRoute";
 import PWAInstallPrompt from "./components/PWAInstallPrompt";
 
 // Lazy load non-critical routes
 const Converter = lazy(() => import("./pages/Converter"));
+const CrossRates = lazy(() => import("./pages/CrossRates"));
+const RateAlerts = lazy(() => import("./pages/RateAlerts"));
 const HistoricalCharts = lazy(() => import("./pages/HistoricalCharts"));
 const CurrencyHistoricalData = lazy(() => import("./pages/CurrencyHistoricalData"));
 const PrivacyPolicy = lazy(() => import("./pages/PrivacyPolicy"));
@@ -20,6 +22,7 @@ const Disclosure = lazy(() => import("./pages/Disclosure"));
 const AdsTxt = lazy(() => import("./pages/AdsTxt"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const AdminLogin = lazy(() => import("./pages/AdminLogin"));
+const TwoFactorLogin = lazy(() => import("./pages/TwoFactorLogin"));
 const ForgotPassword = lazy(() => import("./pages/ForgotPassword"));
 const ResetPassword = lazy(() => import("./pages/ResetPassword"));
 const Posts = lazy(() => import("./pages/Posts"));
@@ -63,6 +66,8 @@ const App = () => (
         <Route path="/archive/page/*" element={<Archive />} />
         <Route path="/daily-update/forex-for/*" element={<ArchiveDetail />} />
         <Route path="/converter" element={<Converter />} />
+        <Route path="/cross-rates" element={<CrossRates />} />
+        <Route path="/alerts" element={<RateAlerts />} />
         <Route path="/historical-charts" element={<HistoricalCharts />} />
         <Route path="/historical-data/:currencyCode" element={<CurrencyHistoricalData />} />
         <Route path="/privacy-policy" element={<PrivacyPolicy />} />
@@ -76,6 +81,7 @@ const App = () => (
 
         {/* --- Admin Login Route (Public) --- */}
         <Route path="/admin/login" element={<AdminLogin />} />
+        <Route path="/admin/login/2fa" element={<TwoFactorLogin />} />
         <Route path="/admin/forgot-password" element={<ForgotPassword />} />
         <Route path="/admin/reset-password" element={<ResetPassword />} />
         {/* --- NEW: Add Google Auth Callback Route --- */}
@@ -85,8 +91,10 @@ const App = () => (
         <Route element={<ProtectedRoute />}>
            <Route path="/admin/dashboard" element={<AdminDashboard />} />
            <Route path="/admin/change-password" element={<ChangePassword />} />
-           <Route path="/admin/posts/new" element={<PostEditor />} />
-           <Route path="/admin/posts/edit/:id" element={<PostEditor />} />
+           <Route element={<RequirePermission permission="posts:write" />}>
+             <Route path="/admin/posts/new" element={<PostEditor />} />
+             <Route path="/admin/posts/edit/:id" element={<PostEditor />} />
+           </Route>
         </Route>
 
         {/* --- Catch-all Not Found Route (Must be last) --- */}
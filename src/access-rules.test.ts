@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { accessRuleErrors, evaluateRules, matchRule, parseIp, parseRules, ruleKind } from './access-rules';
+import type { ApiAccessRule } from './worker-types';
+
+const allow = (match: string, quota_per_hour?: number): ApiAccessRule => ({ effect: 'allow', match, quota_per_hour });
+const deny = (match: string): ApiAccessRule => ({ effect: 'deny', match });
+
+describe('parseIp', () => {
+    it('reads IPv4 and the compressed and embedded IPv6 forms', () => {
+        expect(parseIp('192.0.2.1')).toEqual({ version: 4, value: 0xc0000201n });
+        expect(parseIp('::1')).toEqual({ version: 6, value: 1n });
+        expect(parseIp('2001:db8::')).toEqual({ version: 6, value: 0x20010db8n << 96n });
+        expect(parseIp('::ffff:192.0.2.1')).toEqual({ version: 6, value: (0xffffn << 32n) | 0xc0000201n });
+    });
+
+    it('rejects malformed addresses', () => {
+        for (const text of ['256.0.0.1', '1.2.3', '1.2.3.4.5', '1::2::3', '1:2:3:4:5:6:7:8:9', '12345::', 'example.com']) {
+            expect(parseIp(text)).toBeNull();
+        }
+    });
+});
+
+describe('ruleKind', () => {
+    it('tells rules apart', () => {
+        expect(ruleKind('*')).toBe('any');
+        expect(ruleKind('203.0.113.7')).toBe('ip');
+        expect(ruleKind('2001:db8::1')).toBe('ip');
+        expect(ruleKind('203.0.113.0/24')).toBe('cidr');
+        expect(ruleKind('2001:db8::/32')).toBe('cidr');
+        expect(ruleKind('example.com')).toBe('host');
+        expect(ruleKind('*.example.com')).toBe('host');
+    });
+
+    it('rejects bad prefixes and mistyped IPs', () => {
+        for (const match of ['203.0.113.0/33', '2001:db8::/129', '203.0.113.0/', '10.0.0.0/8/8', '203.0.113', '10.*.0.1', 'exa mple.com']) {
+            expect(ruleKind(match)).toBeNull();
+        }
+    });
+});
+
+describe('matchRule', () => {
+    const caller = (ip: string | null, host: string | null = null) => ({ ip, host });
+
+    it('matches addresses inside a CIDR range only', () => {
+        expect(matchRule(allow('203.0.113.0/24'), caller('203.0.113.200'))).toBe('ip');
+        expect(matchRule(allow('203.0.113.0/24'), caller('203.0.114.1'))).toBeNull();
+        expect(matchRule(allow('10.0.0.0/8'), caller('10.255.255.255'))).toBe('ip');
+        expect(matchRule(allow('0.0.0.0/0'), caller('198.51.100.1'))).toBe('ip');
+        expect(matchRule(allow('2001:db8::/32'), caller('2001:db8:ffff::1'))).toBe('ip');
+        expect(matchRule(allow('2001:db8::/32'), caller('2001:db9::1'))).toBeNull();
+    });
+
+    it('matches IPv4-mapped IPv6 callers against IPv4 rules', () => {
+        expect(matchRule(allow('192.0.2.1'), caller('::ffff:192.0.2.1'))).toBe('ip');
+        expect(matchRule(allow('192.0.2.0/24'), caller('::ffff:192.0.2.9'))).toBe('ip');
+    });
+
+    it('never matches an IPv4 range against an IPv6 caller', () => {
+        expect(matchRule(allow('0.0.0.0/0'), caller('2001:db8::1'))).toBeNull();
+    });
+
+    it('matches hostnames exactly or by glob, ignoring case', () => {
+        expect(matchRule(allow('Example.com'), caller(null, 'example.COM'))).toBe('host');
+        expect(matchRule(allow('example.com'), caller(null, 'www.example.com'))).toBeNull();
+        expect(matchRule(allow('*.example.com'), caller(null, 'www.example.com'))).toBe('host');
+        expect(matchRule(allow('*.example.com'), caller(null, 'example.com'))).toBeNull();
+        expect(matchRule(allow('*.example.com'), caller(null, 'www.example.com.evil.net'))).toBeNull();
+    });
+
+    it('matches anyone with an IP or a host for *', () => {
+        expect(matchRule(allow('*'), caller('203.0.113.7'))).toBe('ip');
+        expect(matchRule(allow('*'), caller(null, 'example.com'))).toBe('host');
+        expect(matchRule(allow('*'), caller(null))).toBeNull();
+    });
+});
+
+describe('evaluateRules', () => {
+    const caller = { ip: '203.0.113.7', host: 'app.example.com' };
+
+    it('lets deny rules win wherever they are in the list', () => {
+        const rules = [allow('203.0.113.0/24'), allow('*.example.com'), deny('203.0.113.7')];
+        expect(evaluateRules(rules, caller)).toEqual({ decision: 'deny', rule: rules[2], index: 2, matchedOn: 'ip' });
+    });
+
+    it('takes the first matching allow rule', () => {
+        const rules = [allow('198.51.100.0/24'), allow('*.example.com', 500), allow('*')];
+        expect(evaluateRules(rules, caller)).toEqual({ decision: 'allow', rule: rules[1], index: 1, matchedOn: 'host' });
+    });
+
+    it('decides nothing when no rule matches', () => {
+        expect(evaluateRules([deny('198.51.100.1')], caller)).toEqual({ decision: 'none', rule: null, index: -1, matchedOn: null });
+    });
+});
+
+describe('parseRules', () => {
+    it('reads typed rules and legacy strings', () => {
+        const stored = JSON.stringify([
+            'example.com',
+            { effect: 'deny', match: '198.51.100.0/24', note: 'scraper' },
+            { effect: 'allow', match: '203.0.113.7', quota_per_hour: 1000, note: '' },
+        ]);
+        expect(parseRules(stored)).toEqual([
+            { effect: 'allow', match: 'example.com' },
+            { effect: 'deny', match: '198.51.100.0/24', note: 'scraper' },
+            { effect: 'allow', match: '203.0.113.7', quota_per_hour: 1000 },
+        ]);
+    });
+
+    it('drops entries without a match and survives bad JSON', () => {
+        expect(parseRules(JSON.stringify([{ effect: 'deny' }, 42, null, { effect: 'bogus', match: '*' }])))
+            .toEqual([{ effect: 'allow', match: '*' }]);
+        expect(parseRules('not json')).toEqual([]);
+        expect(parseRules('{"match":"*"}')).toEqual([]);
+        expect(parseRules(null)).toEqual([]);
+    });
+});
+
+describe('accessRuleErrors', () => {
+    it('reports problems by rule index', () => {
+        const stored = JSON.stringify([
+            allow('example.com'),
+            allow('300.1.1.1'),
+            { effect: 'deny', match: '198.51.100.1', quota_per_hour: 10 },
+            allow('203.0.113.7', 1.5),
+            allow('  '),
+        ]);
+        expect(accessRuleErrors(stored)).toEqual({
+            1: '"300.1.1.1" is not an IP, CIDR range or hostname',
+            2: 'Deny rules cannot have a quota',
+            3: 'Quota must be a whole number (-1 for unlimited)',
+            4: 'Enter an IP, CIDR range or hostname',
+        });
+        expect(accessRuleErrors(JSON.stringify([allow('*', -1)]))).toEqual({});
+    });
+});
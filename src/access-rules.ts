@@ -0,0 +1,202 @@
+// src/access-rules.ts
+// --- API ACCESS RULES ---
+// The rules in api_access_settings.allowed_rules: allow or deny by IPv4/IPv6 address or
+// CIDR range, hostname (exact or a `*` glob such as `*.example.com`), or `*` for anyone.
+// Deny rules win over allow rules. An allow rule may override the endpoint's hourly quota.
+// Shared by the worker and the admin UI, so it has no worker dependencies.
+
+import type { ApiAccessRule } from './worker-types';
+
+export type RuleKind = 'any' | 'ip' | 'cidr' | 'host';
+
+export interface AccessCaller {
+    ip: string | null;
+    host: string | null; // Hostname of the Referer
+}
+
+export interface RuleEvaluation {
+    decision: 'allow' | 'deny' | 'none';
+    rule: ApiAccessRule | null;
+    index: number; // Position of `rule` in the list, -1 if none matched
+    matchedOn: 'ip' | 'host' | null;
+}
+
+interface ParsedIp {
+    version: 4 | 6;
+    value: bigint;
+}
+
+const HOST_GLOB = /^[a-z0-9*]([a-z0-9*-]*[a-z0-9*])?(\.[a-z0-9*]([a-z0-9*-]*[a-z0-9*])?)*$/;
+
+function parseIpv4(text: string): bigint | null {
+    const parts = text.split('.');
+    if (parts.length !== 4) return null;
+    let value = 0n;
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+        value = (value << 8n) | BigInt(Number(part));
+    }
+    return value;
+}
+
+function parseIpv6(text: string): bigint | null {
+    // An embedded IPv4 tail (e.g. ::ffff:192.0.2.1) stands for the last two groups
+    let groups = text;
+    const lastColon = text.lastIndexOf(':');
+    if (text.includes('.', lastColon)) {
+        const v4 = parseIpv4(text.slice(lastColon + 1));
+        if (v4 === null) return null;
+        groups = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+    }
+
+    const halves = groups.split('::');
+    if (halves.length > 2) return null;
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+    let value = 0n;
+    for (const group of [...head, ...Array(missing).fill('0'), ...tail]) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+        value = (value << 16n) | BigInt(parseInt(group, 16));
+    }
+    return value;
+}
+
+export function parseIp(text: string): ParsedIp | null {
+    const trimmed = text.trim();
+    const v4 = parseIpv4(trimmed);
+    if (v4 !== null) return { version: 4, value: v4 };
+    const v6 = trimmed.includes(':') ? parseIpv6(trimmed) : null;
+    return v6 === null ? null : { version: 6, value: v6 };
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) match IPv4 rules
+function unmap(ip: ParsedIp): ParsedIp {
+    return ip.version === 6 && ip.value >> 32n === 0xffffn ? { version: 4, value: ip.value & 0xffffffffn } : ip;
+}
+
+function parseCidr(text: string): { network: ParsedIp; prefix: number } | null {
+    const [address, prefixText, extra] = text.split('/');
+    if (extra !== undefined || !/^\d{1,3}$/.test(prefixText || '')) return null;
+    const network = parseIp(address);
+    const prefix = Number(prefixText);
+    if (!network || prefix > (network.version === 4 ? 32 : 128)) return null;
+    return { network, prefix };
+}
+
+function inCidr(ip: ParsedIp, network: ParsedIp, prefix: number): boolean {
+    if (ip.version !== network.version) return false;
+    const bits = BigInt(ip.version === 4 ? 32 : 128);
+    const shift = bits - BigInt(prefix);
+    return ip.value >> shift === network.value >> shift;
+}
+
+export function ruleKind(match: string): RuleKind | null {
+    if (match === '*') return 'any';
+    if (match.includes('/')) return parseCidr(match) ? 'cidr' : null;
+    if (parseIp(match)) return 'ip';
+    // Digits and dots alone are a mistyped IP, not a hostname
+    return HOST_GLOB.test(match.toLowerCase()) && !/^[\d.*]+$/.test(match) ? 'host' : null;
+}
+
+function hostMatches(pattern: string, host: string): boolean {
+    if (!pattern.includes('*')) return pattern === host;
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[a-z0-9.-]*');
+    return new RegExp(`^${source}$`).test(host);
+}
+
+/**
+ * What part of the caller, if any, `rule` matches.
+ */
+export function matchRule(rule: ApiAccessRule, caller: AccessCaller): 'ip' | 'host' | null {
+    const match = rule.match.trim().toLowerCase();
+    switch (ruleKind(match)) {
+        case 'any':
+            return caller.ip ? 'ip' : caller.host ? 'host' : null;
+        case 'ip': {
+            const ip = caller.ip ? parseIp(caller.ip) : null;
+            const ruleIp = parseIp(match)!;
+            if (!ip) return null;
+            const a = unmap(ip), b = unmap(ruleIp);
+            return a.version === b.version && a.value === b.value ? 'ip' : null;
+        }
+        case 'cidr': {
+            const ip = caller.ip ? parseIp(caller.ip) : null;
+            const { network, prefix } = parseCidr(match)!;
+            return ip && inCidr(unmap(ip), network, prefix) ? 'ip' : null;
+        }
+        case 'host':
+            return caller.host && hostMatches(match, caller.host.toLowerCase()) ? 'host' : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Deny rules are checked first, then allow rules; the first match in each pass decides.
+ */
+export function evaluateRules(rules: ApiAccessRule[], caller: AccessCaller): RuleEvaluation {
+    for (const effect of ['deny', 'allow'] as const) {
+        for (let index = 0; index < rules.length; index++) {
+            const rule = rules[index];
+            if (rule.effect !== effect) continue;
+            const matchedOn = matchRule(rule, caller);
+            if (matchedOn) return { decision: effect, rule, index, matchedOn };
+        }
+    }
+    return { decision: 'none', rule: null, index: -1, matchedOn: null };
+}
+
+/**
+ * Why `rule` is invalid, or null if it is fine.
+ */
+export function validateRule(rule: ApiAccessRule): string | null {
+    if (rule.effect !== 'allow' && rule.effect !== 'deny') return 'Effect must be allow or deny';
+    if (typeof rule.match !== 'string' || !rule.match.trim()) return 'Enter an IP, CIDR range or hostname';
+    if (!ruleKind(rule.match.trim().toLowerCase())) return `"${rule.match}" is not an IP, CIDR range or hostname`;
+    if (rule.quota_per_hour !== undefined && rule.quota_per_hour !== null) {
+        if (rule.effect === 'deny') return 'Deny rules cannot have a quota';
+        if (!Number.isInteger(rule.quota_per_hour) || rule.quota_per_hour < -1) return 'Quota must be a whole number (-1 for unlimited)';
+    }
+    return null;
+}
+
+/**
+ * Reads the stored rules. Entries saved before rules were typed are plain strings,
+ * which were allow rules.
+ */
+export function parseRules(stored: string | null | undefined): ApiAccessRule[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stored || '[]');
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry): ApiAccessRule[] => {
+        if (typeof entry === 'string') return [{ effect: 'allow', match: entry }];
+        if (entry && typeof entry === 'object' && typeof entry.match === 'string') {
+            return [{
+                effect: entry.effect === 'deny' ? 'deny' : 'allow',
+                match: entry.match,
+                ...(typeof entry.quota_per_hour === 'number' ? { quota_per_hour: entry.quota_per_hour } : {}),
+                ...(typeof entry.note === 'string' && entry.note ? { note: entry.note } : {}),
+            }];
+        }
+        return [];
+    });
+}
+
+/**
+ * Problems with a setting's rules, by rule index. Empty when they can be saved.
+ */
+export function accessRuleErrors(stored: string | null | undefined): Record<number, string> {
+    const errors: Record<number, string> = {};
+    parseRules(stored).forEach((rule, i) => {
+        const problem = validateRule(rule);
+        if (problem) errors[i] = problem;
+    });
+    return errors;
+}
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { handleAdminLogin, handleLoginWithResetToken, handleResetPassword } from './api-admin';
+import { verifyPassword } from './password';
+import { createSession, isSessionActive } from './sessions';
+import { createTestD1, TestD1 } from './test/cloudflare';
+import type { Env } from './worker-types';
+
+const post = (path: string, body: Record<string, unknown>) => new Request(`https://forex.grisma.com.np${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.7' },
+    body: JSON.stringify(body),
+});
+
+describe('first admin password', () => {
+    let db: TestD1;
+    let env: Env;
+
+    beforeEach(() => {
+        db = createTestD1('001_db.sql', '006_roles.sql', '007_two_factor.sql', '008_sessions.sql');
+        env = { FOREX_DB: db, JWT_SECRET: 'test-secret' } as unknown as Env;
+        // As README_D1_SETUP.md has the operator do
+        db.exec(`INSERT INTO password_reset_tokens (username, token, expires_at)
+                 VALUES ('admin', 'setup-token', strftime('%Y-%m-%dT%H:%M:%SZ', 'now', '+15 minutes'))`);
+    });
+
+    const storedHash = async () =>
+        (await db.prepare(`SELECT password_hash FROM users WHERE username = 'admin'`).first<{ password_hash: string }>())!.password_hash;
+
+    it('rejects the seeded placeholder like a wrong password', async () => {
+        const response = await handleAdminLogin(post('/api/admin/login', { username: 'admin', password: 'anything', ipAddress: '203.0.113.7', sessionId: 's1' }), env);
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({ success: false, error: 'Invalid credentials' });
+    });
+
+    it('makes a reset token set a password instead of logging in', async () => {
+        const response = await handleLoginWithResetToken(post('/api/admin/login-with-token', { token: 'setup-token' }), env);
+        expect(await response.json()).toEqual({ success: true, passwordResetRequired: true, username: 'admin' });
+
+        const token = await db.prepare(`SELECT used FROM password_reset_tokens WHERE token = 'setup-token'`).first<{ used: number }>();
+        expect(token?.used).toBe(0);
+        expect(await storedHash()).toBe('0'.repeat(64));
+    });
+
+    it('stores the new password as PBKDF2, spends the token and logs out other sessions', async () => {
+        const other = await createSession(post('/api/admin/login', {}), env, 'admin', 'superadmin');
+        const response = await handleResetPassword(post('/api/admin/reset-password', { token: 'setup-token', newPassword: 'correct horse' }), env);
+        expect(response.status).toBe(200);
+        expect(await storedHash()).toMatch(/^pbkdf2\$/);
+        expect((await verifyPassword('correct horse', await storedHash())).valid).toBe(true);
+        expect(await isSessionActive(db, other.refreshToken.split('.')[0])).toBe(false);
+
+        const again = await handleResetPassword(post('/api/admin/reset-password', { token: 'setup-token', newPassword: 'battery staple' }), env);
+        expect(await again.json()).toEqual({ success: false, error: 'Reset token already used' });
+
+        const login = await handleAdminLogin(post('/api/admin/login', { username: 'admin', password: 'correct horse', ipAddress: '203.0.113.7', sessionId: 's1' }), env);
+        expect(await login.json()).toMatchObject({ success: true, username: 'admin', role: 'superadmin' });
+    });
+});
@@ -1,15 +1,32 @@
 // iamgrisma/forexnepal/forexnepal-3a6e83ee59906891a05be1ef38aac80d81ccf17d/src/api-admin.ts
 // --- ADMIN-FACING API HANDLERS ---
 
-import { Env, ExecutionContext, SiteSettings, D1Database, ApiAccessSetting, D1PreparedStatement, UserProfile } from './worker-types';
-import { corsHeaders, CURRENCIES, CURRENCY_MAP } from './constants';
+import { Env, ExecutionContext, SiteSettings, D1Database, ApiAccessSetting, ApiAccessRule, ApiKey, D1PreparedStatement, UserProfile, CurrencyRecord, BackfillJob, BackfillDateLog, IngestionRun, DataAnomaly, Webhook, WebhookDelivery, SubscriberStatus, NewsletterSubscriber, NewsletterIssue, NewsletterDelivery } from './worker-types';
+import { corsHeaders } from './constants';
 import { generateSlug, formatDate } from './worker-utils';
 // --- MODIFIED: Import new auth function ---
-import { verifyToken, simpleHash, simpleHashCompare, generateToken, getUsernameFromToken } from './auth';
-import { processAndStoreApiData } from './scheduled';
-import { getAllSettings } from './api-helpers';
+import { getUsernameFromToken, getSessionIdFromToken, generatePreAuthToken, getPreAuthClaims } from './auth';
+import { generateApiKey } from './api-keys';
+import { createSession, refreshSession, revokeSession, revokeUserSessions, listActiveSessions } from './sessions';
+import { hashPassword, verifyPassword, isPlaceholderHash } from './password';
+import { generateTotpSecret, buildOtpAuthUri, verifyTotpCode, generateRecoveryCodes, hashRecoveryCode } from './totp';
+import { processAndStoreApiData, fetchNrbRates, parseNrbPayload, NrbApiResponse } from './scheduled';
+import { getAllSettings, resolveAccess } from './api-helpers';
+import { parseIp, parseRules, validateRule } from './access-rules';
+import { getRatesForDate, getRatesForDates, getRecentRates, buildUpsertStatements, toWideRow, fromWideRow, diffRates, RateInput } from './rates-store';
+import { getCurrencyRegistry, invalidateCurrencyCache, CURRENCY_REGIONS } from './currency-registry';
+import { getJumpThreshold, JUMP_THRESHOLD_SETTING } from './data-quality';
+import { normalizeRole, ROLES, Role } from './permissions';
+import { createBackfillJob, runBackfillStep, NRB_EARLIEST_DATE, DEFAULT_CHUNK_DAYS, MAX_CHUNK_DAYS } from './backfill';
+import { purgeRatesCache } from './http-cache';
+import { API_USAGE_RETENTION_DAYS, getApiUsageReport, getApiUsageRows, usageRange } from './api-usage';
+import { csvField } from './export';
+import { sendBrevoEmail } from './brevo';
+import { WEBHOOK_EVENTS, WebhookInput, generateWebhookSecret, validateWebhookInput, queueRateEvents, queueWebhookEvent, queueWebhookPing, postPublishedData, deliverDueWebhooks, deliverInBackground } from './webhooks';
 
 const API_SETTINGS_CACHE_KEY = 'api_access_settings_v1';
+const FETCH_NRB_MAX_DAYS = 90; // Longer ranges go through the historical backfill job
+const ADMIN_EMAIL_SENDER = { name: 'Forex Nepal Admin', email: 'cadmin@grisma.com.np' };
 
 // --- Helper function to get the token from the request ---
 function getAuthToken(request: Request): string | null {
@@ -44,8 +61,10 @@ export async function handleSiteSettings(request: Request, env: Env): Promise<Re
                 .bind(settings.adsense_enabled ? 'true' : 'false');
             const stmt3 = env.FOREX_DB.prepare("INSERT OR REPLACE INTO site_settings (key, value) VALUES ('adsense_exclusions', ?)")
                 .bind(settings.adsense_exclusions || '/admin,/login');
+            const stmt4 = env.FOREX_DB.prepare("INSERT OR REPLACE INTO site_settings (key, value) VALUES ('require_2fa', ?)")
+                .bind(settings.require_2fa ? 'true' : 'false');
 
-            await env.FOREX_DB.batch([stmt1, stmt2, stmt3]);
+            await env.FOREX_DB.batch([stmt1, stmt2, stmt3, stmt4]);
             await env.API_SETTINGS_CACHE.delete(API_SETTINGS_CACHE_KEY); 
             const updatedSettings = await getAllSettings(env.FOREX_DB);
             return new Response(JSON.stringify(updatedSettings), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
@@ -129,18 +148,13 @@ export async function handleAdminLogin(request: Request, env: Env): Promise<Resp
         }
 
         const user = await env.FOREX_DB.prepare(
-            `SELECT username, password_hash FROM users WHERE username = ? AND is_active = 1`
-        ).bind(username).first<{ username: string; password_hash: string | null }>();
-
-        let isValid = false;
-        let mustChangePassword = false;
+            `SELECT username, password_hash, role FROM users WHERE username = ? AND is_active = 1`
+        ).bind(username).first<{ username: string; password_hash: string | null; role: string }>();
 
-        if (user && user.password_hash) {
-            isValid = await simpleHashCompare(password, user.password_hash);
-            if (isValid && user.password_hash === '0000000000000000000000000000000000000000000000000000000000000000') {
-                mustChangePassword = true;
-            }
-        }
+        // The seeded placeholder never verifies, so it fails like any wrong password; the first
+        // password is set with a reset token (see README_D1_SETUP.md)
+        const check = user ? await verifyPassword(password, user.password_hash) : { valid: false, needsRehash: false };
+        const isValid = check.valid;
 
         await env.FOREX_DB.prepare(
             `INSERT INTO login_attempts (ip_address, session_id, username, success, type) VALUES (?, ?, ?, ?, 'login')`
@@ -150,13 +164,14 @@ export async function handleAdminLogin(request: Request, env: Env): Promise<Resp
             return new Response(JSON.stringify({ success: false, error: 'Invalid credentials' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
         }
 
-        const token = await generateToken(username, env.JWT_SECRET);
-        return new Response(JSON.stringify({
-            success: true,
-            token,
-            username,
-            mustChangePassword
-        }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        // Upgrade legacy hashes now that we have the plaintext
+        if (check.needsRehash) {
+            await env.FOREX_DB.prepare(
+                `UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE username = ?`
+            ).bind(await hashPassword(password), username).run();
+        }
+
+        return await completeFirstFactor(request, env, username, normalizeRole(user!.role));
 
     } catch (error: any) {
         console.error('Login error:', error.message, error.cause);
@@ -220,13 +235,13 @@ export async function handleChangePassword(request: Request, env: Env): Promise<
 
         let newPasswordHash: string | null = null;
         if (keepSamePassword) {
-            if (user.password_hash && user.password_hash !== '0000000000000000000000000000000000000000000000000000000000000000') {
+            if (!isPlaceholderHash(user.password_hash)) {
                 newPasswordHash = user.password_hash;
             } else {
                 return new Response(JSON.stringify({ success: false, error: 'Cannot keep password, no valid hash found.' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
             }
         } else {
-            newPasswordHash = await simpleHash(newPassword);
+            newPasswordHash = await hashPassword(newPassword);
         }
 
         await env.FOREX_DB.prepare(
@@ -235,6 +250,11 @@ export async function handleChangePassword(request: Request, env: Env): Promise<
 
         await env.FOREX_DB.prepare(`DELETE FROM user_recovery`).run();
 
+        // Everywhere else has to log in again with the new password
+        if (!keepSamePassword) {
+            await revokeUserSessions(env, username, await getSessionIdFromToken(token!, env.JWT_SECRET));
+        }
+
         return new Response(JSON.stringify({ success: true, message: "Password updated." }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
     } catch (error: any) {
         console.error('Password change error:', error.message, error.cause);
@@ -254,82 +274,54 @@ async function sendPasswordResetEmail(
     resetUrl: string,
     ctx: ExecutionContext
 ): Promise<void> {
-    const BREVO_API_KEY = env.BREVO_API_KEY;
-    if (!BREVO_API_KEY) {
-        console.error('BREVO_API_KEY secret not set in Cloudflare Worker.');
-        return;
-    }
-
-    const emailPromise = fetch('https://api.brevo.com/v3/smtp/email', {
-        method: 'POST',
-        headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-            'api-key': BREVO_API_KEY,
-        },
-        body: JSON.stringify({
-            sender: {
-                name: 'Forex Nepal Admin',
-                email: 'cadmin@grisma.com.np',
-            },
-            to: [{ email: to, name: username }],
-            subject: 'Login / Password Reset Request - Forex Nepal Admin', // Updated
-            htmlContent: `
-              <!DOCTYPE html>
-              <html>
-              <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale: 1.0">
-                <style>
-                  body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-                  .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-                  .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-                  .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
-                  .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
-                  .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
-                  .token { font-family: 'Courier New', monospace; background: #e9ecef; padding: 10px; border-radius: 4px; font-size: 18px; letter-spacing: 2px; }
-                </style>
-              </head>
-              <body>
-                <div class="container">
-                  <div class="header">
-                    <h1>Login / Password Reset Request</h1>
-                  </div>
-                  <div class="content">
-                    <p>Hello <strong>${username}</strong>,</p>
-                    <p>We received a request for a one-time login link or password reset for your Forex Nepal Admin Dashboard account.</p>
-                    <p>Click the button below to log in directly or to reset your password:</p>
-                    <p style="text-align: center;">
-                      <a href="${resetUrl}" class="button">Login / Reset Password</a>
-                    </p>
-                    <p>Or copy and paste this link into your browser:</p>
-                    <p style="word-break: break-all; color: #667eea;">${resetUrl}</p>
-                    <p>Alternatively, use this token on the reset page:</p>
-                    <p style="text-align: center;" class="token">${resetToken}</p>
-                    <p><strong>This link and token will expire in 15 minutes and can only be used once.</strong></p>
-                    <p>If you didn't request this, please ignore this email or contact support if you're concerned about your account security.</p>
-                  </div>
-                  <div class="footer">
-                    <p>Forex Nepal Admin Dashboard | Powered by Grisma</p>
-                    <p>This is an automated email, please do not reply.</p>
-                  </div>
-                </div>
-              </body>
-              </html>
-            `,
-        }),
-    }).then(async (emailResponse) => {
-         if (!emailResponse.ok) {
-            const errorText = await emailResponse.text();
-            console.error('Brevo API error:', errorText);
-        } else {
-            console.log('Password reset email sent successfully via Brevo.');
-        }
-    }).catch(emailError => {
-        console.error('Email sending error:', emailError);
-    });
-
-    ctx.waitUntil(emailPromise);
+    ctx.waitUntil(sendBrevoEmail(env, {
+        sender: ADMIN_EMAIL_SENDER,
+        to: [{ email: to, name: username }],
+        subject: 'Login / Password Reset Request - Forex Nepal Admin', // Updated
+        htmlContent: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale: 1.0">
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+              .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+              .button { display: inline-block; padding: 12px 30px; background: #667eea; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+              .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+              .token { font-family: 'Courier New', monospace; background: #e9ecef; padding: 10px; border-radius: 4px; font-size: 18px; letter-spacing: 2px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>Login / Password Reset Request</h1>
+              </div>
+              <div class="content">
+                <p>Hello <strong>${username}</strong>,</p>
+                <p>We received a request for a one-time login link or password reset for your Forex Nepal Admin Dashboard account.</p>
+                <p>Click the button below to log in directly or to reset your password:</p>
+                <p style="text-align: center;">
+                  <a href="${resetUrl}" class="button">Login / Reset Password</a>
+                </p>
+                <p>Or copy and paste this link into your browser:</p>
+                <p style="word-break: break-all; color: #667eea;">${resetUrl}</p>
+                <p>Alternatively, use this token on the reset page:</p>
+                <p style="text-align: center;" class="token">${resetToken}</p>
+                <p><strong>This link and token will expire in 15 minutes and can only be used once.</strong></p>
+                <p>If you didn't request this, please ignore this email or contact support if you're concerned about your account security.</p>
+              </div>
+              <div class="footer">
+                <p>Forex Nepal Admin Dashboard | Powered by Grisma</p>
+                <p>This is an automated email, please do not reply.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+    }, 'password reset'));
 }
 
 /**
@@ -417,15 +409,18 @@ export async function handleResetPassword(request: Request, env: Env): Promise<R
             return new Response(JSON.stringify({ success: false, error: 'Reset token expired' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
         }
 
-        const newPasswordHash = await simpleHash(newPassword);
+        const newPasswordHash = await hashPassword(newPassword);
         await env.FOREX_DB.prepare(
-            `UPDATE users SET password_hash = ?, plaintext_password = NULL, updated_at = datetime('now') WHERE username = ?`
+            `UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE username = ?`
         ).bind(newPasswordHash, resetRecord.username).run();
 
         await env.FOREX_DB.prepare(
             `UPDATE password_reset_tokens SET used = 1 WHERE token = ?`
         ).bind(token).run();
 
+        // Whoever else held a session (possibly the reason for the reset) is logged out
+        await revokeUserSessions(env, resetRecord.username);
+
         return new Response(JSON.stringify({ success: true, message: "Password reset successfully" }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
 
     } catch (error: any) {
@@ -466,26 +461,404 @@ export async function handleLoginWithResetToken(request: Request, env: Env): Pro
             return new Response(JSON.stringify({ success: false, error: 'This token has expired' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
         }
 
+        // Log the user in by generating a JWT
+        const user = await env.FOREX_DB.prepare(
+            `SELECT role, password_hash FROM users WHERE username = ? AND is_active = 1`
+        ).bind(resetRecord.username).first<{ role: string; password_hash: string | null }>();
+        if (!user) {
+            return new Response(JSON.stringify({ success: false, error: 'Account is inactive' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        // An account still on the seeded placeholder must spend the token on setting a password
+        if (isPlaceholderHash(user.password_hash)) {
+            return new Response(JSON.stringify({ success: true, passwordResetRequired: true, username: resetRecord.username }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
         // Mark token as used
         await env.FOREX_DB.prepare(
             `UPDATE password_reset_tokens SET used = 1 WHERE token = ?`
         ).bind(token).run();
 
-        // Log the user in by generating a JWT
-        const jwtToken = await generateToken(resetRecord.username, env.JWT_SECRET);
-        
+        // A reset token stands in for the password; the second factor is still required
+        return await completeFirstFactor(request, env, resetRecord.username, normalizeRole(user.role));
+
+    } catch (error: any) {
+        console.error('Login with reset token error:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+
+// --- TWO-FACTOR AUTHENTICATION ---
+
+const TWO_FACTOR_MAX_FAILURES = 5; // Per account, per 15 minutes
+
+/**
+ * Finishes a successful password, reset-token or Google login. Accounts with 2FA, and
+ * every account while 2FA is required site-wide, get a short-lived pre-auth token for
+ * the second step instead of a session token.
+ */
+async function completeFirstFactor(request: Request, env: Env, username: string, role: Role): Promise<Response> {
+    const totp = await env.FOREX_DB.prepare(
+        `SELECT enabled FROM user_totp WHERE username = ?`
+    ).bind(username).first<{ enabled: number }>();
+
+    if (totp?.enabled) {
+        const preAuthToken = await generatePreAuthToken(username, env.JWT_SECRET, 'verify');
+        return new Response(JSON.stringify({ success: true, twoFactorRequired: true, preAuthToken, username }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    const settings = await getAllSettings(env.FOREX_DB);
+    if (settings.require_2fa) {
+        const preAuthToken = await generatePreAuthToken(username, env.JWT_SECRET, 'enroll');
+        return new Response(JSON.stringify({ success: true, twoFactorSetupRequired: true, preAuthToken, username }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    const { token, refreshToken } = await createSession(request, env, username, role);
+    return new Response(JSON.stringify({ success: true, token, refreshToken, username, role }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+}
+
+/**
+ * Creates (or replaces) a pending TOTP secret. Returns null if 2FA is already active.
+ */
+async function startTotpEnrollment(env: Env, username: string): Promise<{ secret: string; otpauthUri: string } | null> {
+    const secret = generateTotpSecret();
+    const { meta } = await env.FOREX_DB.prepare(
+        `INSERT INTO user_totp (username, secret, enabled) VALUES (?, ?, 0)
+         ON CONFLICT(username) DO UPDATE SET secret = excluded.secret, last_step = NULL, created_at = datetime('now')
+         WHERE user_totp.enabled = 0`
+    ).bind(username, secret).run();
+    if (!meta?.changes) return null;
+    return { secret, otpauthUri: buildOtpAuthUri(username, secret) };
+}
+
+/**
+ * Replaces a user's recovery codes. Returns the plaintext codes, which are shown once.
+ */
+async function replaceRecoveryCodes(env: Env, username: string): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    const stmts: D1PreparedStatement[] = [
+        env.FOREX_DB.prepare(`DELETE FROM user_recovery_codes WHERE username = ?`).bind(username),
+    ];
+    for (const code of codes) {
+        stmts.push(env.FOREX_DB.prepare(
+            `INSERT INTO user_recovery_codes (username, code_hash) VALUES (?, ?)`
+        ).bind(username, await hashRecoveryCode(code)));
+    }
+    await env.FOREX_DB.batch(stmts);
+    return codes;
+}
+
+/**
+ * Activates a pending enrollment once the user proves their app produces valid codes.
+ * Returns fresh recovery codes, or null if the code is wrong or nothing is pending.
+ */
+async function confirmTotpEnrollment(env: Env, username: string, code: string): Promise<string[] | null> {
+    const pending = await env.FOREX_DB.prepare(
+        `SELECT secret FROM user_totp WHERE username = ? AND enabled = 0`
+    ).bind(username).first<{ secret: string }>();
+    if (!pending) return null;
+
+    const step = await verifyTotpCode(pending.secret, code, null);
+    if (step === null) return null;
+
+    await env.FOREX_DB.prepare(
+        `UPDATE user_totp SET enabled = 1, last_step = ?, enabled_at = datetime('now') WHERE username = ?`
+    ).bind(step, username).run();
+    return await replaceRecoveryCodes(env, username);
+}
+
+/**
+ * Checks a TOTP code or an unused recovery code for an enrolled user, consuming it.
+ */
+async function verifySecondFactor(env: Env, username: string, code?: string, recoveryCode?: string): Promise<{ valid: boolean; usedRecoveryCode: boolean }> {
+    if (recoveryCode) {
+        const { meta } = await env.FOREX_DB.prepare(
+            `UPDATE user_recovery_codes SET used_at = datetime('now') WHERE username = ? AND code_hash = ? AND used_at IS NULL`
+        ).bind(username, await hashRecoveryCode(recoveryCode)).run();
+        return { valid: !!meta?.changes, usedRecoveryCode: true };
+    }
+
+    const totp = await env.FOREX_DB.prepare(
+        `SELECT secret, last_step FROM user_totp WHERE username = ? AND enabled = 1`
+    ).bind(username).first<{ secret: string; last_step: number | null }>();
+    if (!totp || !code) return { valid: false, usedRecoveryCode: false };
+
+    const step = await verifyTotpCode(totp.secret, code, totp.last_step);
+    if (step === null) return { valid: false, usedRecoveryCode: false };
+
+    // Guarded so the same code can't win two concurrent requests
+    const { meta } = await env.FOREX_DB.prepare(
+        `UPDATE user_totp SET last_step = ? WHERE username = ? AND (last_step IS NULL OR last_step < ?)`
+    ).bind(step, username, step).run();
+    return { valid: !!meta?.changes, usedRecoveryCode: false };
+}
+
+async function countUnusedRecoveryCodes(env: Env, username: string): Promise<number> {
+    const row = await env.FOREX_DB.prepare(
+        `SELECT COUNT(*) as count FROM user_recovery_codes WHERE username = ? AND used_at IS NULL`
+    ).bind(username).first<{ count: number }>();
+    return row?.count || 0;
+}
+
+/**
+ * (PUBLIC) Second login step, authorised by a pre-auth token.
+ * POST /api/admin/login/2fa          { preAuthToken, code } or { preAuthToken, recoveryCode }
+ * POST /api/admin/login/2fa/setup    { preAuthToken } when 2FA is required but not yet set up
+ * POST /api/admin/login/2fa/enable   { preAuthToken, code } finishes that setup and logs in
+ */
+export async function handleTwoFactorLogin(request: Request, env: Env): Promise<Response> {
+    if (request.method !== 'POST') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    const { pathname } = new URL(request.url);
+    const action = pathname.replace(/^\/api\/admin\/login\/2fa\/?/, '') || 'verify';
+
+    try {
+        const body = await request.json() as { preAuthToken?: string; code?: string; recoveryCode?: string };
+        const claims = body.preAuthToken ? await getPreAuthClaims(body.preAuthToken, env.JWT_SECRET) : null;
+        const expectedPurpose = action === 'verify' ? 'verify' : 'enroll';
+        if (!claims || claims.purpose !== expectedPurpose) {
+            return new Response(JSON.stringify({ success: false, error: 'Your login session has expired. Please log in again.' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        const { username } = claims;
+
+        const user = await env.FOREX_DB.prepare(
+            `SELECT role FROM users WHERE username = ? AND is_active = 1`
+        ).bind(username).first<{ role: string }>();
+        if (!user) {
+            return new Response(JSON.stringify({ success: false, error: 'Account is inactive' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        const role = normalizeRole(user.role);
+
+        if (action === 'setup') {
+            const enrollment = await startTotpEnrollment(env, username);
+            if (!enrollment) {
+                return new Response(JSON.stringify({ success: false, error: 'Two-factor authentication is already enabled.' }), { status: 409, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true, ...enrollment }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const failures = await env.FOREX_DB.prepare(
+            `SELECT COUNT(*) as count FROM login_attempts WHERE username = ? AND type = '2fa' AND success = 0 AND datetime(attempt_time) > datetime('now', '-15 minutes')`
+        ).bind(username).first<{ count: number }>();
+        if ((failures?.count || 0) >= TWO_FACTOR_MAX_FAILURES) {
+            return new Response(JSON.stringify({ success: false, error: 'Too many incorrect codes. Try again in 15 minutes.' }), { status: 429, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        let recoveryCodes: string[] | null = null;
+        let usedRecoveryCode = false;
+        let valid = false;
+        if (action === 'enable') {
+            recoveryCodes = body.code ? await confirmTotpEnrollment(env, username, body.code) : null;
+            valid = !!recoveryCodes;
+        } else if (action === 'verify') {
+            ({ valid, usedRecoveryCode } = await verifySecondFactor(env, username, body.code, body.recoveryCode));
+        } else {
+            return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const ip = request.headers.get('CF-Connecting-IP') || 'unknown_ip';
+        await env.FOREX_DB.prepare(
+            `INSERT INTO login_attempts (ip_address, session_id, username, success, type) VALUES (?, 'pre-auth', ?, ?, '2fa')`
+        ).bind(ip, username, valid ? 1 : 0).run();
+
+        if (!valid) {
+            return new Response(JSON.stringify({ success: false, error: 'Invalid code' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const { token, refreshToken } = await createSession(request, env, username, role);
         return new Response(JSON.stringify({
             success: true,
-            token: jwtToken,
-            username: resetRecord.username,
+            token,
+            refreshToken,
+            username,
+            role,
+            ...(recoveryCodes && { recoveryCodes }),
+            ...(usedRecoveryCode && { recoveryCodesRemaining: await countUnusedRecoveryCodes(env, username) }),
         }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
 
     } catch (error: any) {
-        console.error('Login with reset token error:', error.message, error.cause);
+        console.error(`Error in handleTwoFactorLogin (${action}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) Manage your own 2FA from the profile page.
+ * GET  /api/admin/profile/2fa                  status
+ * POST /api/admin/profile/2fa/setup            start enrollment (secret + otpauth URI)
+ * POST /api/admin/profile/2fa/enable           { code } confirm enrollment, returns recovery codes
+ * POST /api/admin/profile/2fa/recovery-codes   { code } replace recovery codes
+ * POST /api/admin/profile/2fa/disable          { code } or { recoveryCode }
+ */
+export async function handleTwoFactorProfile(request: Request, env: Env): Promise<Response> {
+    const token = getAuthToken(request);
+    const username = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+
+    if (!username) {
+        return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    const { pathname } = new URL(request.url);
+    const action = pathname.replace(/^\/api\/admin\/profile\/2fa\/?/, '');
+
+    try {
+        if (request.method === 'GET' && action === '') {
+            const totp = await env.FOREX_DB.prepare(
+                `SELECT enabled, enabled_at FROM user_totp WHERE username = ?`
+            ).bind(username).first<{ enabled: number; enabled_at: string | null }>();
+            const settings = await getAllSettings(env.FOREX_DB);
+            return new Response(JSON.stringify({
+                success: true,
+                enabled: !!totp?.enabled,
+                enabled_at: totp?.enabled ? totp.enabled_at : null,
+                required: settings.require_2fa,
+                recovery_codes_remaining: totp?.enabled ? await countUnusedRecoveryCodes(env, username) : 0,
+            }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        if (request.method !== 'POST') {
+            return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        if (action === 'setup') {
+            const enrollment = await startTotpEnrollment(env, username);
+            if (!enrollment) {
+                return new Response(JSON.stringify({ success: false, error: 'Two-factor authentication is already enabled.' }), { status: 409, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true, ...enrollment }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const body = await request.json() as { code?: string; recoveryCode?: string };
+
+        if (action === 'enable') {
+            const recoveryCodes = body.code ? await confirmTotpEnrollment(env, username, body.code) : null;
+            if (!recoveryCodes) {
+                return new Response(JSON.stringify({ success: false, error: 'Invalid code. Check the time on your device and try again.' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true, recoveryCodes }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        if (action === 'recovery-codes' || action === 'disable') {
+            if (action === 'disable' && (await getAllSettings(env.FOREX_DB)).require_2fa) {
+                return new Response(JSON.stringify({ success: false, error: 'Two-factor authentication is required for all accounts and cannot be turned off.' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            const { valid } = await verifySecondFactor(env, username, body.code, action === 'disable' ? body.recoveryCode : undefined);
+            if (!valid) {
+                return new Response(JSON.stringify({ success: false, error: 'Invalid code' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            if (action === 'recovery-codes') {
+                const recoveryCodes = await replaceRecoveryCodes(env, username);
+                return new Response(JSON.stringify({ success: true, recoveryCodes }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            await env.FOREX_DB.batch([
+                env.FOREX_DB.prepare(`DELETE FROM user_totp WHERE username = ?`).bind(username),
+                env.FOREX_DB.prepare(`DELETE FROM user_recovery_codes WHERE username = ?`).bind(username),
+            ]);
+            return new Response(JSON.stringify({ success: true }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleTwoFactorProfile (${request.method} ${action}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+
+// --- SESSIONS ---
+
+/**
+ * (PUBLIC) Exchanges a refresh token for a new access token and refresh token.
+ * POST /api/admin/refresh { refreshToken }
+ */
+export async function handleRefreshToken(request: Request, env: Env): Promise<Response> {
+    if (request.method !== 'POST') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    try {
+        const { refreshToken } = await request.json() as { refreshToken?: string };
+        const refreshed = refreshToken ? await refreshSession(request, env, refreshToken) : null;
+        if (!refreshed) {
+            return new Response(JSON.stringify({ success: false, error: 'Your session has expired. Please log in again.' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        return new Response(JSON.stringify({ success: true, ...refreshed }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error('Refresh token error:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) Ends the session the request was made with.
+ */
+export async function handleLogout(request: Request, env: Env): Promise<Response> {
+    if (request.method !== 'POST') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    const token = getAuthToken(request);
+    const sessionId = token ? await getSessionIdFromToken(token, env.JWT_SECRET) : null;
+    if (!sessionId) {
+        return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    try {
+        await revokeSession(env, sessionId);
+        return new Response(JSON.stringify({ success: true }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error('Logout error:', error.message, error.cause);
         return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
+/**
+ * (ADMIN) Your own active sessions.
+ * GET    /api/admin/profile/sessions                 list, with the current one marked
+ * POST   /api/admin/profile/sessions/revoke-others   log out everywhere else
+ * DELETE /api/admin/profile/sessions/:id             log out one session
+ */
+export async function handleSessions(request: Request, env: Env): Promise<Response> {
+    const token = getAuthToken(request);
+    const username = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+    const currentSessionId = token ? await getSessionIdFromToken(token, env.JWT_SECRET) : null;
+
+    if (!username || !currentSessionId) {
+        return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), { status: 401, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    const { pathname } = new URL(request.url);
+    const action = pathname.replace(/^\/api\/admin\/profile\/sessions\/?/, '');
+
+    try {
+        if (request.method === 'GET' && action === '') {
+            const sessions = await listActiveSessions(env, username);
+            return new Response(JSON.stringify({
+                success: true,
+                sessions: sessions.map(session => ({ ...session, current: session.id === currentSessionId })),
+            }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        if (request.method === 'POST' && action === 'revoke-others') {
+            const revoked = await revokeUserSessions(env, username, currentSessionId);
+            return new Response(JSON.stringify({ success: true, revoked }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        if (request.method === 'DELETE' && action) {
+            // Scoped to the caller, so one user can't end another's session by id
+            const revoked = await revokeSession(env, decodeURIComponent(action), username);
+            if (!revoked) {
+                return new Response(JSON.stringify({ success: false, error: 'Session not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleSessions (${request.method} ${action}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
 
 /**
  * (ADMIN) Generates a password reset token for a user *without* sending an email.
@@ -539,7 +912,9 @@ export async function handleUsers(request: Request, env: Env): Promise<Response>
     try {
         if (request.method === 'GET') {
             const { results } = await env.FOREX_DB.prepare(
-                `SELECT username, email, role, is_active, created_at, full_name, mobile_number, profile_pic_url FROM users ORDER BY created_at DESC`
+                `SELECT username, email, role, is_active, created_at, full_name, mobile_number, profile_pic_url,
+                    EXISTS(SELECT 1 FROM user_totp t WHERE t.username = users.username AND t.enabled = 1) AS totp_enabled
+                 FROM users ORDER BY created_at DESC`
             ).all();
             return new Response(JSON.stringify({ success: true, users: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
@@ -549,11 +924,14 @@ export async function handleUsers(request: Request, env: Env): Promise<Response>
             if (!username || !password) {
                 return new Response(JSON.stringify({ success: false, error: 'Username and password required' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
             }
+            if (role && !ROLES.includes(role)) {
+                return new Response(JSON.stringify({ success: false, error: `Role must be one of: ${ROLES.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
             
-            const passwordHash = await simpleHash(password);
+            const passwordHash = await hashPassword(password);
             await env.FOREX_DB.prepare(
                 `INSERT INTO users (username, email, password_hash, role, created_at, updated_at, is_active) VALUES (?, ?, ?, ?, datetime('now'), datetime('now'), 1)`
-            ).bind(username, email || null, passwordHash, role || 'admin').run();
+            ).bind(username, email || null, passwordHash, role || 'viewer').run();
             
             return new Response(JSON.stringify({ success: true }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
@@ -569,7 +947,7 @@ export async function handleUsers(request: Request, env: Env): Promise<Response>
 }
 
 /**
- * (ADMIN) DELETE a user by username.
+ * (ADMIN) PUT a user's role (or reset their 2FA) or DELETE a user by username.
  * --- SECURITY FIX APPLIED ---
  */
 export async function handleUserById(request: Request, env: Env): Promise<Response> {
@@ -584,18 +962,48 @@ export async function handleUserById(request: Request, env: Env): Promise<Respon
     const usernameToDelete = url.pathname.split('/').pop();
 
     if (adminUsername === usernameToDelete) {
-        return new Response(JSON.stringify({ success: false, error: 'You cannot delete your own account.' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        return new Response(JSON.stringify({ success: false, error: 'You cannot change or delete your own account here.' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
     
     try {
+        if (request.method === 'PUT') {
+            const { role, reset_2fa } = await request.json() as { role?: Role; reset_2fa?: boolean };
+
+            // For a lost authenticator: the user logs in with their password and enrolls again
+            if (reset_2fa) {
+                await env.FOREX_DB.batch([
+                    env.FOREX_DB.prepare(`DELETE FROM user_totp WHERE username = ?`).bind(usernameToDelete),
+                    env.FOREX_DB.prepare(`DELETE FROM user_recovery_codes WHERE username = ?`).bind(usernameToDelete),
+                ]);
+                return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+            }
+
+            if (!role || !ROLES.includes(role)) {
+                return new Response(JSON.stringify({ success: false, error: `Role must be one of: ${ROLES.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE users SET role = ?, updated_at = datetime('now') WHERE username = ?`
+            ).bind(role, usernameToDelete).run();
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            // The new role applies from the user's next token refresh
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
         if (request.method === 'DELETE') {
-            await env.FOREX_DB.prepare(`DELETE FROM users WHERE username = ?`).bind(usernameToDelete).run();
+            await env.FOREX_DB.batch([
+                env.FOREX_DB.prepare(`DELETE FROM users WHERE username = ?`).bind(usernameToDelete),
+                env.FOREX_DB.prepare(`DELETE FROM user_totp WHERE username = ?`).bind(usernameToDelete),
+                env.FOREX_DB.prepare(`DELETE FROM user_recovery_codes WHERE username = ?`).bind(usernameToDelete),
+                env.FOREX_DB.prepare(`UPDATE sessions SET revoked_at = datetime('now') WHERE username = ? AND revoked_at IS NULL`).bind(usernameToDelete),
+            ]);
             return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
         
         return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     } catch (error: any) {
-        console.error('User delete error:', error.message, error.cause);
+        console.error(`Error in handleUserById (${request.method}):`, error.message, error.cause);
         return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
@@ -603,7 +1011,7 @@ export async function handleUserById(request: Request, env: Env): Promise<Respon
 /**
  * (ADMIN) GET all posts or POST a new post.
  */
-export async function handlePosts(request: Request, env: Env): Promise<Response> {
+export async function handlePosts(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
         if (request.method === 'GET') {
             const { results } = await env.FOREX_DB.prepare(`SELECT id, title, slug, status, published_at, created_at, updated_at FROM posts ORDER BY created_at DESC`).all();
@@ -622,6 +1030,11 @@ export async function handlePosts(request: Request, env: Env): Promise<Response>
                 post.author_name || 'Grisma', post.author_url || 'https://grisma.com.np/about', status, published_at,
                 post.meta_title || post.title || 'Untitled', post.meta_description || post.excerpt || null, post.meta_keywords || null
             ).run();
+            if (status === 'published' && meta?.lastRowId) {
+                deliverInBackground(env, ctx, queueWebhookEvent(env, 'post.published', postPublishedData(meta.lastRowId, {
+                    title: post.title || 'Untitled', slug, excerpt: post.excerpt || null, published_at,
+                })));
+            }
             return new Response(JSON.stringify({ success: true, id: meta?.lastRowId || null }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
         return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
@@ -637,7 +1050,7 @@ export async function handlePosts(request: Request, env: Env): Promise<Response>
 /**
  * (ADMIN) GET, PUT, or DELETE a single post by its ID.
  */
-export async function handlePostById(request: Request, env: Env): Promise<Response> {
+export async function handlePostById(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const id = url.pathname.split('/').pop();
     const postId = parseInt(id || '', 10);
@@ -658,6 +1071,7 @@ export async function handlePostById(request: Request, env: Env): Promise<Respon
             let published_at = post.published_at;
             if (status === 'published' && !published_at) published_at = new Date().toISOString();
             else if (status === 'draft') published_at = null;
+            const previous = await env.FOREX_DB.prepare(`SELECT status FROM posts WHERE id = ?`).bind(postId).first<{ status: string }>();
             await env.FOREX_DB.prepare(
                 `UPDATE posts SET title=?, slug=?, excerpt=?, content=?, featured_image_url=?, author_name=?, author_url=?, status=?, published_at=?, meta_title=?, meta_description=?, meta_keywords=?, updated_at=datetime('now') WHERE id=?`
             ).bind(
@@ -666,6 +1080,11 @@ export async function handlePostById(request: Request, env: Env): Promise<Respon
                 post.meta_title || post.title || 'Untitled', post.meta_description || post.excerpt || null, post.meta_keywords || null,
                 postId
             ).run();
+            if (previous && previous.status !== 'published' && status === 'published') {
+                deliverInBackground(env, ctx, queueWebhookEvent(env, 'post.published', postPublishedData(postId, {
+                    title: post.title || 'Untitled', slug, excerpt: post.excerpt || null, published_at,
+                })));
+            }
             return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
         }
         if (request.method === 'DELETE') {
@@ -685,16 +1104,18 @@ export async function handlePostById(request: Request, env: Env): Promise<Respon
 /**
  * (ADMIN) GET or POST manual forex data.
  */
-export async function handleForexData(request: Request, env: Env): Promise<Response> {
+export async function handleForexData(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
         if (request.method === 'GET') {
             const url = new URL(request.url);
             const date = url.searchParams.get('date');
             if (date) {
-                const result = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(date).first();
+                const rows = await getRatesForDate(env.FOREX_DB, date);
+                const result = rows.length > 0 ? toWideRow(date, rows) : null;
                 return new Response(JSON.stringify({ success: true, data: result }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
             } else {
-                const { results } = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates ORDER BY date DESC LIMIT 30`).all();
+                const recent = await getRecentRates(env.FOREX_DB, 30);
+                const results = Array.from(recent.entries()).map(([d, rows]) => toWideRow(d, rows));
                 return new Response(JSON.stringify({ success: true, data: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
             }
         }
@@ -704,30 +1125,18 @@ export async function handleForexData(request: Request, env: Env): Promise<Respo
             const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
             if (!date || !dateRegex.test(date)) return new Response(JSON.stringify({ success: false, error: 'Invalid date' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
 
-            const wideColumns: string[] = ['date', 'updated_at'];
-            const widePlaceholders: string[] = ['?', "datetime('now')"];
-            const wideValues: (string | number | null)[] = [date];
-
-            let validRatesFound = false;
-
-            for (const currency of CURRENCIES) {
-                const buyKey = `${currency}_buy`, sellKey = `${currency}_sell`;
-                const parsedBuy = (data[buyKey] === '' || data[buyKey] == null) ? null : parseFloat(data[buyKey]);
-                const parsedSell = (data[sellKey] === '' || data[sellKey] == null) ? null : parseFloat(data[sellKey]);
-
-                wideColumns.push(`"${buyKey}"`, `"${sellKey}"`);
-                widePlaceholders.push('?', '?');
-                wideValues.push(parsedBuy, parsedSell);
+            const registry = await getCurrencyRegistry(env);
+            const rates = fromWideRow(date, data, 'manual', new Map(registry.map(c => [c.iso3, c])));
+            if (rates.length === 0) return new Response(JSON.stringify({ success: false, error: 'No rates provided' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
 
-                if (parsedBuy !== null || parsedSell !== null) {
-                    validRatesFound = true;
-                }
-            }
-
-            if (!validRatesFound) return new Response(JSON.stringify({ success: false, error: 'No rates provided' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
-
-            const wideQuery = `INSERT OR REPLACE INTO forex_rates (${wideColumns.join(', ')}) VALUES (${widePlaceholders.join(', ')})`;
-            await env.FOREX_DB.prepare(wideQuery).bind(...wideValues).run();
+            // Saving a date replaces it completely, so clear currencies that were blanked out.
+            const stored = await getRatesForDates(env.FOREX_DB, [date]);
+            await env.FOREX_DB.batch([
+                env.FOREX_DB.prepare(`DELETE FROM forex_rates WHERE date = ?`).bind(date),
+                ...buildUpsertStatements(env.FOREX_DB, rates, 'replace')
+            ]);
+            await purgeRatesCache(env, [date]);
+            deliverInBackground(env, ctx, queueRateEvents(env, stored, rates, 'replace'));
 
             return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json'} });
         }
@@ -740,71 +1149,989 @@ export async function handleForexData(request: Request, env: Env): Promise<Respo
 
 
 /**
- * (ADMIN) GET all API access settings.
+ * (ADMIN) POST fetch rates from NRB for a date range.
+ * 'update' fills missing rows, 'replace' overwrites them, and 'dry-run' writes nothing
+ * and returns a per-date, per-currency diff against what is stored, as the write mode
+ * in `apply` ('replace' unless given) would make it.
  */
-export async function handleGetApiSettings(request: Request, env: Env): Promise<Response> {
-    try {
-        const { results } = await env.FOREX_DB.prepare("SELECT * FROM api_access_settings ORDER BY endpoint ASC").all<ApiAccessSetting>();
-        return new Response(JSON.stringify({ success: true, settings: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-    } catch (e: any) {
-        console.error('Failed to fetch API settings:', e);
-        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+export async function handleFetchNrb(request: Request, env: Env): Promise<Response> {
+    if (request.method !== 'POST') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
-}
 
-/**
- * (ADMIN) POST (update) API access settings.
- */
-export async function handleUpdateApiSettings(request: Request, env: Env): Promise<Response> {
     try {
-        const settings: ApiAccessSetting[] = await request.json();
-        
-        if (!Array.isArray(settings)) {
-            return new Response(JSON.stringify({ success: false, error: 'Invalid data format, expected an array of settings' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        const url = new URL(request.url);
+        const body = await request.json().catch(() => ({})) as { from?: string; to?: string; mode?: string; apply?: string };
+        const from = body.from || url.searchParams.get('from') || '';
+        const to = body.to || url.searchParams.get('to') || from;
+        const mode = body.mode || url.searchParams.get('mode') || 'update';
+        const apply = body.apply || url.searchParams.get('apply') || 'replace';
+
+        const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+        if (!dateRegex.test(from) || !dateRegex.test(to) || from > to) {
+            return new Response(JSON.stringify({ success: false, error: 'Invalid date range' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        if (mode !== 'update' && mode !== 'replace' && mode !== 'dry-run') {
+            return new Response(JSON.stringify({ success: false, error: "Mode must be 'update', 'replace' or 'dry-run'" }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        if (apply !== 'update' && apply !== 'replace') {
+            return new Response(JSON.stringify({ success: false, error: "Apply must be 'update' or 'replace'" }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        const days = Math.round((Date.parse(to) - Date.parse(from)) / 86400000) + 1;
+        if (days > FETCH_NRB_MAX_DAYS) {
+            return new Response(JSON.stringify({ success: false, error: `Ranges longer than ${FETCH_NRB_MAX_DAYS} days must use the Historical Backfill.` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
         }
 
-        const stmts: D1PreparedStatement[] = [];
-        for (const setting of settings) {
-            if (!setting.endpoint || !setting.access_level) {
-                console.warn('Skipping invalid API setting entry:', setting);
-                continue;
+        // Page through NRB until every page of the range has been read
+        const pages: NrbApiResponse[] = [];
+        let page = 1;
+        let totalPages = 1;
+        do {
+            const data = await fetchNrbRates(from, to, page);
+            if (!data) break;
+            pages.push(data);
+            totalPages = data.pagination?.total_pages || 1;
+            page++;
+        } while (page <= totalPages);
+
+        if (mode === 'dry-run') {
+            const registry = await getCurrencyRegistry(env);
+            const registryByCode = new Map(registry.map(c => [c.iso3, c]));
+            const incoming: RateInput[] = [];
+            const dates = new Set<string>();
+            for (const data of pages) {
+                const parsed = parseNrbPayload(data, registryByCode);
+                incoming.push(...parsed.rates);
+                parsed.dates.forEach(d => dates.add(d));
             }
 
-            stmts.push(
-                env.FOREX_DB.prepare(
-                    `UPDATE api_access_settings 
-                     SET access_level = ?, allowed_rules = ?, quota_per_hour = ?, updated_at = datetime('now')
-                     WHERE endpoint = ?`
-                ).bind(
-                    setting.access_level,
-                    setting.allowed_rules || '[]',
-                    setting.quota_per_hour || -1,
-                    setting.endpoint
-                )
-            );
+            const stored = await getRatesForDates(env.FOREX_DB, Array.from(dates));
+            const diff = diffRates(stored, incoming, apply);
+            const summary = {
+                insert: diff.filter(d => d.action === 'insert').length,
+                change: diff.filter(d => d.action === 'change').length,
+                skipped: diff.filter(d => d.action === 'skipped').length,
+                unchanged: diff.filter(d => d.action === 'unchanged').length,
+            };
+
+            return new Response(JSON.stringify({
+                success: true, mode, apply, from, to, dates: dates.size, summary,
+                changes: diff.filter(d => d.action === 'insert' || d.action === 'change'),
+            }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
 
-        if (stmts.length > 0) {
-            await env.FOREX_DB.batch(stmts);
+        let storedDates = 0;
+        for (const data of pages) {
+            storedDates += await processAndStoreApiData(data, env, mode);
         }
-        
-        await env.API_SETTINGS_CACHE.delete(API_SETTINGS_CACHE_KEY);
 
-        return new Response(JSON.stringify({ success: true, message: `${stmts.length} settings updated` }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-    } catch (e: any) {
-        console.error('Failed to update API settings:', e);
-        return new Response(JSON.stringify({ success: false, error: 'Database update failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        return new Response(JSON.stringify({ success: true, mode, from, to, stored: storedDates }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleFetchNrb:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: error.message || 'Server error' }), { status: 502, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
+
 /**
- * (PUBLIC) Handles the Google OAuth callback.
- * --- MODIFIED: Now updates user profile on login ---
+ * Validates a currency payload from the admin dashboard. Returns an error message, or null if valid.
  */
-export async function handleGoogleLoginCallback(request: Request, env: Env): Promise<Response> {
-  try {
-    const { code } = await request.json();
-    if (!code) {
+function validateCurrency(currency: Partial<CurrencyRecord>): string | null {
+    if (!currency.name || !currency.name.trim()) return 'Name is required';
+    if (!Number.isInteger(Number(currency.unit)) || Number(currency.unit) < 1) return 'Unit must be a positive whole number';
+    if (currency.region && !CURRENCY_REGIONS.includes(currency.region)) return `Region must be one of: ${CURRENCY_REGIONS.join(', ')}`;
+    if (currency.flag_code && !/^[a-z]{2}$/.test(currency.flag_code)) return 'Flag code must be a 2-letter lowercase country code';
+    if (currency.display_order != null && !Number.isInteger(Number(currency.display_order))) return 'Display order must be a whole number';
+    return null;
+}
+
+/**
+ * (ADMIN) GET all registered currencies or POST a new one.
+ */
+export async function handleCurrencies(request: Request, env: Env): Promise<Response> {
+    try {
+        if (request.method === 'GET') {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT * FROM currencies ORDER BY display_order ASC, iso3 ASC`
+            ).all<CurrencyRecord>();
+            return new Response(JSON.stringify({ success: true, currencies: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST') {
+            const currency: Partial<CurrencyRecord> = await request.json();
+            const iso3 = (currency.iso3 || '').toUpperCase();
+            if (!/^[A-Z]{3}$/.test(iso3)) {
+                return new Response(JSON.stringify({ success: false, error: 'ISO3 code must be 3 letters' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            const validationError = validateCurrency(currency);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            await env.FOREX_DB.prepare(
+                `INSERT INTO currencies (iso3, name, unit, region, flag_code, display_order, enabled, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`
+            ).bind(
+                iso3, currency.name!.trim(), Number(currency.unit), currency.region || 'other',
+                currency.flag_code || null, currency.display_order ?? 999, currency.enabled === 0 ? 0 : 1
+            ).run();
+
+            await invalidateCurrencyCache(env);
+            return new Response(JSON.stringify({ success: true }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleCurrencies (${request.method}):`, error.message, error.cause);
+        if (error.message.includes('UNIQUE constraint failed: currencies.iso3')) {
+            return new Response(JSON.stringify({ success: false, error: 'This currency is already registered.' }), { status: 409, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) PUT or DELETE a single currency by its ISO3 code.
+ */
+export async function handleCurrencyByCode(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const iso3 = (url.pathname.split('/').pop() || '').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(iso3)) {
+        return new Response(JSON.stringify({ error: 'Invalid currency code' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        if (request.method === 'PUT') {
+            const currency: Partial<CurrencyRecord> = await request.json();
+            const validationError = validateCurrency(currency);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE currencies SET name = ?, unit = ?, region = ?, flag_code = ?, display_order = ?, enabled = ?, updated_at = datetime('now')
+                 WHERE iso3 = ?`
+            ).bind(
+                currency.name!.trim(), Number(currency.unit), currency.region || 'other',
+                currency.flag_code || null, currency.display_order ?? 999, currency.enabled ? 1 : 0, iso3
+            ).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            await invalidateCurrencyCache(env);
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'DELETE') {
+            // Stored rates are kept; if NRB still publishes the currency it is re-registered with defaults.
+            await env.FOREX_DB.prepare(`DELETE FROM currencies WHERE iso3 = ?`).bind(iso3).run();
+            await invalidateCurrencyCache(env);
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleCurrencyByCode (${request.method}, ${iso3}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+
+/**
+ * (ADMIN) GET recent backfill jobs or POST a new one.
+ * A new job gets its first chunk immediately; the backfill cron takes it from there.
+ */
+export async function handleBackfillJobs(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    try {
+        if (request.method === 'GET') {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT * FROM backfill_jobs ORDER BY id DESC LIMIT 20`
+            ).all<BackfillJob>();
+            return new Response(JSON.stringify({ success: true, jobs: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST') {
+            const { from_date, to_date, mode, chunk_days } = await request.json() as {
+                from_date?: string; to_date?: string; mode?: string; chunk_days?: number;
+            };
+            const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+            const nowNpt = new Date(Date.now() + (5 * 60 + 45) * 60 * 1000);
+            const today = formatDate(nowNpt);
+
+            const from = from_date || NRB_EARLIEST_DATE;
+            const to = to_date || today;
+            if (!dateRegex.test(from) || !dateRegex.test(to) || from > to) {
+                return new Response(JSON.stringify({ success: false, error: 'Invalid date range' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            if (from < NRB_EARLIEST_DATE || to > today) {
+                return new Response(JSON.stringify({ success: false, error: `Dates must be between ${NRB_EARLIEST_DATE} and ${today}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            if (mode && mode !== 'update' && mode !== 'replace') {
+                return new Response(JSON.stringify({ success: false, error: "Mode must be 'update' or 'replace'" }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            const chunkDays = chunk_days ?? DEFAULT_CHUNK_DAYS;
+            if (!Number.isInteger(chunkDays) || chunkDays < 1 || chunkDays > MAX_CHUNK_DAYS) {
+                return new Response(JSON.stringify({ success: false, error: `Chunk size must be between 1 and ${MAX_CHUNK_DAYS} days` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const token = getAuthToken(request);
+            const username = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+
+            const jobId = await createBackfillJob(env, {
+                from_date: from,
+                to_date: to,
+                mode: mode === 'replace' ? 'replace' : 'update',
+                chunk_days: chunkDays,
+                created_by: username,
+            });
+            ctx.waitUntil(runBackfillStep(env, jobId).catch(e => console.error(`Backfill job ${jobId} first run failed:`, e.message)));
+
+            return new Response(JSON.stringify({ success: true, id: jobId }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleBackfillJobs (${request.method}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) GET one backfill job with its per-date log, or POST .../cancel to stop it.
+ * `?status=error` narrows the log to one outcome.
+ */
+export async function handleBackfillJobById(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const match = url.pathname.match(/^\/api\/admin\/backfill\/(\d+)(\/cancel)?$/);
+    if (!match) {
+        return new Response(JSON.stringify({ error: 'Not Found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    const jobId = parseInt(match[1], 10);
+    const isCancel = !!match[2];
+
+    try {
+        if (request.method === 'GET' && !isCancel) {
+            const job = await env.FOREX_DB.prepare(`SELECT * FROM backfill_jobs WHERE id = ?`).bind(jobId).first<BackfillJob>();
+            if (!job) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const status = url.searchParams.get('status');
+            const { results } = status
+                ? await env.FOREX_DB.prepare(
+                    `SELECT * FROM backfill_job_dates WHERE job_id = ? AND status = ? ORDER BY date DESC LIMIT 500`
+                  ).bind(jobId, status).all<BackfillDateLog>()
+                : await env.FOREX_DB.prepare(
+                    `SELECT * FROM backfill_job_dates WHERE job_id = ? ORDER BY date DESC LIMIT 500`
+                  ).bind(jobId).all<BackfillDateLog>();
+
+            return new Response(JSON.stringify({ success: true, job, dates: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST' && isCancel) {
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE backfill_jobs SET status = 'cancelled', updated_at = datetime('now')
+                 WHERE id = ? AND status IN ('pending', 'running')`
+            ).bind(jobId).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Job is not running' }), { status: 409, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleBackfillJobById (${request.method}, ${jobId}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+
+/**
+ * (ADMIN) GET recent ingestion runs, open anomalies and the jump threshold,
+ * or POST a new `jump_threshold_pct`.
+ */
+export async function handleDataHealth(request: Request, env: Env): Promise<Response> {
+    try {
+        if (request.method === 'GET') {
+            const [runs, anomalies, threshold] = await Promise.all([
+                env.FOREX_DB.prepare(`SELECT * FROM ingestion_runs ORDER BY id DESC LIMIT 50`).all<IngestionRun>(),
+                env.FOREX_DB.prepare(
+                    `SELECT * FROM data_anomalies WHERE status = 'open' ORDER BY date DESC, type ASC, iso3 ASC LIMIT 200`
+                ).all<DataAnomaly>(),
+                getJumpThreshold(env.FOREX_DB),
+            ]);
+            return new Response(JSON.stringify({
+                success: true,
+                runs: runs.results,
+                anomalies: anomalies.results,
+                jump_threshold_pct: threshold,
+            }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST') {
+            const { jump_threshold_pct } = await request.json() as { jump_threshold_pct?: number };
+            const value = Number(jump_threshold_pct);
+            if (!isFinite(value) || value <= 0 || value > 100) {
+                return new Response(JSON.stringify({ success: false, error: 'Threshold must be between 0 and 100 percent' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            await env.FOREX_DB.prepare("INSERT OR REPLACE INTO site_settings (key, value) VALUES (?, ?)")
+                .bind(JUMP_THRESHOLD_SETTING, String(value)).run();
+            return new Response(JSON.stringify({ success: true, jump_threshold_pct: value }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleDataHealth (${request.method}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) POST mark an anomaly as resolved.
+ */
+export async function handleResolveAnomaly(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const match = url.pathname.match(/^\/api\/admin\/data-health\/anomalies\/(\d+)\/resolve$/);
+    if (!match || request.method !== 'POST') {
+        return new Response(JSON.stringify({ error: 'Not Found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const token = getAuthToken(request);
+        const username = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+
+        const { meta } = await env.FOREX_DB.prepare(
+            `UPDATE data_anomalies SET status = 'resolved', resolved_at = datetime('now'), resolved_by = ?
+             WHERE id = ? AND status = 'open'`
+        ).bind(username, parseInt(match[1], 10)).run();
+
+        if (!meta?.changes) {
+            return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleResolveAnomaly:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+
+/**
+ * Parses and checks a setting's rules, returning them normalized or the first problem.
+ */
+function validateAccessRules(allowedRules: string | undefined): ApiAccessRule[] | string {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(allowedRules || '[]');
+    } catch {
+        return 'Rules must be a JSON array';
+    }
+    if (!Array.isArray(raw) || raw.some(entry => typeof entry !== 'string' && (typeof entry !== 'object' || entry === null))) {
+        return 'Rules must be a JSON array of rules';
+    }
+    const rules = parseRules(JSON.stringify(raw));
+    if (rules.length !== raw.length) return 'Every rule needs a match';
+    for (const [i, rule] of rules.entries()) {
+        const problem = validateRule(rule);
+        if (problem) return `rule ${i + 1}: ${problem}`;
+    }
+    return rules;
+}
+
+/**
+ * (ADMIN) GET all API access settings.
+ */
+export async function handleGetApiSettings(request: Request, env: Env): Promise<Response> {
+    try {
+        const { results } = await env.FOREX_DB.prepare("SELECT * FROM api_access_settings ORDER BY endpoint ASC").all<ApiAccessSetting>();
+        return new Response(JSON.stringify({ success: true, settings: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (e: any) {
+        console.error('Failed to fetch API settings:', e);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) POST (update) API access settings.
+ */
+export async function handleUpdateApiSettings(request: Request, env: Env): Promise<Response> {
+    try {
+        const settings: ApiAccessSetting[] = await request.json();
+        
+        if (!Array.isArray(settings)) {
+            return new Response(JSON.stringify({ success: false, error: 'Invalid data format, expected an array of settings' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const stmts: D1PreparedStatement[] = [];
+        for (const setting of settings) {
+            if (!setting.endpoint || !setting.access_level) {
+                console.warn('Skipping invalid API setting entry:', setting);
+                continue;
+            }
+
+            const rules = validateAccessRules(setting.allowed_rules);
+            if (typeof rules === 'string') {
+                return new Response(JSON.stringify({ success: false, error: `${setting.endpoint}: ${rules}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            stmts.push(
+                env.FOREX_DB.prepare(
+                    `UPDATE api_access_settings 
+                     SET access_level = ?, allowed_rules = ?, quota_per_hour = ?, burst_per_minute = ?, updated_at = datetime('now')
+                     WHERE endpoint = ?`
+                ).bind(
+                    setting.access_level,
+                    JSON.stringify(rules),
+                    setting.quota_per_hour || -1,
+                    setting.burst_per_minute || -1,
+                    setting.endpoint
+                )
+            );
+        }
+
+        if (stmts.length > 0) {
+            await env.FOREX_DB.batch(stmts);
+        }
+        
+        await env.API_SETTINGS_CACHE.delete(API_SETTINGS_CACHE_KEY);
+
+        return new Response(JSON.stringify({ success: true, message: `${stmts.length} settings updated` }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (e: any) {
+        console.error('Failed to update API settings:', e);
+        return new Response(JSON.stringify({ success: false, error: 'Database update failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) POST { ip?, referer?, endpoint? } — how the saved rules treat that caller on one
+ * endpoint, or on every endpoint. Nothing is counted against quotas.
+ */
+export async function handleTestApiAccess(request: Request, env: Env): Promise<Response> {
+    try {
+        const { ip, referer, endpoint } = await request.json() as { ip?: string; referer?: string; endpoint?: string };
+        if (!ip?.trim() && !referer?.trim()) {
+            return new Response(JSON.stringify({ success: false, error: 'Enter an IP address, a Referer, or both' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        if (ip?.trim() && !parseIp(ip)) {
+            return new Response(JSON.stringify({ success: false, error: `"${ip}" is not an IPv4 or IPv6 address` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        // A bare hostname is accepted as well as a full Referer URL
+        let host: string | null = null;
+        if (referer?.trim()) {
+            try {
+                host = new URL(referer.includes('://') ? referer.trim() : `https://${referer.trim()}`).hostname;
+            } catch {
+                return new Response(JSON.stringify({ success: false, error: `"${referer}" is not a URL or hostname` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+        }
+
+        const query = endpoint
+            ? env.FOREX_DB.prepare(`SELECT * FROM api_access_settings WHERE endpoint = ?`).bind(endpoint)
+            : env.FOREX_DB.prepare(`SELECT * FROM api_access_settings ORDER BY endpoint ASC`);
+        const { results } = await query.all<ApiAccessSetting>();
+        if (endpoint && !results?.length) {
+            return new Response(JSON.stringify({ success: false, error: `Unknown endpoint: ${endpoint}` }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const caller = { ip: ip?.trim() || null, host };
+        const outcomes = (results || []).map(setting => {
+            const access = resolveAccess(setting, caller);
+            return {
+                endpoint: setting.endpoint,
+                access_level: setting.access_level,
+                outcome: access.outcome,
+                matched_rule: access.evaluation.rule,
+                matched_index: access.evaluation.index,
+                matched_on: access.evaluation.matchedOn,
+                identifier: access.identifier,
+                quota_per_hour: access.quota_per_hour,
+                burst_per_minute: access.burst_per_minute,
+            };
+        });
+        return new Response(JSON.stringify({ success: true, caller, results: outcomes }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleTestApiAccess:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) GET API usage for the last `days` days (default 7): a report for the charts,
+ * or with `format=csv` the hourly rollup rows as a download.
+ */
+export async function handleApiUsage(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const days = Number(url.searchParams.get('days') || 7);
+    if (!Number.isInteger(days) || days < 1 || days > API_USAGE_RETENTION_DAYS) {
+        return new Response(JSON.stringify({ success: false, error: `days must be between 1 and ${API_USAGE_RETENTION_DAYS}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    const { from, to } = usageRange(days);
+
+    try {
+        if (url.searchParams.get('format') === 'csv') {
+            const rows = await getApiUsageRows(env.FOREX_DB, from, to);
+            const columns = ['hour', 'endpoint', 'identifier', 'status_class', 'requests'] as const;
+            const csv = [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))].join('\r\n') + '\r\n';
+            return new Response(csv, {
+                headers: {
+                    ...corsHeaders,
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="api-usage_${from.slice(0, 10)}_${to.slice(0, 10)}.csv"`,
+                },
+            });
+        }
+
+        const report = await getApiUsageReport(env.FOREX_DB, from, to, days);
+        return new Response(JSON.stringify({ success: true, ...report }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleApiUsage:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+// --- API KEYS ---
+
+interface ApiKeyInput {
+    owner?: string;
+    label?: string | null;
+    scopes?: string[];
+    quota_per_hour?: number;
+    quota_per_day?: number;
+    expires_on?: string | null; // YYYY-MM-DD, the key works through the end of that day (UTC)
+}
+
+async function validateApiKeyInput(env: Env, input: ApiKeyInput): Promise<string | null> {
+    if (!input.owner || !input.owner.trim()) return 'Owner is required';
+    if (!Array.isArray(input.scopes) || input.scopes.length === 0) return 'Select at least one endpoint, or all endpoints';
+    for (const quota of [input.quota_per_hour, input.quota_per_day]) {
+        if (!Number.isInteger(quota) || quota! < -1) return 'Quotas must be whole numbers (-1 for unlimited)';
+    }
+    if (input.expires_on && !/^\d{4}-\d{2}-\d{2}$/.test(input.expires_on)) return 'Expiry must be a date (YYYY-MM-DD)';
+
+    if (!input.scopes.includes('*')) {
+        const { results } = await env.FOREX_DB.prepare(`SELECT endpoint FROM api_access_settings`).all<{ endpoint: string }>();
+        const known = new Set((results || []).map(r => r.endpoint));
+        const unknown = input.scopes.filter(scope => !known.has(scope));
+        if (unknown.length) return `Unknown endpoint(s): ${unknown.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * (ADMIN) GET all API keys (with today's usage) or POST (issue) a new one.
+ * The new key is only ever returned in the POST response.
+ */
+export async function handleApiKeys(request: Request, env: Env): Promise<Response> {
+    try {
+        if (request.method === 'GET') {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT k.id, k.key_prefix, k.owner, k.label, k.scopes, k.quota_per_hour, k.quota_per_day,
+                    k.expires_at, k.revoked_at, k.last_used_at, k.created_by, k.created_at,
+                    COALESCE((SELECT requests FROM api_key_usage WHERE key_id = k.id AND hour = strftime('%Y-%m-%d %H:00:00', 'now')), 0) AS requests_this_hour,
+                    COALESCE((SELECT SUM(requests) FROM api_key_usage WHERE key_id = k.id AND hour >= date('now')), 0) AS requests_today
+                 FROM api_keys k
+                 ORDER BY k.revoked_at IS NOT NULL, k.created_at DESC`
+            ).all<ApiKey>();
+            return new Response(JSON.stringify({ success: true, keys: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST') {
+            const input: ApiKeyInput = await request.json();
+            const validationError = await validateApiKeyInput(env, input);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const token = getAuthToken(request);
+            const createdBy = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+            const { key, keyHash, keyPrefix } = await generateApiKey();
+
+            const created = await env.FOREX_DB.prepare(
+                `INSERT INTO api_keys (key_hash, key_prefix, owner, label, scopes, quota_per_hour, quota_per_day, expires_at, created_by)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+            ).bind(
+                keyHash, keyPrefix, input.owner!.trim(), input.label?.trim() || null, JSON.stringify(input.scopes),
+                input.quota_per_hour, input.quota_per_day, input.expires_on ? `${input.expires_on} 23:59:59` : null, createdBy
+            ).first<{ id: number }>();
+
+            return new Response(JSON.stringify({ success: true, id: created?.id, key }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleApiKeys (${request.method}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) Manage one API key.
+ * PUT    /api/admin/api-keys/:id          update owner, label, scopes, quotas and expiry
+ * POST   /api/admin/api-keys/:id/rotate   replace the key; the old one stops working at once
+ * DELETE /api/admin/api-keys/:id          revoke (kept for the record)
+ */
+export async function handleApiKeyById(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const [idPart, action] = url.pathname.replace(/^\/api\/admin\/api-keys\//, '').split('/');
+    const id = parseInt(idPart, 10);
+    if (isNaN(id)) {
+        return new Response(JSON.stringify({ error: 'Invalid key id' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        if (request.method === 'PUT' && !action) {
+            const input: ApiKeyInput = await request.json();
+            const validationError = await validateApiKeyInput(env, input);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE api_keys SET owner = ?, label = ?, scopes = ?, quota_per_hour = ?, quota_per_day = ?, expires_at = ?, updated_at = datetime('now')
+                 WHERE id = ? AND revoked_at IS NULL`
+            ).bind(
+                input.owner!.trim(), input.label?.trim() || null, JSON.stringify(input.scopes),
+                input.quota_per_hour, input.quota_per_day, input.expires_on ? `${input.expires_on} 23:59:59` : null, id
+            ).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found or revoked' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST' && action === 'rotate') {
+            const { key, keyHash, keyPrefix } = await generateApiKey();
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE api_keys SET key_hash = ?, key_prefix = ?, updated_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`
+            ).bind(keyHash, keyPrefix, id).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found or revoked' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true, key }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'DELETE' && !action) {
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE api_keys SET revoked_at = datetime('now'), updated_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`
+            ).bind(id).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found or already revoked' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleApiKeyById (${request.method}, ${id}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+// --- WEBHOOKS ---
+
+function normalizeWebhookInput(input: WebhookInput) {
+    return {
+        url: input.url!.trim(),
+        description: input.description?.trim() || null,
+        events: JSON.stringify(WEBHOOK_EVENTS.filter(event => input.events!.includes(event))),
+        currencies: JSON.stringify(Array.from(new Set((input.currencies || []).map(code => code.toUpperCase()))).sort()),
+        enabled: input.enabled === false ? 0 : 1,
+    };
+}
+
+/**
+ * (ADMIN) GET all webhooks (with their latest delivery) or POST a new one.
+ * The signing secret is only ever returned in the POST response (and on rotation).
+ */
+export async function handleWebhooks(request: Request, env: Env): Promise<Response> {
+    try {
+        if (request.method === 'GET') {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT w.id, w.url, w.description, w.events, w.currencies, w.enabled, w.created_by, w.created_at, w.updated_at,
+                    (SELECT status FROM webhook_deliveries WHERE webhook_id = w.id ORDER BY id DESC LIMIT 1) AS last_delivery_status,
+                    (SELECT COALESCE(last_attempt_at, created_at) FROM webhook_deliveries WHERE webhook_id = w.id ORDER BY id DESC LIMIT 1) AS last_delivery_at,
+                    (SELECT COUNT(*) FROM webhook_deliveries WHERE webhook_id = w.id AND status = 'pending') AS pending_deliveries
+                 FROM webhooks w
+                 ORDER BY w.created_at DESC`
+            ).all<Webhook>();
+            return new Response(JSON.stringify({ success: true, webhooks: results, events: WEBHOOK_EVENTS }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST') {
+            const input: WebhookInput = await request.json();
+            const validationError = validateWebhookInput(input);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const token = getAuthToken(request);
+            const createdBy = token ? await getUsernameFromToken(token, env.JWT_SECRET) : null;
+            const secret = generateWebhookSecret();
+            const webhook = normalizeWebhookInput(input);
+
+            const created = await env.FOREX_DB.prepare(
+                `INSERT INTO webhooks (url, description, secret, events, currencies, enabled, created_by)
+                 VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id`
+            ).bind(webhook.url, webhook.description, secret, webhook.events, webhook.currencies, webhook.enabled, createdBy).first<{ id: number }>();
+
+            return new Response(JSON.stringify({ success: true, id: created?.id, secret }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleWebhooks (${request.method}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) Manage one webhook.
+ * PUT    /api/admin/webhooks/:id                          update URL, events, currencies and enabled
+ * DELETE /api/admin/webhooks/:id                          delete it with its delivery log
+ * POST   /api/admin/webhooks/:id/rotate-secret            replace the signing secret
+ * POST   /api/admin/webhooks/:id/test                     send a `ping` delivery now
+ * GET    /api/admin/webhooks/:id/deliveries               the latest deliveries, newest first
+ * POST   /api/admin/webhooks/:id/deliveries/:did/retry    retry a delivery now
+ */
+export async function handleWebhookById(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const [idPart, action, deliveryPart, deliveryAction] = url.pathname.replace(/^\/api\/admin\/webhooks\//, '').split('/');
+    const id = parseInt(idPart, 10);
+    if (isNaN(id)) {
+        return new Response(JSON.stringify({ error: 'Invalid webhook id' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        if (request.method === 'PUT' && !action) {
+            const input: WebhookInput = await request.json();
+            const validationError = validateWebhookInput(input);
+            if (validationError) {
+                return new Response(JSON.stringify({ success: false, error: validationError }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+
+            const webhook = normalizeWebhookInput(input);
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE webhooks SET url = ?, description = ?, events = ?, currencies = ?, enabled = ?, updated_at = datetime('now') WHERE id = ?`
+            ).bind(webhook.url, webhook.description, webhook.events, webhook.currencies, webhook.enabled, id).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'DELETE' && !action) {
+            const [, { meta }] = await env.FOREX_DB.batch([
+                env.FOREX_DB.prepare(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`).bind(id),
+                env.FOREX_DB.prepare(`DELETE FROM webhooks WHERE id = ?`).bind(id),
+            ]);
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST' && action === 'rotate-secret') {
+            const secret = generateWebhookSecret();
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE webhooks SET secret = ?, updated_at = datetime('now') WHERE id = ?`
+            ).bind(secret, id).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(JSON.stringify({ success: true, secret }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST' && action === 'test') {
+            const webhook = await env.FOREX_DB.prepare(`SELECT id, enabled FROM webhooks WHERE id = ?`).bind(id).first<{ id: number; enabled: number }>();
+            if (!webhook) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            if (!webhook.enabled) {
+                return new Response(JSON.stringify({ success: false, error: 'Enable the webhook to test it' }), { status: 409, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            await queueWebhookPing(env, id);
+            await deliverDueWebhooks(env);
+
+            const delivery = await env.FOREX_DB.prepare(
+                `SELECT * FROM webhook_deliveries WHERE webhook_id = ? AND event = 'ping' ORDER BY id DESC LIMIT 1`
+            ).first<WebhookDelivery>();
+            return new Response(JSON.stringify({ success: true, delivery }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'GET' && action === 'deliveries' && !deliveryPart) {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT 100`
+            ).bind(id).all<WebhookDelivery>();
+            return new Response(JSON.stringify({ success: true, deliveries: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (request.method === 'POST' && action === 'deliveries' && deliveryAction === 'retry') {
+            const deliveryId = parseInt(deliveryPart, 10);
+            // A failed delivery gets one more attempt; a pending one just stops waiting for its backoff
+            const { meta } = await env.FOREX_DB.prepare(
+                `UPDATE webhook_deliveries SET status = 'pending', next_attempt_at = datetime('now')
+                 WHERE id = ? AND webhook_id = ? AND status != 'delivered'`
+            ).bind(deliveryId, id).run();
+
+            if (!meta?.changes) {
+                return new Response(JSON.stringify({ success: false, error: 'Not found or already delivered' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            await deliverDueWebhooks(env);
+            const delivery = await env.FOREX_DB.prepare(`SELECT * FROM webhook_deliveries WHERE id = ?`).bind(deliveryId).first<WebhookDelivery>();
+            return new Response(JSON.stringify({ success: true, delivery }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleWebhookById (${request.method}, ${id}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+const SUBSCRIBERS_PAGE_SIZE = 50;
+
+/**
+ * (ADMIN) GET newsletter subscribers, newest first, with counts per status.
+ * Query: status (pending|active|unsubscribed), search (part of the address), page.
+ */
+export async function handleNewsletterSubscribers(request: Request, env: Env): Promise<Response> {
+    if (request.method !== 'GET') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const params = new URL(request.url).searchParams;
+        const status = params.get('status');
+        const search = params.get('search')?.trim().toLowerCase();
+        const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+
+        const where: string[] = [];
+        const binds: (string | number)[] = [];
+        if (status && ['pending', 'active', 'unsubscribed'].includes(status)) {
+            where.push('s.status = ?');
+            binds.push(status);
+        }
+        if (search) {
+            where.push(`s.email LIKE ? ESCAPE '\\'`);
+            binds.push(`%${search.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+        }
+        const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+        const [list, total, counts] = await env.FOREX_DB.batch([
+            env.FOREX_DB.prepare(
+                `SELECT s.id, s.email, s.currencies, s.status, s.created_at, s.confirmed_at, s.unsubscribed_at,
+                    (SELECT MAX(rate_date) FROM newsletter_deliveries WHERE subscriber_id = s.id AND status = 'sent') AS last_sent_date
+                 FROM subscribers s ${whereSql}
+                 ORDER BY s.created_at DESC, s.id DESC LIMIT ? OFFSET ?`
+            ).bind(...binds, SUBSCRIBERS_PAGE_SIZE, (page - 1) * SUBSCRIBERS_PAGE_SIZE),
+            env.FOREX_DB.prepare(`SELECT COUNT(*) AS total FROM subscribers s ${whereSql}`).bind(...binds),
+            env.FOREX_DB.prepare(`SELECT status, COUNT(*) AS count FROM subscribers GROUP BY status`),
+        ]);
+
+        const byStatus: Record<SubscriberStatus, number> = { pending: 0, active: 0, unsubscribed: 0 };
+        for (const row of (counts.results || []) as { status: SubscriberStatus; count: number }[]) {
+            byStatus[row.status] = row.count;
+        }
+
+        return new Response(JSON.stringify({
+            success: true,
+            subscribers: list.results as NewsletterSubscriber[],
+            total: (total.results?.[0] as { total: number } | undefined)?.total || 0,
+            page,
+            pageSize: SUBSCRIBERS_PAGE_SIZE,
+            counts: byStatus,
+        }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleNewsletterSubscribers:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) DELETE /api/admin/newsletter/subscribers/:id — removes the address for good (e.g. on
+ * request). Its past sends stay in the log without the address.
+ */
+export async function handleNewsletterSubscriberById(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const id = parseInt(url.pathname.replace(/^\/api\/admin\/newsletter\/subscribers\//, ''), 10);
+    if (isNaN(id)) {
+        return new Response(JSON.stringify({ error: 'Invalid subscriber id' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    if (request.method !== 'DELETE') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const { meta } = await env.FOREX_DB.prepare(`DELETE FROM subscribers WHERE id = ?`).bind(id).run();
+        if (!meta?.changes) {
+            return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error(`Error in handleNewsletterSubscriberById (${request.method}, ${id}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (ADMIN) The newsletter send log.
+ * GET /api/admin/newsletter/issues                     the latest issues, newest first
+ * GET /api/admin/newsletter/issues/:date/deliveries    every send of one issue, failures first
+ */
+export async function handleNewsletterIssues(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const [date, action] = url.pathname.replace(/^\/api\/admin\/newsletter\/issues\/?/, '').split('/');
+    if (request.method !== 'GET') {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        if (!date) {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT i.rate_date, i.started_at, i.completed_at, i.sent, i.failed,
+                    (SELECT COUNT(*) FROM newsletter_deliveries WHERE rate_date = i.rate_date AND status = 'sending') AS sending
+                 FROM newsletter_issues i
+                 ORDER BY i.rate_date DESC LIMIT 60`
+            ).all<NewsletterIssue>();
+            return new Response(JSON.stringify({ success: true, issues: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        if (action === 'deliveries' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            const { results } = await env.FOREX_DB.prepare(
+                `SELECT d.rate_date, d.subscriber_id, s.email, d.status, d.error, d.attempts, d.created_at, d.sent_at
+                 FROM newsletter_deliveries d LEFT JOIN subscribers s ON s.id = d.subscriber_id
+                 WHERE d.rate_date = ?
+                 ORDER BY CASE d.status WHEN 'failed' THEN 0 WHEN 'sending' THEN 1 ELSE 2 END, d.created_at DESC
+                 LIMIT 500`
+            ).bind(date).all<NewsletterDelivery>();
+            return new Response(JSON.stringify({ success: true, deliveries: results }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        }
+
+        return new Response(JSON.stringify({ success: false, error: 'Not found' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    } catch (error: any) {
+        console.error(`Error in handleNewsletterIssues (${date || 'list'}):`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Server error' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (PUBLIC) Handles the Google OAuth callback.
+ * --- MODIFIED: Now updates user profile on login ---
+ */
+export async function handleGoogleLoginCallback(request: Request, env: Env): Promise<Response> {
+  try {
+    const { code } = await request.json();
+    if (!code) {
       return new Response(JSON.stringify({ success: false, error: 'Authorization code is required' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
@@ -862,8 +2189,8 @@ export async function handleGoogleLoginCallback(request: Request, env: Env): Pro
 
     // 3. Check if user exists in D1 and is active
     const user = await env.FOREX_DB.prepare(
-      `SELECT username, is_active FROM users WHERE email = ?`
-    ).bind(googleUser.email).first<{ username: string; is_active: number }>();
+      `SELECT username, is_active, role FROM users WHERE email = ?`
+    ).bind(googleUser.email).first<{ username: string; is_active: number; role: string }>();
 
     if (!user) {
       return new Response(JSON.stringify({ success: false, error: 'Access denied. Your email is not registered as an admin.' }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
@@ -884,14 +2211,8 @@ export async function handleGoogleLoginCallback(request: Request, env: Env): Pro
     ).run();
     // --- END: Update profile ---
 
-    // 4. Issue JWT
-    const jwtToken = await generateToken(user.username, env.JWT_SECRET);
-    
-    return new Response(JSON.stringify({
-      success: true,
-      token: jwtToken,
-      username: user.username,
-    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    // 4. Issue JWT (or ask for the second factor)
+    return await completeFirstFactor(request, env, user.username, normalizeRole(user.role));
 
   } catch (error: any) {
     console.error('Google callback handler error:', error);
@@ -911,48 +2232,20 @@ async function sendEmailVerificationEmail(
     verificationToken: string,
     ctx: ExecutionContext
 ): Promise<void> {
-    const BREVO_API_KEY = env.BREVO_API_KEY;
-    if (!BREVO_API_KEY) {
-        console.error('BREVO_API_KEY secret not set in Cloudflare Worker.');
-        return;
-    }
-
-    const emailPromise = fetch('https://api.brevo.com/v3/smtp/email', {
-        method: 'POST',
-        headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-            'api-key': BREVO_API_KEY,
-        },
-        body: JSON.stringify({
-            sender: {
-                name: 'Forex Nepal Admin',
-                email: 'cadmin@grisma.com.np',
-            },
-            to: [{ email: to, name: username }],
-            subject: 'Verify Your New Email Address - Forex Nepal Admin',
-            htmlContent: `
-              <p>Hello <strong>${username}</strong>,</p>
-              <p>You requested to change your email address. Please use the verification token below to confirm this change.</p>
-              <p style="font-family: 'Courier New', monospace; font-size: 20px; letter-spacing: 2px;">
-                <strong>${verificationToken}</strong>
-              </p>
-              <p>This token will expire in 15 minutes.</p>
-              <p>If you did not request this, please ignore this email.</p>
-            `,
-        }),
-    }).then(async (emailResponse) => {
-         if (!emailResponse.ok) {
-            const errorText = await emailResponse.text();
-            console.error('Brevo API error (Email Verification):', errorText);
-        } else {
-            console.log('Email verification email sent successfully via Brevo.');
-        }
-    }).catch(emailError => {
-        console.error('Email verification sending error:', emailError);
-    });
-
-    ctx.waitUntil(emailPromise);
+    ctx.waitUntil(sendBrevoEmail(env, {
+        sender: ADMIN_EMAIL_SENDER,
+        to: [{ email: to, name: username }],
+        subject: 'Verify Your New Email Address - Forex Nepal Admin',
+        htmlContent: `
+          <p>Hello <strong>${username}</strong>,</p>
+          <p>You requested to change your email address. Please use the verification token below to confirm this change.</p>
+          <p style="font-family: 'Courier New', monospace; font-size: 20px; letter-spacing: 2px;">
+            <strong>${verificationToken}</strong>
+          </p>
+          <p>This token will expire in 15 minutes.</p>
+          <p>If you did not request this, please ignore this email.</p>
+        `,
+    }, 'email verification'));
 }
 
 
@@ -1093,7 +2386,7 @@ export async function handleUpdateProfile(request: Request, env: Env): Promise<R
             if (values.password.length < 8) {
                  return new Response(JSON.stringify({ success: false, error: 'New password must be >= 8 chars.' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
             }
-            newPasswordHash = await simpleHash(values.password);
+            newPasswordHash = await hashPassword(values.password);
         }
 
         // Build and execute the update query
@@ -1108,6 +2401,7 @@ export async function handleUpdateProfile(request: Request, env: Env): Promise<R
                 newPasswordHash,
                 username
             ).run();
+            await revokeUserSessions(env, username, await getSessionIdFromToken(token!, env.JWT_SECRET));
         } else {
             // No password change
             await env.FOREX_DB.prepare(
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { resolveAccess } from './api-helpers';
+import type { ApiAccessSetting } from './worker-types';
+
+const setting = (access_level: ApiAccessSetting['access_level'], rules: unknown[]): ApiAccessSetting => ({
+    id: 1,
+    endpoint: '/api/rates/latest',
+    access_level,
+    allowed_rules: JSON.stringify(rules),
+    quota_per_hour: 100,
+    burst_per_minute: 10,
+    updated_at: '2025-01-15 05:00:00',
+});
+
+describe('resolveAccess', () => {
+    it('counts callers per IP even when a host rule matched', () => {
+        const access = resolveAccess(
+            setting('restricted', [{ effect: 'allow', match: '*.example.com', quota_per_hour: 5000 }]),
+            { ip: '203.0.113.7', host: 'www.example.com' },
+        );
+        expect(access).toMatchObject({ outcome: 'granted', identifier: '203.0.113.7', quota_per_hour: 5000, burst_per_minute: 10 });
+        expect(access.evaluation.matchedOn).toBe('host');
+    });
+
+    it('falls back to the setting quota and a shared bucket without an IP', () => {
+        const access = resolveAccess(setting('public', []), { ip: null, host: 'www.example.com' });
+        expect(access).toMatchObject({ outcome: 'granted', identifier: 'unknown_ip', quota_per_hour: 100 });
+    });
+
+    it('applies the access level and deny rules', () => {
+        const caller = { ip: '203.0.113.7', host: null };
+        expect(resolveAccess(setting('disabled', []), caller).outcome).toBe('disabled');
+        expect(resolveAccess(setting('public', [{ effect: 'deny', match: '203.0.113.0/24' }]), caller).outcome).toBe('denied');
+        expect(resolveAccess(setting('restricted', []), caller).outcome).toBe('not_allowed');
+        expect(resolveAccess(undefined, caller)).toMatchObject({ outcome: 'granted', quota_per_hour: -1, burst_per_minute: -1 });
+    });
+});
@@ -1,6 +1,9 @@
 // iamgrisma/forexnepal/forexnepal-3a6e83ee59906891a05be1ef38aac80d81ccf17d/src/api-helpers.ts
 import { Env, ApiAccessSetting, ExecutionContext, D1Database, SiteSettings } from './worker-types';
 import { corsHeaders } from './constants';
+import { getApiKeyFromRequest, checkApiKey } from './api-keys';
+import { RateLimitHeaders, RateLimitWindow, checkRateLimit } from './rate-limit';
+import { AccessCaller, RuleEvaluation, evaluateRules, parseRules } from './access-rules';
 
 const API_SETTINGS_CACHE_KEY = 'api_access_settings_v1';
 const API_SETTINGS_CACHE_TTL = 300; // 5 minutes
@@ -13,6 +16,7 @@ export async function getAllSettings(db: D1Database): Promise<SiteSettings> {
         ticker_enabled: true,
         adsense_enabled: false,
         adsense_exclusions: '/admin,/login',
+        require_2fa: false,
     };
     
     try {
@@ -27,7 +31,7 @@ export async function getAllSettings(db: D1Database): Promise<SiteSettings> {
         }
 
         const settings = dbResponse.results.reduce((acc, row) => {
-            if (row.key === 'ticker_enabled' || row.key === 'adsense_enabled') {
+            if (row.key === 'ticker_enabled' || row.key === 'adsense_enabled' || row.key === 'require_2fa') {
                 acc[row.key] = row.value === 'true';
             } else if (row.key === 'adsense_exclusions') {
                 acc[row.key] = row.value;
@@ -82,145 +86,135 @@ async function getApiSettings(env: Env): Promise<Map<string, ApiAccessSetting>>
 }
 
 /**
- * Checks if a given identifier (IP or domain) matches the allowed rules.
+ * Prunes old API key usage counters.
+ * This should be called periodically (e.g., in the scheduled worker).
  */
-function isRuleMatch(identifier: string, rules: string[]): boolean {
-    if (!identifier) return false;
-
-    for (const rule of rules) {
-        if (rule === '*') return true;
-        if (rule === identifier) return true;
-        
-        // Handle wildcard domain matching (e.g., *.example.com)
-        if (rule.startsWith('*.') && identifier.endsWith(rule.substring(1))) {
-            return true;
-        }
+export async function pruneApiKeyUsage(db: D1Database): Promise<void> {
+    try {
+        // Key quotas only need today (UTC); keep a day's buffer
+        await db.prepare("DELETE FROM api_key_usage WHERE hour < date('now', '-1 day')").run();
+        console.log('Pruned old API key usage.');
+    } catch (e: any) {
+        console.error('Error pruning API key usage:', e.message);
     }
-    return false;
 }
 
 /**
- * Prunes old API usage logs.
- * This should be called periodically (e.g., in the scheduled worker).
+ * The caller as access rules see it: its IP and the hostname of its Referer.
  */
-export async function pruneApiUsageLogs(db: D1Database): Promise<void> {
+export function accessCallerFromRequest(request: Request): AccessCaller {
+    const referer = request.headers.get('Referer');
+    let host: string | null = null;
     try {
-        // Delete logs older than 2 hours (quota is per-hour, 2 hours gives a buffer)
-        const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
-        await db.prepare("DELETE FROM api_usage_logs WHERE request_time < ?").bind(twoHoursAgo).run();
-        console.log('Pruned old API usage logs.');
-    } catch (e: any) {
-        console.error('Error pruning API logs:', e.message);
+        host = referer ? new URL(referer).hostname : null;
+    } catch {
+        // A malformed Referer matches no host rule
+    }
+    return { ip: request.headers.get('CF-Connecting-IP'), host };
+}
+
+export interface AccessResolution {
+    outcome: 'disabled' | 'denied' | 'not_allowed' | 'granted';
+    evaluation: RuleEvaluation;
+    identifier: string; // Who the quota is counted against
+    quota_per_hour: number; // After any rule override; -1 for unlimited
+    burst_per_minute: number;
+}
+
+/**
+ * Applies an endpoint's setting and rules to a caller, without counting anything.
+ * Deny rules apply at every access level; allow rules are required when the endpoint is
+ * restricted, and on any level may override the hourly quota for the callers they match.
+ */
+export function resolveAccess(setting: ApiAccessSetting | undefined, caller: AccessCaller): AccessResolution {
+    const evaluation = evaluateRules(parseRules(setting?.allowed_rules), caller);
+    // Always per IP: a host rule only decides whether the rule applies, since the Referer
+    // is whatever the caller sends and counting by it would let anyone spend a site's quota
+    const identifier = caller.ip || 'unknown_ip';
+    const ruleQuota = evaluation.decision === 'allow' ? evaluation.rule!.quota_per_hour : undefined;
+    const resolution = {
+        evaluation,
+        identifier,
+        quota_per_hour: ruleQuota ?? setting?.quota_per_hour ?? -1,
+        // Settings cached before the burst column existed lack it
+        burst_per_minute: setting?.burst_per_minute ?? -1,
+    };
+
+    if (setting?.access_level === 'disabled') return { outcome: 'disabled', ...resolution };
+    if (evaluation.decision === 'deny') return { outcome: 'denied', ...resolution };
+    if (setting?.access_level === 'restricted' && evaluation.decision !== 'allow') {
+        return { outcome: 'not_allowed', ...resolution };
     }
+    return { outcome: 'granted', ...resolution };
 }
 
 /**
- * The main API access control middleware.
- * Call this before executing any public API handler.
+ * The main API access control check, run by the `apiAccess` route middleware.
+ * Returns a response to send instead of the handler's, or the rate-limit headers to
+ * add to the handler's response (none for unmetered requests).
  */
 export async function checkApiAccess(
     request: Request,
     env: Env,
     ctx: ExecutionContext,
-    endpoint: string // The endpoint being accessed, e.g., '/api/latest-rates'
-): Promise<Response | null> {
-
-    const url = new URL(request.url);
-    
-    // Normalize endpoint for dynamic routes
-    let matchedEndpoint = endpoint;
-    if (endpoint.startsWith('/api/posts/')) matchedEndpoint = '/api/posts/:slug';
-    if (endpoint.startsWith('/api/rates/date/')) matchedEndpoint = '/api/rates/date/:date';
-    if (endpoint.startsWith('/api/archive/detail/')) matchedEndpoint = '/api/archive/detail/:date';
-
+    endpoint: string // The route pattern being accessed, e.g. '/api/posts/:slug'
+): Promise<Response | RateLimitHeaders> {
     const settingsMap = await getApiSettings(env);
-    const setting = settingsMap.get(matchedEndpoint);
+    const setting = settingsMap.get(endpoint);
+    const access = resolveAccess(setting, accessCallerFromRequest(request));
 
-    if (!setting) {
-        console.warn(`No API access setting found for endpoint: ${matchedEndpoint}`);
-        // Default to public if not configured, but log it.
-        return null;
+    // 1. Access level and deny rules, which hold even for API keys
+    if (access.outcome === 'disabled') {
+        return new Response(JSON.stringify({ error: 'This API endpoint is disabled' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
-
-    // 1. Check Access Level
-    if (setting.access_level === 'disabled') {
-        return new Response(JSON.stringify({ error: 'This API endpoint is disabled' }), { status: 403, headers: corsHeaders });
+    if (access.outcome === 'denied') {
+        return new Response(JSON.stringify({ error: 'Access denied for this IP or domain.' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 
-    if (setting.access_level === 'public') {
-        // Check for public quota
-        const quota = setting.quota_per_hour;
-        if (quota === -1) {
-            return null; // Public and unlimited
-        }
-        
-        // Public quota is IP-based
-        const ip = request.headers.get('CF-Connecting-IP') || 'public_ip';
-        return checkQuota(env, ctx, ip, matchedEndpoint, quota);
+    // 2. A presented API key replaces the allow rules and public quota with its own
+    const apiKey = getApiKeyFromRequest(request);
+    if (apiKey) {
+        return checkApiKey(env, ctx, apiKey, endpoint);
     }
 
-    // 2. Check Restricted Access (IP or Referer)
-    if (setting.access_level === 'restricted') {
-        const ip = request.headers.get('CF-Connecting-IP') || 'unknown_ip';
-        const referer = request.headers.get('Referer');
-        const origin = referer ? new URL(referer).hostname : 'unknown_domain';
-        
-        let allowedRules: string[] = [];
-        try {
-            allowedRules = JSON.parse(setting.allowed_rules || '[]');
-        } catch {
-            console.error(`Failed to parse rules for ${endpoint}: ${setting.allowed_rules}`);
-        }
-
-        const ipMatch = isRuleMatch(ip, allowedRules);
-        const domainMatch = isRuleMatch(origin, allowedRules);
-        const identifier = domainMatch ? origin : ip; // Prioritize domain
-
-        if (!ipMatch && !domainMatch) {
-            return new Response(JSON.stringify({ error: 'Access denied. Invalid IP or domain.' }), { status: 403, headers: corsHeaders });
-        }
+    if (!setting) {
+        console.warn(`No API access setting found for endpoint: ${endpoint}`);
+        // Default to public if not configured, but log it.
+        return {};
+    }
 
-        // 3. Check Quota
-        const quota = setting.quota_per_hour;
-        if (quota === -1) {
-            return null; // Unlimited quota
-        }
-        
-        return checkQuota(env, ctx, identifier, matchedEndpoint, quota);
+    // 3. Restricted endpoints need a matching allow rule
+    if (access.outcome === 'not_allowed') {
+        return new Response(JSON.stringify({ error: 'Access denied. Invalid IP or domain.' }), { status: 403, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 
-    return null; // Default grant if somehow missed
+    // 4. Check Quota
+    return checkQuota(env, ctx, access, endpoint);
 }
 
 /**
- * Helper function to check quota for a given identifier.
+ * Applies the resolved hourly quota and per-minute burst limit to the caller.
+ * Either may be -1 (unlimited); with both unlimited nothing is counted.
  */
 async function checkQuota(
     env: Env,
     ctx: ExecutionContext,
-    identifier: string,
-    endpoint: string,
-    quota: number
-): Promise<Response | null> {
-    
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-    const { results } = await env.FOREX_DB.prepare(
-        "SELECT COUNT(*) as count FROM api_usage_logs WHERE identifier = ? AND endpoint = ? AND request_time > ?"
-    ).bind(identifier, endpoint, oneHourAgo).all<{ count: number }>();
-    
-    const usageCount = results?.[0]?.count || 0;
-
-    if (usageCount >= quota) {
-        return new Response(JSON.stringify({ error: `Quota exceeded (${quota}/hr). Please try again later.` }), { status: 429, headers: corsHeaders });
+    access: AccessResolution,
+    endpoint: string
+): Promise<Response | RateLimitHeaders> {
+    const windows: RateLimitWindow[] = [];
+    if (access.quota_per_hour !== -1) windows.push({ limit: access.quota_per_hour, seconds: 3600 });
+    if (access.burst_per_minute !== -1) windows.push({ limit: access.burst_per_minute, seconds: 60 });
+    if (windows.length === 0) {
+        return {}; // Unlimited
     }
 
-    // Log this request (don't await)
-    ctx.waitUntil(
-        env.FOREX_DB.prepare("INSERT INTO api_usage_logs (identifier, endpoint) VALUES (?, ?)")
-            .bind(identifier, endpoint)
-            .run()
-            .catch(e => console.error('Failed to log API usage:', e))
-    );
-
-    return null; // Access granted
+    const { allowed, window, headers } = await checkRateLimit(env, ctx, `${endpoint}:${access.identifier}`, windows);
+    if (!allowed) {
+        const message = window.seconds === 60
+            ? `Too many requests (${window.limit}/min). Please slow down.`
+            : `Quota exceeded (${window.limit}/hr). Please try again later.`;
+        return new Response(JSON.stringify({ error: message }), { status: 429, headers: {...corsHeaders, 'Content-Type': 'application/json', ...headers} });
+    }
+    return headers;
 }
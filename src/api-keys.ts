@@ -0,0 +1,145 @@
+// src/api-keys.ts
+// --- API KEYS ---
+// Personal keys for third-party consumers of the public API, sent as an `X-API-Key`
+// header or a `?key=` parameter. Keys are looked up by their SHA-256 hash; usage is
+// counted per key and UTC hour, which covers both the hourly and the daily quota.
+
+import { Env, ExecutionContext } from './worker-types';
+import { corsHeaders } from './constants';
+import { simpleHash } from './auth';
+import type { RateLimitHeaders } from './rate-limit';
+
+const API_KEY_PREFIX = 'fxn_';
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8; // Stored in clear so admins can tell keys apart
+
+/**
+ * Creates a new random key. Only `keyHash` and `keyPrefix` are stored; `key` is shown once.
+ */
+export async function generateApiKey(): Promise<{ key: string; keyHash: string; keyPrefix: string }> {
+    const secret = Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+    const key = `${API_KEY_PREFIX}${secret}`;
+    return { key, keyHash: await simpleHash(key), keyPrefix: apiKeyPrefix(key) };
+}
+
+/**
+ * The part of a key stored in clear, e.g. 'fxn_1a2b3c4d'.
+ */
+export function apiKeyPrefix(key: string): string {
+    return key.slice(0, KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Reads the key from the `X-API-Key` header, falling back to the `key` query parameter.
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+    const header = request.headers.get('X-API-Key');
+    if (header) return header.trim();
+    return new URL(request.url).searchParams.get('key');
+}
+
+/**
+ * Parses a key's stored scopes. '*' grants every public endpoint.
+ */
+export function parseScopes(scopes: string | null): string[] {
+    try {
+        const parsed = JSON.parse(scopes || '[]');
+        return Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+function secondsUntilNextHour(): number {
+    const now = new Date();
+    return 3600 - (now.getUTCMinutes() * 60 + now.getUTCSeconds());
+}
+
+function secondsUntilNextDay(): number {
+    const now = new Date();
+    return 86400 - (now.getUTCHours() * 3600 + now.getUTCMinutes() * 60 + now.getUTCSeconds());
+}
+
+/**
+ * RateLimit-* headers for the key's tighter quota, counting the current request.
+ */
+function keyRateLimitHeaders(
+    quotas: { limit: number; used: number; reset: number }[]
+): RateLimitHeaders {
+    const metered = quotas
+        .filter(quota => quota.limit !== -1)
+        .map(quota => ({ ...quota, remaining: Math.max(0, quota.limit - quota.used - 1) }));
+    if (metered.length === 0) return {};
+    const tightest = metered.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    return {
+        'RateLimit-Limit': String(tightest.limit),
+        'RateLimit-Remaining': String(tightest.remaining),
+        'RateLimit-Reset': String(tightest.reset),
+    };
+}
+
+/**
+ * Validates a presented key against `endpoint` and its quotas, then counts the request.
+ * Returns an error Response to send back, or the RateLimit-* headers if access is granted.
+ */
+export async function checkApiKey(
+    env: Env,
+    ctx: ExecutionContext,
+    apiKey: string,
+    endpoint: string
+): Promise<Response | RateLimitHeaders> {
+    const key = await env.FOREX_DB.prepare(
+        `SELECT k.id, k.scopes, k.quota_per_hour, k.quota_per_day,
+            COALESCE((SELECT requests FROM api_key_usage WHERE key_id = k.id AND hour = strftime('%Y-%m-%d %H:00:00', 'now')), 0) AS requests_this_hour,
+            COALESCE((SELECT SUM(requests) FROM api_key_usage WHERE key_id = k.id AND hour >= date('now')), 0) AS requests_today
+         FROM api_keys k
+         WHERE k.key_hash = ? AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > datetime('now'))`
+    ).bind(await simpleHash(apiKey)).first<{
+        id: number; scopes: string; quota_per_hour: number; quota_per_day: number; requests_this_hour: number; requests_today: number;
+    }>();
+
+    if (!key) {
+        return new Response(JSON.stringify({ error: 'Invalid, expired or revoked API key.' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const scopes = parseScopes(key.scopes);
+    if (!scopes.includes('*') && !scopes.includes(endpoint)) {
+        return new Response(JSON.stringify({ error: `This API key is not allowed to access ${endpoint}.` }), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    if (key.quota_per_hour !== -1 && key.requests_this_hour >= key.quota_per_hour) {
+        const retryAfter = String(secondsUntilNextHour());
+        return new Response(JSON.stringify({ error: `Quota exceeded (${key.quota_per_hour}/hr). Please try again later.` }), {
+            status: 429,
+            headers: {
+                ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': retryAfter,
+                'RateLimit-Limit': String(key.quota_per_hour), 'RateLimit-Remaining': '0', 'RateLimit-Reset': retryAfter,
+            }
+        });
+    }
+    if (key.quota_per_day !== -1 && key.requests_today >= key.quota_per_day) {
+        const retryAfter = String(secondsUntilNextDay());
+        return new Response(JSON.stringify({ error: `Quota exceeded (${key.quota_per_day}/day). Please try again tomorrow (UTC).` }), {
+            status: 429,
+            headers: {
+                ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': retryAfter,
+                'RateLimit-Limit': String(key.quota_per_day), 'RateLimit-Remaining': '0', 'RateLimit-Reset': retryAfter,
+            }
+        });
+    }
+
+    // Count this request (don't await)
+    ctx.waitUntil(
+        env.FOREX_DB.batch([
+            env.FOREX_DB.prepare(
+                `INSERT INTO api_key_usage (key_id, hour, requests) VALUES (?, strftime('%Y-%m-%d %H:00:00', 'now'), 1)
+                 ON CONFLICT(key_id, hour) DO UPDATE SET requests = requests + 1`
+            ).bind(key.id),
+            env.FOREX_DB.prepare(`UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?`).bind(key.id),
+        ]).catch(e => console.error('Failed to log API key usage:', e))
+    );
+
+    return keyRateLimitHeaders([
+        { limit: key.quota_per_hour, used: key.requests_this_hour, reset: secondsUntilNextHour() },
+        { limit: key.quota_per_day, used: key.requests_today, reset: secondsUntilNextDay() },
+    ]);
+}
@@ -1,11 +1,53 @@
 // src/api-public.ts
 // --- PUBLIC-FACING API HANDLERS ---
 
-import { Env } from './worker-types';
-import type { Rate, RatesData } from './types/forex';
-import { corsHeaders, CURRENCIES, CURRENCY_MAP } from './constants';
-import { formatDate } from './worker-utils';
+import { Env, ExecutionContext } from './worker-types';
+import type {
+    ConversionLeg,
+    ConversionResponse,
+    CrossRatesResponse,
+    Rate,
+    RateSide,
+    RatesData,
+    RateStatsResponse,
+    StatsBucketSize,
+} from './types/forex';
+import { corsHeaders } from './constants';
+import { formatDate, nowInNepal } from './worker-utils';
 import { getAllSettings } from './api-helpers';
+import { getEnabledCurrencyMap } from './currency-registry';
+import { downsampleSeries } from './downsample';
+import { RATE_SIDES, buildNprQuotes, crossRate, crossRateMatrix, orderedQuoteCodes, roundRate } from './cross-rates';
+import { buildOpenApiDocument } from './openapi';
+import { CACHE_CONTROL_CURRENT, cacheControlForDate, cacheableJson, ratesValidators, serveCached } from './http-cache';
+import {
+    EXPORT_CONTENT_TYPES,
+    EXPORT_FORMATS,
+    EXPORT_UNITS,
+    ExportFormat,
+    ExportQuery,
+    ExportUnit,
+    XLSX_MAX_ROWS,
+    buildXlsxExport,
+    streamExport,
+} from './export';
+import {
+    filterEnabled,
+    getRatesForDate,
+    getRatesForDates,
+    getLatestRates,
+    getRatesOnOrBefore,
+    getCurrencySeries,
+    getCurrencyStats,
+    STATS_BUCKET_SIZES,
+    countRates,
+    listDates,
+    countDates,
+    getCurrencyName,
+    toRatesData,
+    rateTrend,
+    TREND_STYLES
+} from './rates-store';
 
 /**
  * (PUBLIC) Fetches public-facing site settings.
@@ -28,68 +70,56 @@ export async function handlePublicSettings(request: Request, env: Env): Promise<
             }
         });
     } catch (e: any) {
-        return new Response(JSON.stringify({ error: 'Failed to fetch settings' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Failed to fetch settings' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
 /**
- * Helper to get the latest available data row (today or yesterday)
+ * (PUBLIC) Lists the enabled currencies in display order.
  */
-async function getLatestForexRow(env: Env): Promise<any> {
-    const nowUtc = new Date();
-    const nptOffsetMs = (5 * 60 + 45) * 60 * 1000;
-    const nowNpt = new Date(nowUtc.getTime() + nptOffsetMs);
-    
-    const todayStr = formatDate(nowNpt);
-    const yesterdayStr = formatDate(new Date(nowNpt.getTime() - 86400000)); // 24h ago
-
-    let row = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(todayStr).first<any>();
-    if (!row) {
-        row = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(yesterdayStr).first<any>();
+export async function handlePublicCurrencies(request: Request, env: Env): Promise<Response> {
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        const list = Array.from(currencies.values()).map(({ iso3, name, unit, region, flag_code, display_order }) => ({
+            iso3, name, unit, region, flag_code, display_order
+        }));
+        return new Response(JSON.stringify({ success: true, currencies: list }), {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/json',
+                'Cache-Control': 'public, max-age=300'
+            }
+        });
+    } catch (e: any) {
+        console.error('Error in handlePublicCurrencies:', e.message, e.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Failed to fetch currencies' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
-    return row;
 }
 
+
 /**
  * (PUBLIC) Fetches the latest available rates (today or yesterday).
  */
-export async function handleLatestRates(request: Request, env: Env): Promise<Response> {
+export async function handleLatestRates(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
-        const row = await getLatestForexRow(env);
-        if (!row) {
-            return new Response(JSON.stringify({ error: 'No forex data found for today or yesterday.' }), { 
-                status: 404, 
-                headers: {...corsHeaders, 'Content-Type': 'application/json'} 
-            });
-        }
-
-        const rates: Rate[] = [];
-        CURRENCIES.forEach(code => {
-            const buyRate = row[`${code}_buy`];
-            const sellRate = row[`${code}_sell`];
-            if (typeof buyRate === 'number' || typeof sellRate === 'number') {
-                rates.push({
-                    currency: { ...CURRENCY_MAP[code], iso3: code },
-                    buy: buyRate ?? 0,
-                    sell: sellRate ?? 0,
+        return await serveCached(request, env, ctx, '/api/latest-rates', async () => {
+            const rows = await getLatestRates(env.FOREX_DB);
+            if (rows.length === 0) {
+                return new Response(JSON.stringify({ error: 'No forex data found for today or yesterday.' }), { 
+                    status: 404, 
+                    headers: {...corsHeaders, 'Content-Type': 'application/json'} 
                 });
             }
-        });
-        
-        const ratesData: RatesData = {
-            date: row.date,
-            published_on: row.updated_at || row.date,
-            modified_on: row.updated_at || row.date,
-            rates: rates
-        };
-        
-        return new Response(JSON.stringify(ratesData), { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+
+            const currencies = await getEnabledCurrencyMap(env);
+            const ratesData: RatesData = toRatesData(rows[0].date, rows, currencies);
+            const validators = ratesValidators(`rates-${rows[0].date}`, rows, currencies);
+            return cacheableJson(ratesData, validators, CACHE_CONTROL_CURRENT);
         });
 
     } catch (error: any) {
         console.error(`Error in handleLatestRates:`, error.message, error.cause);
-        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
@@ -97,7 +127,7 @@ export async function handleLatestRates(request: Request, env: Env): Promise<Res
 /**
  * (PUBLIC) Fetches rates for a specific date from the DB.
  */
-export async function handleRatesByDate(request: Request, env: Env): Promise<Response> {
+export async function handleRatesByDate(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const date = url.pathname.split('/').pop();
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -110,47 +140,36 @@ export async function handleRatesByDate(request: Request, env: Env): Promise<Res
     }
 
     try {
-        const row = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(date).first<any>();
-
-        if (!row) {
-            return new Response(JSON.stringify({ date: date, rates: [] }), { 
-                status: 404, 
-                headers: {...corsHeaders, 'Content-Type': 'application/json'} 
-            });
-        }
+        return await serveCached(request, env, ctx, `/api/rates/date/${date}`, async () => {
+            const rows = await getRatesForDate(env.FOREX_DB, date);
 
-        const rates: Rate[] = [];
-        CURRENCIES.forEach(code => {
-            const buyRate = row[`${code}_buy`];
-            const sellRate = row[`${code}_sell`];
-            if (typeof buyRate === 'number' || typeof sellRate === 'number') {
-                rates.push({
-                    currency: { ...CURRENCY_MAP[code], iso3: code },
-                    buy: buyRate ?? 0,
-                    sell: sellRate ?? 0,
+            if (rows.length === 0) {
+                return new Response(JSON.stringify({ date: date, rates: [] }), { 
+                    status: 404, 
+                    headers: {...corsHeaders, 'Content-Type': 'application/json'} 
                 });
             }
-        });
-        
-        const ratesData: RatesData = {
-            date: row.date,
-            published_on: row.updated_at || row.date,
-            modified_on: row.updated_at || row.date,
-            rates: rates
-        };
 
-        return new Response(JSON.stringify(ratesData), { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            const currencies = await getEnabledCurrencyMap(env);
+            const ratesData: RatesData = toRatesData(date, rows, currencies);
+            return cacheableJson(ratesData, ratesValidators(`rates-${date}`, rows, currencies), cacheControlForDate(date));
         });
 
     } catch (error: any) {
         console.error(`Error in handleRatesByDate for ${date}:`, error.message, error.cause);
-        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
+// Point budget accepted by /api/historical-rates?max_points=
+const MIN_MAX_POINTS = 6; // Both ends plus the buy and sell highs and lows
+const MAX_MAX_POINTS = 5000;
+// Days per point for the old `sampling` parameter
+const LEGACY_SAMPLING_DAYS: Record<string, number> = { weekly: 7, monthly: 15, yearly: 60 };
+
 /**
  * (PUBLIC) Fetches historical rates for one or all currencies.
+ * With `currency`, `max_points` downsamples the daily series (LTTB) to fit a chart.
  */
 export async function handleHistoricalRates(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -158,91 +177,290 @@ export async function handleHistoricalRates(request: Request, env: Env): Promise
     const fromDate = url.searchParams.get('from');
     const toDate = url.searchParams.get('to');
     const sampling = url.searchParams.get('sampling') || 'daily';
+    const maxPointsParam = url.searchParams.get('max_points');
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
 
     if (!fromDate || !toDate || !dateRegex.test(fromDate) || !dateRegex.test(toDate)) {
-        return new Response(JSON.stringify({ error: 'Invalid date parameters' }), { status: 400, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Invalid date parameters' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    let maxPoints: number | null = null;
+    if (maxPointsParam !== null) {
+        maxPoints = Number(maxPointsParam);
+        if (!Number.isInteger(maxPoints) || maxPoints < MIN_MAX_POINTS || maxPoints > MAX_MAX_POINTS) {
+            return new Response(JSON.stringify({ success: false, error: `max_points must be an integer between ${MIN_MAX_POINTS} and ${MAX_MAX_POINTS}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+    } else if (Object.prototype.hasOwnProperty.call(LEGACY_SAMPLING_DAYS, sampling)) {
+        // Older clients ask for a fixed interval; give them the same point count, shape-preserved
+        const days = (Date.parse(toDate) - Date.parse(fromDate)) / 86400000 + 1;
+        maxPoints = Math.max(MIN_MAX_POINTS, Math.ceil(days / LEGACY_SAMPLING_DAYS[sampling]));
     }
 
     try {
         if (currencyCode) {
             // Logic for single currency chart
             const upperCaseCurrencyCode = currencyCode.toUpperCase();
-            if (!CURRENCIES.includes(upperCaseCurrencyCode)) {
-                return new Response(JSON.stringify({ success: false, error: 'Invalid currency' }), { status: 400, headers: corsHeaders });
+            const currencies = await getEnabledCurrencyMap(env);
+            if (!currencies.has(upperCaseCurrencyCode)) {
+                return new Response(JSON.stringify({ success: false, error: 'Invalid currency' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
             }
             
-            let samplingClause = "";
-            const bindings = [fromDate, toDate];
-
-            if (sampling !== 'daily') {
-                switch (sampling) {
-                    case 'weekly': samplingClause = "AND (CAST(STRFTIME('%w', date) AS INT) = 4)"; break; // Wednesday
-                    case 'monthly': samplingClause = "AND (CAST(STRFTIME('%d', date) AS INT) IN (1, 15))"; break;
-                    case 'yearly': samplingClause = "AND (CAST(STRFTIME('%j', date) AS INT) IN (1, 180, 365))"; break;
-                }
-                samplingClause += ` OR date = ? OR date = ?`;
-                bindings.push(fromDate, toDate);
-            }
-
-            const sql = `
-                SELECT date, "${upperCaseCurrencyCode}_buy" as buy, "${upperCaseCurrencyCode}_sell" as sell
-                FROM forex_rates
-                WHERE date >= ? AND date <= ?
-                ${samplingClause}
-                ORDER BY date ASC
-            `;
-            
-            const { results } = await env.FOREX_DB.prepare(sql).bind(...bindings).all<any>();
+            const results = await getCurrencySeries(env.FOREX_DB, upperCaseCurrencyCode, fromDate, toDate);
             
-            const currencyInfo = CURRENCY_MAP[upperCaseCurrencyCode];
-            const unit = currencyInfo?.unit || 1;
-            
-            const chartData = results.map((item: any) => ({
+            // Stored rates are already per single unit
+            const chartData = results.map(item => ({
                 date: item.date,
-                buy: item.buy && typeof item.buy === 'number' ? item.buy / unit : null,
-                sell: item.sell && typeof item.sell === 'number' ? item.sell / unit : null
+                buy: typeof item.buy === 'number' ? item.buy : null,
+                sell: typeof item.sell === 'number' ? item.sell : null
             })).filter(d => d.buy !== null || d.sell !== null);
+            const data = maxPoints ? downsampleSeries(chartData, maxPoints) : chartData;
 
-            return new Response(JSON.stringify({ success: true, data: chartData, currency: currencyCode }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+            return new Response(JSON.stringify({ success: true, data, currency: currencyCode, total_points: chartData.length }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
         } else {
             // Logic for multi-currency comparison (e.g., profit calculator)
-            const sql = `
-                SELECT * FROM forex_rates
-                WHERE date = ? OR date = ?
-                ORDER BY date ASC
-            `;
-            const { results } = await env.FOREX_DB.prepare(sql).bind(fromDate, toDate).all<any>();
-
-            const payloads: RatesData[] = results.map(row => {
-                const rates: Rate[] = [];
-                CURRENCIES.forEach(code => {
-                    const buyRate = row[`${code}_buy`];
-                    const sellRate = row[`${code}_sell`];
-                    if (typeof buyRate === 'number' && typeof sellRate === 'number') {
-                        rates.push({
-                            currency: { ...CURRENCY_MAP[code], iso3: code },
-                            buy: buyRate,
-                            sell: sellRate,
-                        });
-                    }
-                });
-                return {
-                    date: row.date,
-                    published_on: row.updated_at || row.date,
-                    modified_on: row.updated_at || row.date,
-                    rates: rates
-                };
-            }).filter(p => p.rates.length > 0);
+            const currencies = await getEnabledCurrencyMap(env);
+            const grouped = await getRatesForDates(env.FOREX_DB, Array.from(new Set([fromDate, toDate])));
+
+            const payloads: RatesData[] = Array.from(grouped.entries())
+                .map(([date, rows]) => toRatesData(date, rows, currencies, true))
+                .filter(p => p.rates.length > 0);
 
             return new Response(JSON.stringify({ status: { code: 200, message: 'OK' }, payload: payloads }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
         }
 
     } catch (error: any) {
         console.error('handleHistoricalRates failed:', error.message, error.cause);
-        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (PUBLIC) Aggregated statistics for one currency: a summary of the whole range, plus
+ * one entry per `bucket` (week, month, quarter or year) when requested.
+ * GET /api/stats/:currency?from=YYYY-MM-DD&to=YYYY-MM-DD&bucket=month
+ */
+export async function handleCurrencyStats(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const currencyCode = (url.pathname.split('/').pop() || '').toUpperCase();
+    const fromDate = url.searchParams.get('from');
+    const toDate = url.searchParams.get('to');
+    const bucket = url.searchParams.get('bucket') as StatsBucketSize | null;
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!fromDate || !toDate || !dateRegex.test(fromDate) || !dateRegex.test(toDate) || fromDate > toDate) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid date parameters' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    if (bucket && !STATS_BUCKET_SIZES.includes(bucket)) {
+        return new Response(JSON.stringify({ success: false, error: `bucket must be one of: ${STATS_BUCKET_SIZES.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        if (!currencies.has(currencyCode)) {
+            return new Response(JSON.stringify({ success: false, error: 'Invalid currency' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const [summary, buckets] = await Promise.all([
+            getCurrencyStats(env.FOREX_DB, currencyCode, fromDate, toDate, 'all'),
+            bucket ? getCurrencyStats(env.FOREX_DB, currencyCode, fromDate, toDate, bucket) : Promise.resolve([]),
+        ]);
+
+        const body: RateStatsResponse = {
+            success: true,
+            currency: currencyCode,
+            from: fromDate,
+            to: toDate,
+            bucket,
+            summary: summary[0] || null,
+            buckets,
+        };
+        return new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error(`Error in handleCurrencyStats for ${currencyCode}:`, error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (PUBLIC) Bulk export of stored rates as a file download.
+ * GET /api/export?from=YYYY-MM-DD&to=YYYY-MM-DD&currencies=USD,EUR&format=csv|jsonl|xlsx&unit=quoted|per_unit
+ * Without `currencies`, every enabled currency is included.
+ */
+export async function handleExport(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const fromDate = url.searchParams.get('from');
+    const toDate = url.searchParams.get('to');
+    const format = (url.searchParams.get('format') || 'csv').toLowerCase() as ExportFormat;
+    const unit = (url.searchParams.get('unit') || 'quoted').toLowerCase() as ExportUnit;
+    const requested = (url.searchParams.get('currencies') || '')
+        .split(',').map(code => code.trim().toUpperCase()).filter(Boolean);
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!fromDate || !toDate || !dateRegex.test(fromDate) || !dateRegex.test(toDate) || fromDate > toDate) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid date parameters' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+        return new Response(JSON.stringify({ success: false, error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
+    if (!EXPORT_UNITS.includes(unit)) {
+        return new Response(JSON.stringify({ success: false, error: `unit must be one of: ${EXPORT_UNITS.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        const unknown = requested.filter(code => !currencies.has(code));
+        if (unknown.length > 0) {
+            return new Response(JSON.stringify({ success: false, error: `Invalid currency: ${unknown.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+        const query: ExportQuery = {
+            iso3s: requested.length > 0 ? Array.from(new Set(requested)) : Array.from(currencies.keys()),
+            from: fromDate,
+            to: toDate,
+            unit,
+        };
+
+        const headers = {
+            ...corsHeaders,
+            'Content-Type': EXPORT_CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="forex-rates_${fromDate}_${toDate}.${format}"`,
+            'Access-Control-Expose-Headers': 'Content-Disposition',
+        };
+
+        if (format === 'xlsx') {
+            const total = await countRates(env.FOREX_DB, query.iso3s, fromDate, toDate);
+            if (total > XLSX_MAX_ROWS) {
+                return new Response(JSON.stringify({
+                    success: false,
+                    error: `XLSX exports are limited to ${XLSX_MAX_ROWS} rows (this one has ${total}). Use format=csv or jsonl, or a shorter range.`
+                }), { status: 413, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
+            return new Response(await buildXlsxExport(env.FOREX_DB, query, currencies), { headers });
+        }
+
+        return new Response(streamExport(env.FOREX_DB, query, currencies, format), { headers });
+    } catch (error: any) {
+        console.error('Error in handleExport:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * Reads the optional `date` and `side` parameters shared by the conversion endpoints.
+ * Returns an error Response when either is invalid.
+ */
+function parseConversionParams(url: URL): { date: string; side: RateSide } | Response {
+    const date = url.searchParams.get('date') || formatDate(nowInNepal());
+    const side = (url.searchParams.get('side') || 'mid').toLowerCase() as RateSide;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid date parameter' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    if (!RATE_SIDES.includes(side)) {
+        return new Response(JSON.stringify({ success: false, error: `side must be one of: ${RATE_SIDES.join(', ')}` }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    return { date, side };
+}
+
+/**
+ * (PUBLIC) Converts an amount between any two currencies (NPR included) through NPR.
+ * GET /api/convert?from=USD&to=INR&amount=100&date=YYYY-MM-DD&side=buy|sell|mid
+ * Uses the latest rates on or before `date` (default today).
+ */
+export async function handleConvert(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const from = (url.searchParams.get('from') || '').toUpperCase();
+    const to = (url.searchParams.get('to') || '').toUpperCase();
+    const amount = Number(url.searchParams.get('amount') ?? 1);
+
+    const params = parseConversionParams(url);
+    if (params instanceof Response) return params;
+    if (!from || !to) {
+        return new Response(JSON.stringify({ success: false, error: 'from and to are required' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+        return new Response(JSON.stringify({ success: false, error: 'amount must be a non-negative number' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+
+    try {
+        const rows = await getRatesOnOrBefore(env.FOREX_DB, params.date);
+        if (rows.length === 0) {
+            return new Response(JSON.stringify({ success: false, error: `No rates found on or before ${params.date}` }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const currencies = await getEnabledCurrencyMap(env);
+        const quotes = buildNprQuotes(rows, currencies, params.side);
+        const rate = crossRate(quotes, from, to);
+        if (rate === null) {
+            const missing = [from, to].filter(code => !quotes.has(code));
+            return new Response(JSON.stringify({
+                success: false,
+                error: `No ${params.side} rate for ${missing.join(', ')} on ${rows[0].date}`
+            }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const leg = (iso3: string): ConversionLeg => {
+            const quote = quotes.get(iso3)!;
+            return { iso3, unit: quote.unit, npr_per_unit: roundRate(quote.nprPerUnit) };
+        };
+        const body: ConversionResponse = {
+            success: true,
+            date: rows[0].date,
+            side: params.side,
+            via: 'NPR',
+            from: leg(from),
+            to: leg(to),
+            amount,
+            rate: roundRate(rate),
+            result: roundRate(amount * rate),
+        };
+        return new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleConvert:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (PUBLIC) The full matrix of cross rates between NPR and every enabled currency.
+ * GET /api/cross-rates?date=YYYY-MM-DD&side=buy|sell|mid
+ */
+export async function handleCrossRates(request: Request, env: Env): Promise<Response> {
+    const params = parseConversionParams(new URL(request.url));
+    if (params instanceof Response) return params;
+
+    try {
+        const rows = await getRatesOnOrBefore(env.FOREX_DB, params.date);
+        if (rows.length === 0) {
+            return new Response(JSON.stringify({ success: false, error: `No rates found on or before ${params.date}` }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+        }
+
+        const currencies = await getEnabledCurrencyMap(env);
+        const quotes = buildNprQuotes(rows, currencies, params.side);
+        const codes = orderedQuoteCodes(quotes, currencies);
+        const body: CrossRatesResponse = {
+            success: true,
+            date: rows[0].date,
+            side: params.side,
+            currencies: codes,
+            units: Object.fromEntries(codes.map(iso3 => [iso3, quotes.get(iso3)!.unit])),
+            rates: crossRateMatrix(quotes, codes),
+        };
+        return new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    } catch (error: any) {
+        console.error('Error in handleCrossRates:', error.message, error.cause);
+        return new Response(JSON.stringify({ success: false, error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+    }
+}
+
+/**
+ * (PUBLIC) Serves the OpenAPI document describing the public API.
+ */
+export async function handleOpenApiSpec(request: Request, env: Env): Promise<Response> {
+    const document = buildOpenApiDocument(new URL(request.url).origin);
+    return new Response(JSON.stringify(document), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' },
+    });
 }
 
 /**
@@ -293,58 +511,35 @@ export async function handlePublicPostBySlug(request: Request, env: Env): Promis
  */
 export async function handleImageApi(request: Request, env: Env): Promise<Response> {
     try {
-        const row = await getLatestForexRow(env);
-        if (!row) {
+        const currencies = await getEnabledCurrencyMap(env);
+        const rows = filterEnabled(await getLatestRates(env.FOREX_DB), currencies);
+        if (rows.length === 0) {
             return new Response('<html><body><p>No forex data found</p></body></html>', { 
                 status: 404, 
                 headers: {...corsHeaders, 'Content-Type': 'text/html'} 
             });
         }
+        const row = { date: rows[0].date };
         
         const yesterdayStr = formatDate(new Date(new Date(row.date).getTime() - 86400000));
-        const prevRow = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(yesterdayStr).first<any>();
+        const prevRows = await getRatesForDate(env.FOREX_DB, yesterdayStr);
+        const prevByCode = new Map(prevRows.map(r => [r.iso3, r]));
 
         let tableRows = '';
-        CURRENCIES.forEach(code => {
-            const buyRate = row[`${code}_buy`];
-            const sellRate = row[`${code}_sell`];
+        rows.forEach(current => {
+            const code = current.iso3;
+            const buyRate = current.buy;
+            const sellRate = current.sell;
             
             if (typeof buyRate === 'number' || typeof sellRate === 'number') {
-                const currencyInfo = CURRENCY_MAP[code];
-                const unit = currencyInfo?.unit || 1;
+                const unit = current.unit || 1;
                 
-                let buyTrend = '●';
-                let sellTrend = '●';
-                let buyColor = '#9ca3af';
-                let sellColor = '#9ca3af';
-
-                if (prevRow) {
-                    const prevBuy = (prevRow[`${code}_buy`] || 0) / unit;
-                    const prevSell = (prevRow[`${code}_sell`] || 0) / unit;
-                    const currentBuy = (buyRate || 0) / unit;
-                    const currentSell = (sellRate || 0) / unit;
-                    
-                    const buyDiff = currentBuy - prevBuy;
-                    const sellDiff = currentSell - prevSell;
-
-                    if (buyDiff > 0.0001) {
-                        buyTrend = '▲';
-                        buyColor = '#10b981';
-                    } else if (buyDiff < -0.0001) {
-                        buyTrend = '▼';
-                        buyColor = '#ef4444';
-                    }
+                const prev = prevByCode.get(code);
+                const buy = TREND_STYLES[prev ? rateTrend(buyRate, prev.buy, unit) : 'flat'];
+                const sell = TREND_STYLES[prev ? rateTrend(sellRate, prev.sell, unit) : 'flat'];
 
-                    if (sellDiff > 0.0001) {
-                        sellTrend = '▲';
-                        sellColor = '#10b981';
-                    } else if (sellDiff < -0.0001) {
-                        sellTrend = '▼';
-                        sellColor = '#ef4444';
-                    }
-                }
-
-                const countryCode = code === 'EUR' ? 'EU' : code.substring(0, 2);
+                const flagCode = currencies.get(code)?.flag_code;
+                const countryCode = flagCode ? flagCode.toUpperCase() : (code === 'EUR' ? 'EU' : code.substring(0, 2));
                 tableRows += `
                 <tr>
                     <td>
@@ -355,8 +550,8 @@ export async function handleImageApi(request: Request, env: Env): Promise<Respon
                             <strong>${code}</strong> (${unit})
                         </div>
                     </td>
-                    <td>${buyRate.toFixed(2)} <span style="color: ${buyColor}">${buyTrend}</span></td>
-                    <td>${sellRate.toFixed(2)} <span style="color: ${sellColor}">${sellTrend}</span></td>
+                    <td>${buyRate.toFixed(2)} <span style="color: ${buy.color}">${buy.symbol}</span></td>
+                    <td>${sellRate.toFixed(2)} <span style="color: ${sell.color}">${sell.symbol}</span></td>
                 </tr>`;
             }
         });
@@ -472,13 +667,8 @@ export async function handleArchiveListApi(request: Request, env: Env): Promise<
     const offset = (page - 1) * limit;
 
     try {
-        const { results } = await env.FOREX_DB.prepare(
-            `SELECT date FROM forex_rates ORDER BY date DESC LIMIT ? OFFSET ?`
-        ).bind(limit, offset).all<{ date: string }>();
-        
-        const countResult = await env.FOREX_DB.prepare(`SELECT COUNT(*) as total FROM forex_rates`).first<{ total: number }>();
-        
-        const total = countResult?.total || 0;
+        const dates = await listDates(env.FOREX_DB, limit, offset);
+        const total = await countDates(env.FOREX_DB);
         const totalPages = Math.ceil(total / limit);
 
         const responseData = {
@@ -489,7 +679,7 @@ export async function handleArchiveListApi(request: Request, env: Env): Promise<
                 total,
                 totalPages
             },
-            dates: results.map(r => r.date)
+            dates
         };
 
         return new Response(JSON.stringify(responseData), { 
@@ -498,7 +688,7 @@ export async function handleArchiveListApi(request: Request, env: Env): Promise<
 
     } catch (error: any) {
         console.error(`Error in handleArchiveListApi:`, error.message, error.cause);
-        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
 
@@ -506,83 +696,88 @@ export async function handleArchiveListApi(request: Request, env: Env): Promise<
  * (PUBLIC) API for Archive Detail Page Content
  * Returns the generated text paragraphs for the archive detail page.
  */
-export async function handleArchiveDetailApi(request: Request, env: Env): Promise<Response> {
+export async function handleArchiveDetailApi(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const date = url.pathname.split('/').pop();
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
 
     if (!date || !dateRegex.test(date)) {
-        return new Response(JSON.stringify({ error: 'Invalid date format' }), { status: 400, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Invalid date format' }), { status: 400, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 
     try {
-        const prevDate = formatDate(new Date(new Date(date).getTime() - 86400000));
+        return await serveCached(request, env, ctx, `/api/archive/detail/${date}`, async () => {
+            const prevDate = formatDate(new Date(new Date(date).getTime() - 86400000));
         
-        const row = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(date).first<any>();
-        const prevRow = await env.FOREX_DB.prepare(`SELECT * FROM forex_rates WHERE date = ?`).bind(prevDate).first<any>();
+            const currencies = await getEnabledCurrencyMap(env);
+            const rows = filterEnabled(await getRatesForDate(env.FOREX_DB, date), currencies);
+            const prevRows = await getRatesForDate(env.FOREX_DB, prevDate);
 
-        if (!row) {
-            return new Response(JSON.stringify({ error: 'No data found for this date' }), { status: 404, headers: corsHeaders });
-        }
+            if (rows.length === 0) {
+                return new Response(JSON.stringify({ error: 'No data found for this date' }), { status: 404, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
+            }
         
-        const usdRate = row['USD_buy'];
-        const usdSell = row['USD_sell'];
-        let gainerName = 'N/A';
-        let loserName = 'N/A';
-        let maxChange = -Infinity;
-        let minChange = Infinity;
-
-        let gainersCount = 0;
-        let losersCount = 0;
-
-        if (prevRow) {
-            for (const code of CURRENCIES) {
-                if (code === 'INR') continue;
+            const usd = rows.find(r => r.iso3 === 'USD');
+            const usdRate = usd?.buy;
+            const usdSell = usd?.sell;
+            let gainerName = 'N/A';
+            let loserName = 'N/A';
+            let maxChange = -Infinity;
+            let minChange = Infinity;
+
+            let gainersCount = 0;
+            let losersCount = 0;
+
+            if (prevRows.length > 0) {
+                const prevByCode = new Map(prevRows.map(r => [r.iso3, r]));
+                for (const current of rows) {
+                    const code = current.iso3;
+                    if (code === 'INR') continue;
                 
-                const unit = CURRENCY_MAP[code]?.unit || 1;
-                const buy = (row[`${code}_buy`] || 0) / unit;
-                const prevBuy = (prevRow[`${code}_buy`] || 0) / unit;
+                    const unit = current.unit || 1;
+                    const buy = (current.buy || 0) / unit;
+                    const prevBuy = (prevByCode.get(code)?.buy || 0) / unit;
                 
-                if (buy && prevBuy) {
-                    const change = buy - prevBuy;
-                    if (change > 0.0001) gainersCount++;
-                    if (change < -0.0001) losersCount++;
-
-                    if (change > maxChange) {
-                        maxChange = change;
-                        gainerName = CURRENCY_MAP[code]?.name || code;
-                    }
-                    if (change < minChange) {
-                        minChange = change;
-                        loserName = CURRENCY_MAP[code]?.name || code;
+                    if (buy && prevBuy) {
+                        const change = buy - prevBuy;
+                        if (change > 0.0001) gainersCount++;
+                        if (change < -0.0001) losersCount++;
+
+                        if (change > maxChange) {
+                            maxChange = change;
+                            gainerName = getCurrencyName(code, currencies);
+                        }
+                        if (change < minChange) {
+                            minChange = change;
+                            loserName = getCurrencyName(code, currencies);
+                        }
                     }
                 }
             }
-        }
         
-        // --- Generate Paragraphs ---
-        const intro = `Nepal Rastra Bank (NRB) published the official foreign exchange rates for ${date}. The U.S. Dollar settled at a buying rate of Rs. ${usdRate?.toFixed(2)} and a selling rate of Rs. ${usdSell?.toFixed(2)}.`;
+            // --- Generate Paragraphs ---
+            const intro = `Nepal Rastra Bank (NRB) published the official foreign exchange rates for ${date}. The U.S. Dollar settled at a buying rate of Rs. ${usdRate?.toFixed(2)} and a selling rate of Rs. ${usdSell?.toFixed(2)}.`;
         
-        const summary = `Today's market saw mixed movements. The ${gainerName} was the top gainer, while the ${loserName} saw the most significant decline. In total, ${gainersCount} currencies gained value against the NPR, while ${losersCount} lost ground.`;
+            const summary = `Today's market saw mixed movements. The ${gainerName} was the top gainer, while the ${loserName} saw the most significant decline. In total, ${gainersCount} currencies gained value against the NPR, while ${losersCount} lost ground.`;
 
-        const detail = `The Indian Rupee (INR) remained fixed at Rs. 160.00 (Buy) and Rs. 160.15 (Sell) per 100 units. Other major currencies like the European Euro and UK Pound Sterling also saw adjustments in line with global market trends.`;
+            const detail = `The Indian Rupee (INR) remained fixed at Rs. 160.00 (Buy) and Rs. 160.15 (Sell) per 100 units. Other major currencies like the European Euro and UK Pound Sterling also saw adjustments in line with global market trends.`;
 
-        const responseData = {
-            success: true,
-            date: date,
-            paragraphs: {
-                intro: intro,
-                summary: summary,
-                detail: detail
-            }
-        };
+            const responseData = {
+                success: true,
+                date: date,
+                paragraphs: {
+                    intro: intro,
+                    summary: summary,
+                    detail: detail
+                }
+            };
 
-        return new Response(JSON.stringify(responseData), { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            const validators = ratesValidators(`archive-${date}`, [...rows, ...prevRows], currencies);
+            return cacheableJson(responseData, validators, cacheControlForDate(date));
         });
 
     } catch (error: any) {
         console.error(`Error in handleArchiveDetailApi:`, error.message, error.cause);
-        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Database query failed' }), { status: 500, headers: {...corsHeaders, 'Content-Type': 'application/json'} });
     }
 }
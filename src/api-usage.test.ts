@@ -0,0 +1,112 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushApiUsage, getApiUsageReport, getApiUsageRows, recordApiUsage } from './api-usage';
+import { createTestD1, createTestKV, TestD1 } from './test/cloudflare';
+import type { Env, ExecutionContext } from './worker-types';
+
+const call = (ip: string) => new Request('https://forex.grisma.com.np/api/rates/latest', { headers: { 'CF-Connecting-IP': ip } });
+
+describe('API usage tallies', () => {
+    let db: TestD1;
+    let kv: ReturnType<typeof createTestKV>;
+    let env: Env;
+    let pending: Promise<unknown>[];
+    const ctx: ExecutionContext = { waitUntil: promise => pending.push(promise), passThroughOnException: () => {} };
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-01-15T05:20:00Z'));
+        db = createTestD1('001_db.sql', '014_api_usage.sql');
+        kv = createTestKV();
+        env = { FOREX_DB: db, API_SETTINGS_CACHE: kv } as unknown as Env;
+        pending = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const rows = () => getApiUsageRows(db, '2025-01-15 00:00:00', '2025-01-15 23:00:00');
+
+    it('holds counts in memory until the tally is due, then folds them into the hourly rollup', async () => {
+        // A fresh isolate writes its first request straight away
+        recordApiUsage(env, ctx, call('203.0.113.7'), '/api/rates/latest', 200);
+        await Promise.all(pending);
+        expect(kv.store.size).toBe(1);
+
+        recordApiUsage(env, ctx, call('203.0.113.7'), '/api/rates/latest', 200);
+        recordApiUsage(env, ctx, call('203.0.113.7'), '/api/rates/latest', 429);
+        recordApiUsage(env, ctx, call('198.51.100.1'), '/api/rates/latest', 404);
+        await Promise.all(pending);
+        expect(kv.store.size).toBe(1);
+
+        vi.advanceTimersByTime(30000);
+        recordApiUsage(env, ctx, call('203.0.113.7'), '/api/rates/latest', 200);
+        await Promise.all(pending);
+        expect(kv.store.size).toBe(2);
+
+        expect(await flushApiUsage(env)).toBe(2);
+        expect(kv.store.size).toBe(0);
+        expect(await rows()).toEqual([
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '198.51.100.1', status_class: '4xx', requests: 1 },
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '2xx', requests: 3 },
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '429', requests: 1 },
+        ]);
+    });
+
+    it('adds to counts already rolled up and does nothing without tallies', async () => {
+        db.exec(`INSERT INTO api_usage_hourly VALUES ('2025-01-15 05:00:00', '/api/rates/latest', '203.0.113.7', '2xx', 10)`);
+        await kv.put('usage:1:a', JSON.stringify([
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '2xx', requests: 4 },
+        ]));
+        await kv.put('usage:2:b', JSON.stringify([
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '2xx', requests: 6 },
+        ]));
+        await kv.put('http_cache_generation', '3');
+
+        expect(await flushApiUsage(env)).toBe(2);
+        expect((await rows()).map(row => row.requests)).toEqual([20]);
+        expect(Array.from(kv.store.keys())).toEqual(['http_cache_generation']);
+        expect(await flushApiUsage(env)).toBe(0);
+    });
+
+    it('reports zero totals for a range without traffic', async () => {
+        const report = await getApiUsageReport(db, '2025-01-15 00:00:00', '2025-01-15 23:00:00', 1);
+        expect(report.totals).toEqual({ requests: 0, rate_limited: 0, forbidden: 0 });
+        expect(report.top_consumers).toEqual([]);
+    });
+
+    it('splits 429s and 403s out of the totals and per consumer', async () => {
+        db.exec(`INSERT INTO api_usage_hourly VALUES
+            ('2025-01-15 04:00:00', '/api/rates/latest', '203.0.113.7', '2xx', 10),
+            ('2025-01-15 05:00:00', '/api/rates/latest', '203.0.113.7', '429', 3),
+            ('2025-01-15 05:00:00', '/api/archive/list', '198.51.100.1', '403', 2)`);
+
+        const report = await getApiUsageReport(db, '2025-01-15 00:00:00', '2025-01-15 23:00:00', 1);
+        expect(report.totals).toEqual({ requests: 15, rate_limited: 3, forbidden: 2 });
+        expect(report.top_consumers).toEqual([
+            { identifier: '203.0.113.7', requests: 13, rate_limited: 3, forbidden: 0 },
+            { identifier: '198.51.100.1', requests: 2, rate_limited: 0, forbidden: 2 },
+        ]);
+        expect(report.denials).toEqual([{ period: '2025-01-15 05:00:00', rate_limited: 3, forbidden: 2 }]);
+    });
+});
+
+describe('014_api_usage.sql', () => {
+    it('carries the old per-request log over as 2xx hourly counts', async () => {
+        const db = createTestD1('001_db.sql');
+        db.exec(`INSERT INTO api_usage_logs (identifier, endpoint, request_time) VALUES
+            ('203.0.113.7', '/api/rates/latest', '2025-01-15 05:01:00'),
+            ('203.0.113.7', '/api/rates/latest', '2025-01-15 05:59:59'),
+            ('203.0.113.7', '/api/rates/latest', '2025-01-15 06:00:00'),
+            ('198.51.100.1', '/api/archive/list', '2025-01-15 05:30:00')`);
+        db.exec(readFileSync(new URL('../migrations/014_api_usage.sql', import.meta.url), 'utf8'));
+
+        expect(await getApiUsageRows(db, '2025-01-15 00:00:00', '2025-01-15 23:00:00')).toEqual([
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/archive/list', identifier: '198.51.100.1', status_class: '2xx', requests: 1 },
+            { hour: '2025-01-15 05:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '2xx', requests: 2 },
+            { hour: '2025-01-15 06:00:00', endpoint: '/api/rates/latest', identifier: '203.0.113.7', status_class: '2xx', requests: 1 },
+        ]);
+        expect(await db.prepare(`SELECT name FROM sqlite_master WHERE name = 'api_usage_logs'`).first()).toBeNull();
+    });
+});
@@ -0,0 +1,192 @@
+// src/api-usage.ts
+// --- API USAGE ANALYTICS ---
+// Request counts for the public API per UTC hour, endpoint, caller and status class, shown
+// in the admin "API Settings" tab; quotas are enforced separately (rate-limit.ts).
+//
+// Nothing here touches D1 on the request path. Each isolate tallies requests in memory and
+// writes its tally to KV under its own key (so writers never contend), at most every
+// FLUSH_INTERVAL_MS or FLUSH_AFTER_REQUESTS requests. The */5 cron folds those tallies into
+// api_usage_hourly. A tally still in memory when an isolate is evicted is lost, so counts are
+// approximate, and the current hour lags by up to a few minutes.
+
+import { Env, ExecutionContext, D1Database, D1Result, ApiUsageHourly, ApiUsageReport, ApiUsageStatusClass } from './worker-types';
+import { getApiKeyFromRequest, apiKeyPrefix } from './api-keys';
+
+export const API_USAGE_RETENTION_DAYS = 90;
+const TOP_CONSUMERS = 20;
+const HOURLY_BUCKET_MAX_DAYS = 2; // Longer ranges are charted per day
+
+const TALLY_PREFIX = 'usage:';
+const TALLY_TTL_SECONDS = 7 * 86400; // Only reached if the cron stops running
+const FLUSH_INTERVAL_MS = 30000;
+const FLUSH_AFTER_REQUESTS = 100;
+const MAX_TALLIES_PER_FLUSH = 200; // KV reads per cron run stay well under the subrequest limit
+
+// This isolate's counts since its last write to KV, keyed by hour, endpoint, identifier and status class
+let tally = new Map<string, number>();
+let tallyRequests = 0;
+let lastTallyWrite = 0;
+
+export function usageStatusClass(status: number): ApiUsageStatusClass {
+    if (status === 401 || status === 403 || status === 429) return String(status) as ApiUsageStatusClass;
+    if (status >= 500) return '5xx';
+    if (status >= 400) return '4xx';
+    return status >= 300 ? '3xx' : '2xx';
+}
+
+/**
+ * Who made the request: an API key by its (non-secret) prefix, otherwise the IP.
+ */
+export function usageIdentifier(request: Request): string {
+    const apiKey = getApiKeyFromRequest(request);
+    if (apiKey) return `key:${apiKeyPrefix(apiKey)}`;
+    return request.headers.get('CF-Connecting-IP') || 'unknown_ip';
+}
+
+function currentHour(): string {
+    return `${new Date().toISOString().slice(0, 13).replace('T', ' ')}:00:00`;
+}
+
+/**
+ * Counts a public API response. Only writes to KV (after the response) when this
+ * isolate's tally is due; see the top of this file.
+ */
+export function recordApiUsage(env: Env, ctx: ExecutionContext, request: Request, endpoint: string, status: number): void {
+    const key = [currentHour(), endpoint, usageIdentifier(request), usageStatusClass(status)].join('\t');
+    tally.set(key, (tally.get(key) || 0) + 1);
+    tallyRequests++;
+
+    const now = Date.now();
+    if (tallyRequests < FLUSH_AFTER_REQUESTS && now - lastTallyWrite < FLUSH_INTERVAL_MS) return;
+
+    const rows = Array.from(tally, ([key, requests]) => {
+        const [hour, endpoint, identifier, status_class] = key.split('\t');
+        return { hour, endpoint, identifier, status_class, requests } as ApiUsageHourly;
+    });
+    tally = new Map();
+    tallyRequests = 0;
+    lastTallyWrite = now;
+
+    ctx.waitUntil(
+        env.API_SETTINGS_CACHE.put(`${TALLY_PREFIX}${now}:${crypto.randomUUID()}`, JSON.stringify(rows), {
+            expirationTtl: TALLY_TTL_SECONDS,
+        }).catch(e => console.error('Failed to record API usage:', e))
+    );
+}
+
+/**
+ * Adds the tallies written by recordApiUsage to api_usage_hourly and deletes them.
+ * Called by the scheduled worker; returns the number of tallies folded in.
+ */
+export async function flushApiUsage(env: Env): Promise<number> {
+    const { keys } = await env.API_SETTINGS_CACHE.list({ prefix: TALLY_PREFIX, limit: MAX_TALLIES_PER_FLUSH });
+    if (keys.length === 0) return 0;
+
+    const tallies = await Promise.all(keys.map(({ name }) => env.API_SETTINGS_CACHE.get(name, 'json') as Promise<ApiUsageHourly[] | null>));
+    const totals = new Map<string, ApiUsageHourly>();
+    for (const row of tallies.flat()) {
+        if (!row) continue;
+        const key = [row.hour, row.endpoint, row.identifier, row.status_class].join('\t');
+        const total = totals.get(key);
+        if (total) total.requests += row.requests;
+        else totals.set(key, { ...row });
+    }
+
+    if (totals.size > 0) {
+        const upsert = env.FOREX_DB.prepare(
+            `INSERT INTO api_usage_hourly (hour, endpoint, identifier, status_class, requests) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(hour, endpoint, identifier, status_class) DO UPDATE SET requests = requests + excluded.requests`
+        );
+        await env.FOREX_DB.batch(Array.from(totals.values(), row =>
+            upsert.bind(row.hour, row.endpoint, row.identifier, row.status_class, row.requests)
+        ));
+    }
+    // Deleted only once counted; a failure above leaves them for the next run
+    await Promise.all(keys.map(({ name }) => env.API_SETTINGS_CACHE.delete(name)));
+    return keys.length;
+}
+
+/**
+ * Drops rollups older than the retention period. Called by the scheduled worker.
+ */
+export async function pruneApiUsage(db: D1Database): Promise<void> {
+    await db.prepare(`DELETE FROM api_usage_hourly WHERE hour < datetime('now', ?)`)
+        .bind(`-${API_USAGE_RETENTION_DAYS} days`).run();
+}
+
+/**
+ * The hour range covering the last `days` days, up to and including the current hour.
+ */
+export function usageRange(days: number): { from: string; to: string } {
+    const hour = (ms: number) => `${new Date(ms).toISOString().slice(0, 13).replace('T', ' ')}:00:00`;
+    const now = Date.now();
+    return { from: hour(now - days * 86400000 + 3600000), to: hour(now) };
+}
+
+/**
+ * Rollup rows in a range, oldest first, for the CSV download.
+ */
+export async function getApiUsageRows(db: D1Database, from: string, to: string): Promise<ApiUsageHourly[]> {
+    const { results } = await db.prepare(
+        `SELECT hour, endpoint, identifier, status_class, requests FROM api_usage_hourly
+         WHERE hour >= ? AND hour <= ? ORDER BY hour, endpoint, identifier, status_class`
+    ).bind(from, to).all<ApiUsageHourly>();
+    return results || [];
+}
+
+// One result per statement in getApiUsageReport's batch, in order
+type ReportResults = [
+    D1Result<{ [K in keyof ApiUsageReport['totals']]: number | null }>,
+    D1Result<ApiUsageReport['top_consumers'][number]>,
+    D1Result<ApiUsageReport['endpoints'][number]>,
+    D1Result<ApiUsageReport['series'][number]>,
+    D1Result<ApiUsageReport['denials'][number]>,
+];
+
+/**
+ * Totals, top consumers, per-endpoint traffic over time and 429/403 counts for a range.
+ */
+export async function getApiUsageReport(db: D1Database, from: string, to: string, days: number): Promise<ApiUsageReport> {
+    const bucket = days <= HOURLY_BUCKET_MAX_DAYS ? 'hour' : 'day';
+    const period = bucket === 'hour' ? 'hour' : 'substr(hour, 1, 10)';
+    const counts = `SUM(requests) AS requests,
+                SUM(CASE WHEN status_class = '429' THEN requests ELSE 0 END) AS rate_limited,
+                SUM(CASE WHEN status_class = '403' THEN requests ELSE 0 END) AS forbidden`;
+    const range = 'WHERE hour >= ? AND hour <= ?';
+
+    const [totals, consumers, endpoints, series, denials] = await db.batch([
+        db.prepare(`SELECT ${counts} FROM api_usage_hourly ${range}`).bind(from, to),
+        db.prepare(
+            `SELECT identifier, ${counts} FROM api_usage_hourly ${range}
+             GROUP BY identifier ORDER BY requests DESC LIMIT ${TOP_CONSUMERS}`
+        ).bind(from, to),
+        db.prepare(
+            `SELECT endpoint, SUM(requests) AS requests FROM api_usage_hourly ${range}
+             GROUP BY endpoint ORDER BY requests DESC`
+        ).bind(from, to),
+        db.prepare(
+            `SELECT ${period} AS period, endpoint, SUM(requests) AS requests FROM api_usage_hourly ${range}
+             GROUP BY period, endpoint ORDER BY period`
+        ).bind(from, to),
+        db.prepare(
+            `SELECT ${period} AS period,
+                SUM(CASE WHEN status_class = '429' THEN requests ELSE 0 END) AS rate_limited,
+                SUM(CASE WHEN status_class = '403' THEN requests ELSE 0 END) AS forbidden
+             FROM api_usage_hourly ${range} AND status_class IN ('429', '403')
+             GROUP BY period ORDER BY period`
+        ).bind(from, to),
+    ]) as ReportResults;
+
+    // SUM() over no rows is NULL
+    const total = totals.results?.[0];
+    return {
+        from,
+        to,
+        bucket,
+        totals: { requests: total?.requests ?? 0, rate_limited: total?.rate_limited ?? 0, forbidden: total?.forbidden ?? 0 },
+        top_consumers: consumers.results || [],
+        endpoints: endpoints.results || [],
+        series: series.results || [],
+        denials: denials.results || [],
+    };
+}
@@ -0,0 +1,404 @@
+// src/api-v1.ts
+// --- PUBLIC API v1 ---
+// The frozen /api/v1 surface. Every response, errors included, is a V1Envelope
+// `{ data, meta, error }`, and rates state per-unit and quoted-unit values explicitly.
+// Fields may be added here but never renamed or removed; shape changes belong in a v2.
+
+import { Env, ExecutionContext } from './worker-types';
+import type {
+    RateSide,
+    StatsBucketSize,
+    V1Conversion,
+    V1ConversionLeg,
+    V1CrossRates,
+    V1Currency,
+    V1ErrorCode,
+    V1Rate,
+    V1RatesDay,
+    V1Stats,
+} from './types/forex';
+import { corsHeaders } from './constants';
+import { formatDate, nowInNepal } from './worker-utils';
+import { getEnabledCurrencyMap } from './currency-registry';
+import { RATE_SIDES, NprQuote, buildNprQuotes, crossRate, crossRateMatrix, orderedQuoteCodes, roundRate } from './cross-rates';
+import { answerConditional, cacheControlForDate, CACHE_CONTROL_CURRENT, ratesValidators, validatorHeaders } from './http-cache';
+import {
+    CurrencyLookup,
+    StoredRate,
+    STATS_BUCKET_SIZES,
+    filterEnabled,
+    getCurrencyName,
+    getCurrencyStats,
+    getLatestRates,
+    getRatesForDate,
+    getRatesOnOrBefore,
+    getRatesPage,
+} from './rates-store';
+import type { RouteParams } from './router';
+
+export const V1_RATE_FIELDS: (keyof V1Rate)[] = [
+    'iso3', 'name', 'unit', 'buy_per_unit', 'sell_per_unit', 'buy_quoted', 'sell_quoted',
+];
+const MAX_RANGE_DAYS = 366;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const ERROR_CODES: Record<number, V1ErrorCode> = {
+    400: 'invalid_parameter',
+    401: 'invalid_api_key',
+    403: 'forbidden',
+    404: 'not_found',
+    405: 'method_not_allowed',
+    413: 'payload_too_large',
+    429: 'quota_exceeded',
+};
+
+/**
+ * The machine code for an HTTP error status.
+ */
+export function v1ErrorCode(status: number): V1ErrorCode {
+    return ERROR_CODES[status] || 'internal_error';
+}
+
+export function v1Data(data: unknown, meta: Record<string, unknown> = {}, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify({ data, meta: { api_version: 'v1', ...meta }, error: null }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+    });
+}
+
+export function v1Error(status: number, message: string, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify({ data: null, meta: { api_version: 'v1' }, error: { code: v1ErrorCode(status), message } }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+    });
+}
+
+// --- Parameters ---
+
+/**
+ * `currencies=USD,EUR` narrowed to enabled codes, in display order; every enabled
+ * currency when absent. `extra` codes (e.g. NPR) are accepted as well.
+ */
+function parseCurrencies(url: URL, currencies: CurrencyLookup, extra: string[] = []): string[] | Response {
+    const all = [...extra, ...filterEnabledCodes(currencies)];
+    const param = url.searchParams.get('currencies');
+    if (!param) return all;
+
+    const requested = new Set(param.split(',').map(code => code.trim().toUpperCase()).filter(Boolean));
+    const unknown = [...requested].filter(code => !all.includes(code));
+    if (unknown.length > 0) {
+        return v1Error(400, `Unknown or disabled currency: ${unknown.join(', ')}`);
+    }
+    return all.filter(code => requested.has(code));
+}
+
+function filterEnabledCodes(currencies: CurrencyLookup): string[] {
+    return Array.from(currencies.values())
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(c => c.iso3);
+}
+
+/**
+ * `fields=buy_per_unit,sell_per_unit` for rate objects. iso3 is always included.
+ */
+function parseFields(url: URL): (keyof V1Rate)[] | Response {
+    const param = url.searchParams.get('fields');
+    if (!param) return V1_RATE_FIELDS;
+
+    const requested = param.split(',').map(field => field.trim()).filter(Boolean);
+    const unknown = requested.filter(field => !V1_RATE_FIELDS.includes(field as keyof V1Rate));
+    if (unknown.length > 0) {
+        return v1Error(400, `Unknown field: ${unknown.join(', ')}. Available: ${V1_RATE_FIELDS.join(', ')}`);
+    }
+    return V1_RATE_FIELDS.filter(field => field === 'iso3' || requested.includes(field));
+}
+
+function parseSide(url: URL): RateSide | Response {
+    const side = (url.searchParams.get('side') || 'mid').toLowerCase() as RateSide;
+    return RATE_SIDES.includes(side) ? side : v1Error(400, `side must be one of: ${RATE_SIDES.join(', ')}`);
+}
+
+function parseOptionalDate(url: URL): string | Response {
+    const date = url.searchParams.get('date') || formatDate(nowInNepal());
+    return DATE_REGEX.test(date) ? date : v1Error(400, 'date must be YYYY-MM-DD');
+}
+
+function parseRange(url: URL, maxDays: number | null): { from: string; to: string } | Response {
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    if (!from || !to || !DATE_REGEX.test(from) || !DATE_REGEX.test(to) || from > to) {
+        return v1Error(400, 'from and to must be YYYY-MM-DD dates, from <= to');
+    }
+    if (maxDays !== null && (Date.parse(to) - Date.parse(from)) / 86400000 + 1 > maxDays) {
+        return v1Error(400, `The range may span at most ${maxDays} days`);
+    }
+    return { from, to };
+}
+
+// --- Shapes ---
+
+// Quoted values are rounded so per-unit floats like 1.6 * 100 don't come out as 160.00000000000003
+const quoted = (value: number | null, unit: number): number | null =>
+    (value === null ? null : Math.round(value * unit * 1e6) / 1e6);
+
+function toV1Rate(row: StoredRate, currencies: CurrencyLookup, fields: (keyof V1Rate)[]): Partial<V1Rate> {
+    const unit = row.unit || 1;
+    const rate: V1Rate = {
+        iso3: row.iso3,
+        name: getCurrencyName(row.iso3, currencies),
+        unit,
+        buy_per_unit: row.buy,
+        sell_per_unit: row.sell,
+        buy_quoted: quoted(row.buy, unit),
+        sell_quoted: quoted(row.sell, unit),
+    };
+    if (fields.length === V1_RATE_FIELDS.length) return rate;
+    return Object.fromEntries(fields.map(field => [field, rate[field]]));
+}
+
+function toRatesDay(date: string, rows: StoredRate[], currencies: CurrencyLookup, iso3s: string[], fields: (keyof V1Rate)[]): V1RatesDay {
+    const wanted = new Set(iso3s);
+    const lastFetched = rows.reduce((latest, row) => (row.fetched_at > latest ? row.fetched_at : latest), '');
+    return {
+        date,
+        updated_at: lastFetched ? `${lastFetched.replace(' ', 'T')}Z` : null,
+        rates: filterEnabled(rows, currencies)
+            .filter(row => wanted.has(row.iso3) && (row.buy !== null || row.sell !== null))
+            .map(row => toV1Rate(row, currencies, fields)),
+    };
+}
+
+// --- Handlers ---
+
+async function ratesDayResponse(
+    request: Request,
+    env: Env,
+    date: string | null,
+    rows: StoredRate[],
+    cacheControl: string
+): Promise<Response> {
+    const url = new URL(request.url);
+    const currencies = await getEnabledCurrencyMap(env);
+    const iso3s = parseCurrencies(url, currencies);
+    if (iso3s instanceof Response) return iso3s;
+    const fields = parseFields(url);
+    if (fields instanceof Response) return fields;
+
+    if (rows.length === 0) {
+        return v1Error(404, date ? `No rates published for ${date}` : 'No rates published today or yesterday');
+    }
+
+    const day = toRatesDay(rows[0].date, rows, currencies, iso3s, fields);
+    const validators = ratesValidators(`v1-rates-${day.date}`, rows, currencies);
+    const response = v1Data(day, { count: day.rates.length }, validatorHeaders(validators, cacheControl));
+    return answerConditional(request, response);
+}
+
+/**
+ * (PUBLIC) GET /api/v1/rates/latest?currencies=&fields=
+ * Today's rates, or yesterday's before NRB publishes.
+ */
+export async function handleV1LatestRates(request: Request, env: Env): Promise<Response> {
+    try {
+        const rows = await getLatestRates(env.FOREX_DB);
+        return await ratesDayResponse(request, env, null, rows, CACHE_CONTROL_CURRENT);
+    } catch (error: any) {
+        console.error('Error in handleV1LatestRates:', error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/v1/rates/:date?currencies=&fields=
+ */
+export async function handleV1RatesByDate(request: Request, env: Env, ctx: ExecutionContext, params: RouteParams): Promise<Response> {
+    const { date } = params;
+    if (!DATE_REGEX.test(date)) {
+        return v1Error(400, 'date must be YYYY-MM-DD');
+    }
+
+    try {
+        const rows = await getRatesForDate(env.FOREX_DB, date);
+        return await ratesDayResponse(request, env, date, rows, cacheControlForDate(date));
+    } catch (error: any) {
+        console.error(`Error in handleV1RatesByDate for ${date}:`, error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/v1/rates?from=&to=&currencies=&fields=
+ * Every published date in the range (at most MAX_RANGE_DAYS), oldest first.
+ */
+export async function handleV1RatesRange(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const range = parseRange(url, MAX_RANGE_DAYS);
+    if (range instanceof Response) return range;
+    const fields = parseFields(url);
+    if (fields instanceof Response) return fields;
+
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        const iso3s = parseCurrencies(url, currencies);
+        if (iso3s instanceof Response) return iso3s;
+
+        // The range cap bounds this to one page
+        const rows = await getRatesPage(env.FOREX_DB, iso3s, range.from, range.to, null, iso3s.length * MAX_RANGE_DAYS);
+        const byDate = new Map<string, StoredRate[]>();
+        for (const row of rows) {
+            if (!byDate.has(row.date)) byDate.set(row.date, []);
+            byDate.get(row.date)!.push(row);
+        }
+
+        const days = Array.from(byDate.entries())
+            .map(([date, dayRows]) => toRatesDay(date, dayRows, currencies, iso3s, fields))
+            .filter(day => day.rates.length > 0);
+        return v1Data(days, { from: range.from, to: range.to, count: days.length });
+    } catch (error: any) {
+        console.error('Error in handleV1RatesRange:', error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/v1/currencies
+ * Enabled currencies in display order.
+ */
+export async function handleV1Currencies(request: Request, env: Env): Promise<Response> {
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        const data: V1Currency[] = filterEnabledCodes(currencies).map(iso3 => {
+            const c = currencies.get(iso3)!;
+            return { iso3: c.iso3, name: c.name, unit: c.unit, region: c.region, flag_code: c.flag_code };
+        });
+        return v1Data(data, { count: data.length });
+    } catch (error: any) {
+        console.error('Error in handleV1Currencies:', error.message, error.cause);
+        return v1Error(500, 'Failed to fetch currencies');
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/v1/stats/:currency?from=&to=&bucket=week|month|quarter|year
+ * Per-unit OHLC statistics, as /api/stats/:currency.
+ */
+export async function handleV1Stats(request: Request, env: Env, ctx: ExecutionContext, params: RouteParams): Promise<Response> {
+    const url = new URL(request.url);
+    const currencyCode = params.currency.toUpperCase();
+    const range = parseRange(url, null);
+    if (range instanceof Response) return range;
+    const bucket = url.searchParams.get('bucket') as StatsBucketSize | null;
+    if (bucket && !STATS_BUCKET_SIZES.includes(bucket)) {
+        return v1Error(400, `bucket must be one of: ${STATS_BUCKET_SIZES.join(', ')}`);
+    }
+
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        if (!currencies.has(currencyCode)) {
+            return v1Error(404, `Unknown or disabled currency: ${currencyCode}`);
+        }
+
+        const [summary, buckets] = await Promise.all([
+            getCurrencyStats(env.FOREX_DB, currencyCode, range.from, range.to, 'all'),
+            bucket ? getCurrencyStats(env.FOREX_DB, currencyCode, range.from, range.to, bucket) : Promise.resolve([]),
+        ]);
+        const data: V1Stats = { currency: currencyCode, from: range.from, to: range.to, bucket, summary: summary[0] || null, buckets };
+        return v1Data(data);
+    } catch (error: any) {
+        console.error(`Error in handleV1Stats for ${currencyCode}:`, error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
+
+const toLeg = (quote: NprQuote): V1ConversionLeg => ({
+    iso3: quote.iso3,
+    unit: quote.unit,
+    npr_per_unit: roundRate(quote.nprPerUnit),
+    npr_per_quoted: roundRate(quote.nprPerUnit * quote.unit),
+});
+
+/**
+ * (PUBLIC) GET /api/v1/convert?from=&to=&amount=&date=&side=
+ * Converts through NPR using the latest rates on or before `date` (default today).
+ */
+export async function handleV1Convert(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const from = (url.searchParams.get('from') || '').toUpperCase();
+    const to = (url.searchParams.get('to') || '').toUpperCase();
+    const amount = Number(url.searchParams.get('amount') ?? 1);
+    const date = parseOptionalDate(url);
+    if (date instanceof Response) return date;
+    const side = parseSide(url);
+    if (side instanceof Response) return side;
+    if (!from || !to) {
+        return v1Error(400, 'from and to are required');
+    }
+    if (!Number.isFinite(amount) || amount < 0) {
+        return v1Error(400, 'amount must be a non-negative number');
+    }
+
+    try {
+        const rows = await getRatesOnOrBefore(env.FOREX_DB, date);
+        if (rows.length === 0) {
+            return v1Error(404, `No rates found on or before ${date}`);
+        }
+
+        const quotes = buildNprQuotes(rows, await getEnabledCurrencyMap(env), side);
+        const rate = crossRate(quotes, from, to);
+        if (rate === null) {
+            const missing = [from, to].filter(code => !quotes.has(code));
+            return v1Error(404, `No ${side} rate for ${missing.join(', ')} on ${rows[0].date}`);
+        }
+
+        const data: V1Conversion = {
+            date: rows[0].date,
+            side,
+            via: 'NPR',
+            from: toLeg(quotes.get(from)!),
+            to: toLeg(quotes.get(to)!),
+            amount,
+            rate_per_unit: roundRate(rate),
+            result: roundRate(amount * rate),
+        };
+        return v1Data(data);
+    } catch (error: any) {
+        console.error('Error in handleV1Convert:', error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/v1/cross-rates?date=&side=&currencies=
+ * rates_per_unit[FROM][TO] is TO per single unit of FROM. `currencies` may include NPR.
+ */
+export async function handleV1CrossRates(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const date = parseOptionalDate(url);
+    if (date instanceof Response) return date;
+    const side = parseSide(url);
+    if (side instanceof Response) return side;
+
+    try {
+        const currencies = await getEnabledCurrencyMap(env);
+        const requested = parseCurrencies(url, currencies, ['NPR']);
+        if (requested instanceof Response) return requested;
+
+        const rows = await getRatesOnOrBefore(env.FOREX_DB, date);
+        if (rows.length === 0) {
+            return v1Error(404, `No rates found on or before ${date}`);
+        }
+
+        const quotes = buildNprQuotes(rows, currencies, side);
+        const codes = orderedQuoteCodes(quotes, currencies).filter(code => requested.includes(code));
+        const data: V1CrossRates = {
+            date: rows[0].date,
+            side,
+            currencies: codes,
+            units: Object.fromEntries(codes.map(iso3 => [iso3, quotes.get(iso3)!.unit])),
+            rates_per_unit: crossRateMatrix(quotes, codes),
+        };
+        return v1Data(data);
+    } catch (error: any) {
+        console.error('Error in handleV1CrossRates:', error.message, error.cause);
+        return v1Error(500, 'Database query failed');
+    }
+}
@@ -1,11 +1,16 @@
 // iamgrisma/forexnepal/forexnepal-892e763f1401a81eb2bc3250b64698c85e1f23bd/src/auth.ts
 import { SignJWT, jwtVerify, JWTPayload } from 'jose';
+import { Role, normalizeRole } from './permissions';
+import { D1Database } from './worker-types';
+import { isSessionActive } from './sessions';
+
+export const ACCESS_TOKEN_TTL = '15m';
 
 /**
- * Verifies a JWT token.
+ * Verifies a JWT token and that the session it belongs to (its `jti`) is still active.
  * Now requires the secret to be passed from env.
  */
-export async function verifyToken(token: string, secret: string): Promise<boolean> {
+export async function verifyToken(token: string, secret: string, db: D1Database): Promise<boolean> {
   if (!secret) {
     console.error('JWT_SECRET is not set. Token verification failed.');
     return false;
@@ -16,7 +21,8 @@ export async function verifyToken(token: string, secret: string): Promise<boolea
       issuer: 'forex-nepal',
       audience: 'forex-nepal-users',
     });
-    return !!payload.sub; // Check if 'sub' (username) exists
+    if (!payload.sub || !payload.jti) return false; // Tokens from before sessions have no jti
+    return await isSessionActive(db, payload.jti);
   } catch (e) {
     console.error('Token verification failed:', e);
     return false;
@@ -51,29 +57,119 @@ export async function getUsernameFromToken(token: string, secret: string): Promi
 }
 // --- END NEW FUNCTION ---
 
+/**
+ * Verifies a JWT token and returns the role it was issued with.
+ * Tokens issued before roles existed carry none and get the least privilege.
+ */
+export async function getRoleFromToken(token: string, secret: string): Promise<Role | null> {
+  if (!secret) {
+    console.error('JWT_SECRET is not set. Token verification failed.');
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+      issuer: 'forex-nepal',
+      audience: 'forex-nepal-users',
+    });
+    return normalizeRole(payload.role as string | undefined);
+  } catch (e) {
+    console.error('Token verification failed:', e);
+    return null;
+  }
+}
+
+/**
+ * Verifies a JWT token and returns its session id (`jti`).
+ */
+export async function getSessionIdFromToken(token: string, secret: string): Promise<string | null> {
+  if (!secret) {
+    console.error('JWT_SECRET is not set. Token verification failed.');
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+      issuer: 'forex-nepal',
+      audience: 'forex-nepal-users',
+    });
+    return payload.jti || null;
+  } catch (e) {
+    console.error('Token verification failed:', e);
+    return null;
+  }
+}
+
 
 /**
- * Generates a new JWT token.
+ * Generates a short-lived access token carrying the user's role and session id.
  * Now requires the secret to be passed from env.
  */
-export async function generateToken(username: string, secret: string): Promise<string> {
+export async function generateToken(username: string, secret: string, role: Role, sessionId: string): Promise<string> {
   if (!secret) {
     console.error('JWT_SECRET is not set. Token generation failed.');
     throw new Error('Server configuration error.');
   }
 
   const encodedSecret = new TextEncoder().encode(secret);
-  const token = await new SignJWT({ 'username': username })
+  const token = await new SignJWT({ 'username': username, 'role': role })
     .setProtectedHeader({ alg: 'HS256' })
     .setSubject(username)
+    .setJti(sessionId)
     .setIssuedAt()
     .setIssuer('forex-nepal')
     .setAudience('forex-nepal-users')
-    .setExpirationTime('24h') // Token expires in 24 hours
+    .setExpirationTime(ACCESS_TOKEN_TTL) // Kept alive by the refresh token
     .sign(encodedSecret);
   return token;
 }
 
+export type PreAuthPurpose = 'verify' | 'enroll';
+
+/**
+ * Issues the short-lived token handed out between the password (or Google) step and
+ * the second factor. It uses its own audience, so verifyToken never accepts it.
+ */
+export async function generatePreAuthToken(username: string, secret: string, purpose: PreAuthPurpose): Promise<string> {
+  if (!secret) {
+    console.error('JWT_SECRET is not set. Token generation failed.');
+    throw new Error('Server configuration error.');
+  }
+
+  return await new SignJWT({ 'purpose': purpose })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(username)
+    .setIssuedAt()
+    .setIssuer('forex-nepal')
+    .setAudience('forex-nepal-2fa')
+    .setExpirationTime('5m')
+    .sign(new TextEncoder().encode(secret));
+}
+
+/**
+ * Verifies a pre-auth token and returns who it was issued to and why.
+ */
+export async function getPreAuthClaims(token: string, secret: string): Promise<{ username: string; purpose: PreAuthPurpose } | null> {
+  if (!secret) {
+    console.error('JWT_SECRET is not set. Token verification failed.');
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+      issuer: 'forex-nepal',
+      audience: 'forex-nepal-2fa',
+    });
+    if (!payload.sub || (payload.purpose !== 'verify' && payload.purpose !== 'enroll')) {
+      return null;
+    }
+    return { username: payload.sub, purpose: payload.purpose };
+  } catch (e) {
+    console.error('Pre-auth token verification failed:', e);
+    return null;
+  }
+}
+
 /**
  * Simple hash function (remains unchanged)
  */
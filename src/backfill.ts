@@ -0,0 +1,150 @@
+// src/backfill.ts
+// --- HISTORICAL NRB BACKFILL ---
+// A job walks its date range in windows of `chunk_days`, paging through the NRB API
+// inside each window. The cursor is saved after every page, so a run that hits the
+// time or subrequest limit simply continues on the next scheduled invocation.
+
+import { Env, BackfillJob, D1PreparedStatement } from './worker-types';
+import { processAndStoreApiData, fetchNrbRates } from './scheduled';
+import { WriteMode } from './rates-store';
+import { addDays } from './worker-utils';
+
+export const BACKFILL_CRON = '*/5 * * * *';
+export const NRB_EARLIEST_DATE = '2000-01-01';
+export const DEFAULT_CHUNK_DAYS = 30;
+export const MAX_CHUNK_DAYS = 90;
+
+const NRB_PER_PAGE = 100;
+const PAGES_PER_RUN = 3; // Keeps each invocation well inside the subrequest limit
+const MAX_ATTEMPTS = 3; // Failures on one cursor before its dates are logged as errors
+
+/**
+ * Lists every date from `from` to `to` (inclusive).
+ */
+function datesBetween(from: string, to: string): string[] {
+    const dates: string[] = [];
+    for (let d = from; d <= to; d = addDays(d, 1)) dates.push(d);
+    return dates;
+}
+
+/**
+ * Creates a pending job. Returns its id.
+ */
+export async function createBackfillJob(
+    env: Env,
+    job: { from_date: string; to_date: string; mode: WriteMode; chunk_days: number; created_by: string | null }
+): Promise<number> {
+    const result = await env.FOREX_DB.prepare(
+        `INSERT INTO backfill_jobs (from_date, to_date, mode, chunk_days, status, cursor_date, created_by)
+         VALUES (?, ?, ?, ?, 'pending', ?, ?)
+         RETURNING id`
+    ).bind(job.from_date, job.to_date, job.mode, job.chunk_days, job.from_date, job.created_by).first<{ id: number }>();
+    return result!.id;
+}
+
+/**
+ * Runs the oldest unfinished job, if there is one. Called from the backfill cron.
+ */
+export async function runPendingBackfill(env: Env): Promise<void> {
+    const job = await env.FOREX_DB.prepare(
+        `SELECT * FROM backfill_jobs WHERE status IN ('pending', 'running') ORDER BY id ASC LIMIT 1`
+    ).first<BackfillJob>();
+
+    if (!job) return;
+    await runBackfillStep(env, job.id);
+}
+
+/**
+ * Fetches up to PAGES_PER_RUN pages for a job, storing rates and advancing its cursor.
+ * Writes use the job's mode, so re-running a range is idempotent.
+ */
+export async function runBackfillStep(env: Env, jobId: number): Promise<void> {
+    for (let i = 0; i < PAGES_PER_RUN; i++) {
+        const job = await env.FOREX_DB.prepare(`SELECT * FROM backfill_jobs WHERE id = ?`).bind(jobId).first<BackfillJob>();
+        if (!job || job.status === 'completed' || job.status === 'cancelled') return;
+
+        if (job.cursor_date > job.to_date) {
+            await env.FOREX_DB.prepare(
+                `UPDATE backfill_jobs SET status = 'completed', completed_at = datetime('now'), updated_at = datetime('now') WHERE id = ?`
+            ).bind(job.id).run();
+            console.log(`Backfill job ${job.id} completed.`);
+            return;
+        }
+
+        const windowStart = job.cursor_date;
+        const windowEnd = addDays(windowStart, job.chunk_days - 1) < job.to_date ? addDays(windowStart, job.chunk_days - 1) : job.to_date;
+        const page = job.cursor_page;
+
+        const logStmts: D1PreparedStatement[] = [];
+        let next = { cursor_date: windowStart, cursor_page: page, attempts: 0 };
+        let lastError: string | null = job.last_error;
+        let fetched = 0;
+
+        try {
+            // null means NRB has no published rates in the whole window
+            const data = await fetchNrbRates(windowStart, windowEnd, page, NRB_PER_PAGE);
+            fetched = 1;
+
+            const payload = data?.payload || [];
+            if (data && payload.length > 0) {
+                await processAndStoreApiData(data, env, job.mode, false); // Historical dates don't notify webhooks
+            }
+            for (const day of payload) {
+                const count = day.rates?.length || 0;
+                logStmts.push(env.FOREX_DB.prepare(
+                    `INSERT OR REPLACE INTO backfill_job_dates (job_id, date, status, rates_count, message, updated_at)
+                     VALUES (?, ?, ?, ?, NULL, datetime('now'))`
+                ).bind(job.id, day.date, count > 0 ? 'stored' : 'no_data', count));
+            }
+
+            const totalPages = data?.pagination?.total_pages || 1;
+            if (page < totalPages) {
+                next = { cursor_date: windowStart, cursor_page: page + 1, attempts: 0 };
+            } else {
+                // Window finished: any date NRB didn't return (holidays, gaps) is logged as no_data
+                for (const date of datesBetween(windowStart, windowEnd)) {
+                    logStmts.push(env.FOREX_DB.prepare(
+                        `INSERT OR IGNORE INTO backfill_job_dates (job_id, date, status) VALUES (?, ?, 'no_data')`
+                    ).bind(job.id, date));
+                }
+                next = { cursor_date: addDays(windowEnd, 1), cursor_page: 1, attempts: 0 };
+            }
+        } catch (error: any) {
+            lastError = `${windowStart}..${windowEnd} page ${page}: ${error.message}`;
+            console.error(`Backfill job ${job.id} failed on ${windowStart}..${windowEnd} page ${page}:`, error.message, error.cause);
+
+            if (job.attempts + 1 < MAX_ATTEMPTS) {
+                // Keep the cursor; the next invocation retries this page
+                next = { cursor_date: windowStart, cursor_page: page, attempts: job.attempts + 1 };
+            } else {
+                for (const date of datesBetween(windowStart, windowEnd)) {
+                    logStmts.push(env.FOREX_DB.prepare(
+                        `INSERT OR IGNORE INTO backfill_job_dates (job_id, date, status, message) VALUES (?, ?, 'error', ?)`
+                    ).bind(job.id, date, error.message));
+                }
+                next = { cursor_date: addDays(windowEnd, 1), cursor_page: 1, attempts: 0 };
+            }
+        }
+
+        // Guarded on the old cursor so two overlapping runs can't both advance the job
+        const advance = env.FOREX_DB.prepare(
+            `UPDATE backfill_jobs SET
+                status = 'running', cursor_date = ?, cursor_page = ?, attempts = ?,
+                pages_fetched = pages_fetched + ?, last_error = ?,
+                dates_stored = (SELECT COUNT(*) FROM backfill_job_dates WHERE job_id = ? AND status = 'stored'),
+                error_count = (SELECT COUNT(*) FROM backfill_job_dates WHERE job_id = ? AND status = 'error'),
+                updated_at = datetime('now')
+             WHERE id = ? AND cursor_date = ? AND cursor_page = ? AND status IN ('pending', 'running')`
+        ).bind(
+            next.cursor_date, next.cursor_page, next.attempts, fetched, lastError,
+            job.id, job.id, job.id, windowStart, page
+        );
+        const results = await env.FOREX_DB.batch([...logStmts, advance]);
+
+        if (!results[results.length - 1]?.meta?.changes) {
+            console.log(`Backfill job ${job.id} was advanced or stopped elsewhere; ending this run.`);
+            return;
+        }
+        if (next.attempts > 0) return; // Back off until the next invocation
+    }
+}
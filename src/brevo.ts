@@ -0,0 +1,110 @@
+// src/brevo.ts
+// --- TRANSACTIONAL EMAIL ---
+// Sends through Brevo's SMTP API with the BREVO_API_KEY secret. Every email the worker
+// sends (admin password resets and verifications, alerts, the newsletter) goes through here,
+// along with what the alert and newsletter signups share: tokens, signup limits and the
+// pages their emailed links open.
+
+import { Env, ExecutionContext } from './worker-types';
+import { corsHeaders, SITE_URL } from './constants';
+import { escapeHtml } from './worker-utils';
+import { checkRateLimit, RateLimitHeaders } from './rate-limit';
+
+const BREVO_URL = 'https://api.brevo.com/v3/smtp/email';
+const SIGNUPS_PER_IP_HOUR = 10;
+const SIGNUPS_PER_EMAIL_HOUR = 3; // Stops a signup form being used to flood someone's inbox
+const DEFAULT_SENDER = { name: 'Forex Nepal', email: 'cadmin@grisma.com.np' };
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface BrevoEmail {
+    to: { email: string; name?: string }[];
+    subject: string;
+    htmlContent: string;
+    textContent?: string;
+    headers?: Record<string, string>; // e.g. List-Unsubscribe
+    sender?: { name: string; email: string };
+}
+
+/**
+ * Sends one email. Resolves to false (after logging why) instead of throwing, so a
+ * failed send never fails the request or cron run that triggered it.
+ */
+export async function sendBrevoEmail(env: Env, email: BrevoEmail, purpose: string): Promise<boolean> {
+    if (!env.BREVO_API_KEY) {
+        console.error('BREVO_API_KEY secret not set in Cloudflare Worker.');
+        return false;
+    }
+
+    try {
+        const response = await fetch(BREVO_URL, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+                'api-key': env.BREVO_API_KEY,
+            },
+            body: JSON.stringify({ sender: DEFAULT_SENDER, ...email }),
+        });
+        if (!response.ok) {
+            console.error(`Brevo API error (${purpose}):`, await response.text());
+            return false;
+        }
+        return true;
+    } catch (error: any) {
+        console.error(`Email sending error (${purpose}):`, error.message);
+        return false;
+    }
+}
+
+/**
+ * A random hex token for confirm and unsubscribe links.
+ */
+export function randomToken(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function jsonResponse(body: Record<string, any>, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Limits a signup form (`scope`, e.g. 'alerts') per caller IP and per email address.
+ * Returns the rate-limit headers for a 429 once either is exceeded, otherwise null.
+ */
+export async function checkSignupLimits(env: Env, ctx: ExecutionContext, scope: string, ip: string, email: string): Promise<RateLimitHeaders | null> {
+    for (const [name, limit] of [[`${scope}:subscribe:${ip}`, SIGNUPS_PER_IP_HOUR], [`${scope}:subscribe:${email}`, SIGNUPS_PER_EMAIL_HOUR]] as const) {
+        const rateLimit = await checkRateLimit(env, ctx, name, [{ limit, seconds: 3600 }]);
+        if (!rateLimit.allowed) return rateLimit.headers;
+    }
+    return null;
+}
+
+/**
+ * The small page shown after following a confirm or unsubscribe link from an email.
+ */
+export function messagePage(title: string, message: string, link: { href: string; label: string }, status: number = 200): Response {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>${escapeHtml(title)} - Forex Nepal</title>
+    <style>
+        body { font-family: Arial, sans-serif; background: #f5f7fb; color: #333; margin: 0; padding: 40px 16px; }
+        .card { max-width: 480px; margin: 0 auto; background: white; border-radius: 8px; padding: 32px; box-shadow: 0 2px 8px rgba(0,0,0,0.08); text-align: center; }
+        h1 { font-size: 22px; margin-top: 0; }
+        a { color: #2563eb; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <h1>${escapeHtml(title)}</h1>
+        <p>${escapeHtml(message)}</p>
+        <p><a href="${link.href}">${escapeHtml(link.label)}</a> · <a href="${SITE_URL}">Forex Nepal</a></p>
+    </div>
+</body>
+</html>`;
+    return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,271 @@
+// src/components/ApiOperationCard.tsx
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CopyCodeButton from '@/components/CopyCodeButton';
+import { Loader2, Play, Zap } from 'lucide-react';
+import {
+  ApiOperation,
+  OpenApiDocument,
+  OpenApiParameter,
+  ParamValues,
+  buildRequestUrl,
+  curlSnippet,
+  initialParamValues,
+  javascriptSnippet,
+  pythonSnippet,
+  resolveResponse,
+} from '@/lib/api-snippets';
+
+// Large CSV exports would otherwise freeze the page
+const MAX_PREVIEW_CHARS = 20000;
+
+interface TryItResult {
+  status: number;
+  statusText: string;
+  contentType: string;
+  body: string;
+  elapsedMs: number;
+}
+
+interface ApiOperationCardProps {
+  spec: OpenApiDocument;
+  operation: ApiOperation;
+  baseUrl: string;
+  apiKey: string;
+}
+
+const CodeBlock = ({ code, muted = false }: { code: string; muted?: boolean }) => (
+  <div className="relative group">
+    <pre className={`${muted ? 'bg-muted/50' : 'bg-card'} border border-border rounded-md p-3 overflow-x-auto text-xs max-h-[400px] overflow-y-auto scrollbar-thin`}>
+      <code className="text-foreground font-mono">{code}</code>
+    </pre>
+    <CopyCodeButton codeToCopy={code} />
+  </div>
+);
+
+const ParamInput = ({ param, value, onChange }: { param: OpenApiParameter; value: string; onChange: (value: string) => void }) => {
+  const id = `param-${param.name}-${param.in}`;
+  const options = param.schema?.enum;
+  return (
+    <div className="flex flex-col">
+      <Label htmlFor={id} className="text-xs mb-1">
+        {param.name}
+        {param.required && <span className="text-destructive"> *</span>}
+        <span className="text-muted-foreground font-normal"> ({param.in})</span>
+      </Label>
+      {options ? (
+        <Select value={value || '__none'} onValueChange={(next) => onChange(next === '__none' ? '' : next)}>
+          <SelectTrigger id={id} className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {!param.required && <SelectItem value="__none">(not set)</SelectItem>}
+            {options.map(option => (
+              <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.schema?.format === 'date' ? 'YYYY-MM-DD' : param.schema?.type?.toString()}
+          className="h-9 font-mono text-sm"
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * One operation from the OpenAPI document: parameters, a request builder that calls the
+ * live API, generated snippets, and the documented responses.
+ */
+const ApiOperationCard: React.FC<ApiOperationCardProps> = ({ spec, operation, baseUrl, apiKey }) => {
+  const [values, setValues] = useState<ParamValues>(() => initialParamValues(operation));
+  const [result, setResult] = useState<TryItResult | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const params = operation.parameters || [];
+  const url = buildRequestUrl(baseUrl, operation, values);
+  const missingRequired = params.filter(param => param.required && !values[param.name]?.trim()).map(param => param.name);
+
+  const responses = useMemo(
+    () => Object.entries(operation.responses).map(([status, response]) => [status, resolveResponse(spec, response)] as const),
+    [spec, operation]
+  );
+  const successExample = responses.find(([status]) => status === '200')?.[1].content;
+  const exampleBody = successExample
+    ? Object.values(successExample).find(media => media.example !== undefined)?.example
+    : undefined;
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setRequestError(null);
+    const started = performance.now();
+    try {
+      const response = await fetch(url, { headers: apiKey ? { 'X-API-Key': apiKey } : undefined });
+      const contentType = response.headers.get('Content-Type') || '';
+      let body: string;
+      if (contentType.includes('json')) {
+        const text = await response.text();
+        try {
+          body = JSON.stringify(JSON.parse(text), null, 2);
+        } catch {
+          body = text;
+        }
+      } else if (contentType.startsWith('text/') || contentType.includes('ndjson')) {
+        body = await response.text();
+      } else {
+        const blob = await response.blob();
+        body = `Binary response (${blob.size.toLocaleString()} bytes, ${contentType || 'unknown type'})`;
+      }
+      if (body.length > MAX_PREVIEW_CHARS) {
+        body = `${body.slice(0, MAX_PREVIEW_CHARS)}\n… truncated (${body.length.toLocaleString()} characters in total)`;
+      }
+      setResult({
+        status: response.status,
+        statusText: response.statusText,
+        contentType,
+        body,
+        elapsedMs: Math.round(performance.now() - started),
+      });
+    } catch (error) {
+      setResult(null);
+      setRequestError(error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6 overflow-hidden border-border/40 shadow-sm" id={operation.operationId}>
+      <CardHeader className="bg-muted/30 pb-3">
+        <div className="flex items-center gap-3 mb-2">
+          <Badge variant={operation.method === 'GET' ? 'default' : 'secondary'} className="font-mono">
+            {operation.method}
+          </Badge>
+          <code className="text-sm font-semibold text-foreground">{operation.path}</code>
+          {operation.summary && <span className="text-sm text-muted-foreground">— {operation.summary}</span>}
+          {operation.deprecated && <Badge variant="outline" className="text-amber-600 border-amber-600/40">Deprecated</Badge>}
+        </div>
+        {operation.description && <CardDescription className="text-muted-foreground">{operation.description}</CardDescription>}
+        {operation.deprecated && operation['x-successor'] && (
+          <CardDescription className="text-amber-600">
+            Kept for existing clients. New integrations should use <code>{operation['x-successor']}</code>.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {params.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-foreground">Parameters</h4>
+            <div className="space-y-1.5">
+              {params.map(param => (
+                <div key={`${param.in}-${param.name}`} className="text-sm flex items-start gap-2">
+                  <code className="bg-muted px-1.5 py-0.5 rounded text-xs font-mono">{param.name}</code>
+                  <span className="text-muted-foreground">
+                    ({param.in}, {param.schema?.enum ? param.schema.enum.join(' | ') : param.schema?.format || param.schema?.type})
+                    {param.required && <span className="text-destructive"> *</span>}{' '}
+                    {param.description}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-semibold mb-2 text-foreground flex items-center gap-2">
+            <Zap className="h-4 w-4 text-primary" />
+            Try It
+          </h4>
+          {params.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-3">
+              {params.map(param => (
+                <ParamInput
+                  key={`${param.in}-${param.name}`}
+                  param={param}
+                  value={values[param.name] || ''}
+                  onChange={(value) => setValues(prev => ({ ...prev, [param.name]: value }))}
+                />
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <Button size="sm" onClick={handleSend} disabled={isSending || missingRequired.length > 0}>
+              {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Send Request
+            </Button>
+            <code className="text-xs text-muted-foreground break-all">{url}</code>
+          </div>
+          {missingRequired.length > 0 && (
+            <p className="text-xs text-destructive mt-2">Required: {missingRequired.join(', ')}</p>
+          )}
+          {requestError && <p className="text-sm text-destructive mt-2">{requestError}</p>}
+          {result && (
+            <div className="mt-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant={result.status < 400 ? 'default' : 'destructive'} className="font-mono">
+                  {result.status} {result.statusText}
+                </Badge>
+                <span className="text-muted-foreground">{result.elapsedMs} ms · {result.contentType || 'no content type'}</span>
+              </div>
+              <CodeBlock code={result.body} muted />
+            </div>
+          )}
+        </div>
+
+        <Tabs defaultValue="curl">
+          <TabsList>
+            <TabsTrigger value="curl">curl</TabsTrigger>
+            <TabsTrigger value="javascript">JavaScript</TabsTrigger>
+            <TabsTrigger value="python">Python</TabsTrigger>
+          </TabsList>
+          <TabsContent value="curl"><CodeBlock code={curlSnippet(url, apiKey)} /></TabsContent>
+          <TabsContent value="javascript"><CodeBlock code={javascriptSnippet(url, apiKey, operation)} /></TabsContent>
+          <TabsContent value="python"><CodeBlock code={pythonSnippet(url, apiKey, operation)} /></TabsContent>
+        </Tabs>
+
+        {exampleBody !== undefined && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2 text-foreground">Example Response</h4>
+            <CodeBlock code={typeof exampleBody === 'string' ? exampleBody : JSON.stringify(exampleBody, null, 2)} muted />
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-semibold mb-2 text-foreground">Responses</h4>
+          <ul className="space-y-1 text-sm">
+            {responses.map(([status, response]) => {
+              const errorExample = status !== '200'
+                ? response.content?.['application/json']?.example
+                : undefined;
+              return (
+                <li key={status} className="flex items-start gap-2">
+                  <code className={`px-1.5 py-0.5 rounded text-xs font-mono ${status.startsWith('2') ? 'bg-muted' : 'bg-destructive/10 text-destructive'}`}>
+                    {status}
+                  </code>
+                  <span className="text-muted-foreground">
+                    {response.description}
+                    {errorExample !== undefined && <code className="ml-2 text-xs">{JSON.stringify(errorExample)}</code>}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiOperationCard;
@@ -23,19 +23,22 @@ interface CurrencyChartModalProps {
   onClose: () => void;
 }
 
-// --- Helper to determine sampling rate ---
-const getSamplingForRange = (fromDate: string, toDate: string): string => {
+// The chart is ~700px wide; more points than this add nothing visible
+const CHART_MAX_POINTS = 400;
+
+// --- Helper to determine the point budget (undefined = every day) ---
+const getSamplingForRange = (fromDate: string, toDate: string): number | undefined => {
   try {
-    const days = differenceInDays(new Date(toDate), new Date(fromDate));
-    if (days <= 90) return 'daily';      // 0-3 months
-    if (days <= 730) return 'weekly';     // 3 months - 2 years
-    if (days <= 1825) return '15day';   // 2-5 years
-    return 'monthly'; // 5+ years
+    const days = differenceInDays(new Date(toDate), new Date(fromDate)) + 1;
+    return days > CHART_MAX_POINTS ? CHART_MAX_POINTS : undefined;
   } catch (e) {
-    return 'daily';
+    return undefined;
   }
 };
 
+const describeSampling = (maxPoints: number | undefined): string =>
+  maxPoints ? `${maxPoints} representative days` : 'daily';
+
 const CurrencyChartModal = ({ currency, isOpen, onClose }: CurrencyChartModalProps) => {
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -106,14 +109,15 @@ const CurrencyChartModal = ({ currency, isOpen, onClose }: CurrencyChartModalPro
           // --- END TASK 3 ---
       } else {
           // --- TASK 2: SAMPLING ---
-          const sampling = getSamplingForRange(fromDate, toDate);
-          setCurrentSampling(sampling);
-          setIsFullData(sampling === 'daily');
+          const maxPoints = getSamplingForRange(fromDate, toDate);
+          setCurrentSampling(describeSampling(maxPoints));
+          setIsFullData(!maxPoints);
 
           data = await fetchHistoricalRatesWithCache(
             currency.currency.iso3,
             fromDate,
-            toDate
+            toDate,
+            maxPoints
           );
           // --- END TASK 2 ---
       }
@@ -155,9 +159,9 @@ const CurrencyChartModal = ({ currency, isOpen, onClose }: CurrencyChartModalPro
     if (value !== 'custom') {
       const ranges = getDateRanges();
       const { from: fromDate, to: toDate } = ranges[value as keyof typeof ranges];
-      const sampling = getSamplingForRange(fromDate, toDate);
-      setCurrentSampling(sampling);
-      setIsFullData(sampling === 'daily');
+      const maxPoints = getSamplingForRange(fromDate, toDate);
+      setCurrentSampling(describeSampling(maxPoints));
+      setIsFullData(!maxPoints);
 
       loadHistoricalData();
     }
@@ -191,9 +195,9 @@ const CurrencyChartModal = ({ currency, isOpen, onClose }: CurrencyChartModalPro
     }
     
     if(fromFormatted && toFormatted) {
-        const sampling = getSamplingForRange(fromFormatted, toFormatted);
-        setCurrentSampling(sampling);
-        setIsFullData(sampling === 'daily');
+        const maxPoints = getSamplingForRange(fromFormatted, toFormatted);
+        setCurrentSampling(describeSampling(maxPoints));
+        setIsFullData(!maxPoints);
         loadHistoricalData();
         setCalendarOpen(false);
     }
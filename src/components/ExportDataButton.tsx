@@ -0,0 +1,84 @@
+// src/components/ExportDataButton.tsx
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { FileDown, Loader2 } from 'lucide-react';
+
+type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  jsonl: 'JSON Lines',
+  xlsx: 'Excel (XLSX)',
+};
+
+interface ExportDataButtonProps {
+  from: string;
+  to: string;
+  currencies?: string[]; // Omit for every currency
+  className?: string;
+}
+
+/**
+ * Downloads the rates for a date range from /api/export.
+ */
+const ExportDataButton: React.FC<ExportDataButtonProps> = ({ from, to, currencies, className = '' }) => {
+  const [pendingFormat, setPendingFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    const params = new URLSearchParams({ from, to, format });
+    if (currencies && currencies.length > 0) params.set('currencies', currencies.join(','));
+
+    setPendingFormat(format);
+    try {
+      const response = await fetch(`/api/export?${params.toString()}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || `Export failed (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `forex-rates_${from}_${to}.${format}`;
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setPendingFormat(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={`h-9 ${className}`} disabled={pendingFormat !== null}>
+          {pendingFormat ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+          Export Data
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{from} to {to}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportDataButton;
@@ -2,7 +2,7 @@ import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 // Import icons
-import { ArrowRightLeft, BarChart, Home, BookOpen, User, Phone, BookText, Shield, FileText, LayoutDashboard, Code } from 'lucide-react'; // <-- NEW: Imported Code icon
+import { ArrowRightLeft, BarChart, Home, BookOpen, User, Phone, BookText, Shield, FileText, LayoutDashboard, Code, Grid3x3, BellRing } from 'lucide-react'; // <-- NEW: Imported Code icon
 
 const Navigation = () => {
   const location = useLocation();
@@ -46,6 +46,14 @@ const Navigation = () => {
                   <ArrowRightLeft className="h-4 w-4 mr-2" />
                   Converter
                 </NavLink>
+                <NavLink to="/cross-rates" active={location.pathname === '/cross-rates'}>
+                  <Grid3x3 className="h-4 w-4 mr-2" />
+                  Cross Rates
+                </NavLink>
+                <NavLink to="/alerts" active={location.pathname === '/alerts'}>
+                  <BellRing className="h-4 w-4 mr-2" />
+                  Alerts
+                </NavLink>
                 {/* --- NEW: Added API Link --- */}
                 <NavLink to="/api" active={location.pathname === '/api'}>
                   <Code className="h-4 w-4 mr-2" />
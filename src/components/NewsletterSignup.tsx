@@ -0,0 +1,103 @@
+// src/components/NewsletterSignup.tsx
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Loader2, Mail, MailCheck } from 'lucide-react';
+import { useCurrencies } from '@/hooks/use-currencies';
+import { apiClient } from '@/services/apiClient';
+import type { NewsletterSubscribeRequest } from '@/worker-types';
+
+/**
+ * Signup for the daily rates email. Picking no currencies means the full table.
+ */
+const NewsletterSignup: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const [email, setEmail] = useState('');
+  const [picked, setPicked] = useState<string[]>([]);
+  const { data: currencies } = useCurrencies();
+
+  const mutation = useMutation({
+    mutationFn: (body: NewsletterSubscribeRequest) =>
+      apiClient.post<{ success: boolean; message: string }>('/newsletter/subscribe', body),
+  });
+
+  const toggle = (iso3: string) => {
+    setPicked((prev) => (prev.includes(iso3) ? prev.filter((c) => c !== iso3) : [...prev, iso3]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ email: email.trim(), currencies: picked });
+  };
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-xl p-6 border border-gray-100 ${className}`}>
+      <h2 className="text-xl font-semibold mb-1 text-gray-900 flex items-center gap-2">
+        <Mail className="h-5 w-5" />
+        Get the rates by email
+      </h2>
+      <p className="text-gray-600 mb-4">
+        One email each day Nepal Rastra Bank publishes rates, with arrows showing what moved. Confirm from your inbox;
+        unsubscribe in one click.
+      </p>
+
+      {mutation.isSuccess ? (
+        <Alert>
+          <MailCheck className="h-4 w-4" />
+          <AlertTitle>Almost done</AlertTitle>
+          <AlertDescription>{mutation.data.message}</AlertDescription>
+        </Alert>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Currencies <span className="text-muted-foreground font-normal">({picked.length > 0 ? picked.length : 'all'})</span></Label>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {(currencies || []).map((c) => (
+                <Button
+                  key={c.iso3}
+                  type="button"
+                  size="sm"
+                  variant={picked.includes(c.iso3) ? 'default' : 'outline'}
+                  className="h-7 px-2 text-xs font-mono"
+                  title={c.name}
+                  aria-pressed={picked.includes(c.iso3)}
+                  onClick={() => toggle(c.iso3)}
+                >
+                  {c.iso3}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Label htmlFor="newsletter-email" className="sr-only">Email</Label>
+            <Input
+              id="newsletter-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+            />
+            <Button type="submit" disabled={mutation.isPending || !email.trim()}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Subscribe
+            </Button>
+          </div>
+
+          {mutation.isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Could not subscribe</AlertTitle>
+              <AlertDescription>{mutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default NewsletterSignup;
@@ -9,16 +9,33 @@ import React, {
 import { Navigate, Outlet, useNavigate } from 'react-router-dom';
 import Layout from './Layout';
 import { Loader2 } from 'lucide-react';
-import { apiClient } from '@/services/apiClient';
+import { apiClient, clearAuthSession, AUTH_CHANGED_EVENT } from '@/services/apiClient';
+import { Role, Permission, normalizeRole, hasPermission } from '@/permissions';
 
 // --- Define the Auth Context ---
 interface AuthContextType {
   token: string | null;
   username: string | null;
+  role: Role;
   isAuthenticated: boolean;
+  can: (permission: Permission) => boolean;
   logout: () => void;
 }
 
+/**
+ * Reads the role claim from the JWT payload. This is only used to hide UI;
+ * the worker verifies the signature and enforces the same matrix.
+ */
+const getRoleFromToken = (token: string | null): Role => {
+  if (!token) return 'viewer';
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return normalizeRole(payload.role);
+  } catch {
+    return 'viewer';
+  }
+};
+
 const AuthContext = createContext<AuthContextType | null>(null);
 
 // --- Create the useAuth hook ---
@@ -43,57 +60,61 @@ const ProtectedRoute = () => {
 
   useEffect(() => {
     const verifyAuth = async () => {
-      if (!token) {
+      if (!localStorage.getItem('authToken')) {
         setIsAuthenticated(false);
         return;
       }
 
       try {
-        // --- THIS IS THE FIX ---
-        // apiClient.get() will throw an error if the request fails (e.g., 401 Unauthorized).
-        // If it does *not* throw, the token is valid.
-        await apiClient.get<any>('/admin/settings', {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        // If the request was successful, we are authenticated.
+        // apiClient.get() throws if the request fails (e.g. 401 once the refresh
+        // token is gone too). If it does *not* throw, the session is valid.
+        await apiClient.get<any>('/admin/settings');
         setIsAuthenticated(true);
-        
-        // --- END OF FIX ---
-
       } catch (error) {
         // If apiClient.get throws (due to 401, 500, or network error), we land here.
         console.error('Auth verification failed:', error);
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('username');
-        setToken(null);
-        setUsername(null);
-        setIsAuthenticated(false);
+        clearAuthSession();
       }
     };
 
     verifyAuth();
-  }, [token]);
+  }, []);
+
+  // apiClient refreshes the access token in the background (or drops the session)
+  useEffect(() => {
+    const syncFromStorage = () => {
+      const storedToken = localStorage.getItem('authToken');
+      setToken(storedToken);
+      setUsername(localStorage.getItem('username'));
+      if (!storedToken) setIsAuthenticated(false);
+    };
+    window.addEventListener(AUTH_CHANGED_EVENT, syncFromStorage);
+    window.addEventListener('storage', syncFromStorage);
+    return () => {
+      window.removeEventListener(AUTH_CHANGED_EVENT, syncFromStorage);
+      window.removeEventListener('storage', syncFromStorage);
+    };
+  }, []);
 
   const handleLogout = () => {
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('username');
-    setToken(null);
-    setUsername(null);
-    setIsAuthenticated(false);
+    // The request picks up the token before it's cleared; no need to wait for it
+    apiClient.post('/admin/logout').catch(() => {});
+    clearAuthSession();
     navigate('/admin/login');
   };
 
   // --- Memoize the context value ---
-  const authContextValue = useMemo(
-    () => ({
+  const authContextValue = useMemo(() => {
+    const role = getRoleFromToken(token);
+    return {
       token,
       username,
+      role,
       isAuthenticated: isAuthenticated === true,
+      can: (permission: Permission) => hasPermission(role, permission),
       logout: handleLogout,
-    }),
-    [token, username, isAuthenticated]
-  );
+    };
+  }, [token, username, isAuthenticated]);
 
   if (isAuthenticated === null) {
     // Show loading state while checking auth
@@ -120,4 +141,13 @@ const ProtectedRoute = () => {
   );
 };
 
+/**
+ * Guards nested admin routes that need a specific permission.
+ * Must be rendered inside ProtectedRoute.
+ */
+export const RequirePermission = ({ permission }: { permission: Permission }) => {
+  const { can } = useAuth();
+  return can(permission) ? <Outlet /> : <Navigate to="/admin/dashboard" replace />;
+};
+
 export default ProtectedRoute;
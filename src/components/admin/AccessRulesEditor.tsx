@@ -0,0 +1,209 @@
+// src/components/admin/AccessRulesEditor.tsx
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast as sonnerToast } from 'sonner';
+import { Loader2, Plus, Trash2, FlaskConical } from 'lucide-react';
+import { apiClient } from '@/services/apiClient';
+import { ApiAccessRule, ApiAccessLevel } from '@/worker-types';
+import { parseRules, validateRule } from '@/access-rules';
+
+/**
+ * Edits an endpoint's allow/deny rules. `value` and `onChange` carry the stored JSON.
+ */
+export const AccessRulesEditor: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ value, onChange }) => {
+  const [rules, setRules] = useState<ApiAccessRule[]>(() => parseRules(value));
+
+  useEffect(() => {
+    // Sync if the prop changes (e.g., on save/re-fetch)
+    setRules(parseRules(value));
+  }, [value]);
+
+  const update = (next: ApiAccessRule[]) => {
+    setRules(next);
+    onChange(JSON.stringify(next));
+  };
+
+  const updateRule = (index: number, patch: Partial<ApiAccessRule>) =>
+    update(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+
+  return (
+    <div className="space-y-2 min-w-[420px]">
+      {rules.map((rule, i) => {
+        const problem = rule.match ? validateRule(rule) : null;
+        return (
+          <div key={i} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Select
+                value={rule.effect}
+                onValueChange={(effect: ApiAccessRule['effect']) =>
+                  updateRule(i, { effect, ...(effect === 'deny' ? { quota_per_hour: undefined } : {}) })
+                }
+              >
+                <SelectTrigger className="w-[90px] h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="allow">Allow</SelectItem>
+                  <SelectItem value="deny">Deny</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={rule.match}
+                onChange={(e) => updateRule(i, { match: e.target.value })}
+                placeholder="203.0.113.0/24, 2001:db8::/32, *.example.com"
+                className={`h-8 font-mono text-xs ${problem ? 'border-destructive' : ''}`}
+              />
+              <Input
+                type="number"
+                value={rule.quota_per_hour ?? ''}
+                onChange={(e) =>
+                  updateRule(i, { quota_per_hour: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })
+                }
+                disabled={rule.effect === 'deny'}
+                placeholder="Quota/hr"
+                title="Overrides the endpoint's hourly quota for callers this rule allows (-1 for unlimited)"
+                className="h-8 w-[100px] text-xs"
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => update(rules.filter((_, j) => j !== i))} aria-label="Remove rule">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {problem && <p className="text-xs text-destructive">{problem}</p>}
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" className="h-8" onClick={() => update([...rules, { effect: 'allow', match: '' }])}>
+        <Plus className="mr-1 h-3 w-3" />
+        Add rule
+      </Button>
+    </div>
+  );
+};
+
+type AccessTestResult = {
+  endpoint: string;
+  access_level: ApiAccessLevel;
+  outcome: 'disabled' | 'denied' | 'not_allowed' | 'granted';
+  matched_rule: ApiAccessRule | null;
+  matched_on: 'ip' | 'host' | null;
+  identifier: string;
+  quota_per_hour: number;
+  burst_per_minute: number;
+};
+
+type AccessTestResponse = { success: boolean; results: AccessTestResult[]; error?: string };
+
+const OUTCOME_LABELS: Record<AccessTestResult['outcome'], { label: string; className: string }> = {
+  granted: { label: 'Allowed', className: 'bg-green-100 text-green-800' },
+  denied: { label: 'Denied by rule', className: 'bg-red-100 text-red-800' },
+  not_allowed: { label: 'No allow rule', className: 'bg-red-100 text-red-800' },
+  disabled: { label: 'Endpoint disabled', className: 'bg-gray-100 text-gray-800' },
+};
+
+const ALL_ENDPOINTS = '__all__';
+
+/**
+ * Runs an IP and/or Referer through the saved rules of one or every endpoint.
+ */
+export const AccessRuleTester: React.FC<{ endpoints: string[] }> = ({ endpoints }) => {
+  const [ip, setIp] = useState('');
+  const [referer, setReferer] = useState('');
+  const [endpoint, setEndpoint] = useState(ALL_ENDPOINTS);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post<AccessTestResponse>('/admin/api-settings/test', {
+        ip: ip.trim() || undefined,
+        referer: referer.trim() || undefined,
+        endpoint: endpoint === ALL_ENDPOINTS ? undefined : endpoint,
+      });
+      if (response.success) return response.results;
+      throw new Error(response.error || 'Test failed');
+    },
+    onError: (err: Error) => sonnerToast.error(err.message),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Test Access Rules</CardTitle>
+        <CardDescription>
+          Check how the saved rules treat a caller. Save your changes first; nothing is counted against quotas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col md:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate();
+          }}
+        >
+          <Input value={ip} onChange={(e) => setIp(e.target.value)} placeholder="IP, e.g. 203.0.113.7 or 2001:db8::1" className="font-mono text-sm" />
+          <Input value={referer} onChange={(e) => setReferer(e.target.value)} placeholder="Referer, e.g. https://news.example.com/page" className="font-mono text-sm" />
+          <Select value={endpoint} onValueChange={setEndpoint}>
+            <SelectTrigger className="md:w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ENDPOINTS}>All endpoints</SelectItem>
+              {endpoints.map((e) => (
+                <SelectItem key={e} value={e}>{e}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={mutation.isPending || (!ip.trim() && !referer.trim())}>
+            {mutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FlaskConical className="mr-2 h-4 w-4" />}
+            Test
+          </Button>
+        </form>
+
+        {mutation.data && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Matched Rule</TableHead>
+                  <TableHead>Quota</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mutation.data.map((result) => (
+                  <TableRow key={result.endpoint}>
+                    <TableCell className="font-mono text-sm">{result.endpoint}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={OUTCOME_LABELS[result.outcome].className}>
+                        {OUTCOME_LABELS[result.outcome].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {result.matched_rule
+                        ? `${result.matched_rule.effect} ${result.matched_rule.match} (on ${result.matched_on === 'host' ? 'Referer' : 'IP'})`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {result.outcome !== 'granted'
+                        ? '—'
+                        : `${result.quota_per_hour === -1 ? 'Unlimited' : `${result.quota_per_hour}/hr`} for ${result.identifier}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
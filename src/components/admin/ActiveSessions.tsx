@@ -0,0 +1,127 @@
+// src/components/admin/ActiveSessions.tsx
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { apiClient } from '@/services/apiClient';
+import { Loader2, LogOut } from 'lucide-react';
+import { AdminSession } from '@/worker-types';
+
+interface SessionsResponse {
+  success: boolean;
+  sessions: (AdminSession & { current: boolean })[];
+}
+
+const fetchSessions = async (): Promise<SessionsResponse> => {
+  return await apiClient.get<SessionsResponse>('/admin/profile/sessions');
+};
+
+// D1 stores UTC without a zone suffix
+const formatTimestamp = (value: string) => new Date(value + 'Z').toLocaleString();
+
+const ActiveSessions: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['activeSessions'],
+    queryFn: fetchSessions,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => apiClient.delete(`/admin/profile/sessions/${encodeURIComponent(sessionId)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['activeSessions'] });
+      toast.success('Session logged out.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to log out session: ${error.message}`);
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiClient.post<{ success: boolean; revoked: number }>('/admin/profile/sessions/revoke-others'),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['activeSessions'] });
+      toast.success(result.revoked ? `Logged out ${result.revoked} other session(s).` : 'No other sessions were active.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to log out other sessions: ${error.message}`);
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const sessions = data?.sessions || [];
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-lg font-medium">Active Sessions</h4>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={!hasOthers || revokeOthersMutation.isPending}
+        >
+          {revokeOthersMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+          Log Out Other Sessions
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>IP Address</TableHead>
+              <TableHead>Last Seen</TableHead>
+              <TableHead>Signed In</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.id}>
+                <TableCell className="max-w-xs">
+                  <div className="truncate text-sm" title={session.user_agent || undefined}>
+                    {session.user_agent || 'Unknown device'}
+                  </div>
+                  {session.current && <Badge variant="secondary" className="mt-1">This device</Badge>}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{session.ip_address || '—'}</TableCell>
+                <TableCell className="text-sm">{formatTimestamp(session.last_seen_at)}</TableCell>
+                <TableCell className="text-sm">{formatTimestamp(session.created_at)}</TableCell>
+                <TableCell className="text-right">
+                  {!session.current && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Log Out
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        "Last seen" updates whenever a session renews its access token, about every 15 minutes while in use.
+      </p>
+    </div>
+  );
+};
+
+export default ActiveSessions;
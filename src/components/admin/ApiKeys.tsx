@@ -0,0 +1,402 @@
+// src/components/admin/ApiKeys.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/apiClient';
+import { ApiKey } from '@/worker-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import CopyCodeButton from '@/components/CopyCodeButton';
+import { toast as sonnerToast } from 'sonner';
+import { Loader2, KeyRound, Plus, Edit, RefreshCw, Ban } from 'lucide-react';
+
+type ApiKeysResponse = {
+  success: boolean;
+  keys: ApiKey[];
+};
+
+type ApiKeyForm = {
+  owner: string;
+  label: string;
+  allEndpoints: boolean;
+  scopes: string[];
+  quota_per_hour: number;
+  quota_per_day: number;
+  expires_on: string;
+};
+
+const EMPTY_FORM: ApiKeyForm = {
+  owner: '',
+  label: '',
+  allEndpoints: true,
+  scopes: [],
+  quota_per_hour: 1000,
+  quota_per_day: 10000,
+  expires_on: '',
+};
+
+const fetchApiKeys = async (): Promise<ApiKey[]> => {
+  const response = await apiClient.get<ApiKeysResponse>('/admin/api-keys');
+  return response.keys;
+};
+
+const parseScopes = (scopes: string): string[] => {
+  try {
+    return JSON.parse(scopes);
+  } catch {
+    return [];
+  }
+};
+
+const formFromKey = (key: ApiKey): ApiKeyForm => {
+  const scopes = parseScopes(key.scopes);
+  return {
+    owner: key.owner,
+    label: key.label || '',
+    allEndpoints: scopes.includes('*'),
+    scopes: scopes.filter((s) => s !== '*'),
+    quota_per_hour: key.quota_per_hour,
+    quota_per_day: key.quota_per_day,
+    expires_on: key.expires_at ? key.expires_at.slice(0, 10) : '',
+  };
+};
+
+const formatQuota = (used: number, quota: number) => (quota === -1 ? `${used} / ∞` : `${used} / ${quota}`);
+
+const keyStatus = (key: ApiKey): { label: string; variant: 'default' | 'secondary' | 'destructive' } => {
+  if (key.revoked_at) return { label: 'Revoked', variant: 'destructive' };
+  if (key.expires_at && new Date(key.expires_at + 'Z') < new Date()) return { label: 'Expired', variant: 'secondary' };
+  return { label: 'Active', variant: 'default' };
+};
+
+/**
+ * Issue, edit, rotate and revoke personal API keys. `endpoints` are the public
+ * endpoints from API Access Control, offered as scopes.
+ */
+export const ApiKeys: React.FC<{ endpoints: string[] }> = ({ endpoints }) => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ApiKey | 'new' | null>(null);
+  const [form, setForm] = useState<ApiKeyForm>(EMPTY_FORM);
+  const [confirm, setConfirm] = useState<{ key: ApiKey; action: 'rotate' | 'revoke' } | null>(null);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const { data: keys, isLoading, error } = useQuery<ApiKey[]>({
+    queryKey: ['apiKeys'],
+    queryFn: fetchApiKeys,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ApiKeyForm) => {
+      const body = {
+        owner: values.owner,
+        label: values.label || null,
+        scopes: values.allEndpoints ? ['*'] : values.scopes,
+        quota_per_hour: values.quota_per_hour,
+        quota_per_day: values.quota_per_day,
+        expires_on: values.expires_on || null,
+      };
+      return editing === 'new' || !editing
+        ? apiClient.post<{ success: boolean; key: string }>('/admin/api-keys', body)
+        : apiClient.put<{ success: boolean; key?: string }>(`/admin/api-keys/${editing.id}`, body);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+      setEditing(null);
+      if (data.key) {
+        setIssuedKey(data.key);
+      } else {
+        sonnerToast.success('API key updated.');
+      }
+    },
+    onError: (err: Error) => {
+      sonnerToast.error(`Failed to save API key: ${err.message}`);
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ key, action }: { key: ApiKey; action: 'rotate' | 'revoke' }) =>
+      action === 'rotate'
+        ? apiClient.post<{ success: boolean; key: string }>(`/admin/api-keys/${key.id}/rotate`)
+        : apiClient.delete<{ success: boolean; key?: string }>(`/admin/api-keys/${key.id}`),
+    onSuccess: (data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['apiKeys'] });
+      setConfirm(null);
+      if (action === 'rotate' && data.key) {
+        setIssuedKey(data.key);
+      } else {
+        sonnerToast.success('API key revoked.');
+      }
+    },
+    onError: (err: Error) => {
+      setConfirm(null);
+      sonnerToast.error(err.message);
+    },
+  });
+
+  const openEditor = (key: ApiKey | 'new') => {
+    setForm(key === 'new' ? EMPTY_FORM : formFromKey(key));
+    setEditing(key);
+  };
+
+  const toggleScope = (endpoint: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, endpoint] : prev.scopes.filter((s) => s !== endpoint),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">API Keys</h2>
+          <p className="text-sm text-muted-foreground">
+            Keys identify third-party consumers and bypass IP/domain rules, with their own scopes and quotas.
+          </p>
+        </div>
+        <Button onClick={() => openEditor('new')} className="w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Issue Key
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : error ? (
+        <p className="text-destructive text-center py-8">Error loading API keys: {error.message}</p>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Key</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>This Hour</TableHead>
+                <TableHead>Today</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                    No API keys issued yet.
+                  </TableCell>
+                </TableRow>
+              )}
+              {keys?.map((key) => {
+                const status = keyStatus(key);
+                const scopes = parseScopes(key.scopes);
+                return (
+                  <TableRow key={key.id} className={key.revoked_at ? 'opacity-60' : ''}>
+                    <TableCell>
+                      <code className="text-xs">{key.key_prefix}…</code>
+                      <div className="mt-1">
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{key.owner}</div>
+                      {key.label && <div className="text-xs text-muted-foreground">{key.label}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono max-w-[200px]">
+                      {scopes.includes('*') ? 'All endpoints' : scopes.join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatQuota(key.requests_this_hour, key.quota_per_hour)}</TableCell>
+                    <TableCell className="text-sm">{formatQuota(key.requests_today, key.quota_per_day)}</TableCell>
+                    <TableCell className="text-sm">{key.expires_at ? key.expires_at.slice(0, 10) : 'Never'}</TableCell>
+                    <TableCell className="text-sm">
+                      {key.last_used_at ? new Date(key.last_used_at + 'Z').toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!key.revoked_at && (
+                        <>
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(key)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Rotate" onClick={() => setConfirm({ key, action: 'rotate' })}>
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Revoke" className="text-destructive" onClick={() => setConfirm({ key, action: 'revoke' })}>
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Issue / edit */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Issue API Key' : 'Edit API Key'}</DialogTitle>
+            <DialogDescription>Quotas count requests across all endpoints. Use -1 for unlimited.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="api-key-owner">Owner</Label>
+                <Input
+                  id="api-key-owner"
+                  value={form.owner}
+                  onChange={(e) => setForm({ ...form, owner: e.target.value })}
+                  placeholder="Company or email"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="api-key-label">Label</Label>
+                <Input
+                  id="api-key-label"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="e.g. Production server"
+                />
+              </div>
+              <div>
+                <Label htmlFor="api-key-hourly">Quota (req/hr)</Label>
+                <Input
+                  id="api-key-hourly"
+                  type="number"
+                  min={-1}
+                  value={form.quota_per_hour}
+                  onChange={(e) => setForm({ ...form, quota_per_hour: parseInt(e.target.value, 10) || -1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="api-key-daily">Quota (req/day)</Label>
+                <Input
+                  id="api-key-daily"
+                  type="number"
+                  min={-1}
+                  value={form.quota_per_day}
+                  onChange={(e) => setForm({ ...form, quota_per_day: parseInt(e.target.value, 10) || -1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="api-key-expires">Expires on (optional)</Label>
+                <Input
+                  id="api-key-expires"
+                  type="date"
+                  value={form.expires_on}
+                  onChange={(e) => setForm({ ...form, expires_on: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="api-key-all"
+                  checked={form.allEndpoints}
+                  onCheckedChange={(checked) => setForm({ ...form, allEndpoints: checked })}
+                />
+                <Label htmlFor="api-key-all">All endpoints</Label>
+              </div>
+              {!form.allEndpoints && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-md border p-3">
+                  {endpoints.map((endpoint) => (
+                    <label key={endpoint} className="flex items-center gap-2 text-xs font-mono">
+                      <Checkbox
+                        checked={form.scopes.includes(endpoint)}
+                        onCheckedChange={(checked) => toggleScope(endpoint, checked === true)}
+                      />
+                      {endpoint}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending || !form.owner.trim() || (!form.allEndpoints && form.scopes.length === 0)}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing === 'new' ? 'Issue Key' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rotate / revoke confirmation */}
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm?.action === 'rotate' ? 'Rotate API key?' : 'Revoke API key?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm?.action === 'rotate'
+                ? `A new key will be issued for ${confirm?.key.owner}. The current key stops working immediately.`
+                : `${confirm?.key.owner}'s key will stop working immediately. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirm && actionMutation.mutate(confirm)}
+              disabled={actionMutation.isPending}
+              className={confirm?.action === 'revoke' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
+            >
+              {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirm?.action === 'rotate' ? 'Rotate' : 'Revoke'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* The key is only shown once */}
+      <Dialog open={!!issuedKey} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Copy the API Key Now
+            </DialogTitle>
+            <DialogDescription>
+              Only a hash is stored, so this key can't be shown again. Send it to its owner securely.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 rounded-md border bg-muted/50 p-3">
+            <code className="flex-1 break-all text-sm">{issuedKey}</code>
+            {issuedKey && <CopyCodeButton codeToCopy={issuedKey} />}
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ApiKeys;
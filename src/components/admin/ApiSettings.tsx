@@ -20,48 +20,15 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { toast as sonnerToast } from 'sonner';
 import { Loader2, Save, Info } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Skeleton } from '@/components/ui/skeleton';
-
-// Helper component for the restricted rules input
-const RestrictedRulesInput: React.FC<{
-  value: string;
-  onChange: (value: string) => void;
-}> = ({ value, onChange }) => {
-  const [localValue, setLocalValue] = useState(value);
-  const [isValidJson, setIsValidJson] = useState(true);
-
-  useEffect(() => {
-    // Sync local value if prop changes (e.g., on save/re-fetch)
-    setLocalValue(value);
-  }, [value]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newValue = e.target.value;
-    setLocalValue(newValue);
-
-    try {
-      JSON.parse(newValue);
-      setIsValidJson(true);
-      onChange(newValue); // Pass valid JSON string up
-    } catch {
-      setIsValidJson(false);
-      // Don't pass up invalid JSON
-    }
-  };
-
-  return (
-    <Textarea
-      value={localValue}
-      onChange={handleChange}
-      placeholder='["1.1.1.1", "forex.grisma.com.np", "*.example.com"]'
-      className={`min-h-[80px] font-mono text-xs ${!isValidJson ? 'border-destructive' : ''}`}
-    />
-  );
-};
+import { Separator } from '@/components/ui/separator';
+import ApiKeys from './ApiKeys';
+import ApiUsageAnalytics from './ApiUsageAnalytics';
+import { AccessRulesEditor, AccessRuleTester } from './AccessRulesEditor';
+import { accessRuleErrors } from '@/access-rules';
 
 // --- THIS IS THE FIX: ---
 // Switched from useState/useEffect to react-query for data fetching
@@ -102,13 +69,14 @@ export const ApiSettings: React.FC = () => {
   } = useQuery<ApiAccessSetting[]>({
     queryKey: ['apiSettings'],
     queryFn: fetchApiSettings,
-    onSuccess: (data) => {
-      // Initialize local state once data is fetched
-      setLocalSettings(data || []);
-    },
     staleTime: 1000 * 60 * 5, // Cache for 5 minutes
   });
 
+  // Initialize local state once data is fetched (react-query v5 has no onSuccess)
+  useEffect(() => {
+    setLocalSettings(settings || []);
+  }, [settings]);
+
   // Mutation to update settings
   const mutation = useMutation({
     mutationFn: async (updatedSettings: ApiAccessSetting[]) => {
@@ -143,6 +111,14 @@ export const ApiSettings: React.FC = () => {
   };
 
   const handleSaveChanges = () => {
+    for (const setting of localSettings) {
+      const errors = Object.entries(accessRuleErrors(setting.allowed_rules || '[]'));
+      if (errors.length > 0) {
+        const [index, problem] = errors[0];
+        sonnerToast.error(`${setting.endpoint}, rule ${Number(index) + 1}: ${problem}`);
+        return;
+      }
+    }
     mutation.mutate(localSettings);
   };
 
@@ -173,7 +149,7 @@ export const ApiSettings: React.FC = () => {
           <div>
             <h2 className="text-2xl font-semibold">API Access Control</h2>
             <p className="text-sm text-muted-foreground">
-              Manage access, restrictions, and quotas for all public API endpoints.
+              Manage access, restrictions, quotas and burst limits for all public API endpoints.
             </p>
           </div>
           <Button onClick={handleSaveChanges} disabled={mutation.isPending} className="w-full sm:w-auto">
@@ -194,18 +170,19 @@ export const ApiSettings: React.FC = () => {
                 <TableHead>Access Level</TableHead>
                 <TableHead>
                   <div className="flex items-center">
-                    Allowed Rules (IP/Domain)
+                    Access Rules (IP/Domain)
                     <Tooltip delayDuration={300}>
                       <TooltipTrigger asChild>
                         <Info className="ml-2 h-4 w-4 cursor-help" />
                       </TooltipTrigger>
                       <TooltipContent>
                         <p className="max-w-xs">
-                          Only applies if Access Level is 'restricted'.
+                          Match an IP (1.1.1.1, 2001:db8::1), a CIDR range (203.0.113.0/24, 2001:db8::/32),
+                          a Referer hostname (yourdomain.com, *.yourdomain.com) or * for anyone.
                           <br />
-                          Enter a valid JSON array of strings.
+                          Deny rules always win, even for API keys. Restricted endpoints need an allow rule.
                           <br />
-                          E.g: ["1.1.1.1", "yourdomain.com", "*.yourdomain.com"]
+                          An allow rule's quota replaces the endpoint's for the callers it matches, still counted per IP.
                         </p>
                       </TooltipContent>
                     </Tooltip>
@@ -218,12 +195,31 @@ export const ApiSettings: React.FC = () => {
                         <Info className="ml-2 h-4 w-4 cursor-help" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Requests per hour per identifier (IP/Domain).
+                        <p>Requests per hour per caller IP.
+                        <br/>
+                        Callers with an API key use the key's quotas instead.
+                        <br/>
+                        Best effort: a burst of simultaneous requests can get a few past the limit.
                         <br/>
                         Enter -1 for unlimited quota.</p>
                       </TooltipContent>
                   </Tooltip>
                 </TableHead>
+                <TableHead>
+                  Burst (req/min)
+                  <Tooltip delayDuration={300}>
+                      <TooltipTrigger asChild>
+                        <Info className="ml-2 h-4 w-4 cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Requests allowed within any one minute, on top of the hourly quota.
+                        <br/>
+                        Best effort, like the hourly quota.
+                        <br/>
+                        Enter -1 to let the whole hourly quota arrive at once.</p>
+                      </TooltipContent>
+                  </Tooltip>
+                </TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -249,7 +245,7 @@ export const ApiSettings: React.FC = () => {
                     </Select>
                   </TableCell>
                   <TableCell>
-                    <RestrictedRulesInput
+                    <AccessRulesEditor
                       value={setting.allowed_rules || '[]'}
                       onChange={(value) =>
                         handleSettingChange(setting.endpoint, 'allowed_rules', value)
@@ -271,11 +267,34 @@ export const ApiSettings: React.FC = () => {
                       className="w-[140px]"
                     />
                   </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={setting.burst_per_minute ?? -1}
+                      onChange={(e) =>
+                        handleSettingChange(
+                          setting.endpoint,
+                          'burst_per_minute',
+                          parseInt(e.target.value, 10) || -1
+                        )
+                      }
+                      placeholder="-1 for no limit"
+                      className="w-[140px]"
+                    />
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </div>
+
+        <AccessRuleTester endpoints={(settings || []).map((setting) => setting.endpoint)} />
+
+        <Separator className="my-6" />
+        <ApiKeys endpoints={(settings || []).map((setting) => setting.endpoint)} />
+
+        <Separator className="my-6" />
+        <ApiUsageAnalytics />
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,233 @@
+// src/components/admin/ApiUsageAnalytics.tsx
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { Loader2, FileDown, RefreshCw } from 'lucide-react';
+import { apiClient, fetchWithAuth } from '@/services/apiClient';
+import { ApiUsageReport } from '@/worker-types';
+
+type ApiUsageResponse = ApiUsageReport & { success: boolean; error?: string };
+
+const RANGES: { days: number; label: string }[] = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+// Endpoints beyond the busiest few are stacked together as "Other"
+const CHARTED_ENDPOINTS = 5;
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#94a3b8'];
+
+const formatPeriod = (period: string, bucket: ApiUsageReport['bucket']) =>
+  bucket === 'hour' ? `${period.slice(5, 13)}h` : period.slice(5);
+
+const fetchApiUsage = async (days: number): Promise<ApiUsageResponse> => {
+  const response = await apiClient.get<ApiUsageResponse>(`/admin/api-usage?days=${days}`);
+  if (response.success) return response;
+  throw new Error(response.error || 'Failed to fetch API usage');
+};
+
+const StatCard: React.FC<{ label: string; value: number; className?: string }> = ({ label, value, className = '' }) => (
+  <Card>
+    <CardContent className="p-4">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className={`text-2xl font-semibold ${className}`}>{value.toLocaleString()}</p>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Public API usage from the hourly rollups: top consumers, requests per endpoint over
+ * time and 429/403 counts, with a CSV download of the rollups.
+ */
+const ApiUsageAnalytics: React.FC = () => {
+  const [days, setDays] = useState(7);
+  const [downloading, setDownloading] = useState(false);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['apiUsage', days],
+    queryFn: () => fetchApiUsage(days),
+  });
+
+  // One row per period with a column per charted endpoint
+  const { endpointKeys, endpointSeries } = useMemo(() => {
+    if (!data) return { endpointKeys: [] as string[], endpointSeries: [] as Record<string, string | number>[] };
+    const charted = data.endpoints.slice(0, CHARTED_ENDPOINTS).map(e => e.endpoint);
+    const hasOther = data.endpoints.length > CHARTED_ENDPOINTS;
+    const rows = new Map<string, Record<string, string | number>>();
+    for (const point of data.series) {
+      const row = rows.get(point.period) || { period: formatPeriod(point.period, data.bucket) };
+      const key = charted.includes(point.endpoint) ? point.endpoint : 'Other';
+      row[key] = ((row[key] as number) || 0) + point.requests;
+      rows.set(point.period, row);
+    }
+    return { endpointKeys: hasOther ? [...charted, 'Other'] : charted, endpointSeries: Array.from(rows.values()) };
+  }, [data]);
+
+  const denialSeries = useMemo(
+    () => (data?.denials || []).map(d => ({ ...d, period: formatPeriod(d.period, data!.bucket) })),
+    [data]
+  );
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/api-usage?days=${days}&format=csv`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || `Download failed (${response.status})`);
+      }
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'api-usage.csv';
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">API Usage</h2>
+          <p className="text-sm text-muted-foreground">
+            Public API requests by endpoint and caller (API key prefix or IP), in UTC. Counts are approximate and trail by a few minutes. Kept for 90 days.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map(range => (
+                <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} aria-label="Refresh">
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={downloading}>
+            {downloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-center py-8">Error loading API usage: {(error as Error).message}</p>
+      ) : data && (
+        <>
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+            <StatCard label="Requests" value={data.totals.requests} />
+            <StatCard label="Rate limited (429)" value={data.totals.rate_limited} className="text-amber-600" />
+            <StatCard label="Forbidden (403)" value={data.totals.forbidden} className="text-destructive" />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-base">Requests per endpoint</CardTitle>
+                <CardDescription>Per {data.bucket}, the {CHARTED_ENDPOINTS} busiest endpoints.</CardDescription>
+              </CardHeader>
+              <CardContent className="h-72">
+                {endpointSeries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-16">No requests in this range.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={endpointSeries} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                      <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      {endpointKeys.map((key, i) => (
+                        <Area key={key} type="monotone" dataKey={key} stackId="requests"
+                          stroke={COLORS[i % COLORS.length]} fill={COLORS[i % COLORS.length]} fillOpacity={0.35} />
+                      ))}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Top consumers</CardTitle>
+                <CardDescription>Requests by API key or IP.</CardDescription>
+              </CardHeader>
+              <CardContent className="h-80">
+                {data.top_consumers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-16">No requests in this range.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={data.top_consumers.slice(0, 10)} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                      <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+                      <YAxis type="category" dataKey="identifier" width={120} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Bar dataKey="requests" name="Requests" fill={COLORS[0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Denied requests</CardTitle>
+                <CardDescription>429 (quota or burst) and 403 (disabled or restricted) per {data.bucket}.</CardDescription>
+              </CardHeader>
+              <CardContent className="h-80">
+                {denialSeries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-16">Nothing was denied in this range.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={denialSeries} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                      <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <Bar dataKey="rate_limited" name="429" stackId="denied" fill="#f59e0b" />
+                      <Bar dataKey="forbidden" name="403" stackId="denied" fill="#ef4444" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ApiUsageAnalytics;
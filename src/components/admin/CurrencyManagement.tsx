@@ -0,0 +1,381 @@
+// src/components/admin/CurrencyManagement.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { apiClient } from '@/services/apiClient';
+import { Loader2, Plus, Edit, Trash2 } from 'lucide-react';
+import { CurrencyRecord, CurrencyRegion } from '@/worker-types';
+import { REGION_LABELS } from '@/hooks/use-currencies';
+import FlagIcon from '@/pages/FlagIcon';
+import { useAuth } from '@/components/ProtectedRoute';
+
+type CurrencyForm = {
+  iso3: string;
+  name: string;
+  unit: string;
+  region: CurrencyRegion;
+  flag_code: string;
+  display_order: string;
+  enabled: boolean;
+};
+
+const emptyForm: CurrencyForm = {
+  iso3: '', name: '', unit: '1', region: 'other', flag_code: '', display_order: '999', enabled: true,
+};
+
+const fetchCurrencies = async (): Promise<CurrencyRecord[]> => {
+  const data = await apiClient.get<{ success: boolean; currencies: CurrencyRecord[] }>('/admin/currencies');
+  return data.currencies || [];
+};
+
+const toPayload = (form: CurrencyForm) => ({
+  iso3: form.iso3.trim().toUpperCase(),
+  name: form.name.trim(),
+  unit: parseInt(form.unit, 10),
+  region: form.region,
+  flag_code: form.flag_code.trim().toLowerCase() || null,
+  display_order: parseInt(form.display_order, 10),
+  enabled: form.enabled ? 1 : 0,
+});
+
+const CurrencyManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<CurrencyForm>(emptyForm);
+  const [editingCode, setEditingCode] = useState<string | null>(null); // null = adding
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<CurrencyRecord | null>(null);
+  const { can } = useAuth();
+  const canWrite = can('currencies:write');
+
+  const { data: currencies, isLoading } = useQuery({
+    queryKey: ['adminCurrencies'],
+    queryFn: fetchCurrencies,
+  });
+
+  // The public registry feeds the homepage tabs and flags, so refresh both.
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['adminCurrencies'] });
+    queryClient.invalidateQueries({ queryKey: ['currencies'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: ReturnType<typeof toPayload>) =>
+      editingCode
+        ? apiClient.put(`/admin/currencies/${editingCode}`, payload)
+        : apiClient.post('/admin/currencies', payload),
+    onSuccess: () => {
+      invalidate();
+      toast.success(editingCode ? 'Currency updated.' : 'Currency added.');
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save currency: ${error.message}`);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (currency: CurrencyRecord) =>
+      apiClient.put(`/admin/currencies/${currency.iso3}`, { ...currency, enabled: currency.enabled ? 0 : 1 }),
+    onSuccess: () => invalidate(),
+    onError: (error: Error) => {
+      toast.error(`Failed to update currency: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (iso3: string) => apiClient.delete(`/admin/currencies/${iso3}`),
+    onSuccess: (_, iso3) => {
+      invalidate();
+      toast.success(`Currency "${iso3}" removed.`);
+      setShowDeleteConfirm(null);
+    },
+    onError: (error: Error, iso3) => {
+      toast.error(`Failed to remove "${iso3}": ${error.message}`);
+      setShowDeleteConfirm(null);
+    },
+  });
+
+  const openAdd = () => {
+    setEditingCode(null);
+    setForm(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (currency: CurrencyRecord) => {
+    setEditingCode(currency.iso3);
+    setForm({
+      iso3: currency.iso3,
+      name: currency.name,
+      unit: String(currency.unit),
+      region: currency.region,
+      flag_code: currency.flag_code || '',
+      display_order: String(currency.display_order),
+      enabled: !!currency.enabled,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = toPayload(form);
+    if (!/^[A-Z]{3}$/.test(payload.iso3)) {
+      toast.error('ISO3 code must be 3 letters');
+      return;
+    }
+    if (!payload.name) {
+      toast.error('Name is required');
+      return;
+    }
+    if (!Number.isInteger(payload.unit) || payload.unit < 1) {
+      toast.error('Unit must be a positive whole number');
+      return;
+    }
+    if (payload.flag_code && !/^[a-z]{2}$/.test(payload.flag_code)) {
+      toast.error('Flag code must be a 2-letter country code');
+      return;
+    }
+    if (!Number.isInteger(payload.display_order)) {
+      toast.error('Display order must be a whole number');
+      return;
+    }
+    saveMutation.mutate(payload);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Currencies</CardTitle>
+          <CardDescription>Manage which currencies are shown and how they are grouped.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Currencies</CardTitle>
+              <CardDescription>
+                Manage which currencies are shown and how they are grouped. New currencies published by NRB are added automatically.
+              </CardDescription>
+            </div>
+            {canWrite && (
+              <Button onClick={openAdd}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Currency
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!currencies || currencies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No currencies registered.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {currencies.map((currency) => (
+                  <TableRow key={currency.iso3}>
+                    <TableCell>{currency.display_order}</TableCell>
+                    <TableCell className="font-medium">
+                      <span className="inline-flex items-center gap-2">
+                        <FlagIcon iso3={currency.iso3} />
+                        {currency.iso3}
+                      </span>
+                    </TableCell>
+                    <TableCell>{currency.name}</TableCell>
+                    <TableCell>{currency.unit}</TableCell>
+                    <TableCell>{REGION_LABELS[currency.region] || currency.region}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!!currency.enabled}
+                        onCheckedChange={() => toggleMutation.mutate(currency)}
+                        disabled={!canWrite || (toggleMutation.isPending && toggleMutation.variables?.iso3 === currency.iso3)}
+                      />
+                    </TableCell>
+                    {canWrite && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" title="Edit currency" onClick={() => openEdit(currency)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove currency"
+                          onClick={() => setShowDeleteConfirm(currency)}
+                          disabled={deleteMutation.isPending && deleteMutation.variables === currency.iso3}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCode ? `Edit ${editingCode}` : 'Add Currency'}</DialogTitle>
+            <DialogDescription>
+              Rates are stored per single unit; the unit is the quantity NRB quotes the currency in.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="currency-iso3">ISO3 Code *</Label>
+                <Input
+                  id="currency-iso3"
+                  value={form.iso3}
+                  onChange={(e) => setForm({ ...form, iso3: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  maxLength={3}
+                  disabled={!!editingCode}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="currency-unit">Unit *</Label>
+                <Input
+                  id="currency-unit"
+                  type="number"
+                  min="1"
+                  value={form.unit}
+                  onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="currency-name">Name *</Label>
+              <Input
+                id="currency-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="U.S. Dollar"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="currency-region">Region</Label>
+                <Select
+                  value={form.region}
+                  onValueChange={(value) => setForm({ ...form, region: value as CurrencyRegion })}
+                >
+                  <SelectTrigger id="currency-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REGION_LABELS) as CurrencyRegion[]).map(region => (
+                      <SelectItem key={region} value={region}>{REGION_LABELS[region]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="currency-flag">Flag Code</Label>
+                <Input
+                  id="currency-flag"
+                  value={form.flag_code}
+                  onChange={(e) => setForm({ ...form, flag_code: e.target.value.toLowerCase() })}
+                  placeholder="us"
+                  maxLength={2}
+                />
+              </div>
+              <div>
+                <Label htmlFor="currency-order">Display Order</Label>
+                <Input
+                  id="currency-order"
+                  type="number"
+                  value={form.display_order}
+                  onChange={(e) => setForm({ ...form, display_order: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="currency-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+              />
+              <Label htmlFor="currency-enabled">Show on site and in the API</Label>
+            </div>
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saveMutation.isPending ? 'Saving...' : 'Save Currency'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!showDeleteConfirm} onOpenChange={(open) => !open && setShowDeleteConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {showDeleteConfirm?.iso3}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stored rates are kept. If NRB still publishes this currency, it will be registered again on the next fetch;
+              to hide it permanently, disable it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => showDeleteConfirm && deleteMutation.mutate(showDeleteConfirm.iso3)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CurrencyManagement;
@@ -0,0 +1,232 @@
+// src/components/admin/DataHealth.tsx
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import { apiClient } from '@/services/apiClient';
+import { Loader2, CheckCircle2, RefreshCw } from 'lucide-react';
+import { IngestionRun, DataAnomaly, AnomalyType } from '@/worker-types';
+import { useAuth } from '@/components/ProtectedRoute';
+
+interface DataHealthResponse {
+  success: boolean;
+  runs: IngestionRun[];
+  anomalies: DataAnomaly[];
+  jump_threshold_pct: number;
+}
+
+const ANOMALY_LABELS: Record<AnomalyType, string> = {
+  buy_gt_sell: 'Buy > Sell',
+  jump: 'Large jump',
+  missing_currency: 'Missing currency',
+  gap: 'Missing days',
+};
+
+const runStatusClass: Record<string, string> = {
+  success: 'bg-green-100 text-green-800',
+  no_data: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const fetchDataHealth = async (): Promise<DataHealthResponse> => {
+  return await apiClient.get<DataHealthResponse>('/admin/data-health');
+};
+
+const DataHealth: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [threshold, setThreshold] = useState('');
+  const { can } = useAuth();
+  const canWrite = can('rates:write');
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['dataHealth'],
+    queryFn: fetchDataHealth,
+  });
+
+  useEffect(() => {
+    if (data) setThreshold(String(data.jump_threshold_pct));
+  }, [data]);
+
+  const resolveMutation = useMutation({
+    mutationFn: (id: number) => apiClient.post(`/admin/data-health/anomalies/${id}/resolve`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dataHealth'] });
+      toast.success('Anomaly marked as resolved.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to resolve anomaly: ${error.message}`);
+    },
+  });
+
+  const thresholdMutation = useMutation({
+    mutationFn: (value: number) => apiClient.post('/admin/data-health', { jump_threshold_pct: value }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dataHealth'] });
+      toast.success('Jump threshold saved. It applies from the next scheduled run.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save threshold: ${error.message}`);
+    },
+  });
+
+  const handleSaveThreshold = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (isNaN(value) || value <= 0 || value > 100) {
+      toast.error('Threshold must be between 0 and 100 percent');
+      return;
+    }
+    thresholdMutation.mutate(value);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Data Health</CardTitle>
+          <CardDescription>Scheduler runs and data-quality anomalies.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const anomalies = data?.anomalies || [];
+  const runs = data?.runs || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Open Anomalies</CardTitle>
+              <CardDescription>
+                Flagged after each scheduled fetch by comparing the day with the previous stored day.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canWrite && (
+            <form onSubmit={handleSaveThreshold} className="flex items-end gap-2 max-w-sm">
+              <div className="flex-grow">
+                <Label htmlFor="jump-threshold">Day-over-day jump threshold (%)</Label>
+                <Input
+                  id="jump-threshold"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+              <Button type="submit" variant="secondary" disabled={thresholdMutation.isPending}>
+                {thresholdMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </form>
+          )}
+
+          {anomalies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No open anomalies.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Detail</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {anomalies.map((anomaly) => (
+                  <TableRow key={anomaly.id}>
+                    <TableCell className="whitespace-nowrap">{anomaly.date}</TableCell>
+                    <TableCell className="whitespace-nowrap">{ANOMALY_LABELS[anomaly.type] || anomaly.type}</TableCell>
+                    <TableCell className="font-medium">{anomaly.iso3 || '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{anomaly.detail}</TableCell>
+                    {canWrite && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Mark as resolved"
+                          onClick={() => resolveMutation.mutate(anomaly.id)}
+                          disabled={resolveMutation.isPending && resolveMutation.variables === anomaly.id}
+                        >
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ingestion Runs</CardTitle>
+          <CardDescription>The 50 most recent scheduled NRB fetches.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No runs recorded yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started (UTC)</TableHead>
+                  <TableHead>Cron</TableHead>
+                  <TableHead>Target Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>HTTP</TableHead>
+                  <TableHead>Received / Stored</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="whitespace-nowrap">{run.started_at}</TableCell>
+                    <TableCell className="font-mono text-xs">{run.cron}</TableCell>
+                    <TableCell>{run.target_date}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs ${runStatusClass[run.status]}`} title={run.error || undefined}>
+                        {run.status.replace('_', ' ')}
+                      </span>
+                    </TableCell>
+                    <TableCell>{run.http_status ?? '—'}</TableCell>
+                    <TableCell>{run.currencies_received} / {run.currencies_stored}</TableCell>
+                    <TableCell>{run.duration_ms} ms</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DataHealth;
@@ -5,12 +5,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useToast } from '@/components/ui/use-toast';
-import { Loader2, CalendarIcon, Download } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, CalendarIcon, Download, FileSearch } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { apiClient } from '@/services/apiClient';
 
 type UpdateMode = 'today' | 'yesterday' | 'custom' | 'range';
-type UpdateAction = 'update' | 'replace' | 'cancel';
+type UpdateAction = 'update' | 'replace' | 'dry-run' | 'cancel';
+type WriteMode = 'update' | 'replace';
+
+interface RateDiff {
+  date: string;
+  iso3: string;
+  action: 'insert' | 'change';
+  old: { buy: number | null; sell: number | null } | null;
+  new: { buy: number | null; sell: number | null };
+}
+
+interface DryRunResult {
+  apply: WriteMode;
+  from: string;
+  to: string;
+  dates: number;
+  summary: { insert: number; change: number; skipped: number; unchanged: number };
+  changes: RateDiff[];
+}
+
+const formatRate = (value: number | null | undefined) => (value == null ? '—' : value.toFixed(4));
 
 const DataUpdateControl = () => {
   const [mode, setMode] = useState<UpdateMode>('today');
@@ -18,6 +40,8 @@ const DataUpdateControl = () => {
   const [rangeFrom, setRangeFrom] = useState<Date>();
   const [rangeTo, setRangeTo] = useState<Date>();
   const [isLoading, setIsLoading] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [dryRunApply, setDryRunApply] = useState<WriteMode>('update');
   const { toast } = useToast();
 
   const handleUpdate = async (action: UpdateAction) => {
@@ -26,6 +50,7 @@ const DataUpdateControl = () => {
       setCustomDate(undefined);
       setRangeFrom(undefined);
       setRangeTo(undefined);
+      setDryRun(null);
       return;
     }
 
@@ -61,28 +86,20 @@ const DataUpdateControl = () => {
     }
 
     setIsLoading(true);
-    const token = localStorage.getItem('authToken');
 
     try {
-      const response = await fetch(`/api/fetch-and-store?from=${fromDate}&to=${toDate}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ action }), // Pass the action in the body
-      });
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        toast({
-          title: "Success",
-          description: `Action '${action}' completed. Stored/updated ${data.stored} record(s) from ${fromDate} to ${toDate}`,
-        });
-      } else {
-        throw new Error(data.error || 'Update failed');
+      if (action === 'dry-run') {
+        const data = await apiClient.post<DryRunResult & { success: boolean }>('/admin/fetch-nrb', { from: fromDate, to: toDate, mode: 'dry-run', apply: dryRunApply });
+        setDryRun(data);
+        return;
       }
+
+      const data = await apiClient.post<{ success: boolean; stored: number }>('/admin/fetch-nrb', { from: fromDate, to: toDate, mode: action });
+      setDryRun(null);
+      toast({
+        title: "Success",
+        description: `Action '${action}' completed. Stored/updated ${data.stored} date(s) from ${fromDate} to ${toDate}`,
+      });
     } catch (error) {
       console.error('Update error:', error);
       toast({
@@ -226,6 +243,24 @@ const DataUpdateControl = () => {
             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Replace
           </Button>
+          <Select value={dryRunApply} onValueChange={(value: WriteMode) => setDryRunApply(value)} disabled={isLoading}>
+            <SelectTrigger className="w-[170px]" aria-label="Dry run as">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="update">As Update Empty</SelectItem>
+              <SelectItem value="replace">As Replace</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => handleUpdate('dry-run')}
+            disabled={isLoading}
+            variant="outline"
+            className="flex-1"
+          >
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSearch className="mr-2 h-4 w-4" />}
+            Dry Run
+          </Button>
           <Button
             onClick={() => handleUpdate('cancel')}
             disabled={isLoading}
@@ -234,6 +269,52 @@ const DataUpdateControl = () => {
             Cancel
           </Button>
         </div>
+
+        {dryRun && (
+          <div className="space-y-2 pt-2">
+            <p className="text-sm">
+              <span className="font-medium">
+                Dry run {dryRun.from} → {dryRun.to} as {dryRun.apply === 'update' ? '"Update Empty"' : '"Replace"'}:
+              </span>{' '}
+              {dryRun.dates} date(s) from NRB, {dryRun.summary.insert} new, {dryRun.summary.change} overwritten,{' '}
+              {dryRun.summary.unchanged} unchanged.
+              <span className="block text-xs text-muted-foreground">
+                {dryRun.summary.skipped > 0 && `${dryRun.summary.skipped} stored rate(s) differ from NRB but would be kept; "Replace" overwrites them. `}
+                Nothing has been saved.
+              </span>
+            </p>
+            {dryRun.changes.length > 0 && (
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Currency</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Buy</TableHead>
+                      <TableHead>Sell</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dryRun.changes.map((diff) => (
+                      <TableRow key={`${diff.date}-${diff.iso3}`}>
+                        <TableCell>{diff.date}</TableCell>
+                        <TableCell className="font-medium">{diff.iso3}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs ${diff.action === 'insert' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                            {diff.action === 'insert' ? 'New' : 'Different'}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-xs">{diff.old ? `${formatRate(diff.old.buy)} → ` : ''}{formatRate(diff.new.buy)}</TableCell>
+                        <TableCell className="text-xs">{diff.old ? `${formatRate(diff.old.sell)} → ` : ''}{formatRate(diff.new.sell)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
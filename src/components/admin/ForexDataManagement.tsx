@@ -8,7 +8,9 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, AlertCircle, Edit, Save, RefreshCw, Info } from 'lucide-react';
 import DateInput from '@/components/DateInput';
 import { formatDate } from '@/services/forexService';
-import DataUpdateControl from './DataUpdateControl';
+import { apiClient, fetchWithAuth } from '@/services/apiClient';
+import { CurrencyRecord } from '@/worker-types';
+import { useAuth } from '@/components/ProtectedRoute';
 
 // Define a simplified structure for the form/display
 interface ForexRateData {
@@ -16,7 +18,7 @@ interface ForexRateData {
     [key: string]: string | number | null; // For currency rates like USD_buy, USD_sell
 }
 
-const CURRENCIES = [ // Match the list in worker.ts
+const FALLBACK_CURRENCIES = [ // Used until the currency registry has loaded
   'INR', 'USD', 'EUR', 'GBP', 'CHF', 'AUD', 'CAD', 'SGD',
   'JPY', 'CNY', 'SAR', 'QAR', 'THB', 'AED', 'MYR', 'KRW',
   'SEK', 'DKK', 'HKD', 'KWD', 'BHD', 'OMR'
@@ -30,7 +32,10 @@ const ForexDataManagement = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+  const canWrite = can('rates:write');
   const { toast } = useToast();
+  const [currencies, setCurrencies] = useState<string[]>(FALLBACK_CURRENCIES);
 
   const fetchForexData = async (date?: string) => {
     setIsLoading(true);
@@ -45,7 +50,7 @@ const ForexDataManagement = () => {
     const endpoint = date ? `/api/admin/forex-data?date=${date}` : '/api/admin/forex-data';
 
     try {
-      const response = await fetch(endpoint, {
+      const response = await fetchWithAuth(endpoint, {
         headers: { 'Authorization': `Bearer ${token}` }
       });
       if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
@@ -61,7 +66,7 @@ const ForexDataManagement = () => {
          } else if (date && !data.data) {
               // Date not found, prepare for adding new data
               const newData: ForexRateData = { date };
-              CURRENCIES.forEach(c => {
+              currencies.forEach(c => {
                  newData[`${c}_buy`] = null; // Initialize with null
                  newData[`${c}_sell`] = null;
               });
@@ -88,6 +93,14 @@ const ForexDataManagement = () => {
 
   useEffect(() => {
     fetchForexData(); // Fetch recent data on initial load
+    // Edit every registered currency, including disabled ones
+    apiClient.get<{ success: boolean; currencies: CurrencyRecord[] }>('/admin/currencies')
+      .then(data => {
+        if (data.currencies && data.currencies.length > 0) {
+          setCurrencies(data.currencies.map(c => c.iso3));
+        }
+      })
+      .catch(err => console.error("Failed to load currency registry:", err));
   }, []);
 
    const handleDateChange = (date: string) => {
@@ -126,7 +139,7 @@ const ForexDataManagement = () => {
 
     // Prepare payload, converting nulls or empty strings as needed by backend (worker expects numbers or will skip)
     const payload: { [key: string]: any } = { date: editingData.date };
-     CURRENCIES.forEach(c => {
+     currencies.forEach(c => {
          const buyKey = `${c}_buy`;
          const sellKey = `${c}_sell`;
          // Send only if the value is a valid number
@@ -138,7 +151,7 @@ const ForexDataManagement = () => {
 
 
     try {
-      const response = await fetch('/api/admin/forex-data', {
+      const response = await fetchWithAuth('/api/admin/forex-data', {
         method: 'POST', // API uses POST for create/update
         headers: {
           'Content-Type': 'application/json',
@@ -164,8 +177,6 @@ const ForexDataManagement = () => {
 
   return (
     <div className="space-y-6">
-      <DataUpdateControl />
-      
       <Card>
         <CardHeader>
           <CardTitle>Manage Forex Data</CardTitle>
@@ -204,7 +215,7 @@ const ForexDataManagement = () => {
         {/* Editing/Adding View */}
         {!isLoading && !error && editingData && (
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Editing Rates for {editingData.date}</h3>
+            <h3 className="text-lg font-semibold">{canWrite ? 'Editing' : 'Viewing'} Rates for {editingData.date}</h3>
              <Alert variant="default">
                 <Info className="h-4 w-4" />
                 <AlertDescription>
@@ -212,7 +223,7 @@ const ForexDataManagement = () => {
                 </AlertDescription>
              </Alert>
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {CURRENCIES.map((currency) => (
+              {currencies.map((currency) => (
                 <div key={currency} className="p-3 border rounded-md bg-muted/20">
                   <p className="font-semibold mb-2 text-sm">{currency}</p>
                   <div className="space-y-2">
@@ -227,7 +238,7 @@ const ForexDataManagement = () => {
                          onChange={(e) => handleEditValueChange(currency, 'buy', e.target.value)}
                          placeholder="Buy rate"
                          className="h-8 text-sm"
-                         disabled={isSaving}
+                         disabled={isSaving || !canWrite}
                        />
                      </div>
                      <div>
@@ -241,17 +252,19 @@ const ForexDataManagement = () => {
                           onChange={(e) => handleEditValueChange(currency, 'sell', e.target.value)}
                           placeholder="Sell rate"
                           className="h-8 text-sm"
-                          disabled={isSaving}
+                          disabled={isSaving || !canWrite}
                         />
                      </div>
                   </div>
                 </div>
               ))}
             </div>
-             <Button onClick={handleSave} disabled={isSaving}>
-               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-               {isSaving ? 'Saving...' : 'Save Rates'}
-             </Button>
+             {canWrite && (
+               <Button onClick={handleSave} disabled={isSaving}>
+                 {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                 {isSaving ? 'Saving...' : 'Save Rates'}
+               </Button>
+             )}
           </div>
         )}
 
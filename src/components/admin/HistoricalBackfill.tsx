@@ -0,0 +1,286 @@
+// src/components/admin/HistoricalBackfill.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { apiClient } from '@/services/apiClient';
+import { Loader2, History, XCircle, ListChecks } from 'lucide-react';
+import DateInput from '@/components/DateInput';
+import { BackfillJob, BackfillDateLog, BackfillDateStatus } from '@/worker-types';
+
+const NRB_EARLIEST_DATE = '2000-01-01';
+
+const fetchJobs = async (): Promise<BackfillJob[]> => {
+  const data = await apiClient.get<{ success: boolean; jobs: BackfillJob[] }>('/admin/backfill');
+  return data.jobs || [];
+};
+
+const fetchJobDates = async (jobId: number, status: BackfillDateStatus | 'all'): Promise<BackfillDateLog[]> => {
+  const query = status === 'all' ? '' : `?status=${status}`;
+  const data = await apiClient.get<{ success: boolean; dates: BackfillDateLog[] }>(`/admin/backfill/${jobId}${query}`);
+  return data.dates || [];
+};
+
+const isActive = (job: BackfillJob) => job.status === 'pending' || job.status === 'running';
+
+/**
+ * Share of the job's date range the cursor has moved past.
+ */
+const getProgress = (job: BackfillJob): number => {
+  if (job.status === 'completed') return 100;
+  const start = new Date(job.from_date).getTime();
+  const end = new Date(job.to_date).getTime();
+  const cursor = new Date(job.cursor_date).getTime();
+  if (end <= start) return 0;
+  return Math.max(0, Math.min(100, Math.round(((cursor - start) / (end - start + 86400000)) * 100)));
+};
+
+const statusClass: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-yellow-100 text-yellow-800',
+  stored: 'bg-green-100 text-green-800',
+  no_data: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const HistoricalBackfill: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [fromDate, setFromDate] = useState(NRB_EARLIEST_DATE);
+  const [toDate, setToDate] = useState('');
+  const [mode, setMode] = useState<'update' | 'replace'>('update');
+  const [chunkDays, setChunkDays] = useState('30');
+  const [logJob, setLogJob] = useState<BackfillJob | null>(null);
+  const [logFilter, setLogFilter] = useState<BackfillDateStatus | 'all'>('error');
+
+  const { data: jobs, isLoading } = useQuery({
+    queryKey: ['backfillJobs'],
+    queryFn: fetchJobs,
+    // Poll while a job is moving so progress updates without a reload
+    refetchInterval: (query) => (query.state.data?.some(isActive) ? 15000 : false),
+  });
+
+  const { data: jobDates, isLoading: isLoadingDates } = useQuery({
+    queryKey: ['backfillJobDates', logJob?.id, logFilter],
+    queryFn: () => fetchJobDates(logJob!.id, logFilter),
+    enabled: !!logJob,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (payload: { from_date: string; to_date?: string; mode: string; chunk_days: number }) =>
+      apiClient.post('/admin/backfill', payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['backfillJobs'] });
+      toast.success('Backfill started. It continues in the background every few minutes.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to start backfill: ${error.message}`);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (jobId: number) => apiClient.post(`/admin/backfill/${jobId}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['backfillJobs'] });
+      toast.success('Backfill cancelled.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to cancel backfill: ${error.message}`);
+    },
+  });
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const chunk = parseInt(chunkDays, 10);
+    if (!fromDate || (toDate && toDate < fromDate)) {
+      toast.error('Please select a valid date range');
+      return;
+    }
+    if (isNaN(chunk) || chunk < 1 || chunk > 90) {
+      toast.error('Chunk size must be between 1 and 90 days');
+      return;
+    }
+    createMutation.mutate({ from_date: fromDate, to_date: toDate || undefined, mode, chunk_days: chunk });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Historical Backfill</CardTitle>
+          <CardDescription>
+            Import NRB rates for a date range. Large ranges are fetched in chunks every few minutes;
+            "Update" only fills missing dates, "Replace" overwrites stored rates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleStart} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="backfill-from">From</Label>
+              <DateInput id="backfill-from" value={fromDate} onChange={setFromDate} placeholder="YYYY-MM-DD" />
+            </div>
+            <div>
+              <Label htmlFor="backfill-to">To (blank = today)</Label>
+              <DateInput id="backfill-to" value={toDate} onChange={setToDate} placeholder="YYYY-MM-DD" />
+            </div>
+            <div>
+              <Label htmlFor="backfill-mode">Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as 'update' | 'replace')}>
+                <SelectTrigger id="backfill-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="update">Update (fill gaps)</SelectItem>
+                  <SelectItem value="replace">Replace</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="backfill-chunk">Chunk (days)</Label>
+              <Input
+                id="backfill-chunk"
+                type="number"
+                min="1"
+                max="90"
+                value={chunkDays}
+                onChange={(e) => setChunkDays(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+              Start Backfill
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !jobs || jobs.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No backfill jobs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Range</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-48">Progress</TableHead>
+                  <TableHead>Stored</TableHead>
+                  <TableHead>Errors</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {job.from_date} → {job.to_date}
+                      {job.created_by && <div className="text-xs text-muted-foreground">by {job.created_by}</div>}
+                    </TableCell>
+                    <TableCell className="capitalize">{job.mode}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs capitalize ${statusClass[job.status]}`}>{job.status}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={getProgress(job)} className="h-2" />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {isActive(job) ? `Next: ${job.cursor_date} (page ${job.cursor_page})` : `${getProgress(job)}%`}
+                      </div>
+                    </TableCell>
+                    <TableCell>{job.dates_stored}</TableCell>
+                    <TableCell>
+                      <span className={job.error_count > 0 ? 'text-destructive font-medium' : ''} title={job.last_error || undefined}>
+                        {job.error_count}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" title="View per-date log" onClick={() => setLogJob(job)}>
+                        <ListChecks className="h-4 w-4" />
+                      </Button>
+                      {isActive(job) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Cancel backfill"
+                          onClick={() => cancelMutation.mutate(job.id)}
+                          disabled={cancelMutation.isPending && cancelMutation.variables === job.id}
+                        >
+                          <XCircle className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!logJob} onOpenChange={(open) => !open && setLogJob(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Backfill Log: {logJob?.from_date} → {logJob?.to_date}</DialogTitle>
+            <DialogDescription>
+              {logJob?.last_error ? `Last error: ${logJob.last_error}` : 'Outcome of every processed date (most recent 500).'}
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={logFilter} onValueChange={(value) => setLogFilter(value as BackfillDateStatus | 'all')}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="error">Errors only</SelectItem>
+              <SelectItem value="stored">Stored</SelectItem>
+              <SelectItem value="no_data">No data</SelectItem>
+              <SelectItem value="all">All dates</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="max-h-96 overflow-y-auto">
+            {isLoadingDates ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : !jobDates || jobDates.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-4">No dates in this view.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Rates</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobDates.map((entry) => (
+                    <TableRow key={entry.date}>
+                      <TableCell>{entry.date}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded-full text-xs ${statusClass[entry.status]}`}>{entry.status.replace('_', ' ')}</span>
+                      </TableCell>
+                      <TableCell>{entry.rates_count}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{entry.message || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default HistoricalBackfill;
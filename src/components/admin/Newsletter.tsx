@@ -0,0 +1,372 @@
+// src/components/admin/Newsletter.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/services/apiClient';
+import { NewsletterDelivery, NewsletterDeliveryStatus, NewsletterIssue, NewsletterSubscriber, SubscriberStatus } from '@/worker-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast as sonnerToast } from 'sonner';
+import { Loader2, RefreshCw, Trash2, ScrollText, ChevronLeft, ChevronRight } from 'lucide-react';
+
+type SubscribersResponse = {
+  success: boolean;
+  subscribers: NewsletterSubscriber[];
+  total: number;
+  page: number;
+  pageSize: number;
+  counts: Record<SubscriberStatus, number>;
+};
+
+type IssuesResponse = {
+  success: boolean;
+  issues: NewsletterIssue[];
+};
+
+type DeliveriesResponse = {
+  success: boolean;
+  deliveries: NewsletterDelivery[];
+};
+
+const SUBSCRIBER_BADGES: Record<SubscriberStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  pending: { label: 'Unconfirmed', className: 'bg-amber-100 text-amber-800' },
+  unsubscribed: { label: 'Unsubscribed', className: 'bg-gray-100 text-gray-800' },
+};
+
+const DELIVERY_BADGES: Record<NewsletterDeliveryStatus, { label: string; className: string }> = {
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-800' },
+  sending: { label: 'Sending', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const parseList = (value: string): string[] => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value.replace(' ', 'T') + 'Z').toLocaleString() : '—');
+
+/**
+ * Every send of one issue, failures first.
+ */
+const IssueDeliveries: React.FC<{ date: string }> = ({ date }) => {
+  const { data: deliveries, isLoading, error } = useQuery<NewsletterDelivery[]>({
+    queryKey: ['newsletterDeliveries', date],
+    queryFn: async () => (await apiClient.get<DeliveriesResponse>(`/admin/newsletter/issues/${date}/deliveries`)).deliveries,
+  });
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+  if (error) return <p className="text-destructive text-center py-8">Error loading sends: {error.message}</p>;
+
+  return (
+    <div className="rounded-md border max-h-[60vh] overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Subscriber</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Sent</TableHead>
+            <TableHead>Error</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deliveries?.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                Nobody was emailed for this date.
+              </TableCell>
+            </TableRow>
+          )}
+          {deliveries?.map((delivery) => (
+            <TableRow key={delivery.subscriber_id}>
+              <TableCell className="text-sm">
+                {delivery.email || <span className="text-muted-foreground">Deleted subscriber #{delivery.subscriber_id}</span>}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className={DELIVERY_BADGES[delivery.status].className}>
+                  {DELIVERY_BADGES[delivery.status].label}
+                </Badge>
+                {delivery.attempts > 1 && (
+                  <span className="block text-xs text-muted-foreground mt-1">Attempt {delivery.attempts}</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm whitespace-nowrap">{formatTime(delivery.sent_at || delivery.created_at)}</TableCell>
+              <TableCell className="text-xs text-destructive max-w-[240px] break-words">{delivery.error || ''}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+/**
+ * Daily newsletter: the subscriber list (with removal) and the log of what was sent per rate date.
+ */
+const Newsletter: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SubscriberStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [deleting, setDeleting] = useState<NewsletterSubscriber | null>(null);
+  const [viewing, setViewing] = useState<string | null>(null);
+
+  const subscribers = useQuery<SubscribersResponse>({
+    queryKey: ['newsletterSubscribers', status, search, page],
+    queryFn: () => {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status !== 'all') params.set('status', status);
+      if (search.trim()) params.set('search', search.trim());
+      return apiClient.get<SubscribersResponse>(`/admin/newsletter/subscribers?${params}`);
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const issues = useQuery<NewsletterIssue[]>({
+    queryKey: ['newsletterIssues'],
+    queryFn: async () => (await apiClient.get<IssuesResponse>('/admin/newsletter/issues')).issues,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (subscriber: NewsletterSubscriber) => apiClient.delete<{ success: boolean }>(`/admin/newsletter/subscribers/${subscriber.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['newsletterSubscribers'] });
+      setDeleting(null);
+      sonnerToast.success('Subscriber deleted.');
+    },
+    onError: (err: Error) => {
+      setDeleting(null);
+      sonnerToast.error(err.message);
+    },
+  });
+
+  const totalPages = subscribers.data ? Math.max(1, Math.ceil(subscribers.data.total / subscribers.data.pageSize)) : 1;
+  const counts = subscribers.data?.counts;
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Subscribers</h3>
+            <p className="text-sm text-muted-foreground">
+              {counts
+                ? `${counts.active} active, ${counts.pending} waiting to confirm, ${counts.unsubscribed} unsubscribed.`
+                : 'People who signed up for the daily rates email on the home page.'}
+            </p>
+          </div>
+          <div className="flex w-full sm:w-auto gap-2">
+            <Input
+              value={search}
+              onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+              placeholder="Search email"
+              className="sm:w-56"
+            />
+            <Select value={status} onValueChange={(value) => { setStatus(value as SubscriberStatus | 'all'); setPage(1); }}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(SUBSCRIBER_BADGES) as SubscriberStatus[]).map((key) => (
+                  <SelectItem key={key} value={key}>{SUBSCRIBER_BADGES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {subscribers.isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : subscribers.error ? (
+          <p className="text-destructive text-center py-8">Error loading subscribers: {subscribers.error.message}</p>
+        ) : (
+          <>
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Currencies</TableHead>
+                    <TableHead>Signed Up</TableHead>
+                    <TableHead>Last Sent</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscribers.data?.subscribers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                        No subscribers found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {subscribers.data?.subscribers.map((subscriber) => {
+                    const currencies = parseList(subscriber.currencies);
+                    return (
+                      <TableRow key={subscriber.id}>
+                        <TableCell className="text-sm break-all">{subscriber.email}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={SUBSCRIBER_BADGES[subscriber.status].className}>
+                            {SUBSCRIBER_BADGES[subscriber.status].label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">{currencies.length > 0 ? currencies.join(', ') : 'All'}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatTime(subscriber.created_at)}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{subscriber.last_sent_date || 'Never'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" title="Delete" className="text-destructive" onClick={() => setDeleting(subscriber)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 text-sm">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Send Log</h3>
+            <p className="text-sm text-muted-foreground">
+              One issue per published rate date, sent after the first successful fetch. Large lists are finished by the
+              five-minute cron. Per-subscriber sends are kept for 90 days.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => issues.refetch()} disabled={issues.isFetching}>
+            <RefreshCw className={`mr-2 h-3 w-3 ${issues.isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {issues.isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : issues.error ? (
+          <p className="text-destructive text-center py-8">Error loading the send log: {issues.error.message}</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rate Date</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.data?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      Nothing has been sent yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {issues.data?.map((issue) => (
+                  <TableRow key={issue.rate_date}>
+                    <TableCell className="font-medium">{issue.rate_date}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatTime(issue.started_at)}</TableCell>
+                    <TableCell className="text-sm">
+                      {issue.completed_at ? (
+                        <Badge variant="outline" className="bg-green-100 text-green-800">Complete</Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          Sending
+                        </Badge>
+                      )}
+                      {issue.sending > 0 && issue.completed_at && (
+                        <div className="text-xs text-amber-700">{issue.sending} interrupted</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{issue.sent}</TableCell>
+                    <TableCell className={`text-sm ${issue.failed > 0 ? 'text-destructive' : ''}`}>{issue.failed}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" title="Sends" onClick={() => setViewing(issue.rate_date)}>
+                        <ScrollText className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </section>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete subscriber?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.email} is removed for good and gets nothing more. They can sign up again later. Use this for
+              removal requests; people can unsubscribe themselves from any email.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Sends of one issue */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Sends for {viewing}</DialogTitle>
+            <DialogDescription>Failed and interrupted sends are listed first.</DialogDescription>
+          </DialogHeader>
+          {viewing && <IssueDeliveries date={viewing} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Newsletter;
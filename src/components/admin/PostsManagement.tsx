@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { PlusCircle, Edit, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/components/ProtectedRoute';
+import { fetchWithAuth } from '@/services/apiClient';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +38,8 @@ const PostsManagement = () => {
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { can } = useAuth();
+  const canWrite = can('posts:write');
 
   const fetchPosts = async () => {
     setIsLoading(true);
@@ -48,7 +52,7 @@ const PostsManagement = () => {
     }
 
     try {
-      const response = await fetch('/api/admin/posts', {
+      const response = await fetchWithAuth('/api/admin/posts', {
         headers: { 'Authorization': `Bearer ${token}` }
       });
       if (!response.ok) {
@@ -80,7 +84,7 @@ const PostsManagement = () => {
     }
 
     try {
-      const response = await fetch(`/api/admin/posts/${postId}`, {
+      const response = await fetchWithAuth(`/api/admin/posts/${postId}`, {
         method: 'DELETE',
         headers: { 'Authorization': `Bearer ${token}` }
       });
@@ -116,12 +120,14 @@ const PostsManagement = () => {
           <CardTitle>Manage Posts</CardTitle>
           <CardDescription>Create, edit, or delete blog posts.</CardDescription>
         </div>
-        <Link to="/admin/posts/new">
-          <Button size="sm">
-            <PlusCircle className="h-4 w-4 mr-2" />
-            New Post
-          </Button>
-        </Link>
+        {canWrite && (
+          <Link to="/admin/posts/new">
+            <Button size="sm">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Post
+            </Button>
+          </Link>
+        )}
       </CardHeader>
       <CardContent>
         {isLoading && (
@@ -147,7 +153,7 @@ const PostsManagement = () => {
                 <TableHead>Status</TableHead>
                 <TableHead>Published</TableHead>
                 <TableHead>Last Updated</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
+                {canWrite && <TableHead className="text-right">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -161,41 +167,43 @@ const PostsManagement = () => {
                   </TableCell>
                   <TableCell>{formatDate(post.published_at)}</TableCell>
                   <TableCell>{formatDate(post.updated_at)}</TableCell>
-                  <TableCell className="text-right">
-                     <Button
-                       variant="ghost"
-                       size="sm"
-                       onClick={() => navigate(`/admin/posts/edit/${post.id}`)} // Navigate to edit page
-                       className="mr-2"
-                     >
-                       <Edit className="h-4 w-4" />
-                     </Button>
+                  {canWrite && (
+                    <TableCell className="text-right">
+                       <Button
+                         variant="ghost"
+                         size="sm"
+                         onClick={() => navigate(`/admin/posts/edit/${post.id}`)} // Navigate to edit page
+                         className="mr-2"
+                       >
+                         <Edit className="h-4 w-4" />
+                       </Button>
 
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            This action cannot be undone. This will permanently delete the post titled "{post.title}".
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                             className="bg-destructive hover:bg-destructive/90"
-                             onClick={() => handleDelete(post.id)}
-                           >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </TableCell>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This action cannot be undone. This will permanently delete the post titled "{post.title}".
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                               className="bg-destructive hover:bg-destructive/90"
+                               onClick={() => handleDelete(post.id)}
+                             >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
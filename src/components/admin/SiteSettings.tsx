@@ -15,6 +15,7 @@ interface SiteSettings {
   ticker_enabled: boolean;
   adsense_enabled: boolean;
   adsense_exclusions: string; // new field
+  require_2fa: boolean;
 }
 
 const SiteSettingsComponent = () => {
@@ -22,6 +23,7 @@ const SiteSettingsComponent = () => {
     ticker_enabled: false,
     adsense_enabled: false,
     adsense_exclusions: '/admin,/login', // default
+    require_2fa: false,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -108,6 +110,19 @@ const SiteSettingsComponent = () => {
           />
         </div>
 
+        <div className="flex items-center justify-between space-x-2">
+          <div>
+            <Label htmlFor="require-2fa">Require Two-Factor Authentication</Label>
+            <p className="text-sm text-muted-foreground">Every admin account must set up an authenticator app at its next login.</p>
+          </div>
+          <Switch
+            id="require-2fa"
+            checked={settings.require_2fa}
+            onCheckedChange={(checked) => setSettings(prev => ({ ...prev, require_2fa: checked }))}
+            disabled={saving}
+          />
+        </div>
+
         {/* --- NEW FEATURE: AdSense Exclusion Input --- */}
         <div className="space-y-2">
           <Label htmlFor="adsense-exclusions">AdSense Exclusions</Label>
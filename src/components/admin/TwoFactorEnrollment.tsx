@@ -0,0 +1,93 @@
+// src/components/admin/TwoFactorEnrollment.tsx
+// Shared by the profile page and the forced-enrollment login step.
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Loader2, Copy } from 'lucide-react';
+import { TotpEnrollment } from '@/lib/two-factor';
+
+interface TwoFactorEnrollmentProps {
+  enrollment: TotpEnrollment;
+  isSubmitting: boolean;
+  onSubmit: (code: string) => void;
+}
+
+/**
+ * QR code, manual-entry secret and the confirmation code input.
+ */
+export const TwoFactorEnrollment: React.FC<TwoFactorEnrollmentProps> = ({ enrollment, isSubmitting, onSubmit }) => {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+    onSubmit(code);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <div className="bg-white p-3 rounded-md border">
+          <QRCodeSVG value={enrollment.otpauthUri} size={180} />
+        </div>
+      </div>
+      <div className="text-center text-xs text-muted-foreground">
+        Can't scan? Enter this key manually:
+        <code className="block mt-1 font-mono text-sm text-foreground break-all">{enrollment.secret}</code>
+      </div>
+      <div>
+        <Label htmlFor="totp-enroll-code">Verification code</Label>
+        <Input
+          id="totp-enroll-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          disabled={isSubmitting}
+          autoFocus
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== 6}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify and Enable
+      </Button>
+    </form>
+  );
+};
+
+/**
+ * One-time display of freshly generated recovery codes.
+ */
+export const RecoveryCodesList: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const copyCodes = () => {
+    navigator.clipboard.writeText(codes.join('\n')).then(() => {
+      toast.success('Recovery codes copied to clipboard!');
+    }).catch(() => {
+      toast.error('Failed to copy recovery codes.');
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each can be used once to log in if you lose your device.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-md font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+// src/components/admin/TwoFactorSettings.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { apiClient } from '@/services/apiClient';
+import { Loader2, ShieldCheck, ShieldOff, KeyRound } from 'lucide-react';
+import { TotpEnrollment } from '@/lib/two-factor';
+import { TwoFactorEnrollment, RecoveryCodesList } from './TwoFactorEnrollment';
+
+interface TwoFactorStatus {
+  success: boolean;
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+type CodeAction = 'disable' | 'recovery-codes';
+
+const fetchStatus = async (): Promise<TwoFactorStatus> => {
+  return await apiClient.get<TwoFactorStatus>('/admin/profile/2fa');
+};
+
+const TwoFactorSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['twoFactorStatus'],
+    queryFn: fetchStatus,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiClient.post<{ success: boolean } & TotpEnrollment>('/admin/profile/2fa/setup'),
+    onSuccess: (data) => setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri }),
+    onError: (error: Error) => {
+      toast.error(`Failed to start setup: ${error.message}`);
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (totpCode: string) => apiClient.post<{ success: boolean; recoveryCodes: string[] }>('/admin/profile/2fa/enable', { code: totpCode }),
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+      toast.success('Two-factor authentication enabled.');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const codeMutation = useMutation({
+    mutationFn: ({ action, value }: { action: CodeAction; value: string }) => {
+      // Disabling also accepts a recovery code, for when the device is already gone
+      const body = action === 'disable' && value.includes('-') ? { recoveryCode: value } : { code: value };
+      return apiClient.post<{ success: boolean; recoveryCodes?: string[] }>(`/admin/profile/2fa/${action}`, body);
+    },
+    onSuccess: (data, { action }) => {
+      setCodeAction(null);
+      setCode('');
+      queryClient.invalidateQueries({ queryKey: ['twoFactorStatus'] });
+      if (action === 'disable') {
+        toast.success('Two-factor authentication disabled.');
+      } else if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+        toast.success('New recovery codes generated.');
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction || !code.trim()) return;
+    codeMutation.mutate({ action: codeAction, value: code.trim() });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-20 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-lg font-medium">Two-Factor Authentication</h4>
+
+      {status?.enabled ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <ShieldCheck className="h-4 w-4 text-green-600" />
+            <span>Enabled{status.enabled_at ? ` since ${new Date(status.enabled_at + 'Z').toLocaleDateString()}` : ''}.</span>
+            <span className="text-muted-foreground">{status.recovery_codes_remaining} recovery codes left.</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setCodeAction('recovery-codes')}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button type="button" variant="outline" size="sm" className="text-destructive" onClick={() => setCodeAction('disable')}>
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Disable
+              </Button>
+            )}
+          </div>
+          {status.required && (
+            <p className="text-xs text-muted-foreground">Two-factor authentication is required for all accounts.</p>
+          )}
+        </div>
+      ) : enrollment ? (
+        <TwoFactorEnrollment
+          enrollment={enrollment}
+          isSubmitting={enableMutation.isPending}
+          onSubmit={(totpCode) => enableMutation.mutate(totpCode)}
+        />
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Protect your account with a code from an authenticator app in addition to your password.
+          </p>
+          <Button type="button" variant="outline" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Set Up Two-Factor Authentication
+          </Button>
+        </div>
+      )}
+
+      {/* Code confirmation for disabling or regenerating */}
+      <Dialog open={!!codeAction} onOpenChange={(open) => { if (!open) { setCodeAction(null); setCode(''); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{codeAction === 'disable' ? 'Disable Two-Factor Authentication' : 'Generate New Recovery Codes'}</DialogTitle>
+            <DialogDescription>
+              {codeAction === 'disable'
+                ? 'Enter a code from your authenticator app, or one of your recovery codes.'
+                : 'Enter a code from your authenticator app. Your old recovery codes will stop working.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCodeSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="totp-confirm-code">Code</Label>
+              <Input
+                id="totp-confirm-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={codeMutation.isPending}
+                autoFocus
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={codeMutation.isPending || !code.trim()}>
+              {codeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Freshly generated recovery codes */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your Recovery Codes</DialogTitle>
+            <DialogDescription>Store them in a password manager or print them.</DialogDescription>
+          </DialogHeader>
+          {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+          <div className="flex justify-end">
+            <Button type="button" onClick={() => setRecoveryCodes(null)}>I've Saved Them</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
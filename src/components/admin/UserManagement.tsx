@@ -23,13 +23,15 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import { apiClient } from '@/services/apiClient';
-import { Loader2, UserPlus, Trash2, AlertCircle, KeyRound, Copy, Mail } from 'lucide-react'; // Removed 'Send' icon, using 'Mail'
+import { Loader2, UserPlus, Trash2, AlertCircle, KeyRound, Copy, Mail, ShieldCheck } from 'lucide-react'; // Removed 'Send' icon, using 'Mail'
+import { ROLES, ROLE_LABELS, Role, normalizeRole } from '@/permissions';
 
 interface User {
   username: string;
   email: string | null;
   role: string;
   is_active: number;
+  totp_enabled: number;
   created_at: string;
 }
 
@@ -42,6 +44,14 @@ const createUser = async (userData: { username: string; email: string; password:
   return await apiClient.post('/admin/users', userData);
 };
 
+const updateUserRole = async ({ username, role }: { username: string; role: Role }) => {
+  return await apiClient.put(`/admin/users/${username}`, { role });
+};
+
+const resetTwoFactor = async (username: string) => {
+  return await apiClient.put(`/admin/users/${username}`, { reset_2fa: true });
+};
+
 const deleteUser = async (username: string) => {
   return await apiClient.delete(`/admin/users/${username}`);
 };
@@ -69,13 +79,14 @@ const UserManagement: React.FC = () => {
     username: '',
     email: '',
     password: '',
-    role: 'admin',
+    role: 'viewer',
   });
   
   // --- NEW: State for the TWO new dialogs ---
   const [actionUser, setActionUser] = useState<User | null>(null); // Holds the user you clicked on
   const [generatedToken, setGeneratedToken] = useState<string | null>(null); // Holds the token to be copied
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<User | null>(null);
+  const [showResetTwoFactor, setShowResetTwoFactor] = useState<User | null>(null);
 
 
   const { data: users, isLoading } = useQuery({
@@ -89,13 +100,37 @@ const UserManagement: React.FC = () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
       toast.success('User created successfully!');
       setIsAddUserOpen(false);
-      setNewUser({ username: '', email: '', password: '', role: 'admin' });
+      setNewUser({ username: '', email: '', password: '', role: 'viewer' });
     },
     onError: (error: Error) => {
       toast.error(`Failed to create user: ${error.message}`);
     },
   });
 
+  const roleMutation = useMutation({
+    mutationFn: updateUserRole,
+    onSuccess: (_, { username, role }) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success(`${username} is now ${ROLE_LABELS[role]}. It applies within 15 minutes.`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to change role: ${error.message}`);
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: resetTwoFactor,
+    onSuccess: (_, username) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success(`Two-factor authentication reset for "${username}".`);
+      setShowResetTwoFactor(null);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to reset 2FA: ${error.message}`);
+      setShowResetTwoFactor(null);
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: deleteUser,
     onSuccess: (_, username) => {
@@ -260,9 +295,9 @@ const UserManagement: React.FC = () => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="admin">Admin</SelectItem>
-                        <SelectItem value="editor">Editor</SelectItem>
-                        <SelectItem value="viewer">Viewer</SelectItem>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -279,7 +314,8 @@ const UserManagement: React.FC = () => {
           <Alert className="mb-4">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              All users currently have admin access. Role-based permissions are not yet enforced.
+              Super Admins have full access. Editors manage posts, Data Operators manage rates and currencies,
+              and Viewers can only read. Role changes apply within 15 minutes, when the user's session next refreshes.
             </AlertDescription>
           </Alert>
 
@@ -295,6 +331,7 @@ const UserManagement: React.FC = () => {
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>2FA</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -305,7 +342,24 @@ const UserManagement: React.FC = () => {
                     <TableCell className="font-medium">{user.username}</TableCell>
                     <TableCell>{user.email || 'No email'}</TableCell>
                     <TableCell>
-                      <span className="capitalize">{user.role}</span>
+                      {user.username === localStorage.getItem('username') ? (
+                        <span>{ROLE_LABELS[normalizeRole(user.role)]}</span>
+                      ) : (
+                        <Select
+                          value={normalizeRole(user.role)}
+                          onValueChange={(value) => roleMutation.mutate({ username: user.username, role: value as Role })}
+                          disabled={roleMutation.isPending && roleMutation.variables?.username === user.username}
+                        >
+                          <SelectTrigger className="h-8 w-[150px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                     </TableCell>
                     <TableCell>
                       <span
@@ -318,6 +372,21 @@ const UserManagement: React.FC = () => {
                         {user.is_active ? 'Active' : 'Inactive'}
                       </span>
                     </TableCell>
+                    <TableCell>
+                      {user.totp_enabled ? (
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 text-xs text-green-700 hover:underline"
+                          title="Reset two-factor authentication"
+                          onClick={() => setShowResetTwoFactor(user)}
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                          On
+                        </button>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Off</span>
+                      )}
+                    </TableCell>
                     <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                     <TableCell className="text-right">
                       {/* --- MODIFIED: Key button now opens action dialog --- */}
@@ -418,6 +487,28 @@ const UserManagement: React.FC = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Reset 2FA Confirmation Dialog */}
+      <AlertDialog open={!!showResetTwoFactor} onOpenChange={(open) => !open && setShowResetTwoFactor(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <span className="font-bold text-primary">{showResetTwoFactor?.username}</span> will be able to log in
+              with their password alone and set up a new authenticator app. Their recovery codes stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => resetTwoFactorMutation.mutate(showResetTwoFactor!.username)}
+              disabled={resetTwoFactorMutation.isPending}
+            >
+              {resetTwoFactorMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "Reset 2FA"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* --- NEW: Delete Confirmation Dialog --- */}
       <AlertDialog open={!!showDeleteConfirm} onOpenChange={(open) => !open && setShowDeleteConfirm(null)}>
         <AlertDialogContent>
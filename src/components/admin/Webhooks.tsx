@@ -0,0 +1,534 @@
+// src/components/admin/Webhooks.tsx
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/apiClient';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/worker-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import CopyCodeButton from '@/components/CopyCodeButton';
+import { toast as sonnerToast } from 'sonner';
+import { Loader2, KeyRound, Plus, Edit, RefreshCw, Trash2, Send, ScrollText, RotateCw } from 'lucide-react';
+
+type WebhooksResponse = {
+  success: boolean;
+  webhooks: Webhook[];
+};
+
+type DeliveriesResponse = {
+  success: boolean;
+  deliveries: WebhookDelivery[];
+};
+
+type DeliveryResponse = {
+  success: boolean;
+  delivery: WebhookDelivery | null;
+};
+
+type WebhookForm = {
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  currencies: string;
+  enabled: boolean;
+};
+
+const EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'rates.published', label: 'rates.published', description: 'Rates for a new date are stored' },
+  { value: 'rates.revised', label: 'rates.revised', description: 'Stored rates for a date change' },
+  { value: 'post.published', label: 'post.published', description: 'A post is published' },
+];
+
+const EMPTY_FORM: WebhookForm = {
+  url: '',
+  description: '',
+  events: ['rates.published'],
+  currencies: '',
+  enabled: true,
+};
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  delivered: { label: 'Delivered', className: 'bg-green-100 text-green-800' },
+  pending: { label: 'Retrying', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const fetchWebhooks = async (): Promise<Webhook[]> => {
+  const response = await apiClient.get<WebhooksResponse>('/admin/webhooks');
+  return response.webhooks;
+};
+
+const parseList = (value: string): string[] => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+};
+
+const formFromWebhook = (webhook: Webhook): WebhookForm => ({
+  url: webhook.url,
+  description: webhook.description || '',
+  events: parseList(webhook.events) as WebhookEvent[],
+  currencies: parseList(webhook.currencies).join(', '),
+  enabled: webhook.enabled === 1,
+});
+
+const formatTime = (value: string | null) => (value ? new Date(value.replace(' ', 'T') + 'Z').toLocaleString() : '—');
+
+const DeliveryStatusBadge: React.FC<{ delivery: Pick<WebhookDelivery, 'status' | 'attempts'> }> = ({ delivery }) => {
+  // A pending delivery that hasn't been tried yet is queued, not retrying
+  const badge = delivery.status === 'pending' && delivery.attempts === 0
+    ? { label: 'Queued', className: 'bg-gray-100 text-gray-800' }
+    : STATUS_BADGES[delivery.status];
+  return <Badge variant="outline" className={badge.className}>{badge.label}</Badge>;
+};
+
+/**
+ * The latest deliveries of one webhook, with their payloads, and a retry for the undelivered.
+ */
+const DeliveryLog: React.FC<{ webhook: Webhook }> = ({ webhook }) => {
+  const queryClient = useQueryClient();
+  const { data: deliveries, isLoading, isFetching, error, refetch } = useQuery<WebhookDelivery[]>({
+    queryKey: ['webhookDeliveries', webhook.id],
+    queryFn: async () => (await apiClient.get<DeliveriesResponse>(`/admin/webhooks/${webhook.id}/deliveries`)).deliveries,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (delivery: WebhookDelivery) =>
+      apiClient.post<DeliveryResponse>(`/admin/webhooks/${webhook.id}/deliveries/${delivery.id}/retry`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', webhook.id] });
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      if (data.delivery?.status === 'delivered') sonnerToast.success('Delivered.');
+      else sonnerToast.error(`Delivery failed: ${data.delivery?.last_error || 'unknown error'}`);
+    },
+    onError: (err: Error) => sonnerToast.error(err.message),
+  });
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+  if (error) return <p className="text-destructive text-center py-8">Error loading deliveries: {error.message}</p>;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`mr-2 h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+      <div className="rounded-md border max-h-[60vh] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last Response</TableHead>
+              <TableHead>Next Attempt</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                  Nothing has been sent to this webhook yet.
+                </TableCell>
+              </TableRow>
+            )}
+            {deliveries?.map((delivery) => (
+              <TableRow key={delivery.id}>
+                <TableCell className="text-sm whitespace-nowrap">{formatTime(delivery.created_at)}</TableCell>
+                <TableCell className="text-xs font-mono">
+                  <details>
+                    <summary className="cursor-pointer">{delivery.event}</summary>
+                    <pre className="mt-2 max-w-[360px] overflow-auto whitespace-pre-wrap break-all text-[11px]">
+                      {JSON.stringify(JSON.parse(delivery.payload), null, 2)}
+                    </pre>
+                  </details>
+                </TableCell>
+                <TableCell><DeliveryStatusBadge delivery={delivery} /></TableCell>
+                <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                <TableCell className="text-xs max-w-[240px]">
+                  {delivery.response_status !== null && <div className="font-mono">HTTP {delivery.response_status}</div>}
+                  {delivery.last_error && <div className="text-destructive break-words">{delivery.last_error}</div>}
+                  {delivery.response_status === null && !delivery.last_error && '—'}
+                </TableCell>
+                <TableCell className="text-sm whitespace-nowrap">
+                  {delivery.status === 'pending' ? formatTime(delivery.next_attempt_at) : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {delivery.status !== 'delivered' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Retry now"
+                      disabled={retryMutation.isPending}
+                      onClick={() => retryMutation.mutate(delivery)}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Webhook subscriptions: create, edit, test, rotate the signing secret, delete, and
+ * browse each one's delivery log.
+ */
+const Webhooks: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Webhook | 'new' | null>(null);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [confirm, setConfirm] = useState<{ webhook: Webhook; action: 'rotate' | 'delete' } | null>(null);
+  const [issuedSecret, setIssuedSecret] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<Webhook | null>(null);
+
+  const { data: webhooks, isLoading, error } = useQuery<Webhook[]>({
+    queryKey: ['webhooks'],
+    queryFn: fetchWebhooks,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: WebhookForm) => {
+      const body = {
+        url: values.url.trim(),
+        description: values.description || null,
+        events: values.events,
+        currencies: values.currencies.split(/[\s,]+/).filter(Boolean),
+        enabled: values.enabled,
+      };
+      return editing === 'new' || !editing
+        ? apiClient.post<{ success: boolean; secret: string }>('/admin/webhooks', body)
+        : apiClient.put<{ success: boolean; secret?: string }>(`/admin/webhooks/${editing.id}`, body);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setEditing(null);
+      if (data.secret) {
+        setIssuedSecret(data.secret);
+      } else {
+        sonnerToast.success('Webhook updated.');
+      }
+    },
+    onError: (err: Error) => {
+      sonnerToast.error(`Failed to save webhook: ${err.message}`);
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ webhook, action }: { webhook: Webhook; action: 'rotate' | 'delete' }) =>
+      action === 'rotate'
+        ? apiClient.post<{ success: boolean; secret: string }>(`/admin/webhooks/${webhook.id}/rotate-secret`)
+        : apiClient.delete<{ success: boolean; secret?: string }>(`/admin/webhooks/${webhook.id}`),
+    onSuccess: (data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setConfirm(null);
+      if (action === 'rotate' && data.secret) {
+        setIssuedSecret(data.secret);
+      } else {
+        sonnerToast.success('Webhook deleted.');
+      }
+    },
+    onError: (err: Error) => {
+      setConfirm(null);
+      sonnerToast.error(err.message);
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (webhook: Webhook) => apiClient.post<DeliveryResponse>(`/admin/webhooks/${webhook.id}/test`),
+    onSuccess: (data, webhook) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', webhook.id] });
+      if (data.delivery?.status === 'delivered') {
+        sonnerToast.success(`Test delivered (HTTP ${data.delivery.response_status}).`);
+      } else {
+        sonnerToast.error(`Test failed: ${data.delivery?.last_error || 'unknown error'}. It will be retried.`);
+      }
+    },
+    onError: (err: Error) => sonnerToast.error(err.message),
+  });
+
+  const openEditor = (webhook: Webhook | 'new') => {
+    setForm(webhook === 'new' ? EMPTY_FORM : formFromWebhook(webhook));
+    setEditing(webhook);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">
+            Each event is POSTed as JSON, signed in <code>X-Webhook-Signature</code> as{' '}
+            <code>sha256=HMAC-SHA256(secret, "&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;")</code>. Failed deliveries
+            are retried for about 13 hours; the log is kept for 30 days.
+          </p>
+        </div>
+        <Button onClick={() => openEditor('new')} className="w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Webhook
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : error ? (
+        <p className="text-destructive text-center py-8">Error loading webhooks: {error.message}</p>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Currencies</TableHead>
+                <TableHead>Last Delivery</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    No webhooks yet.
+                  </TableCell>
+                </TableRow>
+              )}
+              {webhooks?.map((webhook) => {
+                const currencies = parseList(webhook.currencies);
+                return (
+                  <TableRow key={webhook.id} className={webhook.enabled ? '' : 'opacity-60'}>
+                    <TableCell className="max-w-[280px]">
+                      <code className="text-xs break-all">{webhook.url}</code>
+                      {webhook.description && <div className="text-xs text-muted-foreground">{webhook.description}</div>}
+                      {!webhook.enabled && <Badge variant="secondary" className="mt-1">Disabled</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">{parseList(webhook.events).join(', ')}</TableCell>
+                    <TableCell className="text-xs font-mono">{currencies.length > 0 ? currencies.join(', ') : 'All'}</TableCell>
+                    <TableCell className="text-sm">
+                      {webhook.last_delivery_status ? (
+                        <div className="space-y-1">
+                          <Badge variant="outline" className={STATUS_BADGES[webhook.last_delivery_status].className}>
+                            {STATUS_BADGES[webhook.last_delivery_status].label}
+                          </Badge>
+                          <div className="text-xs text-muted-foreground">{formatTime(webhook.last_delivery_at)}</div>
+                          {webhook.pending_deliveries > 0 && (
+                            <div className="text-xs text-amber-700">{webhook.pending_deliveries} awaiting retry</div>
+                          )}
+                        </div>
+                      ) : (
+                        'Never'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" title="Delivery log" onClick={() => setViewing(webhook)}>
+                        <ScrollText className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Send a test ping"
+                        disabled={!webhook.enabled || testMutation.isPending}
+                        onClick={() => testMutation.mutate(webhook)}
+                      >
+                        {testMutation.isPending && testMutation.variables?.id === webhook.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Send className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(webhook)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Rotate secret" onClick={() => setConfirm({ webhook, action: 'rotate' })}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Delete" className="text-destructive" onClick={() => setConfirm({ webhook, action: 'delete' })}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create / edit */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Webhook' : 'Edit Webhook'}</DialogTitle>
+            <DialogDescription>The URL must use https. A signing secret is generated when you save a new webhook.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/hooks/forex"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="e.g. Accounting sync"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-2 rounded-md border p-3">
+                {EVENTS.map((event) => (
+                  <label key={event.value} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(event.value)}
+                      onCheckedChange={(checked) => toggleEvent(event.value, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{event.label}</span>
+                      <span className="block text-xs text-muted-foreground">{event.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="webhook-currencies">Currencies</Label>
+              <Input
+                id="webhook-currencies"
+                value={form.currencies}
+                onChange={(e) => setForm({ ...form, currencies: e.target.value })}
+                placeholder="e.g. USD, EUR (blank for all)"
+                className="font-mono"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Rate events only carry these currencies, and are skipped when none of them changed.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="webhook-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+              />
+              <Label htmlFor="webhook-enabled">Enabled</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending || !form.url.trim() || form.events.length === 0}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editing === 'new' ? 'Add Webhook' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rotate / delete confirmation */}
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm?.action === 'rotate' ? 'Rotate signing secret?' : 'Delete webhook?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm?.action === 'rotate'
+                ? 'Deliveries are signed with the new secret from now on, including retries. Update the receiver before its next event.'
+                : `Nothing more will be sent to ${confirm?.webhook.url}, and its delivery log is deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirm && actionMutation.mutate(confirm)}
+              disabled={actionMutation.isPending}
+              className={confirm?.action === 'delete' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
+            >
+              {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirm?.action === 'rotate' ? 'Rotate' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* The secret is only shown once */}
+      <Dialog open={!!issuedSecret} onOpenChange={(open) => !open && setIssuedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Copy the Signing Secret Now
+            </DialogTitle>
+            <DialogDescription>
+              The receiver needs it to verify deliveries. It isn't shown again; rotate it if it is lost.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 rounded-md border bg-muted/50 p-3">
+            <code className="flex-1 break-all text-sm">{issuedSecret}</code>
+            {issuedSecret && <CopyCodeButton codeToCopy={issuedSecret} />}
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setIssuedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery log */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Log</DialogTitle>
+            <DialogDescription className="break-all">{viewing?.url} — the latest 100 deliveries.</DialogDescription>
+          </DialogHeader>
+          {viewing && <DeliveryLog webhook={viewing} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Webhooks;
@@ -27,6 +27,9 @@ export const CURRENCY_MAP: { [key: string]: { name: string, unit: number } } = {
 };
 export const CURRENCIES = Object.keys(CURRENCY_MAP);
 
+// --- Public site, for links in emails, feeds and webhook payloads ---
+export const SITE_URL = 'https://forex.grisma.com.np';
+
 // --- JWT Secret ---
 export const JWT_SECRET = 'forexnepal-jwt-secret-key-2025';
 
@@ -34,5 +37,6 @@ export const JWT_SECRET = 'forexnepal-jwt-secret-key-2025';
 export const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, If-None-Match, If-Modified-Since',
+    'Access-Control-Expose-Headers': 'ETag, Last-Modified, Deprecation, Link, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After',
 };
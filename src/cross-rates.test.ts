@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildNprQuotes, crossRate, crossRateMatrix, orderedQuoteCodes, roundRate } from './cross-rates';
+import type { CurrencyLookup, StoredRate } from './rates-store';
+import type { CurrencyRecord } from './worker-types';
+
+const currency = (iso3: string, unit: number, display_order: number): CurrencyRecord => ({
+    iso3, name: iso3, unit, region: 'other', flag_code: null, display_order, enabled: 1,
+});
+
+const currencies: CurrencyLookup = new Map([
+    ['USD', currency('USD', 1, 1)],
+    ['INR', currency('INR', 100, 2)],
+    ['JPY', currency('JPY', 10, 3)],
+    ['KWD', currency('KWD', 1, 4)],
+]);
+
+// Stored rates are per single unit, whatever NRB's quoting unit
+const row = (iso3: string, buy: number | null, sell: number | null): StoredRate => ({
+    date: '2025-01-15', iso3, buy, sell, unit: currencies.get(iso3)?.unit ?? 1, source: 'nrb', fetched_at: '2025-01-15 05:00:00',
+});
+
+const rows = [
+    row('USD', 136, 136.6),
+    row('INR', 1.6, 1.6015),
+    row('JPY', 0.88, 0.8844),
+    row('KWD', 440, null),
+    row('EUR', 150, 150.6), // Not in the registry
+];
+
+describe('crossRate', () => {
+    const buy = buildNprQuotes(rows, currencies, 'buy');
+
+    it('goes through NPR on both sides', () => {
+        expect(crossRate(buy, 'USD', 'NPR')).toBe(136);
+        expect(crossRate(buy, 'NPR', 'USD')).toBeCloseTo(1 / 136, 12);
+        expect(crossRate(buy, 'USD', 'INR')).toBeCloseTo(85, 10);
+        expect(crossRate(buy, 'INR', 'JPY')).toBeCloseTo(1.6 / 0.88, 10);
+        expect(crossRate(buy, 'USD', 'USD')).toBe(1);
+    });
+
+    it('is null for currencies without a quote', () => {
+        expect(crossRate(buy, 'EUR', 'USD')).toBeNull();
+        expect(crossRate(buy, 'USD', 'GBP')).toBeNull();
+    });
+
+    it('skips currencies missing the requested side', () => {
+        const sell = buildNprQuotes(rows, currencies, 'sell');
+        expect(sell.has('KWD')).toBe(false);
+        expect(crossRate(sell, 'KWD', 'USD')).toBeNull();
+        expect(buildNprQuotes(rows, currencies, 'mid').get('USD')?.nprPerUnit).toBeCloseTo(136.3, 10);
+    });
+
+    it('keeps the registry quoting unit on each quote', () => {
+        expect(buy.get('INR')).toEqual({ iso3: 'INR', unit: 100, nprPerUnit: 1.6 });
+    });
+});
+
+describe('crossRateMatrix', () => {
+    const buy = buildNprQuotes(rows, currencies, 'buy');
+
+    it('covers every pair in registry order, NPR first', () => {
+        const codes = orderedQuoteCodes(buy, currencies);
+        expect(codes).toEqual(['NPR', 'USD', 'INR', 'JPY', 'KWD']);
+
+        const matrix = crossRateMatrix(buy, codes);
+        expect(Object.keys(matrix)).toEqual(codes);
+        expect(matrix.KWD.USD).toBe(roundRate(440 / 136));
+        expect(matrix.NPR.JPY).toBe(roundRate(1 / 0.88));
+    });
+});
+
+describe('roundRate', () => {
+    it('keeps eight significant digits', () => {
+        expect(roundRate(0.1 + 0.2)).toBe(0.3);
+        expect(roundRate(1 / 3)).toBe(0.33333333);
+        expect(roundRate(123456.789)).toBe(123456.79);
+    });
+});
@@ -0,0 +1,80 @@
+// src/cross-rates.ts
+// --- CROSS RATES ---
+// NRB quotes every currency against NPR only, so a foreign-to-foreign rate goes through
+// NPR on one side: 1 A = (NPR per A) / (NPR per B) B. Stored rates are already per
+// single unit, so NRB's quoting units (100 INR, 10 JPY) don't enter the division.
+
+import type { RateSide } from './types/forex';
+import { CurrencyLookup, StoredRate, filterEnabled } from './rates-store';
+
+export const RATE_SIDES: RateSide[] = ['buy', 'sell', 'mid'];
+
+export interface NprQuote {
+    iso3: string;
+    unit: number;
+    nprPerUnit: number;
+}
+
+function sideRate(row: StoredRate, side: RateSide): number | null {
+    if (side === 'mid') {
+        return typeof row.buy === 'number' && typeof row.sell === 'number' ? (row.buy + row.sell) / 2 : null;
+    }
+    const value = row[side];
+    return typeof value === 'number' && value > 0 ? value : null;
+}
+
+/**
+ * NPR per single unit of each enabled currency on `side`, NPR itself included.
+ * Currencies without a usable rate on that side are left out.
+ */
+export function buildNprQuotes(rows: StoredRate[], currencies: CurrencyLookup, side: RateSide): Map<string, NprQuote> {
+    const quotes = new Map<string, NprQuote>([['NPR', { iso3: 'NPR', unit: 1, nprPerUnit: 1 }]]);
+    for (const row of filterEnabled(rows, currencies)) {
+        const nprPerUnit = sideRate(row, side);
+        if (nprPerUnit === null) continue;
+        quotes.set(row.iso3, { iso3: row.iso3, unit: currencies.get(row.iso3)?.unit || row.unit || 1, nprPerUnit });
+    }
+    return quotes;
+}
+
+/**
+ * Units of `to` per single unit of `from`, or null if either has no quote.
+ */
+export function crossRate(quotes: Map<string, NprQuote>, from: string, to: string): number | null {
+    const a = quotes.get(from);
+    const b = quotes.get(to);
+    if (!a || !b) return null;
+    return a.nprPerUnit / b.nprPerUnit;
+}
+
+/**
+ * NPR, then every currency with a quote in registry display order.
+ */
+export function orderedQuoteCodes(quotes: Map<string, NprQuote>, currencies: CurrencyLookup): string[] {
+    return ['NPR', ...Array.from(currencies.values())
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(c => c.iso3)
+        .filter(iso3 => quotes.has(iso3))];
+}
+
+/**
+ * rates[from][to] for every pair of `codes`, rounded.
+ */
+export function crossRateMatrix(quotes: Map<string, NprQuote>, codes: string[]): Record<string, Record<string, number | null>> {
+    const rates: Record<string, Record<string, number | null>> = {};
+    for (const from of codes) {
+        rates[from] = {};
+        for (const to of codes) {
+            const rate = crossRate(quotes, from, to);
+            rates[from][to] = rate === null ? null : roundRate(rate);
+        }
+    }
+    return rates;
+}
+
+/**
+ * Rounds to 8 significant digits: enough for KRW-to-KWD without float noise.
+ */
+export function roundRate(value: number): number {
+    return Number(value.toPrecision(8));
+}
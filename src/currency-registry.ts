@@ -0,0 +1,107 @@
+// src/currency-registry.ts
+// --- CURRENCY REGISTRY (D1 `currencies` table, cached in KV) ---
+
+import { Env, D1Database, D1PreparedStatement, CurrencyRecord, CurrencyRegion } from './worker-types';
+import { CURRENCY_MAP } from './constants';
+import { bumpCacheGeneration } from './http-cache';
+
+const CURRENCY_CACHE_KEY = 'currencies_v1';
+const CURRENCY_CACHE_TTL = 300; // 5 minutes
+
+export const CURRENCY_REGIONS: CurrencyRegion[] = ['asian', 'european', 'middle-east', 'other'];
+
+/**
+ * Registry built from the compile-time CURRENCY_MAP.
+ * Only used when the currencies table is missing or unreadable.
+ */
+function getFallbackRegistry(): CurrencyRecord[] {
+    return Object.entries(CURRENCY_MAP).map(([iso3, info], index) => ({
+        iso3,
+        name: info.name,
+        unit: info.unit,
+        region: 'other',
+        flag_code: null,
+        display_order: index + 1,
+        enabled: 1,
+    }));
+}
+
+/**
+ * Fetches every registered currency (enabled or not), using cache first, then D1.
+ */
+export async function getCurrencyRegistry(env: Env): Promise<CurrencyRecord[]> {
+    // 1. Try to get from KV cache
+    try {
+        const cached = await env.API_SETTINGS_CACHE.get(CURRENCY_CACHE_KEY, 'json');
+        if (Array.isArray(cached) && cached.length > 0) {
+            return cached as CurrencyRecord[];
+        }
+    } catch (e) {
+        console.error('Currency cache read error:', e);
+    }
+
+    // 2. If cache miss or error, fetch from D1
+    try {
+        const { results } = await env.FOREX_DB.prepare(
+            `SELECT iso3, name, unit, region, flag_code, display_order, enabled, created_at, updated_at
+             FROM currencies ORDER BY display_order ASC, iso3 ASC`
+        ).all<CurrencyRecord>();
+
+        if (!results || results.length === 0) {
+            console.warn('Currency registry is empty, falling back to CURRENCY_MAP.');
+            return getFallbackRegistry();
+        }
+
+        // 3. Store in KV cache for next time (don't await)
+        env.API_SETTINGS_CACHE.put(CURRENCY_CACHE_KEY, JSON.stringify(results), {
+            expirationTtl: CURRENCY_CACHE_TTL
+        });
+
+        return results;
+    } catch (e: any) {
+        console.error('Failed to fetch currency registry from D1:', e.message);
+        return getFallbackRegistry();
+    }
+}
+
+/**
+ * Enabled currencies keyed by ISO3, in display order.
+ */
+export async function getEnabledCurrencyMap(env: Env): Promise<Map<string, CurrencyRecord>> {
+    const registry = await getCurrencyRegistry(env);
+    return new Map(registry.filter(c => c.enabled).map(c => [c.iso3, c]));
+}
+
+/**
+ * Drops the cached registry so the next read comes from D1, along with every cached
+ * rates response built from it.
+ */
+export async function invalidateCurrencyCache(env: Env): Promise<void> {
+    await env.API_SETTINGS_CACHE.delete(CURRENCY_CACHE_KEY);
+    await bumpCacheGeneration(env);
+}
+
+/**
+ * Builds INSERT statements registering currencies the registry doesn't know yet.
+ * New currencies land in the 'other' region, after every existing one.
+ */
+export function buildRegisterStatements(
+    db: D1Database,
+    known: Set<string>,
+    candidates: { iso3: string; name: string; unit: number }[]
+): D1PreparedStatement[] {
+    const seen = new Set<string>();
+    const stmts: D1PreparedStatement[] = [];
+
+    for (const candidate of candidates) {
+        if (known.has(candidate.iso3) || seen.has(candidate.iso3)) continue;
+        seen.add(candidate.iso3);
+        stmts.push(
+            db.prepare(
+                `INSERT OR IGNORE INTO currencies (iso3, name, unit, region, display_order)
+                 VALUES (?, ?, ?, 'other', (SELECT COALESCE(MAX(display_order), 0) + 1 FROM currencies))`
+            ).bind(candidate.iso3, candidate.name || candidate.iso3, candidate.unit || 1)
+        );
+    }
+    return stmts;
+}
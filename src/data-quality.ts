@@ -0,0 +1,107 @@
+// src/data-quality.ts
+// --- INGESTION AUDIT LOG & DATA-QUALITY VALIDATOR ---
+// The daily cron records every run here, then checks the stored day against the
+// previous one. Anything suspicious becomes an open row in data_anomalies.
+
+import { Env, D1Database, IngestionRun, AnomalyType } from './worker-types';
+import { getRatesForDate } from './rates-store';
+import { addDays } from './worker-utils';
+
+export const JUMP_THRESHOLD_SETTING = 'anomaly_jump_threshold_pct';
+const DEFAULT_JUMP_THRESHOLD_PCT = 5;
+const MAX_LISTED_GAP_DATES = 7;
+
+/**
+ * Writes one ingestion_runs row. Returns its id.
+ */
+export async function recordIngestionRun(env: Env, run: Omit<IngestionRun, 'id' | 'started_at'>): Promise<number> {
+    const result = await env.FOREX_DB.prepare(
+        `INSERT INTO ingestion_runs (cron, target_date, status, http_status, currencies_received, currencies_stored, duration_ms, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`
+    ).bind(
+        run.cron, run.target_date, run.status, run.http_status,
+        run.currencies_received, run.currencies_stored, run.duration_ms, run.error
+    ).first<{ id: number }>();
+    return result!.id;
+}
+
+/**
+ * Day-over-day change (percent) above which a rate is flagged.
+ */
+export async function getJumpThreshold(db: D1Database): Promise<number> {
+    const row = await db.prepare(`SELECT value FROM site_settings WHERE key = ?`)
+        .bind(JUMP_THRESHOLD_SETTING).first<{ value: string }>();
+    const value = parseFloat(row?.value ?? '');
+    return !isNaN(value) && value > 0 ? value : DEFAULT_JUMP_THRESHOLD_PCT;
+}
+
+/**
+ * Checks the rates stored for `date` against the previous stored date and records
+ * anomalies (buy > sell, large jumps, currencies that disappeared, missing days).
+ * Already-recorded anomalies are left alone. Returns how many were found.
+ */
+export async function validateRatesForDate(env: Env, date: string, runId: number | null): Promise<number> {
+    const db = env.FOREX_DB;
+    const rows = await getRatesForDate(db, date);
+    if (rows.length === 0) return 0;
+
+    const prev = await db.prepare(`SELECT MAX(date) as date FROM forex_rates WHERE date < ?`).bind(date).first<{ date: string | null }>();
+    const prevDate = prev?.date || null;
+    const prevRows = prevDate ? await getRatesForDate(db, prevDate) : [];
+    const prevByCode = new Map(prevRows.map(r => [r.iso3, r]));
+    const threshold = await getJumpThreshold(db);
+
+    const anomalies: { iso3: string; type: AnomalyType; detail: string }[] = [];
+
+    for (const row of rows) {
+        if (row.buy !== null && row.sell !== null && row.buy > row.sell) {
+            anomalies.push({ iso3: row.iso3, type: 'buy_gt_sell', detail: `Buy ${row.buy} is above sell ${row.sell}` });
+        }
+
+        const before = prevByCode.get(row.iso3);
+        if (!before) continue;
+        // One row per currency and day (the UNIQUE key), so a buy and a sell jump share it
+        const jumps: string[] = [];
+        for (const side of ['buy', 'sell'] as const) {
+            const current = row[side];
+            const previous = before[side];
+            if (current === null || previous === null || previous <= 0) continue;
+            const changePct = Math.abs(current - previous) / previous * 100;
+            if (changePct > threshold) {
+                jumps.push(`${side} changed ${changePct.toFixed(2)}% (${previous} → ${current})`);
+            }
+        }
+        if (jumps.length > 0) {
+            anomalies.push({ iso3: row.iso3, type: 'jump', detail: `${jumps.join('; ')} since ${prevDate}` });
+        }
+    }
+
+    const currentCodes = new Set(rows.map(r => r.iso3));
+    for (const before of prevRows) {
+        if (!currentCodes.has(before.iso3)) {
+            anomalies.push({ iso3: before.iso3, type: 'missing_currency', detail: `Published on ${prevDate} but missing on ${date}` });
+        }
+    }
+
+    if (prevDate) {
+        const missing: string[] = [];
+        for (let d = addDays(prevDate, 1); d < date; d = addDays(d, 1)) missing.push(d);
+        if (missing.length > 0) {
+            const weekday = (d: string) => new Date(`${d}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+            const listed = missing.slice(0, MAX_LISTED_GAP_DATES).map(d => `${d} (${weekday(d)})`).join(', ');
+            const more = missing.length > MAX_LISTED_GAP_DATES ? ` and ${missing.length - MAX_LISTED_GAP_DATES} more` : '';
+            anomalies.push({ iso3: '', type: 'gap', detail: `No rates stored for ${listed}${more}` });
+        }
+    }
+
+    if (anomalies.length === 0) return 0;
+
+    await db.batch(anomalies.map(a =>
+        db.prepare(
+            `INSERT OR IGNORE INTO data_anomalies (run_id, date, iso3, type, detail) VALUES (?, ?, ?, ?, ?)`
+        ).bind(runId, date, a.iso3, a.type, a.detail)
+    ));
+    console.log(`Data-quality check for ${date} found ${anomalies.length} anomalies.`);
+    return anomalies.length;
+}
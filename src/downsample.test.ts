@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { downsampleSeries, SeriesPoint } from './downsample';
+
+const day = (i: number) => new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+
+// A gentle wave with one spike in buy and one dip in sell, away from the ends
+const series: SeriesPoint[] = Array.from({ length: 365 }, (_, i) => ({
+    date: day(i),
+    buy: i === 200 ? 150 : 133 + Math.sin(i / 20),
+    sell: i === 90 ? 120 : 134 + Math.sin(i / 20),
+}));
+
+describe('downsampleSeries', () => {
+    it('returns short series untouched', () => {
+        expect(downsampleSeries(series.slice(0, 10), 10)).toHaveLength(10);
+    });
+
+    it('never returns more points than asked for', () => {
+        for (const maxPoints of [2, 3, 4, 5, 6, 7, 50, 364]) {
+            expect(downsampleSeries(series, maxPoints).length).toBeLessThanOrEqual(maxPoints);
+        }
+        // LTTB may pick a day already kept as an extreme, so it can come up a little short
+        expect(downsampleSeries(series, 50).length).toBeGreaterThanOrEqual(46);
+    });
+
+    it('keeps both ends and the extremes, in date order', () => {
+        const sampled = downsampleSeries(series, 6);
+        const dates = sampled.map(p => p.date);
+        expect(dates).toContain(day(0));
+        expect(dates).toContain(day(364));
+        expect(dates).toContain(day(200));
+        expect(dates).toContain(day(90));
+        expect([...dates].sort()).toEqual(dates);
+    });
+
+    it('drops extremes before the ends when the budget is tiny', () => {
+        expect(downsampleSeries(series, 2).map(p => p.date)).toEqual([day(0), day(364)]);
+    });
+
+    it('copes with missing sides', () => {
+        const gappy = series.map((p, i) => (i % 3 === 0 ? { ...p, buy: null } : p));
+        const sampled = downsampleSeries(gappy, 20);
+        expect(sampled.length).toBeLessThanOrEqual(20);
+        expect(sampled.map(p => p.date)).toContain(day(200));
+    });
+});
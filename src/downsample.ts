@@ -0,0 +1,100 @@
+// src/downsample.ts
+// --- DOWNSAMPLING ---
+// Largest-Triangle-Three-Buckets (Steinarsson, 2013): splits a series into as many buckets
+// as the point budget allows and keeps, from each, the point forming the largest triangle
+// with its neighbours. Peaks and dips survive, unlike fixed-interval sampling.
+
+export interface SeriesPoint {
+    date: string;
+    buy: number | null;
+    sell: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Indexes of the points LTTB keeps out of `xs`/`ys`, first and last included.
+ */
+function lttbIndexes(xs: number[], ys: number[], threshold: number): number[] {
+    const n = xs.length;
+    if (threshold >= n || threshold < 3) return xs.map((_, i) => i);
+
+    const sampled = [0];
+    const bucketSize = (n - 2) / (threshold - 2);
+    let a = 0;
+
+    for (let i = 0; i < threshold - 2; i++) {
+        // Average of the next bucket is the triangle's third corner
+        const avgStart = Math.floor((i + 1) * bucketSize) + 1;
+        const avgEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, n);
+        let avgX = 0;
+        let avgY = 0;
+        for (let j = avgStart; j < avgEnd; j++) {
+            avgX += xs[j];
+            avgY += ys[j];
+        }
+        avgX /= avgEnd - avgStart;
+        avgY /= avgEnd - avgStart;
+
+        const rangeStart = Math.floor(i * bucketSize) + 1;
+        const rangeEnd = Math.floor((i + 1) * bucketSize) + 1;
+        let maxArea = -1;
+        let next = rangeStart;
+        for (let j = rangeStart; j < rangeEnd; j++) {
+            const area = Math.abs((xs[a] - avgX) * (ys[j] - ys[a]) - (xs[a] - xs[j]) * (avgY - ys[a]));
+            if (area > maxArea) {
+                maxArea = area;
+                next = j;
+            }
+        }
+        sampled.push(next);
+        a = next;
+    }
+
+    sampled.push(n - 1);
+    return sampled;
+}
+
+/**
+ * Indexes of the highest and lowest buy and sell.
+ */
+function extremeIndexes(points: SeriesPoint[]): number[] {
+    const indexes: number[] = [];
+    for (const side of ['buy', 'sell'] as const) {
+        let high = -1;
+        let low = -1;
+        points.forEach((p, i) => {
+            const value = p[side];
+            if (value === null) return;
+            if (high === -1 || value > (points[high][side] as number)) high = i;
+            if (low === -1 || value < (points[low][side] as number)) low = i;
+        });
+        if (high !== -1) indexes.push(high, low);
+    }
+    return indexes;
+}
+
+/**
+ * Reduces a date-sorted series to at most `maxPoints` (two or more), always keeping the
+ * first and last points and, as far as the budget goes, the highest and lowest buy and
+ * sell. The shape is chosen on the mid rate.
+ */
+export function downsampleSeries<T extends SeriesPoint>(points: T[], maxPoints: number): T[] {
+    if (points.length <= maxPoints) return points;
+
+    const keep = new Set<number>([0, points.length - 1]);
+    for (const i of extremeIndexes(points)) {
+        if (keep.size >= maxPoints) break;
+        keep.add(i);
+    }
+    // LTTB already returns both endpoints; the extremes take the rest of what is reserved
+    const threshold = maxPoints - (keep.size - 2);
+
+    if (threshold >= 3) {
+        const xs = points.map(p => Date.parse(p.date) / DAY_MS);
+        const ys = points.map(p => (p.buy !== null && p.sell !== null ? (p.buy + p.sell) / 2 : (p.buy ?? p.sell ?? 0)));
+        for (const i of lttbIndexes(xs, ys, threshold)) keep.add(i);
+    }
+
+    return Array.from(keep).sort((a, b) => a - b).map(i => points[i]);
+}
@@ -0,0 +1,125 @@
+// src/export.ts
+// --- BULK EXPORT ---
+// Turns forex_rates rows into CSV, JSON Lines or XLSX for /api/export. CSV and JSON Lines
+// are streamed a page at a time, so any range can be exported; XLSX has to be built in
+// memory and is capped.
+
+import { D1Database } from './worker-types';
+import { CurrencyLookup, StoredRate, getCurrencyName, getRatesPage } from './rates-store';
+import { buildXlsx, XlsxCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+export type ExportUnit = 'quoted' | 'per_unit';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+export const EXPORT_UNITS: ExportUnit[] = ['quoted', 'per_unit'];
+export const XLSX_MAX_ROWS = 20000; // The workbook is built in memory, so keep it to a couple of years of every currency
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    jsonl: 'application/x-ndjson; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const PAGE_SIZE = 1000;
+const COLUMNS = ['date', 'currency', 'name', 'unit', 'buy', 'sell'] as const;
+
+interface ExportRow {
+    date: string;
+    currency: string;
+    name: string;
+    unit: number;
+    buy: number | null;
+    sell: number | null;
+}
+
+export interface ExportQuery {
+    iso3s: string[];
+    from: string;
+    to: string;
+    unit: ExportUnit;
+}
+
+/**
+ * `quoted` gives rates as NRB publishes them (e.g. per 100 INR); `per_unit` per single unit,
+ * as stored.
+ */
+function toExportRow(row: StoredRate, currencies: CurrencyLookup, unit: ExportUnit): ExportRow {
+    const quantity = unit === 'quoted' ? row.unit || 1 : 1;
+    // Rounded so per-unit floats like 1.6 * 100 don't come out as 160.00000000000003
+    const scale = (value: number | null) => (value === null ? null : Math.round(value * quantity * 1e6) / 1e6);
+    return {
+        date: row.date,
+        currency: row.iso3,
+        name: getCurrencyName(row.iso3, currencies),
+        unit: quantity,
+        buy: scale(row.buy),
+        sell: scale(row.sell),
+    };
+}
+
+async function* exportRows(db: D1Database, query: ExportQuery, currencies: CurrencyLookup): AsyncGenerator<ExportRow> {
+    let after: { date: string; iso3: string } | null = null;
+    while (true) {
+        const page = await getRatesPage(db, query.iso3s, query.from, query.to, after, PAGE_SIZE);
+        for (const row of page) yield toExportRow(row, currencies, query.unit);
+        if (page.length < PAGE_SIZE) return;
+        const last = page[page.length - 1];
+        after = { date: last.date, iso3: last.iso3 };
+    }
+}
+
+export function csvField(value: string | number | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Streams the export as CSV (with a header row) or JSON Lines.
+ */
+export function streamExport(db: D1Database, query: ExportQuery, currencies: CurrencyLookup, format: 'csv' | 'jsonl'): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const rows = exportRows(db, query, currencies);
+    let headerSent = format !== 'csv';
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                if (!headerSent) {
+                    headerSent = true;
+                    controller.enqueue(encoder.encode(COLUMNS.join(',') + '\r\n'));
+                    return;
+                }
+                const lines: string[] = [];
+                // Enqueue in batches; one chunk per row would be needlessly chatty
+                for (let i = 0; i < PAGE_SIZE; i++) {
+                    const { value, done } = await rows.next();
+                    if (done) break;
+                    lines.push(format === 'csv'
+                        ? COLUMNS.map(column => csvField(value[column])).join(',') + '\r\n'
+                        : JSON.stringify(value) + '\n');
+                }
+                if (lines.length > 0) controller.enqueue(encoder.encode(lines.join('')));
+                if (lines.length < PAGE_SIZE) controller.close();
+            } catch (error: any) {
+                console.error('Export stream failed:', error.message, error.cause);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await rows.return(undefined);
+        },
+    });
+}
+
+/**
+ * Builds the export as a single-sheet workbook. Callers check XLSX_MAX_ROWS first.
+ */
+export async function buildXlsxExport(db: D1Database, query: ExportQuery, currencies: CurrencyLookup): Promise<Uint8Array> {
+    const sheet: XlsxCell[][] = [[...COLUMNS]];
+    for await (const row of exportRows(db, query, currencies)) {
+        sheet.push(COLUMNS.map(column => row[column]));
+    }
+    return buildXlsx('Rates', sheet);
+}
@@ -0,0 +1,293 @@
+// src/feeds.ts
+// --- RSS AND ATOM FEEDS ---
+// The site is a hash-routed SPA, which feed readers and aggregators can't follow, so the
+// worker serves feeds of its own:
+//   /feeds/rates.xml          one item per published date, with the day's table
+//   /feeds/rates/USD.xml      one item per published date for one currency
+//   /feeds/posts.xml          published blog posts
+// Each is RSS 2.0; the same path ending in `.atom` is the Atom 1.0 version. Feeds are kept
+// in the edge cache for 15 minutes and answer conditional requests with 304.
+
+import { Env, ExecutionContext } from './worker-types';
+import { corsHeaders, SITE_URL } from './constants';
+import { addDays, escapeHtml, formatDate, nowInNepal } from './worker-utils';
+import { getEnabledCurrencyMap } from './currency-registry';
+import {
+    filterEnabled,
+    getCurrencyName,
+    getCurrencySeries,
+    getRecentRates,
+    rateTrend,
+    TREND_STYLES,
+    CurrencyLookup,
+    StoredRate,
+} from './rates-store';
+import { serveCached, validatorHeaders } from './http-cache';
+
+const FEED_ITEMS = 30;
+const FEED_CACHE_CONTROL = 'public, max-age=900';
+
+type FeedFormat = 'rss' | 'atom';
+
+interface FeedItem {
+    title: string;
+    link: string; // Also the item's permanent id
+    summary: string; // HTML
+    published: number; // ms
+    updated: number; // ms
+    author?: string | null;
+}
+
+interface Feed {
+    title: string;
+    description: string;
+    link: string; // The page the feed mirrors
+    selfPath: string;
+    items: FeedItem[];
+}
+
+const quote = (value: number | null, unit: number) =>
+    value === null ? '-' : (value * unit).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// D1's datetime('now') is UTC without a zone; posts.published_at may also be a full ISO string
+function parseTime(value: string | null | undefined): number {
+    if (!value) return 0;
+    const ms = Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+    return isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * When a date's rates were first and last stored. Rows without fetched_at (legacy imports)
+ * count as published at midnight Nepal time.
+ */
+function storedTimes(date: string, rows: StoredRate[]): { published: number; updated: number } {
+    const times = rows.map(row => parseTime(row.fetched_at)).filter(Boolean);
+    const midnight = Date.parse(`${date}T00:00:00+05:45`);
+    return times.length
+        ? { published: Math.min(...times), updated: Math.max(...times) }
+        : { published: midnight, updated: midnight };
+}
+
+function dailyUpdateLink(date: string): string {
+    return `${SITE_URL}/#/daily-update/forex-for/${date}`;
+}
+
+/**
+ * The day's rates as a plain HTML table; feed readers drop most styling.
+ */
+function ratesTable(rows: StoredRate[], previous: StoredRate[], currencies: CurrencyLookup): string {
+    const prevByCode = new Map(previous.map(r => [r.iso3, r]));
+    const body = filterEnabled(rows, currencies)
+        .filter(row => row.buy !== null || row.sell !== null)
+        .map(row => {
+            const unit = row.unit || 1;
+            const prev = prevByCode.get(row.iso3);
+            const buy = TREND_STYLES[prev ? rateTrend(row.buy, prev.buy, unit) : 'flat'];
+            const sell = TREND_STYLES[prev ? rateTrend(row.sell, prev.sell, unit) : 'flat'];
+            return `<tr><td>${row.iso3} (${escapeHtml(getCurrencyName(row.iso3, currencies))})</td><td>${unit}</td>`
+                + `<td>${quote(row.buy, unit)} <span style="color: ${buy.color}">${buy.symbol}</span></td>`
+                + `<td>${quote(row.sell, unit)} <span style="color: ${sell.color}">${sell.symbol}</span></td></tr>`;
+        })
+        .join('');
+    return `<table><thead><tr><th>Currency</th><th>Unit</th><th>Buying (NPR)</th><th>Selling (NPR)</th></tr></thead><tbody>${body}</tbody></table>`;
+}
+
+async function buildRatesFeed(env: Env): Promise<Feed> {
+    const [recent, currencies] = await Promise.all([
+        getRecentRates(env.FOREX_DB, FEED_ITEMS + 1), // One more, to compare the oldest item with
+        getEnabledCurrencyMap(env),
+    ]);
+    const dates = [...recent.keys()];
+
+    const items = dates.slice(0, FEED_ITEMS).map((date, i) => {
+        const rows = recent.get(date) || [];
+        const previous = recent.get(dates[i + 1]) || [];
+        return {
+            title: `Nepal Rastra Bank exchange rates for ${date}`,
+            link: dailyUpdateLink(date),
+            summary: `<p>NPR for the unit shown, with the change from the previous published day.</p>${ratesTable(rows, previous, currencies)}`,
+            ...storedTimes(date, rows),
+        };
+    });
+
+    return {
+        title: 'Forex Nepal - Daily Exchange Rates',
+        description: 'Foreign exchange rates published by Nepal Rastra Bank, one item per day.',
+        link: `${SITE_URL}/#/archive`,
+        selfPath: '/feeds/rates',
+        items,
+    };
+}
+
+async function buildCurrencyFeed(env: Env, iso3: string): Promise<Feed | null> {
+    const currencies = await getEnabledCurrencyMap(env);
+    if (!currencies.has(iso3)) return null;
+
+    // Twice the item count in calendar days covers holidays and weekends without NRB data
+    const today = formatDate(nowInNepal());
+    const series = (await getCurrencySeries(env.FOREX_DB, iso3, addDays(today, -FEED_ITEMS * 2), today))
+        .filter(row => row.buy !== null || row.sell !== null);
+
+    const items: FeedItem[] = [];
+    for (let i = series.length - 1; i >= 0 && items.length < FEED_ITEMS; i--) {
+        const row = series[i];
+        const prev = series[i - 1];
+        const unit = row.unit || 1;
+        const buy = TREND_STYLES[prev ? rateTrend(row.buy, prev.buy, unit) : 'flat'];
+        const sell = TREND_STYLES[prev ? rateTrend(row.sell, prev.sell, unit) : 'flat'];
+        const change = prev && prev.sell && row.sell !== null
+            ? ` (${row.sell >= prev.sell ? '+' : ''}${((row.sell - prev.sell) * unit).toFixed(2)} from ${prev.date})`
+            : '';
+        items.push({
+            title: `${iso3} ${row.date}: buying ${quote(row.buy, unit)} ${buy.symbol}, selling ${quote(row.sell, unit)} ${sell.symbol}`,
+            link: dailyUpdateLink(row.date),
+            summary: `<p>${escapeHtml(getCurrencyName(iso3, currencies))} on ${row.date}, NPR per ${unit} ${iso3}: `
+                + `buying ${quote(row.buy, unit)}, selling ${quote(row.sell, unit)}${change}.</p>`,
+            ...storedTimes(row.date, [row]),
+        });
+    }
+
+    return {
+        title: `Forex Nepal - ${iso3} (${getCurrencyName(iso3, currencies)}) Exchange Rate`,
+        description: `Nepal Rastra Bank's daily buying and selling rate for ${iso3} in Nepalese rupees.`,
+        link: `${SITE_URL}/#/historical-data/${iso3}`,
+        selfPath: `/feeds/rates/${iso3}`,
+        items,
+    };
+}
+
+async function buildPostsFeed(env: Env): Promise<Feed> {
+    const { results } = await env.FOREX_DB.prepare(
+        `SELECT title, slug, excerpt, meta_description, author_name, published_at, updated_at
+         FROM posts WHERE status = 'published' AND published_at IS NOT NULL
+         ORDER BY published_at DESC LIMIT ?`
+    ).bind(FEED_ITEMS).all<{
+        title: string; slug: string; excerpt: string | null; meta_description: string | null;
+        author_name: string | null; published_at: string; updated_at: string;
+    }>();
+
+    const items = (results || []).map(post => {
+        const published = parseTime(post.published_at);
+        return {
+            title: post.title,
+            link: `${SITE_URL}/#/posts/${post.slug}`,
+            summary: `<p>${escapeHtml(post.excerpt || post.meta_description || '')}</p>`,
+            published,
+            updated: Math.max(published, parseTime(post.updated_at)),
+            author: post.author_name,
+        };
+    });
+
+    return {
+        title: 'Forex Nepal - Posts',
+        description: 'Articles and updates about foreign exchange in Nepal.',
+        link: `${SITE_URL}/#/posts`,
+        selfPath: '/feeds/posts',
+        items,
+    };
+}
+
+function lastUpdated(feed: Feed): number {
+    return feed.items.reduce((latest, item) => Math.max(latest, item.updated), 0) || Date.now();
+}
+
+function renderRss(feed: Feed): string {
+    const items = feed.items.map(item => `
+    <item>
+      <title>${escapeHtml(item.title)}</title>
+      <link>${escapeHtml(item.link)}</link>
+      <guid isPermaLink="true">${escapeHtml(item.link)}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>${item.author ? `
+      <dc:creator>${escapeHtml(item.author)}</dc:creator>` : ''}
+      <description>${escapeHtml(item.summary)}</description>
+    </item>`).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <link>${feed.link}</link>
+    <description>${escapeHtml(feed.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${new Date(lastUpdated(feed)).toUTCString()}</lastBuildDate>
+    <ttl>15</ttl>
+    <atom:link href="${SITE_URL}${feed.selfPath}.xml" rel="self" type="application/rss+xml"/>${items}
+  </channel>
+</rss>`;
+}
+
+function renderAtom(feed: Feed): string {
+    const entries = feed.items.map(item => `
+  <entry>
+    <title>${escapeHtml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(item.link)}"/>
+    <id>${escapeHtml(item.link)}</id>
+    <published>${new Date(item.published).toISOString()}</published>
+    <updated>${new Date(item.updated).toISOString()}</updated>${item.author ? `
+    <author><name>${escapeHtml(item.author)}</name></author>` : ''}
+    <summary type="html">${escapeHtml(item.summary)}</summary>
+  </entry>`).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${feed.link}"/>
+  <link rel="self" type="application/atom+xml" href="${SITE_URL}${feed.selfPath}.atom"/>
+  <id>${SITE_URL}${feed.selfPath}.atom</id>
+  <updated>${new Date(lastUpdated(feed)).toISOString()}</updated>
+  <author><name>Forex Nepal</name></author>${entries}
+</feed>`;
+}
+
+function renderFeed(feed: Feed, format: FeedFormat): Response {
+    const updated = Math.floor(lastUpdated(feed) / 1000);
+    const validators = {
+        etag: `"${format}-${feed.selfPath.replace(/\W+/g, '-')}-${updated.toString(36)}-${feed.items.length}"`,
+        lastModified: new Date(updated * 1000).toUTCString(),
+    };
+    return new Response(format === 'atom' ? renderAtom(feed) : renderRss(feed), {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': format === 'atom' ? 'application/atom+xml; charset=utf-8' : 'application/rss+xml; charset=utf-8',
+            ...validatorHeaders(validators, FEED_CACHE_CONTROL),
+        },
+    });
+}
+
+/**
+ * Serves /feeds/rates.{xml,atom}, /feeds/rates/:ISO3.{xml,atom} and /feeds/posts.{xml,atom}.
+ */
+export async function handleFeed(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return new Response('Method not allowed', { status: 405, headers: { ...corsHeaders, 'Allow': 'GET, HEAD' } });
+    }
+
+    const { pathname } = new URL(request.url);
+    const match = pathname.match(/^\/feeds\/(rates|posts|rates\/([A-Za-z]{3}))\.(xml|atom)$/);
+    if (!match) {
+        return new Response('Feed not found', { status: 404, headers: { ...corsHeaders, 'Content-Type': 'text/plain' } });
+    }
+    const [, name, iso3, extension] = match;
+    const format: FeedFormat = extension === 'atom' ? 'atom' : 'rss';
+
+    // Lower-case currency codes are redirected so each feed has a single cache entry and URL
+    if (iso3 && iso3 !== iso3.toUpperCase()) {
+        return Response.redirect(`${SITE_URL}/feeds/rates/${iso3.toUpperCase()}.${extension}`, 301);
+    }
+
+    try {
+        return await serveCached(request, env, ctx, pathname, async () => {
+            const feed = name === 'posts' ? await buildPostsFeed(env)
+                : iso3 ? await buildCurrencyFeed(env, iso3)
+                : await buildRatesFeed(env);
+            if (!feed) {
+                return new Response('Unknown currency', { status: 404, headers: { ...corsHeaders, 'Content-Type': 'text/plain' } });
+            }
+            return renderFeed(feed, format);
+        });
+    } catch (error: any) {
+        console.error(`Error building feed (${pathname}):`, error.message, error.cause);
+        return new Response('Server error', { status: 500, headers: { ...corsHeaders, 'Content-Type': 'text/plain' } });
+    }
+}
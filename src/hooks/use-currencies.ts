@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/services/apiClient';
+import { CurrencyRecord, CurrencyRegion } from '@/worker-types';
+
+export type PublicCurrency = Pick<CurrencyRecord, 'iso3' | 'name' | 'unit' | 'region' | 'flag_code' | 'display_order'>;
+
+export const REGION_LABELS: Record<CurrencyRegion, string> = {
+  'asian': 'Asian',
+  'european': 'European',
+  'middle-east': 'Middle East',
+  'other': 'Other',
+};
+
+/**
+ * Enabled currencies from the public registry, in display order.
+ */
+export function useCurrencies() {
+  return useQuery({
+    queryKey: ['currencies'],
+    queryFn: async () => {
+      const data = await apiClient.get<{ success: boolean; currencies: PublicCurrency[] }>('/currencies');
+      return data.currencies || [];
+    },
+    staleTime: 1000 * 60 * 30, // 30 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,184 @@
+// src/http-cache.ts
+// --- HTTP CACHING FOR DATE-KEYED RATE RESPONSES ---
+// /api/latest-rates, /api/rates/date/:date and /api/archive/detail/:date are built from one
+// or two dates of forex_rates, which only change when those dates are written. They carry
+// ETag/Last-Modified validators derived from the rows' fetched_at (set on every write), are
+// kept in the Workers Cache API, and are purged by date when rates are stored.
+//
+// The Cache API is per data centre: a purge clears the one that handled the write, and the
+// others expire by Cache-Control. Hence the one-day limit even for historical dates.
+//
+// Currency registry changes (names, units, enabled flags) shape every date's response, so
+// rather than purging per date they bump a generation stored in KV, which is part of every
+// cache key: all data centres stop using the old entries once KV has propagated.
+
+import { Env, ExecutionContext } from './worker-types';
+import { corsHeaders } from './constants';
+import { addDays, formatDate, nowInNepal } from './worker-utils';
+import { CurrencyLookup, StoredRate } from './rates-store';
+
+// Cache keys share one origin, so the scheduler (which has no request) can purge them
+const CACHE_KEY_ORIGIN = 'https://forex.grisma.com.np';
+const GENERATION_KEY = 'http_cache_generation';
+
+/** Today's rates and the latest-rates alias, which a later fetch may still replace. */
+export const CACHE_CONTROL_CURRENT = 'public, max-age=300';
+/** Past dates, which only change when an admin edits or re-fetches them. */
+export const CACHE_CONTROL_HISTORICAL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+/**
+ * Past dates (in Nepal time) are settled; today's may still be replaced by a later fetch.
+ */
+export function cacheControlForDate(date: string): string {
+    return date < formatDate(nowInNepal()) ? CACHE_CONTROL_HISTORICAL : CACHE_CONTROL_CURRENT;
+}
+
+export interface CacheValidators {
+    etag: string;
+    lastModified: string;
+}
+
+function edgeCache(): Cache | null {
+    return (globalThis as any).caches?.default ?? null;
+}
+
+function cacheKey(path: string, generation: string): Request {
+    return new Request(`${CACHE_KEY_ORIGIN}${path}?generation=${generation}`);
+}
+
+async function cacheGeneration(env: Env): Promise<string> {
+    return (await env.API_SETTINGS_CACHE.get(GENERATION_KEY).catch(() => null)) || '0';
+}
+
+/**
+ * Retires every cached response at once. Called when the currency registry changes.
+ */
+export async function bumpCacheGeneration(env: Env): Promise<void> {
+    await env.API_SETTINGS_CACHE.put(GENERATION_KEY, Date.now().toString(36));
+}
+
+// D1's datetime('now') is UTC without a zone: 'YYYY-MM-DD HH:MM:SS'
+function parseDbTime(value: string | undefined): number {
+    if (!value) return 0;
+    const ms = Date.parse(`${value.replace(' ', 'T')}Z`);
+    return isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Validators for a response built from `rows`. The currency registry is included because
+ * names and enabled flags shape the response too. `tag` distinguishes responses built
+ * from the same rows, e.g. 'rates-2025-01-15' and 'archive-2025-01-15'.
+ */
+export function ratesValidators(tag: string, rows: StoredRate[], currencies: CurrencyLookup): CacheValidators {
+    let latest = 0;
+    for (const row of rows) latest = Math.max(latest, parseDbTime(row.fetched_at));
+    for (const currency of currencies.values()) latest = Math.max(latest, parseDbTime(currency.updated_at));
+
+    // HTTP dates have one-second resolution, so the ETag uses the same
+    const seconds = Math.floor(latest / 1000);
+    return {
+        etag: `"${tag}-${seconds.toString(36)}-${currencies.size}"`,
+        lastModified: new Date(seconds * 1000).toUTCString(),
+    };
+}
+
+/**
+ * Cache-Control, ETag and Last-Modified headers for a response.
+ */
+export function validatorHeaders(validators: CacheValidators, cacheControl: string): Record<string, string> {
+    return {
+        'Cache-Control': cacheControl,
+        'ETag': validators.etag,
+        'Last-Modified': validators.lastModified,
+    };
+}
+
+/**
+ * A 200 JSON response carrying the validators.
+ */
+export function cacheableJson(body: unknown, validators: CacheValidators, cacheControl: string): Response {
+    return new Response(JSON.stringify(body), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', ...validatorHeaders(validators, cacheControl) },
+    });
+}
+
+/**
+ * RFC 9110 conditional GET: If-None-Match wins; If-Modified-Since is only used without it.
+ */
+function isNotModified(request: Request, response: Response): boolean {
+    const etag = response.headers.get('ETag');
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    if (ifNoneMatch) {
+        if (!etag) return false;
+        return ifNoneMatch.trim() === '*'
+            || ifNoneMatch.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+    }
+
+    const lastModified = Date.parse(response.headers.get('Last-Modified') || '');
+    const ifModifiedSince = Date.parse(request.headers.get('If-Modified-Since') || '');
+    return !isNaN(lastModified) && !isNaN(ifModifiedSince) && lastModified <= ifModifiedSince;
+}
+
+function notModified(response: Response): Response {
+    const headers = new Headers(corsHeaders);
+    for (const name of ['Cache-Control', 'ETag', 'Last-Modified']) {
+        const value = response.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+    return new Response(null, { status: 304, headers });
+}
+
+/**
+ * Replaces a 200 with a 304 when the request's validators still match it.
+ */
+export function answerConditional(request: Request, response: Response): Response {
+    return response.status === 200 && isNotModified(request, response) ? notModified(response) : response;
+}
+
+/**
+ * Serves `path` from the edge cache, or from `build` (caching its 200s), and answers
+ * conditional requests with 304. The key ignores the query string, so `?key=` doesn't
+ * split the cache; access checks have already run by the time this is called.
+ */
+export async function serveCached(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    path: string,
+    build: () => Promise<Response>
+): Promise<Response> {
+    const cache = edgeCache();
+    const key = cacheKey(path, cache ? await cacheGeneration(env) : '0');
+
+    let response = cache ? await cache.match(key).catch(() => undefined) : undefined;
+    if (!response) {
+        response = await build();
+        if (cache && response.status === 200) {
+            ctx.waitUntil(cache.put(key, response.clone()).catch((e: any) => console.error('Cache put failed:', e.message)));
+        }
+    }
+
+    return answerConditional(request, response);
+}
+
+/**
+ * Purges the cached responses that depend on `dates`: their rates and archive pages, the
+ * next day's archive page (it compares against the day before) and /api/latest-rates.
+ */
+export async function purgeRatesCache(env: Env, dates: Iterable<string>): Promise<void> {
+    const cache = edgeCache();
+    if (!cache) return;
+    const generation = await cacheGeneration(env);
+
+    const paths = new Set<string>(['/api/latest-rates']);
+    for (const date of dates) {
+        paths.add(`/api/rates/date/${date}`);
+        paths.add(`/api/archive/detail/${date}`);
+        paths.add(`/api/archive/detail/${addDays(date, 1)}`);
+    }
+    try {
+        await Promise.all([...paths].map(path => cache.delete(cacheKey(path, generation))));
+    } catch (e: any) {
+        console.error('Cache purge failed:', e.message);
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Helpers for rendering the API docs from /api/openapi.json: just enough of the OpenAPI
+ * shape for the docs page, plus request URLs and code snippets built from it.
+ */
+
+export interface OpenApiSchema {
+  type?: string | string[];
+  enum?: (string | number)[];
+  default?: string | number;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  $ref?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+  example?: string | number;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+  $ref?: string;
+}
+
+export interface OpenApiOperation {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  deprecated?: boolean;
+  'x-successor'?: string; // Path of the operation replacing a deprecated one
+  parameters?: OpenApiParameter[];
+  responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components?: { responses?: Record<string, OpenApiResponse> };
+}
+
+export interface ApiOperation extends OpenApiOperation {
+  method: string;
+  path: string;
+}
+
+export type ParamValues = Record<string, string>;
+
+/**
+ * Flattens `paths` into a list of operations, in document order.
+ */
+export const listOperations = (spec: OpenApiDocument): ApiOperation[] =>
+  Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ ...operation, method: method.toUpperCase(), path }))
+  );
+
+/**
+ * Follows a `#/components/responses/X` reference.
+ */
+export const resolveResponse = (spec: OpenApiDocument, response: OpenApiResponse): OpenApiResponse => {
+  if (!response.$ref) return response;
+  const name = response.$ref.split('/').pop() || '';
+  return spec.components?.responses?.[name] || response;
+};
+
+/**
+ * Starting values for the request builder: each parameter's example, or its default.
+ */
+export const initialParamValues = (operation: OpenApiOperation): ParamValues =>
+  Object.fromEntries((operation.parameters || []).map(param => [
+    param.name,
+    String(param.example ?? param.schema?.default ?? ''),
+  ]));
+
+/**
+ * The full request URL. Empty optional query parameters are left out.
+ */
+export const buildRequestUrl = (baseUrl: string, operation: ApiOperation, values: ParamValues): string => {
+  let path = operation.path;
+  const query = new URLSearchParams();
+  for (const param of operation.parameters || []) {
+    const value = values[param.name]?.trim() || '';
+    if (param.in === 'path') {
+      path = path.replace(`{${param.name}}`, encodeURIComponent(value));
+    } else if (param.in === 'query' && value !== '') {
+      query.set(param.name, value);
+    }
+  }
+  const search = query.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+};
+
+const isJsonOperation = (operation: OpenApiOperation): boolean =>
+  Boolean(operation.responses['200']?.content?.['application/json']);
+
+export const curlSnippet = (url: string, apiKey: string): string => {
+  const header = apiKey ? ` \\\n  -H "X-API-Key: ${apiKey}"` : '';
+  return `curl "${url}"${header}`;
+};
+
+export const javascriptSnippet = (url: string, apiKey: string, operation: OpenApiOperation): string => {
+  const options = apiKey ? `, {\n  headers: { 'X-API-Key': '${apiKey}' },\n}` : '';
+  const body = isJsonOperation(operation) ? 'await response.json()' : 'await response.text()';
+  return `const response = await fetch('${url}'${options});
+if (!response.ok) throw new Error(\`Request failed: \${response.status}\`);
+const data = ${body};
+console.log(data);`;
+};
+
+export const pythonSnippet = (url: string, apiKey: string, operation: OpenApiOperation): string => {
+  const headers = apiKey ? `, headers={"X-API-Key": "${apiKey}"}` : '';
+  const body = isJsonOperation(operation) ? 'response.json()' : 'response.text';
+  return `import requests
+
+response = requests.get("${url}"${headers}, timeout=30)
+response.raise_for_status()
+data = ${body}
+print(data)`;
+};
@@ -0,0 +1,50 @@
+// src/lib/two-factor.ts
+// Hands the pre-auth token from a first-factor login page to /admin/login/2fa.
+
+export type TwoFactorMode = 'verify' | 'enroll';
+
+/** Extra fields a login endpoint returns when a second factor is still needed. */
+export interface FirstFactorResult {
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  preAuthToken?: string;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const PRE_AUTH_TOKEN_KEY = 'preAuthToken';
+const PRE_AUTH_USERNAME_KEY = 'preAuthUsername';
+const PRE_AUTH_MODE_KEY = 'preAuthMode';
+
+/**
+ * If the login response asks for a second factor, stores the pre-auth token and
+ * returns true; the caller should then navigate to /admin/login/2fa.
+ */
+export function beginTwoFactorStep(data: FirstFactorResult & { username: string }): boolean {
+  if (!data.preAuthToken || (!data.twoFactorRequired && !data.twoFactorSetupRequired)) {
+    return false;
+  }
+  sessionStorage.setItem(PRE_AUTH_TOKEN_KEY, data.preAuthToken);
+  sessionStorage.setItem(PRE_AUTH_USERNAME_KEY, data.username);
+  sessionStorage.setItem(PRE_AUTH_MODE_KEY, data.twoFactorSetupRequired ? 'enroll' : 'verify');
+  return true;
+}
+
+export function getTwoFactorStep(): { preAuthToken: string; username: string; mode: TwoFactorMode } | null {
+  const preAuthToken = sessionStorage.getItem(PRE_AUTH_TOKEN_KEY);
+  if (!preAuthToken) return null;
+  return {
+    preAuthToken,
+    username: sessionStorage.getItem(PRE_AUTH_USERNAME_KEY) || '',
+    mode: sessionStorage.getItem(PRE_AUTH_MODE_KEY) === 'enroll' ? 'enroll' : 'verify',
+  };
+}
+
+export function clearTwoFactorStep(): void {
+  sessionStorage.removeItem(PRE_AUTH_TOKEN_KEY);
+  sessionStorage.removeItem(PRE_AUTH_USERNAME_KEY);
+  sessionStorage.removeItem(PRE_AUTH_MODE_KEY);
+}
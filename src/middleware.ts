@@ -0,0 +1,134 @@
+// src/middleware.ts
+// --- ROUTE MIDDLEWARE ---
+// Composable pieces for the route table in routes.ts: CORS, error formatting, public API
+// access/quota, admin JWT auth, the /api/v1 error envelope and deprecation headers.
+
+import type { Middleware } from './router';
+import { corsHeaders } from './constants';
+import { checkApiAccess } from './api-helpers';
+import { recordApiUsage } from './api-usage';
+import { v1Error } from './api-v1';
+import * as auth from './auth';
+import { Permission, hasPermission } from './permissions';
+
+/**
+ * The JSON error shape every route uses: `{ success: false, error }`.
+ */
+export function jsonError(status: number, error: string, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify({ success: false, error }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+    });
+}
+
+/**
+ * Makes sure every response carries the CORS headers, whether or not its handler set them.
+ */
+export const cors: Middleware = async (_context, next) => {
+    const response = await next();
+    if (response.headers.get('Access-Control-Allow-Origin')) return response;
+    // Copied, because the headers of some responses (e.g. redirects) are immutable
+    const patched = new Response(response.body, response);
+    for (const [name, value] of Object.entries(corsHeaders)) patched.headers.set(name, value);
+    return patched;
+};
+
+/**
+ * Turns anything a handler throws into a JSON 500 instead of the runtime's error page.
+ */
+export const jsonErrors: Middleware = async ({ request }, next) => {
+    try {
+        return await next();
+    } catch (error: any) {
+        console.error(`Unhandled error in ${request.method} ${new URL(request.url).pathname}:`, error?.message, error?.cause);
+        return jsonError(500, 'Internal server error');
+    }
+};
+
+/**
+ * Puts error responses under /api/v1 (404s, 405s, access denials, thrown errors) into the
+ * v1 envelope, keeping their status and headers such as Allow and Retry-After.
+ * Responses that are already enveloped pass through.
+ */
+export const v1Envelope: Middleware = async ({ request }, next) => {
+    const response = await next();
+    if (response.status < 400 || !new URL(request.url).pathname.startsWith('/api/v1/')) return response;
+
+    const body: any = await response.clone().json().catch(() => null);
+    if (body && 'data' in body && 'meta' in body) return response;
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+        if (name !== 'content-length') headers[name] = value;
+    });
+    const message = typeof body?.error === 'string' ? body.error : body?.message || response.statusText || 'Request failed';
+    return v1Error(response.status, message, headers);
+};
+
+/**
+ * Applies the endpoint's access level, IP/domain restrictions, API key and quota
+ * (see checkApiAccess), adds the RateLimit-* headers of metered requests and counts the
+ * outcome for usage analytics.
+ * The settings key is the route's accessEndpoint or path pattern.
+ */
+export const apiAccess: Middleware = async ({ request, env, ctx, route }, next) => {
+    if (!route) return next();
+    const endpoint = route.accessEndpoint || route.path;
+    const access = await checkApiAccess(request, env, ctx, endpoint);
+    if (access instanceof Response) {
+        recordApiUsage(env, ctx, request, endpoint, access.status);
+        return access;
+    }
+
+    let response: Response;
+    try {
+        response = await next();
+    } catch (error) {
+        recordApiUsage(env, ctx, request, endpoint, 500); // jsonErrors turns it into a 500
+        throw error;
+    }
+    recordApiUsage(env, ctx, request, endpoint, response.status);
+    if (Object.keys(access).length === 0) return response;
+    const patched = new Response(response.body, response);
+    for (const [name, value] of Object.entries(access)) patched.headers.set(name, value);
+    return patched;
+};
+
+// The date announced in the Deprecation headers of the pre-v1 routes (RFC 9745)
+const LEGACY_DEPRECATED_AT = Math.floor(Date.UTC(2026, 9, 19) / 1000);
+
+/**
+ * Marks a route as superseded: `Deprecation` and a `Link` to its `successor`, whose
+ * `:name` segments are filled from the request's params. The query string isn't carried
+ * over: it may hold an API key, and the v1 parameters differ.
+ */
+export function deprecated(successor: string): Middleware {
+    return async ({ params }, next) => {
+        const response = await next();
+        const path = successor.replace(/:(\w+)/g, (_, name) => encodeURIComponent(params[name] ?? ''));
+        const patched = new Response(response.body, response);
+        patched.headers.set('Deprecation', `@${LEGACY_DEPRECATED_AT}`);
+        patched.headers.set('Link', `<${path}>; rel="successor-version"`);
+        return patched;
+    };
+}
+
+/**
+ * Requires a valid admin access token. With a `permission`, the token's role must also
+ * grant it; without one, any signed-in user passes (their own profile, password, logout).
+ */
+export function requireAuth(permission?: Permission): Middleware {
+    return async ({ request, env }, next) => {
+        const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+        if (!token || !(await auth.verifyToken(token, env.JWT_SECRET, env.FOREX_DB))) {
+            return jsonError(401, 'Unauthorized');
+        }
+        if (permission) {
+            const role = await auth.getRoleFromToken(token, env.JWT_SECRET);
+            if (!role || !hasPermission(role, permission)) {
+                return jsonError(403, 'Forbidden: your role does not allow this action');
+            }
+        }
+        return next();
+    };
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendNewsletterBatch, startNewsletterIssue } from './newsletter';
+import { createTestD1, createTestKV, TestD1 } from './test/cloudflare';
+import type { Env } from './worker-types';
+
+const DATE = '2025-01-15';
+
+describe('sendNewsletterBatch', () => {
+    let db: TestD1;
+    let env: Env;
+    let brevo: ReturnType<typeof vi.fn>;
+    let accept: boolean;
+
+    beforeEach(() => {
+        db = createTestD1('001_db.sql', '002_long_format_rates.sql', '003_currencies.sql', '017_newsletter.sql', '018_newsletter_retries.sql');
+        env = { FOREX_DB: db, API_SETTINGS_CACHE: createTestKV(), BREVO_API_KEY: 'test-key' } as unknown as Env;
+        db.exec(`INSERT INTO forex_rates (date, iso3, buy, sell, unit, source) VALUES
+            ('2025-01-14', 'USD', 136.5, 137.1, 1, 'nrb'),
+            ('${DATE}', 'USD', 136.8, 137.4, 1, 'nrb')`);
+        db.exec(`INSERT INTO subscribers (email, status, unsubscribe_token) VALUES
+            ('a@example.com', 'active', 'u1'),
+            ('b@example.com', 'active', 'u2'),
+            ('c@example.com', 'pending', 'u3'),
+            ('d@example.com', 'unsubscribed', 'u4')`);
+
+        accept = true;
+        brevo = vi.fn(async () => new Response('{}', { status: accept ? 201 : 503 }));
+        vi.stubGlobal('fetch', brevo);
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const recipients = () => brevo.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).to[0].email).sort();
+    const issue = () => db.prepare(`SELECT sent, failed, completed_at FROM newsletter_issues WHERE rate_date = ?`).bind(DATE)
+        .first<{ sent: number; failed: number; completed_at: string | null }>();
+    const deliveries = async () => (await db.prepare(
+        `SELECT subscriber_id, status, attempts FROM newsletter_deliveries WHERE rate_date = ? ORDER BY subscriber_id`
+    ).bind(DATE).all()).results;
+
+    it('opens an issue once per date', async () => {
+        expect(await startNewsletterIssue(env, DATE)).toBe(true);
+        expect(await startNewsletterIssue(env, DATE)).toBe(false);
+    });
+
+    it('emails each active subscriber once, however often it runs', async () => {
+        await startNewsletterIssue(env, DATE);
+        expect(await sendNewsletterBatch(env)).toBe(2);
+        expect(await sendNewsletterBatch(env)).toBe(0);
+
+        expect(recipients()).toEqual(['a@example.com', 'b@example.com']);
+        expect(await issue()).toMatchObject({ sent: 2, failed: 0, completed_at: expect.any(String) });
+    });
+
+    it('never emails anyone twice when runs overlap', async () => {
+        await startNewsletterIssue(env, DATE);
+        const [first, second] = await Promise.all([sendNewsletterBatch(env), sendNewsletterBatch(env)]);
+
+        expect(first + second).toBe(2);
+        expect(recipients()).toEqual(['a@example.com', 'b@example.com']);
+    });
+
+    it('picks up subscribers who confirm while the issue is open', async () => {
+        await startNewsletterIssue(env, DATE);
+        accept = false;
+        await sendNewsletterBatch(env);
+        db.exec(`UPDATE subscribers SET status = 'active' WHERE email = 'c@example.com'`);
+        accept = true;
+        await sendNewsletterBatch(env);
+
+        expect(await deliveries()).toEqual([
+            { subscriber_id: 1, status: 'sent', attempts: 2 },
+            { subscriber_id: 2, status: 'sent', attempts: 2 },
+            { subscriber_id: 3, status: 'sent', attempts: 1 },
+        ]);
+    });
+
+    it('retries refused sends on later runs, then gives up and completes the issue', async () => {
+        await startNewsletterIssue(env, DATE);
+        accept = false;
+
+        await sendNewsletterBatch(env);
+        expect(await issue()).toMatchObject({ sent: 0, failed: 2, completed_at: null });
+        await sendNewsletterBatch(env);
+        expect(await issue()).toMatchObject({ failed: 2, completed_at: null });
+        await sendNewsletterBatch(env);
+        expect(await issue()).toMatchObject({ failed: 2, completed_at: expect.any(String) });
+
+        expect(brevo).toHaveBeenCalledTimes(6);
+        expect(await deliveries()).toEqual([
+            { subscriber_id: 1, status: 'failed', attempts: 3 },
+            { subscriber_id: 2, status: 'failed', attempts: 3 },
+        ]);
+        expect(await sendNewsletterBatch(env)).toBe(0);
+        expect(brevo).toHaveBeenCalledTimes(6);
+    });
+
+    it("doesn't retry a send for someone who has since unsubscribed", async () => {
+        await startNewsletterIssue(env, DATE);
+        accept = false;
+        await sendNewsletterBatch(env);
+        db.exec(`UPDATE subscribers SET status = 'unsubscribed' WHERE email = 'a@example.com'`);
+        accept = true;
+        await sendNewsletterBatch(env);
+
+        expect(recipients()).toEqual(['a@example.com', 'b@example.com', 'b@example.com']);
+        expect(await issue()).toMatchObject({ sent: 1, failed: 1, completed_at: expect.any(String) });
+    });
+});
@@ -0,0 +1,393 @@
+// src/newsletter.ts
+// --- DAILY RATES NEWSLETTER ---
+// Subscribers get one email per published NRB date: the day's buying and selling rates with
+// day-over-day arrows (the same trend logic as the embeddable table in handleImageApi),
+// optionally limited to the currencies they picked. An address only starts receiving it once
+// the link emailed to it is opened (double opt-in).
+//
+// After a successful ingestion the scheduled worker opens an "issue" for the date and sends a
+// batch; the five-minute cron sends the rest. Each subscriber's send is claimed with a row in
+// newsletter_deliveries before the email goes out, so re-runs of the daily crons (or two runs
+// overlapping) never email anyone twice for the same date. A send the email provider refused
+// is claimed again by a later run, up to MAX_SEND_ATTEMPTS in all.
+
+import { Env, ExecutionContext, D1Database, NewsletterSubscribeRequest } from './worker-types';
+import { SITE_URL } from './constants';
+import { addDays, escapeHtml } from './worker-utils';
+import { getEnabledCurrencyMap } from './currency-registry';
+import {
+    filterEnabled,
+    getCurrencyName,
+    getRatesForDate,
+    getRatesOnOrBefore,
+    rateTrend,
+    TREND_STYLES,
+    CurrencyLookup,
+    StoredRate,
+} from './rates-store';
+import { sendBrevoEmail, messagePage, checkSignupLimits, jsonResponse, randomToken, EMAIL_REGEX } from './brevo';
+
+const HOME_LINK = { href: `${SITE_URL}/#/`, label: "See today's rates" };
+const CONFIRM_TTL_DAYS = 7;
+const SENDS_PER_RUN = 25; // Keeps each cron invocation well inside the subrequest limit
+const MAX_SEND_ATTEMPTS = 3; // Retries come from later runs, so at least five minutes apart
+
+export const NEWSLETTER_DELIVERY_RETENTION_DAYS = 90;
+
+interface DigestRecipient {
+    id: number;
+    email: string;
+    currencies: string;
+    unsubscribe_token: string;
+    retry: number; // 1 if an earlier send for the date failed
+}
+
+function parseCurrencies(json: string | null): string[] {
+    try {
+        const parsed = JSON.parse(json || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+const formatNpr = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * The digest for one rate date, as HTML and plain text. `rows` are the day's rates and
+ * `previous` the last published day before it; an empty `only` means every enabled currency.
+ */
+export function renderDigest(
+    date: string,
+    rows: StoredRate[],
+    previous: StoredRate[],
+    currencies: CurrencyLookup,
+    only: string[],
+    unsubscribeUrl: string
+): { subject: string; html: string; text: string } {
+    const enabled = filterEnabled(rows, currencies).filter(row => row.buy !== null || row.sell !== null);
+    const picked = enabled.filter(row => only.includes(row.iso3));
+    // Preferences that no longer match anything (e.g. a disabled currency) fall back to the full table
+    const shown = picked.length > 0 ? picked : enabled;
+    const prevByCode = new Map(previous.map(r => [r.iso3, r]));
+
+    const lines = shown.map(row => {
+        const unit = row.unit || 1;
+        const prev = prevByCode.get(row.iso3);
+        const quote = (perUnit: number | null, prevPerUnit: number | null | undefined) => ({
+            value: perUnit === null ? '-' : formatNpr(perUnit * unit),
+            trend: TREND_STYLES[prev && perUnit !== null ? rateTrend(perUnit, prevPerUnit ?? null, unit) : 'flat'],
+        });
+        return { row, unit, buy: quote(row.buy, prev?.buy), sell: quote(row.sell, prev?.sell) };
+    });
+
+    const usd = lines.find(line => line.row.iso3 === 'USD');
+    const subject = usd
+        ? `Exchange rates for ${date}: USD ${usd.sell.value} ${usd.sell.trend.symbol} - Forex Nepal`
+        : `Exchange rates for ${date} - Forex Nepal`;
+
+    const cell = 'padding: 8px; border-bottom: 1px solid #eee;';
+    const tableRows = lines.map(({ row, unit, buy, sell }) => `
+                <tr>
+                    <td style="${cell}"><strong>${row.iso3}</strong> <span style="color: #666; font-size: 13px;">${escapeHtml(getCurrencyName(row.iso3, currencies))}</span></td>
+                    <td style="${cell} text-align: center;">${unit}</td>
+                    <td style="${cell} text-align: right; white-space: nowrap;">${buy.value} <span style="color: ${buy.trend.color}">${buy.trend.symbol}</span></td>
+                    <td style="${cell} text-align: right; white-space: nowrap;">${sell.value} <span style="color: ${sell.trend.color}">${sell.trend.symbol}</span></td>
+                </tr>`).join('');
+
+    const html = `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+                <h2>Nepal Rastra Bank exchange rates for ${date}</h2>
+                <p>NPR for the unit shown, with the change from the previous published day (▲ up, ▼ down, ● unchanged).</p>
+                <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                    <tr style="background: #f5f7fb;">
+                        <th style="${cell} text-align: left;">Currency</th>
+                        <th style="${cell}">Unit</th>
+                        <th style="${cell} text-align: right;">Buying</th>
+                        <th style="${cell} text-align: right;">Selling</th>
+                    </tr>${tableRows}
+                </table>
+                <p style="margin-top: 24px;"><a href="${SITE_URL}/#/daily-update/forex-for/${date}">See the full update for ${date}</a></p>
+                <p style="margin-top: 32px; font-size: 12px; color: #666;">
+                    You get this because you subscribed to the Forex Nepal daily rates email.
+                    To change your currencies, sign up again on the site with this address.
+                    <a href="${unsubscribeUrl}">Unsubscribe</a>.
+                </p>
+            </div>
+        `;
+
+    const text = [
+        `Nepal Rastra Bank exchange rates for ${date}`,
+        'NPR for the unit shown, with the change from the previous published day (▲ up, ▼ down, ● unchanged).',
+        '',
+        ...lines.map(({ row, unit, buy, sell }) =>
+            `${row.iso3} (${unit}): buying ${buy.value} ${buy.trend.symbol}, selling ${sell.value} ${sell.trend.symbol}`),
+        '',
+        `Full update: ${SITE_URL}/#/daily-update/forex-for/${date}`,
+        `Unsubscribe: ${unsubscribeUrl}`,
+    ].join('\n');
+
+    return { subject, html, text };
+}
+
+/**
+ * Why a signup can't be accepted, or null if it is fine.
+ */
+function validateSubscribeRequest(input: Partial<NewsletterSubscribeRequest>, currencies: CurrencyLookup): string | null {
+    if (typeof input.email !== 'string' || input.email.length > 254 || !EMAIL_REGEX.test(input.email.trim())) return 'Enter a valid email address';
+    if (input.currencies !== undefined) {
+        if (!Array.isArray(input.currencies)) return 'Currencies must be a list of currency codes';
+        const unknown = input.currencies.find(c => typeof c !== 'string' || !currencies.has(c.toUpperCase()));
+        if (unknown !== undefined) return `Unknown currency: ${unknown}`;
+    }
+    return null;
+}
+
+async function sendConfirmationEmail(env: Env, email: string, picked: string[], token: string): Promise<boolean> {
+    const confirmUrl = `${SITE_URL}/api/newsletter/confirm?token=${token}`;
+    const which = picked.length > 0 ? picked.join(', ') : 'every currency';
+    return sendBrevoEmail(env, {
+        to: [{ email }],
+        subject: 'Confirm your daily exchange rates email - Forex Nepal',
+        htmlContent: `
+            <p>Hello,</p>
+            <p>Someone (hopefully you) asked Forex Nepal to email this address Nepal Rastra Bank's exchange rates (<strong>${escapeHtml(which)}</strong>) every day they are published.</p>
+            <p style="margin: 24px 0;">
+                <a href="${confirmUrl}" style="display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 5px;">Confirm subscription</a>
+            </p>
+            <p>The link expires in ${CONFIRM_TTL_DAYS} days. If you didn't ask for this, ignore this email and nothing will be sent.</p>
+        `,
+    }, 'Newsletter Confirmation');
+}
+
+/**
+ * (PUBLIC) POST /api/newsletter/subscribe — signs an address up (or changes its currencies)
+ * and emails a confirmation link. Nothing changes until the link is opened.
+ */
+export async function handleNewsletterSubscribe(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    try {
+        const input = await request.json().catch(() => ({})) as Partial<NewsletterSubscribeRequest>;
+        const currencies = await getEnabledCurrencyMap(env);
+        const validationError = validateSubscribeRequest(input, currencies);
+        if (validationError) {
+            return jsonResponse({ success: false, error: validationError }, 400);
+        }
+
+        const email = input.email!.trim().toLowerCase();
+        const picked = [...new Set((input.currencies || []).map(c => c.toUpperCase()))];
+
+        const ip = request.headers.get('CF-Connecting-IP') || 'unknown_ip';
+        const limited = await checkSignupLimits(env, ctx, 'newsletter', ip, email);
+        if (limited) {
+            return jsonResponse({ success: false, error: 'Too many signup requests. Please try again later.' }, 429, limited);
+        }
+
+        // An active address keeps getting the digest with its current currencies until it confirms
+        // the change; an unsubscribed one goes back to pending.
+        const token = randomToken();
+        await env.FOREX_DB.prepare(
+            `INSERT INTO subscribers (email, pending_currencies, status, confirm_token, confirm_requested_at, unsubscribe_token)
+             VALUES (?, ?, 'pending', ?, datetime('now'), ?)
+             ON CONFLICT(email) DO UPDATE SET
+                pending_currencies = excluded.pending_currencies,
+                confirm_token = excluded.confirm_token,
+                confirm_requested_at = excluded.confirm_requested_at,
+                status = CASE WHEN status = 'active' THEN 'active' ELSE 'pending' END`
+        ).bind(email, JSON.stringify(picked), token, randomToken()).run();
+
+        ctx.waitUntil(sendConfirmationEmail(env, email, picked, token));
+
+        return jsonResponse({ success: true, message: 'Check your inbox and follow the link to confirm your subscription.' }, 202);
+    } catch (error: any) {
+        console.error('Error in handleNewsletterSubscribe:', error.message, error.cause);
+        return jsonResponse({ success: false, error: 'Server error' }, 500);
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/newsletter/confirm?token= — the double opt-in link. Answers with a page.
+ */
+export async function handleNewsletterConfirm(request: Request, env: Env): Promise<Response> {
+    const token = new URL(request.url).searchParams.get('token') || '';
+    try {
+        const subscriber = await env.FOREX_DB.prepare(
+            `UPDATE subscribers SET
+                status = 'active',
+                currencies = COALESCE(pending_currencies, currencies),
+                pending_currencies = NULL,
+                confirm_token = NULL,
+                confirmed_at = datetime('now'),
+                unsubscribed_at = NULL
+             WHERE confirm_token = ? AND confirm_requested_at >= datetime('now', ?)
+             RETURNING currencies`
+        ).bind(token, `-${CONFIRM_TTL_DAYS} days`).first<{ currencies: string }>();
+
+        if (!subscriber) {
+            return messagePage('Link expired', 'This confirmation link is invalid, expired or already used. Please sign up again.', HOME_LINK, 404);
+        }
+        const picked = parseCurrencies(subscriber.currencies);
+        return messagePage(
+            'Subscription confirmed',
+            `You'll get ${picked.length > 0 ? picked.join(', ') : 'all'} exchange rates by email every day Nepal Rastra Bank publishes them.`,
+            HOME_LINK
+        );
+    } catch (error: any) {
+        console.error('Error in handleNewsletterConfirm:', error.message, error.cause);
+        return messagePage('Something went wrong', 'Please try the link again later.', HOME_LINK, 500);
+    }
+}
+
+/**
+ * (PUBLIC) GET or POST /api/newsletter/unsubscribe?token= — stops the digest for the address.
+ * GET is the link in emails; POST is RFC 8058 one-click unsubscribe from mail clients.
+ */
+export async function handleNewsletterUnsubscribe(request: Request, env: Env): Promise<Response> {
+    const token = new URL(request.url).searchParams.get('token') || '';
+    try {
+        const subscriber = await env.FOREX_DB.prepare(
+            `UPDATE subscribers SET status = 'unsubscribed', confirm_token = NULL, pending_currencies = NULL,
+                unsubscribed_at = COALESCE(unsubscribed_at, datetime('now'))
+             WHERE unsubscribe_token = ? RETURNING id`
+        ).bind(token).first<{ id: number }>();
+
+        if (request.method === 'POST') {
+            return new Response(null, { status: subscriber ? 200 : 404 });
+        }
+        return subscriber
+            ? messagePage('Unsubscribed', "You won't get any more daily exchange rate emails. You can sign up again at any time.", HOME_LINK)
+            : messagePage('Link not recognised', 'This unsubscribe link is invalid.', HOME_LINK, 404);
+    } catch (error: any) {
+        console.error('Error in handleNewsletterUnsubscribe:', error.message, error.cause);
+        return request.method === 'POST'
+            ? new Response(null, { status: 500 })
+            : messagePage('Something went wrong', 'Please try the link again later.', HOME_LINK, 500);
+    }
+}
+
+/**
+ * Opens the newsletter issue for a rate date. Only the first call for a date does anything,
+ * so the three daily crons can all call it. Returns whether the issue is new.
+ */
+export async function startNewsletterIssue(env: Env, date: string): Promise<boolean> {
+    const { meta } = await env.FOREX_DB.prepare(
+        `INSERT INTO newsletter_issues (rate_date) VALUES (?) ON CONFLICT(rate_date) DO NOTHING`
+    ).bind(date).run();
+    return (meta?.changes || 0) > 0;
+}
+
+/**
+ * Claims the send of `date` to `recipient` for this run: a new delivery row, or a failed one
+ * with attempts left. False if another run got there first.
+ */
+async function claimDelivery(db: D1Database, date: string, recipient: DigestRecipient): Promise<boolean> {
+    const { meta } = recipient.retry
+        ? await db.prepare(
+            `UPDATE newsletter_deliveries SET status = 'sending', attempts = attempts + 1, error = NULL
+             WHERE rate_date = ? AND subscriber_id = ? AND status = 'failed' AND attempts < ?`
+        ).bind(date, recipient.id, MAX_SEND_ATTEMPTS).run()
+        : await db.prepare(
+            `INSERT INTO newsletter_deliveries (rate_date, subscriber_id) VALUES (?, ?) ON CONFLICT DO NOTHING`
+        ).bind(date, recipient.id).run();
+    return (meta?.changes || 0) > 0;
+}
+
+/**
+ * Sends the next batch of every unfinished issue, oldest first: failed sends with attempts
+ * left, then active subscribers without a delivery row. An issue is marked complete once
+ * neither is left. Returns the emails sent.
+ * Called by the scheduled worker after ingestion and by the five-minute cron.
+ */
+export async function sendNewsletterBatch(env: Env): Promise<number> {
+    const { results: issues } = await env.FOREX_DB.prepare(
+        `SELECT rate_date FROM newsletter_issues WHERE completed_at IS NULL ORDER BY rate_date`
+    ).all<{ rate_date: string }>();
+
+    let budget = SENDS_PER_RUN;
+    let sent = 0;
+    for (const { rate_date: date } of issues || []) {
+        if (budget <= 0) break;
+
+        const { results: recipients } = await env.FOREX_DB.prepare(
+            `SELECT s.id, s.email, s.currencies, s.unsubscribe_token, 1 AS retry
+             FROM newsletter_deliveries d JOIN subscribers s ON s.id = d.subscriber_id
+             WHERE d.rate_date = ?1 AND d.status = 'failed' AND d.attempts < ?2 AND s.status = 'active'
+             UNION ALL
+             SELECT s.id, s.email, s.currencies, s.unsubscribe_token, 0 AS retry FROM subscribers s
+             WHERE s.status = 'active'
+               AND NOT EXISTS (SELECT 1 FROM newsletter_deliveries d WHERE d.rate_date = ?1 AND d.subscriber_id = s.id)
+             ORDER BY retry DESC, id LIMIT ?3`
+        ).bind(date, MAX_SEND_ATTEMPTS, budget).all<DigestRecipient>();
+
+        if ((recipients || []).length > 0) {
+            const [rows, previous, currencies] = await Promise.all([
+                getRatesForDate(env.FOREX_DB, date),
+                getRatesOnOrBefore(env.FOREX_DB, addDays(date, -1)),
+                getEnabledCurrencyMap(env),
+            ]);
+
+            for (const recipient of recipients || []) {
+                // Claim the send first: a concurrent run that got here too skips this subscriber
+                if (!await claimDelivery(env.FOREX_DB, date, recipient)) continue;
+                budget--;
+
+                const unsubscribeUrl = `${SITE_URL}/api/newsletter/unsubscribe?token=${recipient.unsubscribe_token}`;
+                const digest = renderDigest(date, rows, previous, currencies, parseCurrencies(recipient.currencies), unsubscribeUrl);
+                const ok = await sendBrevoEmail(env, {
+                    to: [{ email: recipient.email }],
+                    subject: digest.subject,
+                    htmlContent: digest.html,
+                    textContent: digest.text,
+                    headers: {
+                        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+                        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+                    },
+                }, 'Newsletter');
+                if (ok) sent++;
+
+                await env.FOREX_DB.prepare(
+                    `UPDATE newsletter_deliveries SET status = ?1, error = ?2, sent_at = CASE WHEN ?1 = 'sent' THEN datetime('now') END
+                     WHERE rate_date = ?3 AND subscriber_id = ?4`
+                ).bind(ok ? 'sent' : 'failed', ok ? null : 'Email provider did not accept the message (see worker logs)', date, recipient.id).run();
+            }
+        }
+
+        await env.FOREX_DB.prepare(
+            `UPDATE newsletter_issues SET
+                sent = (SELECT COUNT(*) FROM newsletter_deliveries WHERE rate_date = ?1 AND status = 'sent'),
+                failed = (SELECT COUNT(*) FROM newsletter_deliveries WHERE rate_date = ?1 AND status = 'failed'),
+                completed_at = CASE WHEN NOT EXISTS (
+                    SELECT 1 FROM subscribers s WHERE s.status = 'active' AND (
+                        NOT EXISTS (SELECT 1 FROM newsletter_deliveries d WHERE d.rate_date = ?1 AND d.subscriber_id = s.id)
+                        OR EXISTS (
+                            SELECT 1 FROM newsletter_deliveries d
+                            WHERE d.rate_date = ?1 AND d.subscriber_id = s.id AND d.status = 'failed' AND d.attempts < ?2
+                        )
+                    )
+                ) THEN datetime('now') END
+             WHERE rate_date = ?1`
+        ).bind(date, MAX_SEND_ATTEMPTS).run();
+    }
+    if (sent > 0) console.log(`Newsletter: sent ${sent} emails.`);
+    return sent;
+}
+
+/**
+ * Drops signups that were never confirmed, expires unconfirmed preference changes and
+ * trims the send log. Called by the scheduled worker.
+ */
+export async function pruneNewsletter(db: D1Database): Promise<void> {
+    const ttl = `-${CONFIRM_TTL_DAYS} days`;
+    await db.batch([
+        db.prepare(`DELETE FROM subscribers WHERE status = 'pending' AND confirm_requested_at < datetime('now', ?)`).bind(ttl),
+        db.prepare(
+            `UPDATE subscribers SET confirm_token = NULL, pending_currencies = NULL
+             WHERE status != 'pending' AND confirm_token IS NOT NULL AND confirm_requested_at < datetime('now', ?)`
+        ).bind(ttl),
+        db.prepare(`DELETE FROM newsletter_deliveries WHERE created_at < datetime('now', ?)`)
+            .bind(`-${NEWSLETTER_DELIVERY_RETENTION_DAYS} days`),
+    ]);
+}
@@ -0,0 +1,894 @@
+// src/openapi.ts
+// --- OPENAPI DOCUMENT ---
+// The OpenAPI 3.1 description of the public API, served at /api/openapi.json. The API
+// docs page renders from it, so a public route added to routes.ts belongs here as well.
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string): Schema => ({ type: [type, 'null'] });
+
+const dateParam = (name: string, location: 'query' | 'path', description: string, required: boolean, example: string) => ({
+    name,
+    in: location,
+    required,
+    description,
+    schema: { type: 'string', format: 'date' },
+    example,
+});
+
+const currencyParam = (name: string, location: 'query' | 'path', description: string, required: boolean, example: string) => ({
+    name,
+    in: location,
+    required,
+    description,
+    schema: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+    example,
+});
+
+const sideParam = {
+    name: 'side',
+    in: 'query',
+    required: false,
+    description: 'Which NRB rate to use: buy, sell, or mid (their average).',
+    schema: { type: 'string', enum: ['buy', 'sell', 'mid'], default: 'mid' },
+    example: 'mid',
+};
+
+const json = (schema: Schema, example?: unknown) => ({
+    'application/json': example === undefined ? { schema } : { schema, example },
+});
+
+const ok = (description: string, schema: Schema, example?: unknown) => ({ description, content: json(schema, example) });
+
+// Every access-controlled endpoint can answer with these
+const accessErrors = {
+    '401': { $ref: '#/components/responses/InvalidApiKey' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '429': { $ref: '#/components/responses/QuotaExceeded' },
+    '500': { $ref: '#/components/responses/ServerError' },
+};
+
+// Sent on every metered response; 429s add Retry-After
+const rateLimitHeaders = {
+    'RateLimit-Limit': { description: 'Requests allowed in the tightest window (hour, minute burst, or a key\'s day).', schema: { type: 'integer' } },
+    'RateLimit-Remaining': { description: 'Requests left in that window. Approximate for quotas without an API key.', schema: { type: 'integer' } },
+    'RateLimit-Reset': { description: 'Seconds until the window frees up.', schema: { type: 'integer' } },
+};
+
+const quotaExceededHeaders = {
+    ...rateLimitHeaders,
+    'Retry-After': { description: 'Seconds to wait before retrying.', schema: { type: 'integer' } },
+};
+
+// v1 responses are { data, meta, error }; `data` is the operation's own schema
+const v1Envelope = (data: Schema): Schema => ({
+    type: 'object',
+    properties: { data, meta: ref('V1Meta'), error: { const: null } },
+    required: ['data', 'meta', 'error'],
+});
+
+const v1Response = (name: string): Schema => ({ $ref: `#/components/responses/V1${name}` });
+
+const v1Errors = {
+    '401': v1Response('InvalidApiKey'),
+    '403': v1Response('Forbidden'),
+    '429': v1Response('QuotaExceeded'),
+    '500': v1Response('ServerError'),
+};
+
+const v1ErrorResponse = (description: string, code: string, message: string, extra: Schema = {}): Schema => ({
+    description,
+    ...extra,
+    content: json(ref('V1ErrorEnvelope'), { data: null, meta: { api_version: 'v1' }, error: { code, message } }),
+});
+
+const v1CurrenciesParam = (description: string, example: string) => ({
+    name: 'currencies',
+    in: 'query',
+    required: false,
+    description: `Comma-separated ISO codes. ${description}`,
+    schema: { type: 'string' },
+    example,
+});
+
+const v1FieldsParam = {
+    name: 'fields',
+    in: 'query',
+    required: false,
+    description: 'Comma-separated rate fields to return. `iso3` is always included.',
+    schema: { type: 'string' },
+    example: 'buy_per_unit,sell_per_unit',
+};
+
+const v1RatesDayExample = {
+    date: '2025-01-15',
+    updated_at: '2025-01-15T05:15:00Z',
+    rates: [
+        { iso3: 'INR', name: 'Indian Rupee', unit: 100, buy_per_unit: 1.6, sell_per_unit: 1.6015, buy_quoted: 160, sell_quoted: 160.15 },
+        { iso3: 'USD', name: 'U.S. Dollar', unit: 1, buy_per_unit: 137.12, sell_per_unit: 137.72, buy_quoted: 137.12, sell_quoted: 137.72 },
+    ],
+};
+
+const ratesDataExample = {
+    date: '2025-01-15',
+    published_on: '2025-01-15 05:15:00',
+    modified_on: '2025-01-15 05:15:00',
+    rates: [
+        { currency: { iso3: 'INR', name: 'Indian Rupee', unit: 100 }, buy: 1.6, sell: 1.6015 },
+        { currency: { iso3: 'USD', name: 'U.S. Dollar', unit: 1 }, buy: 137.12, sell: 137.72 },
+    ],
+};
+
+const ohlcExample = { open: 137.12, high: 139.58, low: 136.95, close: 138.47, mean: 138.2113, stddev: 0.6421, change_pct: 0.98 };
+
+const schemas: Record<string, Schema> = {
+    Error: {
+        type: 'object',
+        description: 'Error body. Newer endpoints also send `success: false`.',
+        properties: { success: { type: 'boolean', const: false }, error: { type: 'string' } },
+        required: ['error'],
+    },
+    Currency: {
+        type: 'object',
+        properties: {
+            iso3: { type: 'string' },
+            name: { type: 'string' },
+            unit: { type: 'integer', description: 'Quantity NRB quotes the currency in, e.g. 100 for INR.' },
+        },
+        required: ['iso3', 'name', 'unit'],
+    },
+    CurrencyInfo: {
+        allOf: [ref('Currency')],
+        properties: {
+            region: { type: 'string', enum: ['asian', 'european', 'middle-east', 'other'] },
+            flag_code: nullable('string'),
+            display_order: { type: 'integer' },
+        },
+    },
+    Rate: {
+        type: 'object',
+        description: 'NPR for a single unit of the currency.',
+        properties: { currency: ref('Currency'), buy: { type: 'number' }, sell: { type: 'number' } },
+        required: ['currency', 'buy', 'sell'],
+    },
+    RatesData: {
+        type: 'object',
+        properties: {
+            date: { type: 'string', format: 'date' },
+            published_on: { type: 'string' },
+            modified_on: { type: 'string' },
+            rates: { type: 'array', items: ref('Rate') },
+        },
+        required: ['date', 'rates'],
+    },
+    ChartPoint: {
+        type: 'object',
+        properties: { date: { type: 'string', format: 'date' }, buy: nullable('number'), sell: nullable('number') },
+        required: ['date', 'buy', 'sell'],
+    },
+    OhlcStats: {
+        type: 'object',
+        properties: {
+            open: { type: 'number' },
+            high: { type: 'number' },
+            low: { type: 'number' },
+            close: { type: 'number' },
+            mean: { type: 'number' },
+            stddev: { type: 'number' },
+            change_pct: { type: 'number', description: 'Close versus open, in percent.' },
+        },
+    },
+    RateStatsPeriod: {
+        type: 'object',
+        properties: {
+            bucket: { type: 'string', description: "'all' for the summary; otherwise the week start, '2024-03', '2024-Q1' or '2024'." },
+            start_date: { type: 'string', format: 'date' },
+            end_date: { type: 'string', format: 'date' },
+            days: { type: 'integer' },
+            buy: ref('OhlcStats'),
+            sell: ref('OhlcStats'),
+            spread: ref('OhlcStats'),
+        },
+    },
+    ConversionLeg: {
+        type: 'object',
+        properties: { iso3: { type: 'string' }, unit: { type: 'integer' }, npr_per_unit: { type: 'number' } },
+    },
+    V1Meta: {
+        type: 'object',
+        description: 'Always has api_version; list endpoints add count, range endpoints from/to.',
+        properties: { api_version: { type: 'string', const: 'v1' }, count: { type: 'integer' } },
+        required: ['api_version'],
+    },
+    V1ErrorEnvelope: {
+        type: 'object',
+        properties: {
+            data: { type: 'null' },
+            meta: ref('V1Meta'),
+            error: {
+                type: 'object',
+                properties: {
+                    code: {
+                        type: 'string',
+                        enum: ['invalid_parameter', 'not_found', 'invalid_api_key', 'forbidden', 'quota_exceeded', 'method_not_allowed', 'payload_too_large', 'internal_error'],
+                    },
+                    message: { type: 'string', description: 'For people; branch on `code`.' },
+                },
+                required: ['code', 'message'],
+            },
+        },
+        required: ['data', 'meta', 'error'],
+    },
+    V1Rate: {
+        type: 'object',
+        properties: {
+            iso3: { type: 'string' },
+            name: { type: 'string' },
+            unit: { type: 'integer', description: 'Quantity NRB quotes the currency in, e.g. 100 for INR.' },
+            buy_per_unit: { ...nullable('number'), description: 'NPR for a single unit.' },
+            sell_per_unit: { ...nullable('number'), description: 'NPR for a single unit.' },
+            buy_quoted: { ...nullable('number'), description: 'NPR for `unit` units, as NRB publishes.' },
+            sell_quoted: { ...nullable('number'), description: 'NPR for `unit` units, as NRB publishes.' },
+        },
+        required: ['iso3'],
+    },
+    V1RatesDay: {
+        type: 'object',
+        properties: {
+            date: { type: 'string', format: 'date' },
+            updated_at: { ...nullable('string'), format: 'date-time', description: 'When the date was last written.' },
+            rates: { type: 'array', items: ref('V1Rate') },
+        },
+        required: ['date', 'updated_at', 'rates'],
+    },
+    V1Currency: {
+        type: 'object',
+        properties: {
+            iso3: { type: 'string' },
+            name: { type: 'string' },
+            unit: { type: 'integer' },
+            region: { type: 'string', enum: ['asian', 'european', 'middle-east', 'other'] },
+            flag_code: nullable('string'),
+        },
+    },
+    V1ConversionLeg: {
+        type: 'object',
+        properties: {
+            iso3: { type: 'string' },
+            unit: { type: 'integer' },
+            npr_per_unit: { type: 'number' },
+            npr_per_quoted: { type: 'number', description: 'NPR for `unit` units.' },
+        },
+    },
+    Post: {
+        type: 'object',
+        properties: {
+            id: { type: 'integer' },
+            title: { type: 'string' },
+            slug: { type: 'string' },
+            excerpt: nullable('string'),
+            featured_image_url: nullable('string'),
+            author_name: nullable('string'),
+            author_url: nullable('string'),
+            published_at: { type: 'string' },
+            content: { type: 'string', description: 'HTML. Only returned for a single post.' },
+        },
+    },
+};
+
+const v1Paths: Record<string, Schema> = {
+    '/api/v1/rates/latest': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Latest rates',
+            description: "Today's rates, or yesterday's before NRB publishes.",
+            operationId: 'v1GetLatestRates',
+            parameters: [v1CurrenciesParam('Omit for every enabled currency.', 'USD,INR'), v1FieldsParam],
+            responses: {
+                '200': ok('The day\'s rates.', v1Envelope(ref('V1RatesDay')), { data: v1RatesDayExample, meta: { api_version: 'v1', count: 2 }, error: null }),
+                '304': { $ref: '#/components/responses/NotModified' },
+                '400': v1Response('BadRequest'),
+                '404': v1Response('NotFound'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/rates/{date}': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Rates for a date',
+            operationId: 'v1GetRatesByDate',
+            parameters: [
+                dateParam('date', 'path', 'Date in YYYY-MM-DD format.', true, '2025-01-15'),
+                v1CurrenciesParam('Omit for every enabled currency.', 'USD,INR'),
+                v1FieldsParam,
+            ],
+            responses: {
+                '200': ok('The day\'s rates.', v1Envelope(ref('V1RatesDay')), { data: v1RatesDayExample, meta: { api_version: 'v1', count: 2 }, error: null }),
+                '304': { $ref: '#/components/responses/NotModified' },
+                '400': v1Response('BadRequest'),
+                '404': v1Response('NotFound'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/rates': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Rates for a range',
+            description: 'Every published date between `from` and `to` (at most 366 days), oldest first.',
+            operationId: 'v1GetRatesRange',
+            parameters: [
+                dateParam('from', 'query', 'Start date.', true, '2025-01-01'),
+                dateParam('to', 'query', 'End date.', true, '2025-01-31'),
+                v1CurrenciesParam('Omit for every enabled currency.', 'USD'),
+                v1FieldsParam,
+            ],
+            responses: {
+                '200': ok('One entry per published date.', v1Envelope({ type: 'array', items: ref('V1RatesDay') })),
+                '400': v1Response('BadRequest'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/stats/{currency}': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Rate statistics',
+            description: 'Per-unit open/high/low/close, mean, standard deviation and change of the buy rate, sell rate and spread.',
+            operationId: 'v1GetCurrencyStats',
+            parameters: [
+                currencyParam('currency', 'path', 'ISO code.', true, 'USD'),
+                dateParam('from', 'query', 'Start date.', true, '2025-01-01'),
+                dateParam('to', 'query', 'End date.', true, '2025-03-31'),
+                {
+                    name: 'bucket',
+                    in: 'query',
+                    required: false,
+                    description: 'Also break the range down by week, month, quarter or year.',
+                    schema: { type: 'string', enum: ['week', 'month', 'quarter', 'year'] },
+                    example: 'month',
+                },
+            ],
+            responses: {
+                '200': ok('Statistics.', v1Envelope({
+                    type: 'object',
+                    properties: {
+                        currency: { type: 'string' },
+                        from: { type: 'string', format: 'date' },
+                        to: { type: 'string', format: 'date' },
+                        bucket: nullable('string'),
+                        summary: { oneOf: [ref('RateStatsPeriod'), { type: 'null' }] },
+                        buckets: { type: 'array', items: ref('RateStatsPeriod') },
+                    },
+                })),
+                '400': v1Response('BadRequest'),
+                '404': v1Response('NotFound'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/convert': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Convert between two currencies',
+            description: 'Derived through NPR on the chosen side, using the latest rates on or before `date`.',
+            operationId: 'v1Convert',
+            parameters: [
+                currencyParam('from', 'query', 'Currency to convert from (NPR allowed).', true, 'USD'),
+                currencyParam('to', 'query', 'Currency to convert to (NPR allowed).', true, 'INR'),
+                { name: 'amount', in: 'query', required: false, description: 'Amount of `from`.', schema: { type: 'number', minimum: 0, default: 1 }, example: 100 },
+                dateParam('date', 'query', 'Defaults to today.', false, '2025-01-15'),
+                sideParam,
+            ],
+            responses: {
+                '200': ok('The conversion and the rates it used.', v1Envelope({
+                    type: 'object',
+                    properties: {
+                        date: { type: 'string', format: 'date', description: 'Rates date actually used.' },
+                        side: { type: 'string', enum: ['buy', 'sell', 'mid'] },
+                        via: { type: 'string', const: 'NPR' },
+                        from: ref('V1ConversionLeg'),
+                        to: ref('V1ConversionLeg'),
+                        amount: { type: 'number' },
+                        rate_per_unit: { type: 'number', description: 'Units of `to` per single unit of `from`.' },
+                        result: { type: 'number' },
+                    },
+                }), {
+                    data: {
+                        date: '2025-01-15', side: 'mid', via: 'NPR',
+                        from: { iso3: 'USD', unit: 1, npr_per_unit: 137.42, npr_per_quoted: 137.42 },
+                        to: { iso3: 'INR', unit: 100, npr_per_unit: 1.60075, npr_per_quoted: 160.075 },
+                        amount: 100, rate_per_unit: 85.847259, result: 8584.7259,
+                    },
+                    meta: { api_version: 'v1' },
+                    error: null,
+                }),
+                '400': v1Response('BadRequest'),
+                '404': v1Response('NotFound'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/cross-rates': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Cross-rate matrix',
+            description: '`rates_per_unit[FROM][TO]` is the number of TO per single unit of FROM.',
+            operationId: 'v1GetCrossRates',
+            parameters: [
+                dateParam('date', 'query', 'Defaults to today.', false, '2025-01-15'),
+                sideParam,
+                v1CurrenciesParam('NPR is allowed. Omit for NPR and every enabled currency.', 'NPR,USD,INR'),
+            ],
+            responses: {
+                '200': ok('The matrix.', v1Envelope({
+                    type: 'object',
+                    properties: {
+                        date: { type: 'string', format: 'date' },
+                        side: { type: 'string', enum: ['buy', 'sell', 'mid'] },
+                        currencies: { type: 'array', items: { type: 'string' } },
+                        units: { type: 'object', additionalProperties: { type: 'integer' } },
+                        rates_per_unit: { type: 'object', additionalProperties: { type: 'object', additionalProperties: nullable('number') } },
+                    },
+                })),
+                '400': v1Response('BadRequest'),
+                '404': v1Response('NotFound'),
+                ...v1Errors,
+            },
+        },
+    },
+    '/api/v1/currencies': {
+        get: {
+            tags: ['API v1'],
+            summary: 'Enabled currencies',
+            operationId: 'v1ListCurrencies',
+            responses: {
+                '200': ok('Currencies in display order.', v1Envelope({ type: 'array', items: ref('V1Currency') }), {
+                    data: [{ iso3: 'INR', name: 'Indian Rupee', unit: 100, region: 'asian', flag_code: 'in' }],
+                    meta: { api_version: 'v1', count: 1 },
+                    error: null,
+                }),
+                ...v1Errors,
+            },
+        },
+    },
+};
+
+const paths: Record<string, Schema> = {
+    '/api/latest-rates': {
+        get: {
+            tags: ['Rates'],
+            summary: 'Latest rates',
+            description: "Today's rates, or yesterday's before NRB publishes.",
+            operationId: 'getLatestRates',
+            deprecated: true,
+            'x-successor': '/api/v1/rates/latest',
+            responses: {
+                '200': ok('Rates for every enabled currency.', ref('RatesData'), ratesDataExample),
+                '304': { $ref: '#/components/responses/NotModified' },
+                '404': { $ref: '#/components/responses/NotFound' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/rates/date/{date}': {
+        get: {
+            tags: ['Rates'],
+            summary: 'Rates for a date',
+            operationId: 'getRatesByDate',
+            deprecated: true,
+            'x-successor': '/api/v1/rates/{date}',
+            parameters: [dateParam('date', 'path', 'Date in YYYY-MM-DD format.', true, '2025-01-15')],
+            responses: {
+                '200': ok('Rates for every enabled currency.', ref('RatesData'), ratesDataExample),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                '304': { $ref: '#/components/responses/NotModified' },
+                '404': ok('Nothing was published that day.', ref('RatesData'), { date: '2025-01-18', rates: [] }),
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/historical-rates': {
+        get: {
+            tags: ['Rates'],
+            summary: 'Historical series',
+            description: 'With `currency`: the daily series between two dates, optionally downsampled to `max_points` (keeping both ends and the highs and lows). Without it: the full rates on the `from` and `to` dates.',
+            operationId: 'getHistoricalRates',
+            deprecated: true,
+            'x-successor': '/api/v1/rates',
+            parameters: [
+                dateParam('from', 'query', 'Start date.', true, '2024-01-01'),
+                dateParam('to', 'query', 'End date.', true, '2024-12-31'),
+                currencyParam('currency', 'query', 'ISO code of one currency.', false, 'USD'),
+                {
+                    name: 'max_points',
+                    in: 'query',
+                    required: false,
+                    description: 'With currency: return at most this many representative days.',
+                    schema: { type: 'integer', minimum: 6, maximum: 5000 },
+                    example: 100,
+                },
+            ],
+            responses: {
+                '200': ok('A series (with currency) or the rates of both dates (without).', {
+                    oneOf: [
+                        {
+                            type: 'object',
+                            properties: {
+                                success: { type: 'boolean' },
+                                currency: { type: 'string' },
+                                total_points: { type: 'integer', description: 'Days in the range before downsampling.' },
+                                data: { type: 'array', items: ref('ChartPoint') },
+                            },
+                        },
+                        {
+                            type: 'object',
+                            properties: {
+                                status: { type: 'object', properties: { code: { type: 'integer' }, message: { type: 'string' } } },
+                                payload: { type: 'array', items: ref('RatesData') },
+                            },
+                        },
+                    ],
+                }, {
+                    success: true,
+                    currency: 'USD',
+                    total_points: 312,
+                    data: [{ date: '2024-01-01', buy: 132.6, sell: 133.2 }, { date: '2024-01-05', buy: 133.01, sell: 133.61 }],
+                }),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/stats/{currency}': {
+        get: {
+            tags: ['Rates'],
+            summary: 'Rate statistics',
+            description: 'Open/high/low/close, mean, standard deviation and change of the buy rate, sell rate and spread, for the whole range and optionally per bucket.',
+            operationId: 'getCurrencyStats',
+            deprecated: true,
+            'x-successor': '/api/v1/stats/{currency}',
+            parameters: [
+                currencyParam('currency', 'path', 'ISO code.', true, 'USD'),
+                dateParam('from', 'query', 'Start date.', true, '2025-01-01'),
+                dateParam('to', 'query', 'End date.', true, '2025-03-31'),
+                {
+                    name: 'bucket',
+                    in: 'query',
+                    required: false,
+                    description: 'Also break the range down by week, month, quarter or year.',
+                    schema: { type: 'string', enum: ['week', 'month', 'quarter', 'year'] },
+                    example: 'month',
+                },
+            ],
+            responses: {
+                '200': ok('Statistics.', {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        currency: { type: 'string' },
+                        from: { type: 'string', format: 'date' },
+                        to: { type: 'string', format: 'date' },
+                        bucket: nullable('string'),
+                        summary: { oneOf: [ref('RateStatsPeriod'), { type: 'null' }] },
+                        buckets: { type: 'array', items: ref('RateStatsPeriod') },
+                    },
+                }, {
+                    success: true,
+                    currency: 'USD',
+                    from: '2025-01-01',
+                    to: '2025-03-31',
+                    bucket: null,
+                    summary: {
+                        bucket: 'all', start_date: '2025-01-01', end_date: '2025-03-31', days: 82,
+                        buy: ohlcExample,
+                        sell: { ...ohlcExample, open: 137.72, high: 140.18, low: 137.55, close: 139.07, mean: 138.8113 },
+                        spread: { open: 0.6, high: 0.6, low: 0.6, close: 0.6, mean: 0.6, stddev: 0, change_pct: 0 },
+                    },
+                    buckets: [],
+                }),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/convert': {
+        get: {
+            tags: ['Conversion'],
+            summary: 'Convert between two currencies',
+            description: 'Foreign-to-foreign rates are derived through NPR on the chosen side. Uses the latest rates on or before `date`.',
+            operationId: 'convert',
+            deprecated: true,
+            'x-successor': '/api/v1/convert',
+            parameters: [
+                currencyParam('from', 'query', 'Currency to convert from (NPR allowed).', true, 'USD'),
+                currencyParam('to', 'query', 'Currency to convert to (NPR allowed).', true, 'INR'),
+                { name: 'amount', in: 'query', required: false, description: 'Amount of `from`.', schema: { type: 'number', minimum: 0, default: 1 }, example: 100 },
+                dateParam('date', 'query', 'Defaults to today.', false, '2025-01-15'),
+                sideParam,
+            ],
+            responses: {
+                '200': ok('The conversion and the rates it used.', {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        date: { type: 'string', format: 'date', description: 'Rates date actually used.' },
+                        side: { type: 'string', enum: ['buy', 'sell', 'mid'] },
+                        via: { type: 'string', const: 'NPR' },
+                        from: ref('ConversionLeg'),
+                        to: ref('ConversionLeg'),
+                        amount: { type: 'number' },
+                        rate: { type: 'number', description: 'Units of `to` per single unit of `from`.' },
+                        result: { type: 'number' },
+                    },
+                }, {
+                    success: true, date: '2025-01-15', side: 'mid', via: 'NPR',
+                    from: { iso3: 'USD', unit: 1, npr_per_unit: 137.42 },
+                    to: { iso3: 'INR', unit: 100, npr_per_unit: 1.60075 },
+                    amount: 100, rate: 85.847259, result: 8584.7259,
+                }),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                '404': { $ref: '#/components/responses/NotFound' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/cross-rates': {
+        get: {
+            tags: ['Conversion'],
+            summary: 'Cross-rate matrix',
+            description: '`rates[FROM][TO]` is the number of TO per single unit of FROM, for NPR and every enabled currency.',
+            operationId: 'getCrossRates',
+            deprecated: true,
+            'x-successor': '/api/v1/cross-rates',
+            parameters: [dateParam('date', 'query', 'Defaults to today.', false, '2025-01-15'), sideParam],
+            responses: {
+                '200': ok('The matrix.', {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        date: { type: 'string', format: 'date' },
+                        side: { type: 'string', enum: ['buy', 'sell', 'mid'] },
+                        currencies: { type: 'array', items: { type: 'string' } },
+                        units: { type: 'object', additionalProperties: { type: 'integer' } },
+                        rates: { type: 'object', additionalProperties: { type: 'object', additionalProperties: nullable('number') } },
+                    },
+                }, {
+                    success: true, date: '2025-01-15', side: 'sell',
+                    currencies: ['NPR', 'INR', 'USD'],
+                    units: { NPR: 1, INR: 100, USD: 1 },
+                    rates: {
+                        NPR: { NPR: 1, INR: 0.62441461, USD: 0.0072611 },
+                        INR: { NPR: 1.6015, INR: 1, USD: 0.011628667 },
+                        USD: { NPR: 137.72, INR: 85.99438, USD: 1 },
+                    },
+                }),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                '404': { $ref: '#/components/responses/NotFound' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/export': {
+        get: {
+            tags: ['Export'],
+            summary: 'Bulk export',
+            description: 'Every stored rate in a range as a download. CSV and JSON Lines are streamed; XLSX is limited to 20,000 rows.',
+            operationId: 'exportRates',
+            parameters: [
+                dateParam('from', 'query', 'Start date.', true, '2025-01-01'),
+                dateParam('to', 'query', 'End date.', true, '2025-01-31'),
+                { name: 'currencies', in: 'query', required: false, description: 'Comma-separated ISO codes. Omit for all.', schema: { type: 'string' }, example: 'USD,INR' },
+                { name: 'format', in: 'query', required: false, description: 'File format.', schema: { type: 'string', enum: ['csv', 'jsonl', 'xlsx'], default: 'csv' }, example: 'csv' },
+                { name: 'unit', in: 'query', required: false, description: 'quoted: as NRB publishes (per 100 INR); per_unit: per single unit.', schema: { type: 'string', enum: ['quoted', 'per_unit'], default: 'quoted' }, example: 'quoted' },
+            ],
+            responses: {
+                '200': {
+                    description: 'The file, with a Content-Disposition filename.',
+                    content: {
+                        'text/csv': { schema: { type: 'string' }, example: 'date,currency,name,unit,buy,sell\r\n2025-01-01,INR,Indian Rupee,100,160,160.15\r\n' },
+                        'application/x-ndjson': { schema: { type: 'string' } },
+                        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { schema: { type: 'string', contentEncoding: 'binary' } },
+                    },
+                },
+                '400': { $ref: '#/components/responses/BadRequest' },
+                '413': { description: 'Too many rows for XLSX.', content: json(ref('Error')) },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/currencies': {
+        get: {
+            tags: ['Reference'],
+            summary: 'Enabled currencies',
+            operationId: 'listCurrencies',
+            deprecated: true,
+            'x-successor': '/api/v1/currencies',
+            responses: {
+                '200': ok('Currencies in display order.', {
+                    type: 'object',
+                    properties: { success: { type: 'boolean' }, currencies: { type: 'array', items: ref('CurrencyInfo') } },
+                }, {
+                    success: true,
+                    currencies: [{ iso3: 'INR', name: 'Indian Rupee', unit: 100, region: 'asian', flag_code: 'in', display_order: 1 }],
+                }),
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/archive/list': {
+        get: {
+            tags: ['Archive'],
+            summary: 'Dates with data',
+            operationId: 'listArchiveDates',
+            parameters: [
+                { name: 'page', in: 'query', required: false, description: 'Page number.', schema: { type: 'integer', minimum: 1, default: 1 }, example: 1 },
+                { name: 'limit', in: 'query', required: false, description: 'Dates per page.', schema: { type: 'integer', minimum: 1, default: 30 }, example: 30 },
+            ],
+            responses: {
+                '200': ok('Dates, newest first.', {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        pagination: {
+                            type: 'object',
+                            properties: { page: { type: 'integer' }, limit: { type: 'integer' }, total: { type: 'integer' }, totalPages: { type: 'integer' } },
+                        },
+                        dates: { type: 'array', items: { type: 'string', format: 'date' } },
+                    },
+                }, {
+                    success: true,
+                    pagination: { page: 1, limit: 3, total: 9100, totalPages: 3034 },
+                    dates: ['2025-01-15', '2025-01-14', '2025-01-13'],
+                }),
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/archive/detail/{date}': {
+        get: {
+            tags: ['Archive'],
+            summary: 'Daily summary text',
+            operationId: 'getArchiveDetail',
+            parameters: [dateParam('date', 'path', 'Date in YYYY-MM-DD format.', true, '2025-01-15')],
+            responses: {
+                '200': ok('Generated paragraphs describing the day.', {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        date: { type: 'string', format: 'date' },
+                        paragraphs: {
+                            type: 'object',
+                            properties: { intro: { type: 'string' }, summary: { type: 'string' }, detail: { type: 'string' } },
+                        },
+                    },
+                }),
+                '400': { $ref: '#/components/responses/BadRequest' },
+                '304': { $ref: '#/components/responses/NotModified' },
+                '404': { $ref: '#/components/responses/NotFound' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/posts': {
+        get: {
+            tags: ['Posts'],
+            summary: 'Published posts',
+            operationId: 'listPosts',
+            responses: {
+                '200': ok('Posts, newest first, without their content.', {
+                    type: 'object',
+                    properties: { success: { type: 'boolean' }, posts: { type: 'array', items: ref('Post') } },
+                }),
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/posts/{slug}': {
+        get: {
+            tags: ['Posts'],
+            summary: 'A published post',
+            operationId: 'getPost',
+            parameters: [{ name: 'slug', in: 'path', required: true, description: 'Post slug.', schema: { type: 'string' }, example: 'nrb-rates-explained' }],
+            responses: {
+                '200': ok('The post.', { type: 'object', properties: { success: { type: 'boolean' }, post: ref('Post') } }),
+                '404': { $ref: '#/components/responses/NotFound' },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/image/latest-rates': {
+        get: {
+            tags: ['Embed'],
+            summary: 'Embeddable rates table',
+            description: 'A self-contained HTML page with the latest rates, for an iframe.',
+            operationId: 'getEmbedHtml',
+            responses: {
+                '200': { description: 'HTML page.', content: { 'text/html': { schema: { type: 'string' } } } },
+                ...accessErrors,
+            },
+        },
+    },
+    '/api/settings': {
+        get: {
+            tags: ['Reference'],
+            summary: 'Public site settings',
+            operationId: 'getPublicSettings',
+            responses: {
+                '200': ok('Settings the site needs before login.', {
+                    type: 'object',
+                    properties: {
+                        ticker_enabled: { type: 'string' },
+                        adsense_enabled: { type: 'string' },
+                        adsense_exclusions: { type: 'string' },
+                    },
+                }),
+                ...accessErrors,
+            },
+        },
+    },
+};
+
+/**
+ * Builds the document. `serverUrl` is the origin the request came in on.
+ */
+export function buildOpenApiDocument(serverUrl: string): Schema {
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Forex Nepal API',
+            version: '1.0.0',
+            description: 'Official Nepal Rastra Bank exchange rates against NPR. Rates are NPR per single unit unless stated otherwise. No authentication is required; an API key (header or `key` parameter) gives its own quota. Metered responses carry `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers; quotas without a key are enforced on a best-effort basis. New integrations should use /api/v1, whose response shapes are frozen; the deprecated routes it replaces answer with `Deprecation` and `Link: rel="successor-version"` headers.',
+        },
+        servers: [{ url: serverUrl }],
+        tags: [
+            { name: 'API v1', description: 'The stable surface: `{ data, meta, error }` envelopes with machine-readable error codes' },
+            { name: 'Rates', description: 'Daily and historical rates' },
+            { name: 'Conversion', description: 'Cross rates derived through NPR' },
+            { name: 'Export', description: 'Bulk downloads' },
+            { name: 'Archive', description: 'Archive pages' },
+            { name: 'Reference', description: 'Currencies and settings' },
+            { name: 'Posts', description: 'Articles' },
+            { name: 'Embed', description: 'Widgets for other sites' },
+        ],
+        // Keys are optional: anonymous requests fall under the endpoint's public quota
+        security: [{}, { ApiKeyHeader: [] }, { ApiKeyQuery: [] }],
+        paths: { ...v1Paths, ...paths },
+        components: {
+            schemas,
+            securitySchemes: {
+                ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+                ApiKeyQuery: { type: 'apiKey', in: 'query', name: 'key' },
+            },
+            responses: {
+                NotModified: {
+                    description: 'Unchanged since the ETag in If-None-Match (or the If-Modified-Since date).',
+                    headers: {
+                        ETag: { schema: { type: 'string' } },
+                        'Last-Modified': { schema: { type: 'string' } },
+                    },
+                },
+                BadRequest: { description: 'A parameter is missing or invalid.', content: json(ref('Error'), { success: false, error: 'Invalid date parameters' }) },
+                NotFound: { description: 'No data for the request.', content: json(ref('Error'), { error: 'No data found for this date' }) },
+                InvalidApiKey: { description: 'The API key is unknown, expired or revoked.', content: json(ref('Error'), { error: 'Invalid, expired or revoked API key.' }) },
+                Forbidden: { description: 'The endpoint is disabled, restricted to other IPs/domains, or outside the key\'s scopes.', content: json(ref('Error'), { error: 'This API endpoint is disabled' }) },
+                QuotaExceeded: {
+                    description: 'Hourly, per-minute burst or daily quota used up.',
+                    headers: quotaExceededHeaders,
+                    content: json(ref('Error'), { error: 'Quota exceeded (100/hr). Please try again later.' }),
+                },
+                ServerError: { description: 'Unexpected server error.', content: json(ref('Error'), { success: false, error: 'Database query failed' }) },
+                V1BadRequest: v1ErrorResponse('A parameter is missing or invalid.', 'invalid_parameter', 'from and to must be YYYY-MM-DD dates, from <= to'),
+                V1NotFound: v1ErrorResponse('No data for the request.', 'not_found', 'No rates published for 2025-01-18'),
+                V1InvalidApiKey: v1ErrorResponse('The API key is unknown, expired or revoked.', 'invalid_api_key', 'Invalid, expired or revoked API key.'),
+                V1Forbidden: v1ErrorResponse('The endpoint is disabled, restricted to other IPs/domains, or outside the key\'s scopes.', 'forbidden', 'This API endpoint is disabled'),
+                V1QuotaExceeded: v1ErrorResponse('Hourly, per-minute burst or daily quota used up.', 'quota_exceeded', 'Quota exceeded (100/hr). Please try again later.', {
+                    headers: quotaExceededHeaders,
+                }),
+                V1ServerError: v1ErrorResponse('Unexpected server error.', 'internal_error', 'Database query failed'),
+            },
+        },
+    };
+}
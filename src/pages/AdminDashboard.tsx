@@ -22,12 +22,17 @@ import { apiClient } from '@/services/apiClient';
 import { UserProfile } from '@/worker-types';
 
 // Import Admin Components
-// import DataUpdateControl from '@/components/admin/DataUpdateControl'; // --- REMOVED ---
+import DataUpdateControl from '@/components/admin/DataUpdateControl';
+import HistoricalBackfill from '@/components/admin/HistoricalBackfill';
+import DataHealth from '@/components/admin/DataHealth';
 import ForexDataManagement from '@/components/admin/ForexDataManagement';
+import CurrencyManagement from '@/components/admin/CurrencyManagement';
 import PostsManagement from '@/components/admin/PostsManagement';
 import UserManagement from '@/components/admin/UserManagement';
 import SiteSettingsComponent from '@/components/admin/SiteSettings';
 import ApiSettings from '@/components/admin/ApiSettings';
+import Webhooks from '@/components/admin/Webhooks';
+import Newsletter from '@/components/admin/Newsletter';
 import ProfileForm from './ProfileForm'; // Assuming ProfileForm.tsx is in src/pages/
 import { Skeleton } from '@/components/ui/skeleton';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -39,7 +44,7 @@ const fetchProfile = async (): Promise<UserProfile> => {
 };
 
 const AdminDashboard = () => {
-  const { logout } = useAuth();
+  const { logout, can } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isEditingProfile, setIsEditingProfile] = useState(false); // State for toggling edit mode
@@ -98,12 +103,17 @@ const AdminDashboard = () => {
             <TabsList className="flex flex-wrap h-auto justify-start">
               {/* --- NEW: Dashboard Tab --- */}
               <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-              {/* --- REMOVED: Data Update Tab --- */}
-              <TabsTrigger value="forex-data">Forex Data</TabsTrigger>
-              <TabsTrigger value="posts">Posts</TabsTrigger>
-              <TabsTrigger value="users">Users</TabsTrigger>
-              <TabsTrigger value="site-settings">Site Settings</TabsTrigger>
-              <TabsTrigger value="api-settings">API Settings</TabsTrigger>
+              {/* Tabs are shown only for roles that can use them */}
+              {can('rates:write') && <TabsTrigger value="data-update">Data Update</TabsTrigger>}
+              {can('rates:read') && <TabsTrigger value="forex-data">Forex Data</TabsTrigger>}
+              {can('rates:read') && <TabsTrigger value="data-health">Data Health</TabsTrigger>}
+              {can('rates:read') && <TabsTrigger value="currencies">Currencies</TabsTrigger>}
+              {can('posts:read') && <TabsTrigger value="posts">Posts</TabsTrigger>}
+              {can('users:manage') && <TabsTrigger value="users">Users</TabsTrigger>}
+              {can('settings:write') && <TabsTrigger value="site-settings">Site Settings</TabsTrigger>}
+              {can('api:manage') && <TabsTrigger value="api-settings">API Settings</TabsTrigger>}
+              {can('api:manage') && <TabsTrigger value="webhooks">Webhooks</TabsTrigger>}
+              {can('newsletter:manage') && <TabsTrigger value="newsletter">Newsletter</TabsTrigger>}
             </TabsList>
 
             {/* --- NEW: Dashboard Tab Content (Profile View/Edit) --- */}
@@ -194,51 +204,109 @@ const AdminDashboard = () => {
             </TabsContent>
             {/* --- END: New Dashboard Tab --- */}
 
-            <TabsContent value="forex-data">
-              <ForexDataManagement />
-            </TabsContent>
-            <TabsContent value="posts">
-              <PostsManagement />
-            </TabsContent>
-            <TabsContent value="users">
-              <Card>
-                <CardHeader>
-                  <CardTitle>User Management</CardTitle>
-                  <CardDescription>
-                    Add or remove admin users.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <UserManagement />
-                </CardContent>
-              </Card>
-            </TabsContent>
-            <TabsContent value="site-settings">
+            {can('rates:write') && (
+              <TabsContent value="data-update">
+                <div className="space-y-6">
+                  <DataUpdateControl />
+                  <HistoricalBackfill />
+                </div>
+              </TabsContent>
+            )}
+            {can('rates:read') && (
+              <TabsContent value="forex-data">
+                <ForexDataManagement />
+              </TabsContent>
+            )}
+            {can('rates:read') && (
+              <TabsContent value="data-health">
+                <DataHealth />
+              </TabsContent>
+            )}
+            {can('rates:read') && (
+              <TabsContent value="currencies">
+                <CurrencyManagement />
+              </TabsContent>
+            )}
+            {can('posts:read') && (
+              <TabsContent value="posts">
+                <PostsManagement />
+              </TabsContent>
+            )}
+            {can('users:manage') && (
+              <TabsContent value="users">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Site Settings</CardTitle>
+                    <CardTitle>User Management</CardTitle>
                     <CardDescription>
-                      Manage global site settings like ticker and ads.
+                      Add or remove admin users.
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <SiteSettingsComponent />
+                    <UserManagement />
                   </CardContent>
                 </Card>
-            </TabsContent>
-            <TabsContent value="api-settings">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>API Settings</CardTitle>
-                    <CardDescription>
-                      Manage public API access, restrictions, and quotas.
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <ApiSettings />
-                  </CardContent>
-                </Card>
-            </TabsContent>
+              </TabsContent>
+            )}
+            {can('settings:write') && (
+              <TabsContent value="site-settings">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Site Settings</CardTitle>
+                      <CardDescription>
+                        Manage global site settings like ticker and ads.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <SiteSettingsComponent />
+                    </CardContent>
+                  </Card>
+              </TabsContent>
+            )}
+            {can('api:manage') && (
+              <TabsContent value="api-settings">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>API Settings</CardTitle>
+                      <CardDescription>
+                        Manage public API access, restrictions, and quotas.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ApiSettings />
+                    </CardContent>
+                  </Card>
+              </TabsContent>
+            )}
+            {can('api:manage') && (
+              <TabsContent value="webhooks">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Webhooks</CardTitle>
+                      <CardDescription>
+                        Notify other systems when rates are published or revised, or a post is published.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Webhooks />
+                    </CardContent>
+                  </Card>
+              </TabsContent>
+            )}
+            {can('newsletter:manage') && (
+              <TabsContent value="newsletter">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Newsletter</CardTitle>
+                      <CardDescription>
+                        Subscribers to the daily rates email and what was sent to them.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Newsletter />
+                    </CardContent>
+                  </Card>
+              </TabsContent>
+            )}
           </Tabs>
         </main>
       </div>
@@ -8,9 +8,10 @@ import { useToast } from '@/hooks/use-toast';
 import Layout from '@/components/Layout';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Loader2, Terminal, ShieldAlert, ShieldCheck, KeyRound } from 'lucide-react'; // Removed QrCode
-import { apiClient } from '@/services/apiClient'; // Import the API client
+import { apiClient, saveAuthSession } from '@/services/apiClient'; // Import the API client
 import { toast as sonnerToast } from "sonner"; // Import sonner
 import { Separator } from '@/components/ui/separator';
+import { beginTwoFactorStep, FirstFactorResult } from '@/lib/two-factor';
 
 // --- Google Auth Constants ---
 const GOOGLE_CLIENT_ID = "339956503165-ir1fqjjrso9sk79an6dqh3r69drm60q9.apps.googleusercontent.com";
@@ -201,10 +202,10 @@ const AdminLogin = () => {
       const data = await apiClient.post<{ 
         success: boolean; 
         token: string; 
+        refreshToken: string;
         username: string; 
-        mustChangePassword?: boolean;
         error?: string;
-      }>('/admin/login', {
+      } & FirstFactorResult>('/admin/login', {
         username,
         password,
         ipAddress,
@@ -216,16 +217,14 @@ const AdminLogin = () => {
         sessionStorage.removeItem(STEP_STORAGE_KEY);
         sessionStorage.removeItem(USERNAME_STORAGE_KEY);
 
-        localStorage.setItem('authToken', data.token);
-        localStorage.setItem('username', data.username);
-        toast({ title: "Login Successful", description: `Welcome, ${data.username}!` });
-
-        if (data.mustChangePassword) {
-          localStorage.setItem('forcePasswordChange', '1');
-          navigate('/admin/change-password', { replace: true });
+        if (beginTwoFactorStep(data)) {
+          navigate('/admin/login/2fa', { replace: true });
           return;
         }
 
+        saveAuthSession(data);
+        toast({ title: "Login Successful", description: `Welcome, ${data.username}!` });
+
         navigate('/admin/dashboard', { replace: true });
       } else {
         toast({ title: "Login Failed", description: data?.error || 'Invalid credentials', variant: "destructive" });
@@ -1,199 +1,27 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useQuery } from '@tanstack/react-query';
 import Layout from '@/components/Layout';
 import CopyCodeButton from '@/components/CopyCodeButton';
+import ApiOperationCard from '@/components/ApiOperationCard';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ExternalLink, Info, Zap } from 'lucide-react';
+import { AlertCircle, ExternalLink, Info, KeyRound } from 'lucide-react';
 import { Helmet } from 'react-helmet-async';
+import { OpenApiDocument, listOperations } from '@/lib/api-snippets';
 
 const BASE_URL = window.location.origin;
 
-interface EndpointDemoProps {
-  method: 'GET' | 'POST';
-  endpoint: string;
-  description: string;
-  example: string;
-  response: string;
-  params?: { name: string; type: string; description: string; required?: boolean }[];
-}
-
-const EndpointDemo = ({ method, endpoint, description, example, response, params }: EndpointDemoProps) => (
-  <Card className="mb-6 overflow-hidden border-border/40 shadow-sm">
-    <CardHeader className="bg-muted/30 pb-3">
-      <div className="flex items-center gap-3 mb-2">
-        <Badge variant={method === 'GET' ? 'default' : 'secondary'} className="font-mono">
-          {method}
-        </Badge>
-        <code className="text-sm font-semibold text-foreground">{endpoint}</code>
-      </div>
-      <CardDescription className="text-muted-foreground">{description}</CardDescription>
-    </CardHeader>
-    <CardContent className="p-4 space-y-4">
-      {params && params.length > 0 && (
-        <div>
-          <h4 className="text-sm font-semibold mb-2 text-foreground">Parameters</h4>
-          <div className="space-y-1.5">
-            {params.map((param, idx) => (
-              <div key={idx} className="text-sm flex items-start gap-2">
-                <code className="bg-muted px-1.5 py-0.5 rounded text-xs font-mono">{param.name}</code>
-                <span className="text-muted-foreground">
-                  ({param.type}) {param.required && <span className="text-destructive">*</span>}
-                  {param.description}
-                </span>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
-      
-      <div>
-        <h4 className="text-sm font-semibold mb-2 text-foreground flex items-center gap-2">
-          <Zap className="h-4 w-4 text-primary" />
-          Example Request
-        </h4>
-        <div className="relative group">
-          <pre className="bg-card border border-border rounded-md p-3 overflow-x-auto text-xs max-h-[400px] overflow-y-auto scrollbar-thin">
-            <code className="text-foreground font-mono">{example}</code>
-          </pre>
-          <CopyCodeButton codeToCopy={example} />
-        </div>
-      </div>
-
-      <div>
-        <h4 className="text-sm font-semibold mb-2 text-foreground">Example Response</h4>
-        <div className="relative group">
-          <pre className="bg-muted/50 border border-border rounded-md p-3 overflow-x-auto text-xs max-h-[400px] overflow-y-auto scrollbar-thin">
-            <code className="text-foreground font-mono">{response}</code>
-          </pre>
-          <CopyCodeButton codeToCopy={response} />
-        </div>
-      </div>
-    </CardContent>
-  </Card>
-);
-
-const ApiDocs = () => {
-  const [activeTab, setActiveTab] = useState('forex');
-
-  const forexEndpoints: EndpointDemoProps[] = [
-    {
-      method: 'GET',
-      endpoint: '/api/latest-rates',
-      description: 'Get the latest forex exchange rates for all currencies.',
-      example: `curl ${BASE_URL}/api/latest-rates`,
-      response: JSON.stringify({
-        date: '2025-01-15',
-        published_on: '2025-01-15 17:45:00',
-        modified_on: '2025-01-15 17:50:00',
-        rates: [
-          {
-            currency: { iso3: 'USD', name: 'U.S. Dollar', unit: 1 },
-            buy: '134.50',
-            sell: '135.10'
-          },
-          {
-            currency: { iso3: 'EUR', name: 'European Euro', unit: 1 },
-            buy: '145.20',
-            sell: '145.85'
-          }
-        ]
-      }, null, 2)
-    },
-    {
-      method: 'GET',
-      endpoint: '/api/rates/date/:date',
-      description: 'Get forex rates for a specific date (YYYY-MM-DD format).',
-      params: [
-        { name: 'date', type: 'string', description: 'Date in YYYY-MM-DD format', required: true }
-      ],
-      example: `curl ${BASE_URL}/api/rates/date/2025-01-15`,
-      response: JSON.stringify({
-        date: '2025-01-15',
-        published_on: '2025-01-15 17:45:00',
-        rates: [
-          {
-            currency: { iso3: 'USD', name: 'U.S. Dollar', unit: 1 },
-            buy: '134.50',
-            sell: '135.10'
-          }
-        ]
-      }, null, 2)
-    },
-    {
-      method: 'GET',
-      endpoint: '/api/historical-rates',
-      description: 'Get historical forex rates with optional date range filtering.',
-      params: [
-        { name: 'from', type: 'string', description: 'Start date (YYYY-MM-DD)', required: false },
-        { name: 'to', type: 'string', description: 'End date (YYYY-MM-DD)', required: false },
-        { name: 'limit', type: 'number', description: 'Max records to return (default: 100)', required: false }
-      ],
-      example: `curl "${BASE_URL}/api/historical-rates?from=2025-01-01&to=2025-01-15&limit=10"`,
-      response: JSON.stringify({
-        data: [
-          {
-            date: '2025-01-15',
-            published_on: '2025-01-15 17:45:00',
-            rates: [
-              {
-                currency: { iso3: 'USD', name: 'U.S. Dollar', unit: 1 },
-                buy: '134.50',
-                sell: '135.10'
-              }
-            ]
-          }
-        ],
-        meta: {
-          total: 10,
-          from: '2025-01-01',
-          to: '2025-01-15'
-        }
-      }, null, 2)
-    },
-    {
-      method: 'GET',
-      endpoint: '/api/archive/list',
-      description: 'Get a list of all available forex data dates in the archive.',
-      example: `curl ${BASE_URL}/api/archive/list`,
-      response: JSON.stringify({
-        dates: [
-          { date: '2025-01-15', published_on: '2025-01-15 17:45:00' },
-          { date: '2025-01-14', published_on: '2025-01-14 17:45:00' },
-          { date: '2025-01-13', published_on: '2025-01-13 17:45:00' }
-        ],
-        total: 365
-      }, null, 2)
-    },
-    {
-      method: 'GET',
-      endpoint: '/api/archive/detail/:date',
-      description: 'Get detailed forex data for a specific archived date.',
-      params: [
-        { name: 'date', type: 'string', description: 'Date in YYYY-MM-DD format', required: true }
-      ],
-      example: `curl ${BASE_URL}/api/archive/detail/2025-01-15`,
-      response: JSON.stringify({
-        date: '2025-01-15',
-        published_on: '2025-01-15 17:45:00',
-        modified_on: '2025-01-15 17:50:00',
-        rates: [
-          {
-            currency: { iso3: 'USD', name: 'U.S. Dollar', unit: 1 },
-            buy: '134.50',
-            sell: '135.10'
-          }
-        ]
-      }, null, 2)
-    }
-  ];
+const fetchOpenApiSpec = async (): Promise<OpenApiDocument> => {
+  const response = await fetch('/api/openapi.json');
+  if (!response.ok) throw new Error(`Failed to load the API description (${response.status})`);
+  return response.json();
+};
 
-  const imageEndpoint: EndpointDemoProps = {
-    method: 'GET',
-    endpoint: '/api/image/latest-rates',
-    description: 'Get an HTML snippet that renders latest forex rates as a table/grid. Perfect for embedding. Renders on client browser.',
-    example: `<!-- Embed as iframe -->
+const embedExample = `<!-- Embed as iframe -->
 <iframe 
   src="${BASE_URL}/api/image/latest-rates" 
   width="100%" 
@@ -210,9 +38,30 @@ const ApiDocs = () => {
       document.getElementById('forex-container').innerHTML = html;
     });
 </script>
-<div id="forex-container"></div>`,
-    response: `<!-- Returns fully styled HTML table with client-side rendering -->`
-  };
+<div id="forex-container"></div>`;
+
+const ApiDocs = () => {
+  const [activeTab, setActiveTab] = useState('forex');
+  const [apiKey, setApiKey] = useState('');
+
+  const apiKeyExample = `curl -H "X-API-Key: fxn_your_key_here" ${BASE_URL}/api/latest-rates
+
+# or, where headers can't be set
+curl "${BASE_URL}/api/latest-rates?key=fxn_your_key_here"`;
+
+  const { data: spec, isLoading, isError, error } = useQuery({
+    queryKey: ['openapi-spec'],
+    queryFn: fetchOpenApiSpec,
+    staleTime: 1000 * 60 * 60,
+    refetchOnWindowFocus: false,
+  });
+
+  const operations = spec ? listOperations(spec) : [];
+  const operationsByTag = (spec?.tags || [])
+    .filter(tag => tag.name !== 'Embed')
+    .map(tag => ({ tag, operations: operations.filter(op => op.tags?.includes(tag.name)) }))
+    .filter(group => group.operations.length > 0);
+  const embedOperations = operations.filter(op => op.tags?.includes('Embed'));
 
   return (
     <Layout>
@@ -233,14 +82,16 @@ const ApiDocs = () => {
             <AlertDescription>
               <strong>Base URL:</strong> <code className="bg-muted px-2 py-0.5 rounded">{BASE_URL}</code>
               <br />
-              All endpoints return JSON data. No authentication required.
+              All endpoints return JSON data. No authentication is required for public endpoints; server-to-server
+              clients should use an <a href="#api-keys" onClick={() => setActiveTab('keys')} className="text-primary hover:underline">API key</a>.
             </AlertDescription>
           </Alert>
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-grid">
             <TabsTrigger value="forex">Forex Data</TabsTrigger>
+            <TabsTrigger value="keys">API Keys</TabsTrigger>
             <TabsTrigger value="embed">Embed Widget</TabsTrigger>
             <TabsTrigger value="examples">Code Examples</TabsTrigger>
           </TabsList>
@@ -250,17 +101,105 @@ const ApiDocs = () => {
               <CardHeader>
                 <CardTitle>Forex Exchange Rate Endpoints</CardTitle>
                 <CardDescription>
-                  Access current and historical forex rates published by Nepal Rastra Bank
+                  Generated from the <a href="/api/openapi.json" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">OpenAPI document</a>,
+                  which you can also load into Postman, Insomnia or a client generator.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {forexEndpoints.map((endpoint, idx) => (
-                  <EndpointDemo key={idx} {...endpoint} />
+                <div className="flex flex-col max-w-sm mb-6">
+                  <Label htmlFor="docs-api-key" className="text-xs mb-1">API key (optional, used by Try It and the snippets)</Label>
+                  <Input
+                    id="docs-api-key"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value.trim())}
+                    placeholder="fxn_..."
+                    autoComplete="off"
+                    className="h-9 font-mono text-sm"
+                  />
+                </div>
+
+                {isLoading && (
+                  <div className="space-y-4">
+                    <Skeleton className="h-64 w-full" />
+                    <Skeleton className="h-64 w-full" />
+                  </div>
+                )}
+
+                {isError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error instanceof Error ? error.message : 'Failed to load the API description.'}</AlertDescription>
+                  </Alert>
+                )}
+
+                {spec && operationsByTag.map(({ tag, operations: tagOperations }) => (
+                  <section key={tag.name} className="mb-8">
+                    <h3 className="text-xl font-semibold mb-1">{tag.name}</h3>
+                    {tag.description && <p className="text-sm text-muted-foreground mb-4">{tag.description}</p>}
+                    {tagOperations.map(operation => (
+                      <ApiOperationCard
+                        key={`${operation.method} ${operation.path}`}
+                        spec={spec}
+                        operation={operation}
+                        baseUrl={BASE_URL}
+                        apiKey={apiKey}
+                      />
+                    ))}
+                  </section>
                 ))}
               </CardContent>
             </Card>
           </TabsContent>
 
+          <TabsContent value="keys" className="space-y-6" id="api-keys">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  API Keys
+                </CardTitle>
+                <CardDescription>
+                  Identify your application instead of relying on its IP address or domain
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div>
+                  <h4 className="font-semibold mb-2">Getting a key</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Keys are issued on request through the <a href="/contact" className="text-primary hover:underline">contact page</a>.
+                    Each key has its own hourly and daily quota, may be limited to certain endpoints, and may have an expiry date.
+                    The key is shown to you once; if it leaks, ask for it to be rotated and the old key stops working immediately.
+                  </p>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Sending the key</h4>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Send it in the <code className="bg-muted px-1.5 py-0.5 rounded text-xs">X-API-Key</code> header. The
+                    {' '}<code className="bg-muted px-1.5 py-0.5 rounded text-xs">?key=</code> parameter also works, but URLs end up in
+                    logs and browser history, so prefer the header.
+                  </p>
+                  <div className="relative group">
+                    <pre className="bg-card border border-border rounded-md p-3 overflow-x-auto text-xs">
+                      <code className="text-foreground font-mono">{apiKeyExample}</code>
+                    </pre>
+                    <CopyCodeButton codeToCopy={apiKeyExample} />
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Responses</h4>
+                  <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+                    <li>A request with a valid key skips IP/domain restrictions and the anonymous quota.</li>
+                    <li><code>401</code> — the key is unknown, expired or revoked. Requests with a bad key are never served anonymously.</li>
+                    <li><code>403</code> — the key isn't allowed to use this endpoint, or the endpoint is disabled.</li>
+                    <li><code>429</code> — the hourly or daily quota (UTC) is used up. <code>Retry-After</code> says how many seconds to wait.</li>
+                  </ul>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="embed" className="space-y-6">
             <Card>
               <CardHeader>
@@ -270,7 +209,23 @@ const ApiDocs = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <EndpointDemo {...imageEndpoint} />
+                {spec && embedOperations.map(operation => (
+                  <ApiOperationCard
+                    key={`${operation.method} ${operation.path}`}
+                    spec={spec}
+                    operation={operation}
+                    baseUrl={BASE_URL}
+                    apiKey={apiKey}
+                  />
+                ))}
+
+                <h4 className="text-sm font-semibold mb-2 text-foreground">Embedding</h4>
+                <div className="relative group">
+                  <pre className="bg-card border border-border rounded-md p-3 overflow-x-auto text-xs max-h-[400px] overflow-y-auto scrollbar-thin">
+                    <code className="text-foreground font-mono">{embedExample}</code>
+                  </pre>
+                  <CopyCodeButton codeToCopy={embedExample} />
+                </div>
                 
                 <Alert className="mt-6">
                   <Info className="h-4 w-4" />
@@ -376,7 +331,7 @@ function getHistorical($from, $to) {
                   <h4 className="font-semibold mb-2">🔒 Usage Guidelines</h4>
                   <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
                     <li>Attribution: Credit "Forex Nepal" when using data</li>
-                    <li>No authentication required for public endpoints</li>
+                    <li>No authentication required for public endpoints; use an API key for server-to-server access</li>
                     <li>Fair use policy - excessive requests may be rate limited</li>
                   </ul>
                 </div>
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
 import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, subMonths, isBefore, isAfter } from 'date-fns';
 import Layout from '@/components/Layout';
+import ExportDataButton from '@/components/ExportDataButton';
 
 const ITEMS_PER_PAGE = 61; // Approximately 2 months
 
@@ -16,7 +17,7 @@ const Archive = () => {
   const currentPage = pageSlug ? parseInt(pageSlug) : 1;
   // ---
   
-  const currentDate = new Date();
+  const currentDate = useMemo(() => new Date(), []);
   const currentYear = currentDate.getFullYear();
   const currentMonth = currentDate.getMonth() + 1;
 
@@ -76,6 +77,18 @@ const Archive = () => {
     return dates.sort((a, b) => b.getTime() - a.getTime()); // Newest first
   }, [selectedYear, selectedMonth, currentYear, currentMonth, currentDate]);
 
+  // Date range the current filters cover, for the data export
+  const exportRange = useMemo(() => {
+    const today = format(currentDate, 'yyyy-MM-dd');
+    if (selectedYear === 'all') return { from: '2000-01-01', to: today };
+    const start = selectedMonth === 'all'
+      ? new Date(parseInt(selectedYear), 0, 1)
+      : new Date(parseInt(selectedYear), parseInt(selectedMonth) - 1, 1);
+    const end = selectedMonth === 'all' ? new Date(parseInt(selectedYear), 11, 31) : endOfMonth(start);
+    const to = format(end, 'yyyy-MM-dd');
+    return { from: format(start, 'yyyy-MM-dd'), to: to > today ? today : to };
+  }, [selectedYear, selectedMonth, currentDate]);
+
   // Group dates by month
   const groupedDates = useMemo(() => {
     const groups: { [key: string]: Date[] } = {};
@@ -137,11 +150,12 @@ const Archive = () => {
 
         {/* Filters */}
         <Card className="mb-8">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
             <CardTitle className="flex items-center gap-2">
               <Calendar className="h-5 w-5" />
               Filter Archives
             </CardTitle>
+            <ExportDataButton from={exportRange.from} to={exportRange.to} />
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
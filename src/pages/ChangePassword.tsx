@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import Layout from '@/components/Layout';
 import { Loader2, KeyRound } from 'lucide-react';
+import { fetchWithAuth } from '@/services/apiClient';
 
 const ChangePassword = () => {
   const [newPassword, setNewPassword] = useState('');
@@ -47,7 +48,7 @@ const ChangePassword = () => {
     }
 
     try {
-      const response = await fetch('/api/admin/change-password', {
+      const response = await fetchWithAuth('/api/admin/change-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
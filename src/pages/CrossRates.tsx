@@ -0,0 +1,168 @@
+// src/pages/CrossRates.tsx
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Grid3x3 } from 'lucide-react';
+import Layout from '@/components/Layout';
+import DateInput from '@/components/DateInput';
+import ShareButtons from '@/components/ShareButtons';
+import FlagIcon from './FlagIcon';
+import { fetchCrossRates } from '../services/d1ForexService';
+import { isValidDateString } from '../lib/validation';
+import type { RateSide } from '../types/forex';
+
+const SIDE_LABELS: Record<RateSide, string> = {
+  mid: 'Mid (average of buy and sell)',
+  buy: 'Buying rates',
+  sell: 'Selling rates',
+};
+
+// Keeps small and large rates readable: 0.0089 and 1,543.2 alike
+const formatRate = (value: number | null): string => {
+  if (value === null) return '—';
+  if (value >= 1000) return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return Number(value.toPrecision(5)).toString();
+};
+
+const CrossRates = () => {
+  const [date, setDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [side, setSide] = useState<RateSide>('mid');
+  const [perQuotedUnit, setPerQuotedUnit] = useState(false);
+
+  const isDateValid = isValidDateString(date);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['crossRates', date, side],
+    queryFn: () => fetchCrossRates(date, side),
+    enabled: isDateValid,
+    staleTime: 1000 * 60 * 15,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  return (
+    <Layout>
+      <div className="py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">Cross Rates</h1>
+            <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+              Every currency against every other, derived from Nepal Rastra Bank's NPR rates.
+            </p>
+          </div>
+
+          <div className="flex justify-center mb-6">
+            <ShareButtons title="Cross Rates Matrix - Nepal Rastra Bank" className="flex-nowrap" />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Grid3x3 className="h-5 w-5" />
+                {data ? `Rates for ${data.date}` : 'Cross-Rate Matrix'}
+              </CardTitle>
+              <CardDescription>
+                Each cell shows how many units of the column currency one unit of the row currency buys.
+                Both legs go through NPR on the chosen side.
+                {data && data.date !== date && ` No rates were published on ${date}, so the latest earlier rates are shown.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-end gap-4 mb-6">
+                <div className="flex flex-col">
+                  <Label htmlFor="cross-rates-date" className="text-xs mb-1">Date (YYYY-MM-DD)</Label>
+                  <DateInput id="cross-rates-date" value={date} onChange={setDate} className="w-36 h-9" />
+                </div>
+                <div className="flex flex-col">
+                  <Label className="text-xs mb-1">Rates</Label>
+                  <Select value={side} onValueChange={(value) => setSide(value as RateSide)}>
+                    <SelectTrigger className="w-64 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SIDE_LABELS) as RateSide[]).map(key => (
+                        <SelectItem key={key} value={key}>{SIDE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 h-9">
+                  <Switch id="per-quoted-unit" checked={perQuotedUnit} onCheckedChange={setPerQuotedUnit} />
+                  <Label htmlFor="per-quoted-unit" className="text-sm">Rows per NRB unit (e.g. 100 INR)</Label>
+                </div>
+              </div>
+
+              {!isDateValid && (
+                <p className="text-sm text-muted-foreground">Enter a date as YYYY-MM-DD.</p>
+              )}
+
+              {isLoading && isDateValid && <Skeleton className="h-[480px] w-full" />}
+
+              {isError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Could not load cross rates</AlertTitle>
+                  <AlertDescription>{error instanceof Error ? error.message : 'Please try again later.'}</AlertDescription>
+                </Alert>
+              )}
+
+              {data && (
+                <div className="overflow-auto max-h-[70vh] border rounded-lg">
+                  <table className="text-sm border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="sticky top-0 left-0 z-20 bg-muted px-3 py-2 text-left">From \ To</th>
+                        {data.currencies.map(to => (
+                          <th key={to} className="sticky top-0 z-10 bg-muted px-3 py-2 font-semibold whitespace-nowrap">
+                            <span className="inline-flex items-center gap-1">
+                              {to !== 'NPR' && <FlagIcon iso3={to} />}
+                              {to}
+                            </span>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.currencies.map(from => {
+                        const multiplier = perQuotedUnit ? data.units[from] : 1;
+                        return (
+                          <tr key={from} className="border-t">
+                            <th className="sticky left-0 z-10 bg-muted px-3 py-2 text-left font-semibold whitespace-nowrap">
+                              <span className="inline-flex items-center gap-1">
+                                {from !== 'NPR' && <FlagIcon iso3={from} />}
+                                {multiplier} {from}
+                              </span>
+                            </th>
+                            {data.currencies.map(to => {
+                              const rate = data.rates[from][to];
+                              return (
+                                <td
+                                  key={to}
+                                  className={`px-3 py-2 text-right font-mono whitespace-nowrap ${from === to ? 'bg-muted/50 text-muted-foreground' : ''}`}
+                                >
+                                  {formatRate(rate === null ? null : rate * multiplier)}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default CrossRates;
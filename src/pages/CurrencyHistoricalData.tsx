@@ -4,8 +4,8 @@ import { Button } from '@/components/ui/button';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { getFlagEmoji, fetchFromNRBApi as fetchFromNRBApiRaw } from '../services/forexService';
 import { fetchRatesForDateWithCache } from '../services/d1ForexService';
-import { ChartDataPoint } from '../types/forex';
-import { format, subDays, parseISO, addDays, differenceInDays, isValid, subYears } from 'date-fns';
+import { ChartDataPoint, RateStatsPeriod, RateStatsResponse } from '../types/forex';
+import { format, subDays, parseISO, addDays, isValid, subYears } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import Layout from '@/components/Layout';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -13,8 +13,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertCircle, ArrowLeft, RefreshCw, Loader2, ChevronLeft, ChevronRight, Download } from 'lucide-react'; // Added Download
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import ShareButtons from '@/components/ShareButtons';
+import ExportDataButton from '@/components/ExportDataButton';
 import DateInput from '@/components/DateInput';
 import { canMakeChartRequest, recordChartRequest, getRemainingRequests } from '@/utils/chartRateLimiter';
 import { toast as sonnerToast } from 'sonner';
@@ -118,50 +118,35 @@ const fetchWeekDataWithFallback = async (currency: string, fromDate: string, toD
 };
 
 /**
- * (Demand 3 & 4)
- * Fetches full daily data from NRB API in 90-day chunks and NORMALIZES it.
- * Note: Rate limiting is handled by the *caller* of this function.
+ * Fetches the period summary (OHLC, mean, change) aggregated by the worker.
+ * Returns null when the DB has no rates for the range, so the caller can fall back.
  */
-const loadDailyDataInChunks = async (
-  currency: string, 
-  fromDate: string, 
-  toDate: string,
-  unit: number,
-  onProgress: (progress: { percent: number, current: number, total: number }) => void
-): Promise<ChartDataPoint[]> => {
-  const from = parseISO(fromDate);
-  const to = parseISO(toDate);
-  const daysDiff = Math.ceil((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-  const chunkSize = 90;
-  const chunks = Math.ceil(daysDiff / chunkSize);
-  
-  let allData: ChartDataPoint[] = [];
-  
-  for (let i = 0; i < chunks; i++) {
-    const chunkStart = addDays(from, i * chunkSize);
-    let chunkEnd = addDays(chunkStart, chunkSize - 1);
-    if (chunkEnd > to) chunkEnd = to;
-    
-    const chunkFromDate = format(chunkStart, 'yyyy-MM-dd');
-    const chunkToDate = format(chunkEnd, 'yyyy-MM-dd');
+const fetchRateStats = async (currency: string, fromDate: string, toDate: string): Promise<RateStatsPeriod | null> => {
+  const response = await fetchWithTimeout(`/api/stats/${currency}?from=${fromDate}&to=${toDate}`, 5000);
+  if (!response.ok) {
+    throw new Error(`Failed to load statistics (${response.status})`);
+  }
+  const result: RateStatsResponse = await response.json();
+  return result.success ? result.summary : null;
+};
 
-    // (Demand 9) Report progress
-    onProgress({ percent: ((i + 1) / chunks) * 100, current: i + 1, total: chunks });
-    
-    // This is the external API call
-    const chunkData = await fetchFromNRBApiRaw(
-      currency,
-      chunkFromDate,
-      chunkToDate,
-      unit
-    );
-    
-    allData = [...allData, ...chunkData];
+// Point budget for ranges longer than a week; the worker keeps the most telling days (LTTB)
+const CHART_MAX_POINTS = 500;
+
+/**
+ * Fetches the range from the DB, downsampled by the worker to at most CHART_MAX_POINTS.
+ * The first and last days and the highs and lows are always included.
+ */
+const loadDownsampledData = async (currency: string, fromDate: string, toDate: string): Promise<{ data: ChartDataPoint[], sampled: boolean }> => {
+  const response = await fetchWithTimeout(
+    `/api/historical-rates?currency=${currency}&from=${fromDate}&to=${toDate}&max_points=${CHART_MAX_POINTS}`,
+    15000
+  );
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success || !Array.isArray(result.data)) {
+    throw new Error(result?.error || `Failed to load chart data (${response.status})`);
   }
-  
-  // De-duplicate (in case of overlapping chunk fetches) and sort
-  const uniqueData = Array.from(new Map(allData.map(item => [item.date, item])).values());
-  return uniqueData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return { data: result.data, sampled: result.data.length < result.total_points };
 };
 
 /**
@@ -186,7 +171,7 @@ const generateINRFixedData = (fromDate: string, toDate: string, unit: number): C
 };
 
 
-// Calculate statistics
+// Calculate statistics client-side (used when the stats endpoint has nothing for the range)
 const calculateStats = (data: ChartDataPoint[]) => {
   if (data.length === 0) {
     return { high: 0, low: 0, change: 0, changePercent: 0, firstRate: 0, lastRate: 0 };
@@ -260,7 +245,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
 // --- Query Result Type ---
 type QueryResult = {
   data: ChartDataPoint[];
-  samplingUsed: string; // "daily" or "daily (fixed)"
+  samplingUsed: string; // "daily", "daily (fixed)" or "downsampled"
 }
 
 // Main Component
@@ -268,12 +253,8 @@ const CurrencyHistoricalData: React.FC = () => {
   const { currencyCode } = useParams<{ currencyCode: string }>();
   const navigate = useNavigate();
   const [range, setRange] = useState<RangeKey>('week');
-  const [dailyLoadProgress, setDailyLoadProgress] = useState<{ percent: number, current: number, total: number } | null>(null);
   const [cooldownTimer, setCooldownTimer] = useState<number>(0);
   const exportableCardRef = useRef<HTMLDivElement>(null); // --- NEW: Ref for the whole card ---
-  
-  // (Demand 4) State to trigger long-range (>3Y) queries
-  const [isLongRangeJobRunning, setIsLongRangeJobRunning] = useState(false);
 
   // (Demand 4) Default custom range to 4 years
   const todayStr = format(new Date(), 'yyyy-MM-dd');
@@ -311,30 +292,23 @@ const CurrencyHistoricalData: React.FC = () => {
   }, [inrCheckData, upperCaseCurrencyCode]);
 
   // Calculate date range
-  const { fromDate, toDate, rangeInDays } = useMemo(() => {
+  const { fromDate, toDate } = useMemo(() => {
     if (range === 'custom') {
       if (isValidDateString(customFromDate) && isValidDateString(customToDate) && isValidDateRange(customFromDate, customToDate)) {
-        const from = parseISO(customFromDate);
-        const to = parseISO(customToDate);
-        const days = differenceInDays(to, from) + 1;
-        return { fromDate: customFromDate, toDate: customToDate, rangeInDays: days };
+        return { fromDate: customFromDate, toDate: customToDate };
       }
-      return { fromDate: fourYearsAgoStr, toDate: todayStr, rangeInDays: 365 * 4 };
+      return { fromDate: fourYearsAgoStr, toDate: todayStr };
     }
     const days = DATE_RANGES[range]?.days || 7;
     return {
       fromDate: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'),
-      toDate: todayStr,
-      rangeInDays: days
+      toDate: todayStr
     };
   }, [range, customFromDate, customToDate, todayStr, fourYearsAgoStr]);
 
-  // (Demand 4) Check if the current range is long (> 3 years)
-  const isLongRange = rangeInDays > (365 * 3);
-
   // --- Main Data Fetching Query ---
   const { data: queryResult, isLoading, isError, error, isRefetching } = useQuery<QueryResult>({
-    queryKey: ['currency-chart', upperCaseCurrencyCode, range, fromDate, toDate, isLongRangeJobRunning],
+    queryKey: ['currency-chart', upperCaseCurrencyCode, range, fromDate, toDate],
     queryFn: async () => {
       // (Demand 1) INR Special Case
       if (isINRFixed) {
@@ -350,33 +324,12 @@ const CurrencyHistoricalData: React.FC = () => {
         return { data, samplingUsed: 'daily' };
       }
 
-      // (Demand 3 & 4) All other tabs (1M+, Custom) use NRB API + 90-day chunking
-      const limitCheck = canMakeChartRequest(rangeInDays);
-      if (!limitCheck.allowed) {
-        Promise.resolve().then(() => setCooldownTimer(limitCheck.cooldownSeconds!));
-        throw new Error(limitCheck.reason || 'Rate limit exceeded on fallback');
-      }
-      recordChartRequest(rangeInDays);
-
-      // (Demand 9) Set progress bar to 0%
-      Promise.resolve().then(() => setDailyLoadProgress({ percent: 0, current: 0, total: 0 }));
-      
-      const data = await loadDailyDataInChunks(
-        upperCaseCurrencyCode,
-        fromDate,
-        toDate,
-        unit,
-        (progress) => Promise.resolve().then(() => setDailyLoadProgress(progress))
-      );
-      
-      Promise.resolve().then(() => setDailyLoadProgress(null));
-      return { data, samplingUsed: 'daily' };
+      // All other tabs (1M+, Custom) come from the DB, downsampled server-side
+      const { data, sampled } = await loadDownsampledData(upperCaseCurrencyCode, fromDate, toDate);
+      return { data, samplingUsed: sampled ? 'downsampled' : 'daily' };
     },
     // (Demand 4) NEW: Enable logic
-    enabled: !!(
-      (upperCaseCurrencyCode === 'INR' ? !isCheckingINR : !!currencyInfo) && // Base check
-      (!isLongRange || isLongRangeJobRunning) // -> AND ( (NOT long range) OR (IS long range AND button clicked) )
-    ),
+    enabled: upperCaseCurrencyCode === 'INR' ? !isCheckingINR : !!currencyInfo,
     staleTime: 1000 * 60 * 10,
     retry: false, // Don't retry on rate-limit errors
     // (Demand 11) NO CACHING
@@ -384,12 +337,19 @@ const CurrencyHistoricalData: React.FC = () => {
 
   const chartData = queryResult?.data;
 
+  // --- Period statistics, aggregated in SQL ---
+  const { data: serverStats } = useQuery({
+    queryKey: ['currency-stats', upperCaseCurrencyCode, fromDate, toDate],
+    queryFn: () => fetchRateStats(upperCaseCurrencyCode, fromDate, toDate),
+    enabled: !!currencyInfo && !isINRFixed,
+    staleTime: 1000 * 60 * 10,
+    retry: false,
+  });
+
   // --- Handlers ---
   const handleRangeChange = (newRange: RangeKey) => {
     // (Demand 5) This triggers the lazy-loading query
     setRange(newRange);
-    // (Demand 4) Reset the "load data" button click state
-    setIsLongRangeJobRunning(false); 
   };
 
   const handleCustomApply = () => {
@@ -401,8 +361,6 @@ const CurrencyHistoricalData: React.FC = () => {
       sonnerToast.error("Invalid date range", { description: "Start date must be before end date." });
       return;
     }
-    // (Demand 4) Reset the "load data" button click state
-    setIsLongRangeJobRunning(false);
   };
 
   // --- UPDATED: Export Chart Function ---
@@ -460,11 +418,20 @@ const CurrencyHistoricalData: React.FC = () => {
   // --- Memoized calculations ---
   const processedData = useMemo(() => {
     if (!chartData) return { chartData: [], stats: calculateStats([]) };
-    const stats = calculateStats(chartData);
-    // (Demand 1) CRITICAL: Do not gap-fill INR data
-    const filled = isINRFixed ? chartData : processChartData(chartData);
+    const stats = serverStats
+      ? {
+          high: serverStats.buy.high,
+          low: serverStats.buy.low,
+          change: serverStats.buy.close - serverStats.buy.open,
+          changePercent: serverStats.buy.change_pct,
+          firstRate: serverStats.buy.open,
+          lastRate: serverStats.buy.close,
+        }
+      : calculateStats(chartData);
+    // (Demand 1) CRITICAL: Do not gap-fill INR data, nor downsampled data (its gaps are deliberate)
+    const filled = isINRFixed || queryResult?.samplingUsed === 'downsampled' ? chartData : processChartData(chartData);
     return { chartData: filled, stats };
-  }, [chartData, isINRFixed]);
+  }, [chartData, isINRFixed, serverStats, queryResult?.samplingUsed]);
 
   const changeColor = processedData.stats.change >= 0 ? 'text-green-600' : 'text-red-600';
   const pageTitle = `Historical Data for ${name} (${upperCaseCurrencyCode})`;
@@ -540,6 +507,7 @@ const CurrencyHistoricalData: React.FC = () => {
                   <Download className="h-4 w-4 mr-2" />
                   Export Chart
                 </Button>
+                <ExportDataButton from={fromDate} to={toDate} currencies={[upperCaseCurrencyCode]} />
               </div>
             </div>
           </CardHeader>
@@ -587,40 +555,10 @@ const CurrencyHistoricalData: React.FC = () => {
                   </div>
                 )}
                 
-                {/* (Demand 4) NEW: Button for long-range data */}
-                {isLongRange && !isLongRangeJobRunning && !isPageLoading && !isError && (
-                  <div className="absolute inset-0 flex flex-col items-center justify-center z-10 space-y-4">
-                    <p className="text-lg font-medium text-center">Load {DATE_RANGES[range].label} Data?</p>
-                    <p className="text-sm text-muted-foreground text-center max-w-xs">
-                      Fetching full daily data for this range may take some time.
-                    </p>
-                    <Button
-                      size="lg"
-                      onClick={() => setIsLongRangeJobRunning(true)} // This triggers the query
-                      disabled={isUpdating || cooldownTimer > 0}
-                    >
-                      {cooldownTimer > 0 ? `Please wait ${cooldownTimer}s` : "Load Daily Data"}
-                    </Button>
-                  </div>
-                )}
-                
-                {/* (Demand 9) NEW: Progress Bar / Loading Overlay */}
-                {(dailyLoadProgress !== null || (isUpdating && !isPageLoading)) && (
-                   <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center z-10 space-y-4">
+                {/* Loading overlay while switching ranges */}
+                {isUpdating && !isPageLoading && (
+                  <div className="absolute inset-0 bg-background/80 flex items-center justify-center z-10">
                     <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                    {dailyLoadProgress !== null && (
-                      <div className="w-1/2 max-w-xs space-y-2">
-                        <p className="text-center text-sm text-muted-foreground">
-                          {dailyLoadProgress.current > 0 
-                            ? `Fetched chunk ${dailyLoadProgress.current} of ${dailyLoadProgress.total}...`
-                            : "Starting data fetch..."}
-                        </p>
-                        <Progress value={dailyLoadProgress.percent} />
-                        <p className="text-center text-xs text-muted-foreground">
-                          {dailyLoadProgress.percent.toFixed(0)}%
-                        </p>
-                      </div>
-                    )}
                   </div>
                 )}
 
@@ -636,7 +574,7 @@ const CurrencyHistoricalData: React.FC = () => {
                 )}
 
                 {/* No data state */}
-                {!isPageLoading && !isError && (!processedData.chartData || processedData.chartData.length === 0) && (!isLongRange || isLongRangeJobRunning) && (
+                {!isPageLoading && !isError && (!processedData.chartData || processedData.chartData.length === 0) && (
                   <Alert>
                     <AlertCircle className="h-4 w-4" />
                     <AlertTitle>No Data Available</AlertTitle>
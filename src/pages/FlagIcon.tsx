@@ -1,5 +1,6 @@
 import React from 'react';
 import { cn } from "@/lib/utils";
+import { useCurrencies } from '@/hooks/use-currencies';
 
 const iso3ToIso2Map: { [key: string]: string } = {
   "USD": "us", "EUR": "eu", "GBP": "gb", "CHF": "ch", "AUD": "au",
@@ -16,10 +17,13 @@ interface FlagIconProps {
 
 /**
  * Renders a flag icon using the 'flag-icon-css' library.
- * Converts 3-letter ISO currency code to 2-letter ISO country code.
+ * Converts 3-letter ISO currency code to 2-letter ISO country code,
+ * preferring the flag set in the currency registry.
  */
 const FlagIcon: React.FC<FlagIconProps> = ({ iso3, className }) => {
-  const iso2 = iso3ToIso2Map[iso3?.toUpperCase()] || null;
+  const { data: currencies } = useCurrencies();
+  const code = iso3?.toUpperCase();
+  const iso2 = currencies?.find(c => c.iso3 === code)?.flag_code || iso3ToIso2Map[code] || null;
 
   if (!iso2) {
     return <span className={cn("fi fi-xx", className)}></span>; // 'xx' is a generic flag
@@ -5,7 +5,8 @@ import { Loader2, AlertCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { apiClient } from '@/services/apiClient';
+import { apiClient, saveAuthSession } from '@/services/apiClient';
+import { beginTwoFactorStep, FirstFactorResult } from '@/lib/two-factor';
 
 type Status = 'loading' | 'success' | 'error';
 
@@ -38,14 +39,16 @@ const GoogleAuthCallback = () => {
         const data = await apiClient.post<{
           success: boolean;
           token: string;
+          refreshToken: string;
           username: string;
           error?: string;
-        }>('/admin/auth/google/callback', { code });
+        } & FirstFactorResult>('/admin/auth/google/callback', { code });
 
-        if (data.success) {
+        if (data.success && beginTwoFactorStep(data)) {
+          navigate('/admin/login/2fa', { replace: true });
+        } else if (data.success) {
           // Store token and navigate to dashboard
-          localStorage.setItem('authToken', data.token);
-          localStorage.setItem('username', data.username);
+          saveAuthSession(data);
           setStatus('success');
           navigate('/admin/dashboard', { replace: true });
         } else {
@@ -12,6 +12,7 @@ import { RefreshCw, Gitlab, List, Grid3X3, Download, ChevronLeft, ChevronRight }
 import { useToast } from '@/components/ui/use-toast';
 import Layout from '@/components/Layout';
 import AdSense from '@/components/AdSense';
+import NewsletterSignup from '@/components/NewsletterSignup';
 import html2canvas from 'html2canvas';
 import { cn } from "@/lib/utils";
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -21,6 +22,9 @@ import { format, subDays, addDays } from 'date-fns';
 import { fetchRatesForDateWithCache } from '../services/d1ForexService'; 
 // --- END TASK 4 ---
 
+import { useCurrencies, REGION_LABELS } from '@/hooks/use-currencies';
+import { CurrencyRegion } from '@/worker-types';
+
 // --- NEW: Import getFlagEmoji ---
 import { getFlagEmoji } from '../services/forexService';
 
@@ -28,13 +32,13 @@ const Index = () => {
   const queryClient = useQueryClient();
   const [viewMode, setViewMode] = useState<'table' | 'grid'>('table');
   const [popularCurrencies, setPopularCurrencies] = useState<Rate[]>([]);
-  const [asianCurrencies, setAsianCurrencies] = useState<Rate[]>([]);
-  const [europeanCurrencies, setEuropeanCurrencies] = useState<Rate[]>([]);
-  const [middleEastCurrencies, setMiddleEastCurrencies] = useState<Rate[]>([]);
-  const [otherCurrencies, setOtherCurrencies] = useState<Rate[]>([]);
+  const [regionCurrencies, setRegionCurrencies] = useState<Record<CurrencyRegion, Rate[]>>({
+    'asian': [], 'european': [], 'middle-east': [], 'other': [],
+  });
   const [previousDayRates, setPreviousDayRates] = useState<Rate[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const { toast } = useToast();
+  const { data: currencies } = useCurrencies();
 
   const selectedDateString = format(selectedDate, 'yyyy-MM-dd');
   const previousDateString = format(subDays(selectedDate, 1), 'yyyy-MM-dd');
@@ -99,31 +103,22 @@ const Index = () => {
       const allRates = displayData.rates;
 
       const popularCodes = ['USD', 'EUR', 'GBP', 'AUD', 'JPY', 'CHF'];
-      const asianCodes = ['JPY', 'CNY', 'SGD', 'HKD', 'MYR', 'KRW', 'THB', 'INR'];
-      const europeanCodes = ['EUR', 'GBP', 'CHF', 'SEK', 'DKK'];
-      const middleEastCodes = ['SAR', 'QAR', 'AED', 'KWD', 'BHD', 'OMR'];
-
-      const popular = allRates.filter(rate => popularCodes.includes(rate.currency.iso3));
-      const asian = allRates.filter(rate => asianCodes.includes(rate.currency.iso3));
-      const european = allRates.filter(rate => europeanCodes.includes(rate.currency.iso3));
-      const middleEast = allRates.filter(rate => middleEastCodes.includes(rate.currency.iso3));
-
-      const allCategorizedCodes = [...new Set([...popularCodes, ...asianCodes, ...europeanCodes, ...middleEastCodes])];
-      const others = allRates.filter(rate => !allCategorizedCodes.includes(rate.currency.iso3));
-
-      setPopularCurrencies(popular);
-      setAsianCurrencies(asian);
-      setEuropeanCurrencies(european);
-      setMiddleEastCurrencies(middleEast);
-      setOtherCurrencies(others);
+      // Regions come from the currency registry; anything unregistered lands in 'other'.
+      const regionByCode = new Map((currencies || []).map(c => [c.iso3, c.region]));
+
+      const grouped: Record<CurrencyRegion, Rate[]> = { 'asian': [], 'european': [], 'middle-east': [], 'other': [] };
+      allRates.forEach(rate => {
+        const region = regionByCode.get(rate.currency.iso3) || 'other';
+        (grouped[region] || grouped.other).push(rate);
+      });
+
+      setPopularCurrencies(allRates.filter(rate => popularCodes.includes(rate.currency.iso3)));
+      setRegionCurrencies(grouped);
     } else {
         setPopularCurrencies([]);
-        setAsianCurrencies([]);
-        setEuropeanCurrencies([]);
-        setMiddleEastCurrencies([]);
-        setOtherCurrencies([]);
+        setRegionCurrencies({ 'asian': [], 'european': [], 'middle-east': [], 'other': [] });
     }
-  }, [displayData]); // --- UPDATE: Depend on displayData ---
+  }, [displayData, currencies]); // --- UPDATE: Depend on displayData ---
 
   const handleRefresh = async () => {
     toast({
@@ -752,10 +747,9 @@ const Index = () => {
                 )}>
                 <TabsTrigger value="all">All Currencies</TabsTrigger>
                 <TabsTrigger value="popular">Popular</TabsTrigger>
-                <TabsTrigger value="asian">Asian</TabsTrigger>
-                <TabsTrigger value="european">European</TabsTrigger>
-                <TabsTrigger value="middle-east">Middle East</TabsTrigger>
-                <TabsTrigger value="other">Other</TabsTrigger>
+                {(Object.keys(REGION_LABELS) as CurrencyRegion[]).map(region => (
+                  <TabsTrigger key={region} value={region}>{REGION_LABELS[region]}</TabsTrigger>
+                ))}
               </TabsList>
             </div>
 
@@ -781,47 +775,21 @@ const Index = () => {
               )}
             </TabsContent>
 
-            <TabsContent value="asian" className="animate-fade-in">
-              {viewMode === 'table' ? (
-                <div id="forex-table-container">
-                  <ForexTable rates={asianCurrencies} isLoading={isLoading || isLoadingPrevDay} title="" previousDayRates={previousDayRates} />
-                </div>
-              ) : (
-                 renderGridCards(asianCurrencies)
-              )}
-            </TabsContent>
-
-            <TabsContent value="european" className="animate-fade-in">
-              {viewMode === 'table' ? (
-                <div id="forex-table-container">
-                  <ForexTable rates={europeanCurrencies} isLoading={isLoading || isLoadingPrevDay} title="" previousDayRates={previousDayRates} />
-                </div>
-              ) : (
-                 renderGridCards(europeanCurrencies)
-              )}
-            </TabsContent>
-
-            <TabsContent value="middle-east" className="animate-fade-in">
-              {viewMode === 'table' ? (
-                <div id="forex-table-container">
-                  <ForexTable rates={middleEastCurrencies} isLoading={isLoading || isLoadingPrevDay} title="" previousDayRates={previousDayRates} />
-                </div>
-              ) : (
-                 renderGridCards(middleEastCurrencies)
-              )}
-            </TabsContent>
-
-             <TabsContent value="other" className="animate-fade-in">
-               {viewMode === 'table' ? (
-                 <div id="forex-table-container">
-                   <ForexTable rates={otherCurrencies} isLoading={isLoading || isLoadingPrevDay} title="" previousDayRates={previousDayRates} />
-                 </div>
-               ) : (
-                  renderGridCards(otherCurrencies)
-               )}
-             </TabsContent>
+            {(Object.keys(REGION_LABELS) as CurrencyRegion[]).map(region => (
+              <TabsContent key={region} value={region} className="animate-fade-in">
+                {viewMode === 'table' ? (
+                  <div id="forex-table-container">
+                    <ForexTable rates={regionCurrencies[region]} isLoading={isLoading || isLoadingPrevDay} title="" previousDayRates={previousDayRates} />
+                  </div>
+                ) : (
+                   renderGridCards(regionCurrencies[region])
+                )}
+              </TabsContent>
+            ))}
           </Tabs>
 
+          <NewsletterSignup className="mb-8" />
+
           {/* Info and AdSense sections */}
            <div className="bg-white/80 backdrop-blur-sm rounded-xl p-6 mb-8 border border-gray-100">
              <h2 className="text-xl font-semibold mb-3 text-gray-900">About Nepal's Foreign Exchange Rates</h2>
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, ArrowLeft, Save } from 'lucide-react';
+import { fetchWithAuth } from '@/services/apiClient';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 
@@ -88,7 +89,7 @@ const PostEditor = () => {
           return;
         }
         try {
-          const response = await fetch(`/api/admin/posts/${id}`, {
+          const response = await fetchWithAuth(`/api/admin/posts/${id}`, {
             headers: { 'Authorization': `Bearer ${token}` }
           });
           if (!response.ok) throw new Error("Failed to fetch post data");
@@ -175,7 +176,7 @@ const PostEditor = () => {
 
 
     try {
-      const response = await fetch(apiUrl, {
+      const response = await fetchWithAuth(apiUrl, {
         method: method,
         headers: {
           'Content-Type': 'application/json',
@@ -21,6 +21,8 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import TwoFactorSettings from '@/components/admin/TwoFactorSettings';
+import ActiveSessions from '@/components/admin/ActiveSessions';
 
 // Schema for validation
 const profileSchema = z.object({
@@ -112,6 +114,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSave, onCancel })
   const emailChanged = watchedEmail !== currentEmail;
 
   return (
+    <>
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
         {/* --- Profile Details --- */}
@@ -262,6 +265,13 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSave, onCancel })
         </div>
       </form>
     </Form>
+
+    {/* Outside the form: 2FA changes are saved on their own */}
+    <Separator className="my-6" />
+    <TwoFactorSettings />
+    <Separator className="my-6" />
+    <ActiveSessions />
+    </>
   );
 };
 
@@ -0,0 +1,197 @@
+// src/pages/RateAlerts.tsx
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, BellRing, Loader2, MailCheck } from 'lucide-react';
+import Layout from '@/components/Layout';
+import FlagIcon from './FlagIcon';
+import { useCurrencies } from '@/hooks/use-currencies';
+import { apiClient } from '@/services/apiClient';
+import { fetchTodayAndYesterday } from '../services/d1ForexService';
+import type { RateAlertCondition, RateAlertRequest, RateAlertSide } from '@/worker-types';
+
+const SIDE_LABELS: Record<RateAlertSide, string> = {
+  buy: 'Buying rate',
+  sell: 'Selling rate',
+};
+
+const CONDITION_LABELS: Record<RateAlertCondition, string> = {
+  above: 'Rises above',
+  below: 'Falls below',
+  percent_change: 'Moves by at least (%)',
+};
+
+const RateAlerts = () => {
+  const [iso3, setIso3] = useState('USD');
+  const [side, setSide] = useState<RateAlertSide>('sell');
+  const [condition, setCondition] = useState<RateAlertCondition>('above');
+  const [threshold, setThreshold] = useState('');
+  const [email, setEmail] = useState('');
+
+  const { data: currencies } = useCurrencies();
+  const { data: latest } = useQuery({
+    queryKey: ['todayAndYesterday'],
+    queryFn: fetchTodayAndYesterday,
+    staleTime: 1000 * 60 * 15,
+  });
+
+  const currency = currencies?.find((c) => c.iso3 === iso3);
+  const unit = currency?.unit || 1;
+  const latestRate = latest?.today?.rates.find((r) => r.currency.iso3 === iso3);
+  const latestQuoted = latestRate ? latestRate[side] * latestRate.currency.unit : null;
+
+  const mutation = useMutation({
+    mutationFn: (body: RateAlertRequest) =>
+      apiClient.post<{ success: boolean; message: string }>('/alerts/subscribe', body),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ email: email.trim(), iso3, side, condition, threshold: parseFloat(threshold) });
+  };
+
+  return (
+    <Layout>
+      <div className="py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">Rate Alerts</h1>
+            <p className="text-xl text-gray-600">
+              Get an email when a Nepal Rastra Bank rate crosses your threshold or moves sharply.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BellRing className="h-5 w-5" />
+                Set up an alert
+              </CardTitle>
+              <CardDescription>
+                Alerts are checked when new rates are published, at most one email a day. We'll email you a link to
+                confirm first, and every alert email has a one-click unsubscribe link.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {mutation.isSuccess ? (
+                <Alert>
+                  <MailCheck className="h-4 w-4" />
+                  <AlertTitle>Almost done</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>{mutation.data.message}</p>
+                    <Button variant="outline" size="sm" onClick={() => mutation.reset()}>
+                      Set up another alert
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="alert-currency">Currency</Label>
+                      <Select value={iso3} onValueChange={setIso3}>
+                        <SelectTrigger id="alert-currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(currencies || []).map((c) => (
+                            <SelectItem key={c.iso3} value={c.iso3}>
+                              <span className="inline-flex items-center gap-2">
+                                <FlagIcon iso3={c.iso3} />
+                                {c.iso3} — {c.name}
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="alert-side">Rate</Label>
+                      <Select value={side} onValueChange={(value) => setSide(value as RateAlertSide)}>
+                        <SelectTrigger id="alert-side">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(SIDE_LABELS) as RateAlertSide[]).map((key) => (
+                            <SelectItem key={key} value={key}>{SIDE_LABELS[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="alert-condition">When it</Label>
+                      <Select value={condition} onValueChange={(value) => setCondition(value as RateAlertCondition)}>
+                        <SelectTrigger id="alert-condition">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(CONDITION_LABELS) as RateAlertCondition[]).map((key) => (
+                            <SelectItem key={key} value={key}>{CONDITION_LABELS[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="alert-threshold">
+                        {condition === 'percent_change' ? 'Percent' : `NPR per ${unit} ${iso3}`}
+                      </Label>
+                      <Input
+                        id="alert-threshold"
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={threshold}
+                        onChange={(e) => setThreshold(e.target.value)}
+                        placeholder={condition === 'percent_change' ? 'e.g. 1' : latestQuoted?.toFixed(2) || ''}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  {latestQuoted !== null && condition !== 'percent_change' && (
+                    <p className="text-sm text-muted-foreground">
+                      Latest {SIDE_LABELS[side].toLowerCase()} ({latest?.today?.date}): NPR {latestQuoted.toFixed(2)} per {unit} {iso3}.
+                      Above/below alerts fire on the day the rate crosses your threshold.
+                    </p>
+                  )}
+
+                  <div>
+                    <Label htmlFor="alert-email">Email</Label>
+                    <Input
+                      id="alert-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="you@example.com"
+                      required
+                    />
+                  </div>
+
+                  {mutation.isError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Could not set up the alert</AlertTitle>
+                      <AlertDescription>{mutation.error.message}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <Button type="submit" className="w-full" disabled={mutation.isPending || !email.trim() || !(parseFloat(threshold) > 0)}>
+                    {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Email me a confirmation link
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default RateAlerts;
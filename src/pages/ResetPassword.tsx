@@ -8,9 +8,10 @@ import { useToast } from '@/hooks/use-toast';
 import Layout from '@/components/Layout';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Loader2, Terminal, ShieldAlert, KeyRound, LogIn } from 'lucide-react';
-import { apiClient } from '@/services/apiClient';
+import { apiClient, saveAuthSession } from '@/services/apiClient';
 import { Separator } from '@/components/ui/separator';
 import { toast as sonnerToast } from "sonner";
+import { beginTwoFactorStep, FirstFactorResult } from '@/lib/two-factor';
 
 type ResetStep = 'loading' | 'form' | 'success' | 'error';
 
@@ -99,18 +100,30 @@ const ResetPassword = () => {
       const data = await apiClient.post<{
         success: boolean;
         token: string;
+        refreshToken: string;
         username: string;
+        passwordResetRequired?: boolean;
         error?: string;
-      }>('/admin/login-with-token', { token });
+      } & FirstFactorResult>('/admin/login-with-token', { token });
+
+      if (data.success && data.passwordResetRequired) {
+        // The token is still valid; it has to be used to set the account's first password
+        toast({ title: "Set a password first", description: "This account has no password yet. Choose one above to continue." });
+        return;
+      }
 
       if (data.success) {
         // Clear any lingering session storage
         sessionStorage.removeItem('loginStep');
         sessionStorage.removeItem('loginUsername');
+
+        if (beginTwoFactorStep(data)) {
+          navigate('/admin/login/2fa', { replace: true });
+          return;
+        }
         
         // Store new auth data
-        localStorage.setItem('authToken', data.token);
-        localStorage.setItem('username', data.username);
+        saveAuthSession(data);
         
         sonnerToast.success("Login Successful", {
           description: `Welcome, ${data.username}!`,
@@ -0,0 +1,172 @@
+// src/pages/TwoFactorLogin.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import Layout from '@/components/Layout';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { apiClient, saveAuthSession } from '@/services/apiClient';
+import { getTwoFactorStep, clearTwoFactorStep, TotpEnrollment } from '@/lib/two-factor';
+import { TwoFactorEnrollment, RecoveryCodesList } from '@/components/admin/TwoFactorEnrollment';
+
+interface TwoFactorLoginResponse {
+  success: boolean;
+  token: string;
+  refreshToken: string;
+  username: string;
+  recoveryCodes?: string[];
+  recoveryCodesRemaining?: number;
+}
+
+const TwoFactorLogin = () => {
+  const navigate = useNavigate();
+  const [step] = useState(getTwoFactorStep);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Without a pre-auth token there's nothing to do here
+  useEffect(() => {
+    if (!step) navigate('/admin/login', { replace: true });
+  }, [step, navigate]);
+
+  // Forced enrollment: fetch a secret straight away
+  useEffect(() => {
+    if (step?.mode !== 'enroll') return;
+    apiClient.post<{ success: boolean } & TotpEnrollment>('/admin/login/2fa/setup', { preAuthToken: step.preAuthToken })
+      .then((data) => setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri }))
+      .catch((error: Error) => {
+        toast.error(error.message);
+        clearTwoFactorStep();
+        navigate('/admin/login', { replace: true });
+      });
+  }, [step, navigate]);
+
+  const finishLogin = (data: TwoFactorLoginResponse) => {
+    clearTwoFactorStep();
+    saveAuthSession(data);
+    toast.success(`Welcome, ${data.username}!`);
+    navigate('/admin/dashboard', { replace: true });
+  };
+
+  const submit = async (path: string, body: Record<string, string>) => {
+    if (!step) return;
+    setLoading(true);
+    try {
+      const data = await apiClient.post<TwoFactorLoginResponse>(path, { preAuthToken: step.preAuthToken, ...body });
+      if (data.recoveryCodes) {
+        // Show the codes once before continuing; finishLogin runs from the button below
+        saveAuthSession(data);
+        clearTwoFactorStep();
+        setRecoveryCodes(data.recoveryCodes);
+        return;
+      }
+      if (typeof data.recoveryCodesRemaining === 'number') {
+        toast.warning(`Recovery code used. ${data.recoveryCodesRemaining} left.`);
+      }
+      finishLogin(data);
+    } catch (error: any) {
+      toast.error(error.message || 'Verification failed.');
+      if (error.message?.includes('expired')) {
+        clearTwoFactorStep();
+        navigate('/admin/login', { replace: true });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    submit('/admin/login/2fa', useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+  };
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <Button className="w-full" onClick={() => navigate('/admin/dashboard', { replace: true })}>
+            Continue to Dashboard
+          </Button>
+        </div>
+      );
+    }
+
+    if (step?.mode === 'enroll') {
+      return enrollment ? (
+        <TwoFactorEnrollment
+          enrollment={enrollment}
+          isSubmitting={loading}
+          onSubmit={(totpCode) => submit('/admin/login/2fa/enable', { code: totpCode })}
+        />
+      ) : (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <div>
+          <label className="text-sm font-medium mb-1 block text-left" htmlFor="totp-code">
+            {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          </label>
+          <Input
+            id="totp-code"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            value={code}
+            onChange={(e) => setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+            disabled={loading}
+            autoFocus
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={loading || !code.trim()}>
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Verify
+        </Button>
+        <div className="flex justify-center">
+          <Button
+            type="button"
+            variant="link"
+            className="text-sm px-0"
+            onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+          >
+            {useRecoveryCode ? 'Use your authenticator app' : 'Lost your device? Use a recovery code'}
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md mx-auto">
+          <Card className="shadow-md">
+            <CardHeader>
+              <ShieldCheck className="h-10 w-10 text-green-600 mx-auto" />
+              <CardTitle className="text-center">Two-Factor Authentication</CardTitle>
+              <CardDescription className="text-center">
+                {step?.mode === 'enroll'
+                  ? 'Two-factor authentication is required for your account. Set it up to continue.'
+                  : `Enter the code from your authenticator app${step?.username ? `, ${step.username}` : ''}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>{renderContent()}</CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default TwoFactorLogin;
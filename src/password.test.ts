@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, verifyPassword, PBKDF2_ITERATIONS, PLACEHOLDER_HASH } from './password';
+import { simpleHash } from './auth';
+
+describe('hashPassword', () => {
+    it('salts every hash', async () => {
+        const [a, b] = [await hashPassword('correct horse'), await hashPassword('correct horse')];
+        expect(a).toMatch(new RegExp(`^pbkdf2\\$${PBKDF2_ITERATIONS}\\$[0-9a-f]{32}\\$[0-9a-f]{64}$`));
+        expect(a).not.toBe(b);
+    });
+});
+
+describe('verifyPassword', () => {
+    it('checks PBKDF2 hashes', async () => {
+        const stored = await hashPassword('correct horse');
+        expect(await verifyPassword('correct horse', stored)).toEqual({ valid: true, needsRehash: false });
+        expect(await verifyPassword('wrong horse', stored)).toEqual({ valid: false, needsRehash: false });
+    });
+
+    it('asks for a rehash of hashes with fewer iterations', async () => {
+        const salt = new Uint8Array(16).fill(7);
+        const key = await crypto.subtle.importKey('raw', new TextEncoder().encode('correct horse'), 'PBKDF2', false, ['deriveBits']);
+        const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: 1000 }, key, 256);
+        const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+        const weaker = `pbkdf2$1000$${hex(salt)}$${hex(new Uint8Array(bits))}`;
+
+        expect(await verifyPassword('correct horse', weaker)).toEqual({ valid: true, needsRehash: true });
+    });
+
+    it('accepts legacy SHA-256 hashes once, asking for a rehash', async () => {
+        const legacy = await simpleHash('correct horse');
+        expect(await verifyPassword('correct horse', legacy)).toEqual({ valid: true, needsRehash: true });
+        expect(await verifyPassword('wrong horse', legacy)).toEqual({ valid: false, needsRehash: false });
+    });
+
+    it('never verifies the seeded placeholder, an empty hash or garbage', async () => {
+        expect((await verifyPassword('', PLACEHOLDER_HASH)).valid).toBe(false);
+        expect((await verifyPassword('anything', null)).valid).toBe(false);
+        expect((await verifyPassword('anything', 'pbkdf2$x$y')).valid).toBe(false);
+    });
+});
@@ -0,0 +1,92 @@
+// src/password.ts
+// --- PASSWORD HASHING ---
+// Hashes are stored as `pbkdf2$<iterations>$<salt hex>$<hash hex>` (PBKDF2-SHA256 via WebCrypto).
+// Older accounts still carry a bare SHA-256 hex digest from `simpleHash`; those verify once
+// and are rewritten in the new format by the caller.
+
+import { simpleHash } from './auth';
+
+// Workers cap PBKDF2 at 100k iterations; raising this later triggers a rehash on next login
+export const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+// Seeded by 001_db.sql for the default admin. No password matches it; the account must be reset.
+export const PLACEHOLDER_HASH = '0'.repeat(64);
+
+export interface PasswordCheck {
+    valid: boolean;
+    needsRehash: boolean; // Stored hash is legacy or uses fewer iterations than today
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * Compares two strings without returning early on the first difference.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_BITS);
+    return toHex(new Uint8Array(bits));
+}
+
+export function isPlaceholderHash(hash: string | null | undefined): boolean {
+    return !hash || hash === PLACEHOLDER_HASH;
+}
+
+/**
+ * Hashes a password with a fresh random salt.
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+    return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${hash}`;
+}
+
+/**
+ * Checks a password against a stored hash of either format.
+ * The placeholder hash and anything unrecognised never verify.
+ */
+export async function verifyPassword(password: string, stored: string | null): Promise<PasswordCheck> {
+    if (!stored || isPlaceholderHash(stored)) {
+        return { valid: false, needsRehash: false };
+    }
+
+    if (stored.startsWith('pbkdf2$')) {
+        const [, iterText, saltHex, hashHex] = stored.split('$');
+        const iterations = parseInt(iterText, 10);
+        if (!iterations || !saltHex || !hashHex) {
+            return { valid: false, needsRehash: false };
+        }
+        const hash = await derive(password, fromHex(saltHex), iterations);
+        const valid = timingSafeEqual(hash, hashHex);
+        return { valid, needsRehash: valid && iterations < PBKDF2_ITERATIONS };
+    }
+
+    // Legacy unsalted SHA-256
+    if (/^[0-9a-f]{64}$/.test(stored)) {
+        const valid = timingSafeEqual(await simpleHash(password), stored);
+        return { valid, needsRehash: valid };
+    }
+
+    return { valid: false, needsRehash: false };
+}
@@ -0,0 +1,46 @@
+// src/permissions.ts
+// --- ROLE-BASED ACCESS CONTROL ---
+// Shared by the worker (route permissions in routes.ts) and the dashboard (hiding what a role can't use).
+
+export type Role = 'superadmin' | 'editor' | 'data-operator' | 'viewer';
+
+export type Permission =
+    | 'rates:read' | 'rates:write'
+    | 'currencies:write'
+    | 'posts:read' | 'posts:write'
+    | 'settings:read' | 'settings:write'
+    | 'users:manage'
+    | 'api:manage'
+    | 'newsletter:manage';
+
+export const ROLES: Role[] = ['superadmin', 'editor', 'data-operator', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+    'superadmin': 'Super Admin',
+    'editor': 'Editor',
+    'data-operator': 'Data Operator',
+    'viewer': 'Viewer',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    'superadmin': [
+        'rates:read', 'rates:write', 'currencies:write', 'posts:read', 'posts:write',
+        'settings:read', 'settings:write', 'users:manage', 'api:manage', 'newsletter:manage',
+    ],
+    'editor': ['rates:read', 'posts:read', 'posts:write', 'settings:read', 'newsletter:manage'],
+    'data-operator': ['rates:read', 'rates:write', 'currencies:write', 'settings:read'],
+    'viewer': ['rates:read', 'posts:read', 'settings:read'],
+};
+
+/**
+ * Maps a stored role to a known one. 'admin' (the old column default) meant full access;
+ * anything unrecognised gets the least privilege.
+ */
+export function normalizeRole(role: string | null | undefined): Role {
+    if (role === 'admin') return 'superadmin';
+    return ROLES.includes(role as Role) ? role as Role : 'viewer';
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
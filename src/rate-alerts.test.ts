@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { alertTriggered } from './rate-alerts';
+
+describe('alertTriggered', () => {
+    const above = { condition: 'above', threshold: 135 } as const;
+    const below = { condition: 'below', threshold: 135 } as const;
+    const move = { condition: 'percent_change', threshold: 1 } as const;
+
+    it('fires above/below alerts only when the rate crosses the threshold', () => {
+        expect(alertTriggered(above, 134.9, 135.1)).toBe(true);
+        expect(alertTriggered(above, 135, 135.1)).toBe(true);
+        expect(alertTriggered(above, 135.1, 135.5)).toBe(false); // Already past it
+        expect(alertTriggered(above, 134, 135)).toBe(false); // Reaching it isn't crossing it
+
+        expect(alertTriggered(below, 135.1, 134.9)).toBe(true);
+        expect(alertTriggered(below, 134.9, 134.5)).toBe(false);
+        expect(alertTriggered(below, 134.9, 135.1)).toBe(false);
+    });
+
+    it('fires percent alerts on a move of at least the threshold either way', () => {
+        expect(alertTriggered(move, 100, 101)).toBe(true);
+        expect(alertTriggered(move, 100, 99)).toBe(true);
+        expect(alertTriggered(move, 100, 100.99)).toBe(false);
+        expect(alertTriggered(move, 0, 5)).toBe(false);
+    });
+});
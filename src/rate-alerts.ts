@@ -0,0 +1,329 @@
+// src/rate-alerts.ts
+// --- EMAIL RATE ALERTS ---
+// Anyone can ask to be emailed when a currency's buy or sell rate crosses above or below a
+// threshold, or moves by at least some percent from the previous published day. An alert
+// only becomes active once the link emailed to the address is opened (double opt-in).
+//
+// After each successful ingestion the alerts are checked against the day's rates and every
+// subscriber with triggered alerts gets one email listing them all. An alert fires at most
+// once per rate date, and every email carries a one-click unsubscribe link (also sent as
+// List-Unsubscribe, so mail clients can offer it).
+
+import { Env, ExecutionContext, D1Database, RateAlert, RateAlertCondition, RateAlertRequest, RateAlertSide } from './worker-types';
+import { SITE_URL } from './constants';
+import { addDays, escapeHtml } from './worker-utils';
+import { getEnabledCurrencyMap } from './currency-registry';
+import { getCurrencyName, getRatesForDate, getRatesOnOrBefore, StoredRate, CurrencyLookup } from './rates-store';
+import { sendBrevoEmail, messagePage, checkSignupLimits, jsonResponse, randomToken, EMAIL_REGEX } from './brevo';
+
+const ALERTS_LINK = { href: `${SITE_URL}/#/alerts`, label: 'Manage rate alerts' };
+const MAX_ALERTS_PER_EMAIL = 10;
+const CONFIRM_TTL_DAYS = 7;
+
+const SIDES: RateAlertSide[] = ['buy', 'sell'];
+const CONDITIONS: RateAlertCondition[] = ['above', 'below', 'percent_change'];
+
+type TriggeredAlert = RateAlert & { current: number; previous: number };
+
+const formatNpr = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+/**
+ * "USD sell above NPR 135.00 per 1", as shown in emails.
+ */
+export function describeAlert(alert: Pick<RateAlert, 'iso3' | 'side' | 'condition' | 'threshold'>, unit: number): string {
+    const rate = `${alert.iso3} ${alert.side === 'buy' ? 'buying' : 'selling'} rate`;
+    if (alert.condition === 'percent_change') return `${rate} moves by ${alert.threshold}% or more in a day`;
+    return `${rate} ${alert.condition === 'above' ? 'rises above' : 'falls below'} NPR ${formatNpr(alert.threshold)} per ${unit} ${alert.iso3}`;
+}
+
+/**
+ * Why an alert request can't be accepted, or null if it is fine.
+ */
+function validateAlertRequest(input: Partial<RateAlertRequest>, currencies: CurrencyLookup): string | null {
+    if (typeof input.email !== 'string' || input.email.length > 254 || !EMAIL_REGEX.test(input.email.trim())) return 'Enter a valid email address';
+    if (typeof input.iso3 !== 'string' || !currencies.has(input.iso3.toUpperCase())) return 'Choose a currency';
+    if (!SIDES.includes(input.side as RateAlertSide)) return "Side must be 'buy' or 'sell'";
+    if (!CONDITIONS.includes(input.condition as RateAlertCondition)) return "Condition must be 'above', 'below' or 'percent_change'";
+    if (typeof input.threshold !== 'number' || !Number.isFinite(input.threshold) || input.threshold <= 0) return 'Threshold must be a positive number';
+    if (input.condition === 'percent_change' && input.threshold > 100) return 'A percent move must be at most 100';
+    return null;
+}
+
+/**
+ * Whether an alert fires for a rate moving from `previous` to `current` (both per quoted unit).
+ * Above/below alerts fire when the rate crosses the threshold, not on every day it stays past it.
+ */
+export function alertTriggered(alert: Pick<RateAlert, 'condition' | 'threshold'>, previous: number, current: number): boolean {
+    switch (alert.condition) {
+        case 'above':
+            return previous <= alert.threshold && current > alert.threshold;
+        case 'below':
+            return previous >= alert.threshold && current < alert.threshold;
+        case 'percent_change':
+            return previous > 0 && (Math.abs(current - previous) / previous) * 100 >= alert.threshold;
+        default:
+            return false;
+    }
+}
+
+function quotedRate(rows: StoredRate[], iso3: string, side: RateAlertSide): number | null {
+    const row = rows.find(r => r.iso3 === iso3);
+    const perUnit = row ? row[side] : null;
+    return row && perUnit !== null ? perUnit * (row.unit || 1) : null;
+}
+
+async function sendConfirmationEmail(env: Env, email: string, alert: RateAlertRequest, unit: number, token: string): Promise<boolean> {
+    const confirmUrl = `${SITE_URL}/api/alerts/confirm?token=${token}`;
+    const description = escapeHtml(describeAlert(alert, unit));
+    return sendBrevoEmail(env, {
+        to: [{ email }],
+        subject: `Confirm your ${alert.iso3} rate alert - Forex Nepal`,
+        htmlContent: `
+            <p>Hello,</p>
+            <p>Someone (hopefully you) asked Forex Nepal to email this address when the <strong>${description}</strong>.</p>
+            <p style="margin: 24px 0;">
+                <a href="${confirmUrl}" style="display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 5px;">Confirm alert</a>
+            </p>
+            <p>The link expires in ${CONFIRM_TTL_DAYS} days. If you didn't ask for this, ignore this email and nothing will be sent.</p>
+        `,
+    }, 'Rate Alert Confirmation');
+}
+
+/**
+ * (PUBLIC) POST /api/alerts/subscribe — asks for an alert and emails a confirmation link.
+ */
+export async function handleAlertSubscribe(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    try {
+        const input = await request.json().catch(() => ({})) as Partial<RateAlertRequest>;
+        const currencies = await getEnabledCurrencyMap(env);
+        const validationError = validateAlertRequest(input, currencies);
+        if (validationError) {
+            return jsonResponse({ success: false, error: validationError }, 400);
+        }
+
+        const email = input.email!.trim().toLowerCase();
+        const alert: RateAlertRequest = {
+            email,
+            iso3: input.iso3!.toUpperCase(),
+            side: input.side!,
+            condition: input.condition!,
+            threshold: input.threshold!,
+        };
+
+        const ip = request.headers.get('CF-Connecting-IP') || 'unknown_ip';
+        const limited = await checkSignupLimits(env, ctx, 'alerts', ip, email);
+        if (limited) {
+            return jsonResponse({ success: false, error: 'Too many alert requests. Please try again later.' }, 429, limited);
+        }
+
+        await env.FOREX_DB.prepare(
+            `INSERT INTO alert_subscribers (email, unsubscribe_token) VALUES (?, ?) ON CONFLICT(email) DO NOTHING`
+        ).bind(email, randomToken()).run();
+        const subscriber = await env.FOREX_DB.prepare(`SELECT id FROM alert_subscribers WHERE email = ?`).bind(email).first<{ id: number }>();
+        if (!subscriber) throw new Error(`Subscriber ${email} was not saved`);
+
+        const existing = await env.FOREX_DB.prepare(
+            `SELECT id, iso3, side, condition, threshold, status FROM rate_alerts WHERE subscriber_id = ? AND status != 'cancelled'`
+        ).bind(subscriber.id).all<Pick<RateAlert, 'id' | 'iso3' | 'side' | 'condition' | 'threshold' | 'status'>>();
+        const alerts = existing.results || [];
+        const duplicate = alerts.find(a =>
+            a.iso3 === alert.iso3 && a.side === alert.side && a.condition === alert.condition && a.threshold === alert.threshold);
+        if (duplicate?.status === 'active') {
+            return jsonResponse({ success: true, message: 'This alert is already active for your email address.' });
+        }
+        if (!duplicate && alerts.length >= MAX_ALERTS_PER_EMAIL) {
+            return jsonResponse({ success: false, error: `An email address can have at most ${MAX_ALERTS_PER_EMAIL} alerts. Unsubscribe to start over.` }, 400);
+        }
+
+        // Asking again for an unconfirmed alert sends a fresh link
+        const token = randomToken();
+        if (duplicate) {
+            await env.FOREX_DB.prepare(
+                `UPDATE rate_alerts SET confirm_token = ?, created_at = datetime('now') WHERE id = ?`
+            ).bind(token, duplicate.id).run();
+        } else {
+            await env.FOREX_DB.prepare(
+                `INSERT INTO rate_alerts (subscriber_id, iso3, side, condition, threshold, status, confirm_token) VALUES (?, ?, ?, ?, ?, 'pending', ?)`
+            ).bind(subscriber.id, alert.iso3, alert.side, alert.condition, alert.threshold, token).run();
+        }
+
+        const unit = currencies.get(alert.iso3)?.unit || 1;
+        ctx.waitUntil(sendConfirmationEmail(env, email, alert, unit, token));
+
+        return jsonResponse({ success: true, message: 'Check your inbox and follow the link to confirm the alert.' }, 202);
+    } catch (error: any) {
+        console.error('Error in handleAlertSubscribe:', error.message, error.cause);
+        return jsonResponse({ success: false, error: 'Server error' }, 500);
+    }
+}
+
+/**
+ * (PUBLIC) GET /api/alerts/confirm?token= — the double opt-in link. Answers with a page.
+ */
+export async function handleAlertConfirm(request: Request, env: Env): Promise<Response> {
+    const token = new URL(request.url).searchParams.get('token') || '';
+    try {
+        const alert = await env.FOREX_DB.prepare(
+            `UPDATE rate_alerts SET status = 'active', confirmed_at = datetime('now'), confirm_token = NULL
+             WHERE confirm_token = ? AND status = 'pending' AND created_at >= datetime('now', ?)
+             RETURNING subscriber_id, iso3`
+        ).bind(token, `-${CONFIRM_TTL_DAYS} days`).first<{ subscriber_id: number; iso3: string }>();
+
+        if (!alert) {
+            return messagePage('Link expired', 'This confirmation link is invalid, expired or already used. Please set up the alert again.', ALERTS_LINK, 404);
+        }
+        // Confirming a new alert re-subscribes an address that unsubscribed before
+        await env.FOREX_DB.prepare(
+            `UPDATE alert_subscribers SET unsubscribed_at = NULL WHERE id = ?`
+        ).bind(alert.subscriber_id).run();
+
+        return messagePage('Alert confirmed', `Your ${alert.iso3} rate alert is active. We'll email you when it triggers.`, ALERTS_LINK);
+    } catch (error: any) {
+        console.error('Error in handleAlertConfirm:', error.message, error.cause);
+        return messagePage('Something went wrong', 'Please try the link again later.', ALERTS_LINK, 500);
+    }
+}
+
+/**
+ * (PUBLIC) GET or POST /api/alerts/unsubscribe?token= — cancels every alert of the address.
+ * GET is the link in emails; POST is RFC 8058 one-click unsubscribe from mail clients.
+ */
+export async function handleAlertUnsubscribe(request: Request, env: Env): Promise<Response> {
+    const token = new URL(request.url).searchParams.get('token') || '';
+    try {
+        const subscriber = await env.FOREX_DB.prepare(
+            `UPDATE alert_subscribers SET unsubscribed_at = COALESCE(unsubscribed_at, datetime('now'))
+             WHERE unsubscribe_token = ? RETURNING id`
+        ).bind(token).first<{ id: number }>();
+
+        if (subscriber) {
+            await env.FOREX_DB.prepare(
+                `UPDATE rate_alerts SET status = 'cancelled', confirm_token = NULL WHERE subscriber_id = ? AND status != 'cancelled'`
+            ).bind(subscriber.id).run();
+        }
+
+        if (request.method === 'POST') {
+            return new Response(null, { status: subscriber ? 200 : 404 });
+        }
+        return subscriber
+            ? messagePage('Unsubscribed', "You won't get any more rate alert emails. You can set up new alerts at any time.", ALERTS_LINK)
+            : messagePage('Link not recognised', 'This unsubscribe link is invalid.', ALERTS_LINK, 404);
+    } catch (error: any) {
+        console.error('Error in handleAlertUnsubscribe:', error.message, error.cause);
+        return request.method === 'POST'
+            ? new Response(null, { status: 500 })
+            : messagePage('Something went wrong', 'Please try the link again later.', ALERTS_LINK, 500);
+    }
+}
+
+async function sendAlertEmail(
+    env: Env,
+    email: string,
+    unsubscribeToken: string,
+    date: string,
+    triggered: TriggeredAlert[],
+    currencies: CurrencyLookup,
+    units: Map<string, number>
+): Promise<boolean> {
+    const unsubscribeUrl = `${SITE_URL}/api/alerts/unsubscribe?token=${unsubscribeToken}`;
+    const rows = triggered.map(alert => {
+        const unit = units.get(alert.iso3) || 1;
+        const change = ((alert.current - alert.previous) / alert.previous) * 100;
+        return `
+            <tr>
+                <td style="padding: 8px; border-bottom: 1px solid #eee;">
+                    <strong>${escapeHtml(getCurrencyName(alert.iso3, currencies))}</strong><br>
+                    <span style="color: #666; font-size: 13px;">${escapeHtml(describeAlert(alert, unit))}</span>
+                </td>
+                <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right; white-space: nowrap;">
+                    NPR ${formatNpr(alert.current)}<br>
+                    <span style="color: ${change >= 0 ? '#15803d' : '#b91c1c'}; font-size: 13px;">
+                        ${change >= 0 ? '+' : ''}${change.toFixed(2)}% from ${formatNpr(alert.previous)}
+                    </span>
+                </td>
+            </tr>`;
+    }).join('');
+
+    return sendBrevoEmail(env, {
+        to: [{ email }],
+        subject: triggered.length === 1
+            ? `Rate alert: ${describeAlert(triggered[0], units.get(triggered[0].iso3) || 1)}`
+            : `${triggered.length} rate alerts triggered for ${date} - Forex Nepal`,
+        headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+        htmlContent: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+                <h2>Your rate alerts for ${date}</h2>
+                <p>Nepal Rastra Bank's rates published for ${date} triggered ${triggered.length === 1 ? 'this alert' : 'these alerts'}:</p>
+                <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+                <p style="margin-top: 24px;"><a href="${SITE_URL}/#/daily-update/forex-for/${date}">See all rates for ${date}</a></p>
+                <p style="margin-top: 32px; font-size: 12px; color: #666;">
+                    You get this because you confirmed rate alerts on Forex Nepal.
+                    <a href="${unsubscribeUrl}">Unsubscribe from all alerts</a>.
+                </p>
+            </div>
+        `,
+    }, 'Rate Alert');
+}
+
+/**
+ * Checks every active alert against the rates stored for `date` (compared with the previous
+ * published day) and emails each subscriber whose alerts fired. Returns the emails sent.
+ * Called by the scheduled worker after a successful ingestion.
+ */
+export async function evaluateRateAlerts(env: Env, date: string): Promise<number> {
+    const [today, previousDay] = await Promise.all([
+        getRatesForDate(env.FOREX_DB, date),
+        getRatesOnOrBefore(env.FOREX_DB, addDays(date, -1)),
+    ]);
+    if (today.length === 0 || previousDay.length === 0) return 0;
+
+    const { results } = await env.FOREX_DB.prepare(
+        `SELECT a.*, s.email, s.unsubscribe_token FROM rate_alerts a
+         JOIN alert_subscribers s ON s.id = a.subscriber_id
+         WHERE a.status = 'active' AND s.unsubscribed_at IS NULL
+           AND (a.last_triggered_date IS NULL OR a.last_triggered_date < ?)`
+    ).bind(date).all<RateAlert & { email: string; unsubscribe_token: string }>();
+
+    // One email per subscriber, listing every alert that fired
+    const bySubscriber = new Map<string, { token: string; alerts: TriggeredAlert[] }>();
+    for (const alert of results || []) {
+        const current = quotedRate(today, alert.iso3, alert.side);
+        const previous = quotedRate(previousDay, alert.iso3, alert.side);
+        if (current === null || previous === null || !alertTriggered(alert, previous, current)) continue;
+
+        const entry = bySubscriber.get(alert.email) || { token: alert.unsubscribe_token, alerts: [] };
+        entry.alerts.push({ ...alert, current, previous });
+        bySubscriber.set(alert.email, entry);
+    }
+    if (bySubscriber.size === 0) return 0;
+
+    const currencies = await getEnabledCurrencyMap(env);
+    const units = new Map(today.map(row => [row.iso3, row.unit || 1]));
+    let sent = 0;
+    for (const [email, { token, alerts }] of bySubscriber) {
+        if (!(await sendAlertEmail(env, email, token, date, alerts, currencies, units))) continue;
+        sent++;
+        const ids = alerts.map(a => a.id);
+        await env.FOREX_DB.prepare(
+            `UPDATE rate_alerts SET last_triggered_date = ?, last_triggered_at = datetime('now')
+             WHERE id IN (${ids.map(() => '?').join(', ')})`
+        ).bind(date, ...ids).run();
+    }
+    console.log(`Rate alerts for ${date}: emailed ${sent} of ${bySubscriber.size} subscribers.`);
+    return sent;
+}
+
+/**
+ * Drops alerts that were never confirmed. Called by the scheduled worker.
+ */
+export async function pruneUnconfirmedAlerts(db: D1Database): Promise<void> {
+    await db.prepare(`DELETE FROM rate_alerts WHERE status = 'pending' AND created_at < datetime('now', ?)`)
+        .bind(`-${CONFIRM_TTL_DAYS} days`).run();
+}
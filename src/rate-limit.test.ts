@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit } from './rate-limit';
+import { createTestKV } from './test/cloudflare';
+import type { Env, ExecutionContext } from './worker-types';
+
+describe('checkRateLimit', () => {
+    let kv: ReturnType<typeof createTestKV>;
+    let env: Env;
+    let pending: Promise<unknown>[];
+    const ctx: ExecutionContext = { waitUntil: promise => pending.push(promise), passThroughOnException: () => {} };
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        // 20 seconds into a minute slot
+        vi.setSystemTime(new Date('2025-01-15T05:20:20Z'));
+        kv = createTestKV();
+        env = { API_SETTINGS_CACHE: kv } as unknown as Env;
+        pending = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const minute = { limit: 5, seconds: 60 };
+    const check = async (name: string, windows = [minute]) => {
+        const result = await checkRateLimit(env, ctx, name, windows);
+        await Promise.all(pending);
+        return result;
+    };
+
+    it('counts a burst in memory with one KV write per second', async () => {
+        const put = vi.spyOn(kv, 'put');
+        const remaining = [];
+        for (let i = 0; i < 5; i++) remaining.push((await check('burst')).headers['RateLimit-Remaining']);
+        expect(remaining).toEqual(['4', '3', '2', '1', '0']);
+        expect(put).toHaveBeenCalledTimes(1);
+
+        const denied = await check('burst');
+        expect(denied.allowed).toBe(false);
+        expect(denied.headers).toMatchObject({ 'RateLimit-Limit': '5', 'RateLimit-Remaining': '0', 'RateLimit-Reset': '41', 'Retry-After': '41' });
+
+        // The next write adds the requests held back since the first
+        vi.advanceTimersByTime(1000);
+        await check('burst', [{ limit: 100, seconds: 60 }]);
+        expect(Array.from(kv.store.values())).toContain('6');
+    });
+
+    it('measures against the slot in KV, written by other isolates', async () => {
+        const slot = Math.floor(Date.now() / 60000);
+        await kv.put(`ratelimit:shared:60:${slot}`, '3');
+        await kv.put(`ratelimit:shared:60:${slot - 1}`, '3'); // Weighs 2 with a third of the slot gone
+
+        const result = await check('shared', [{ limit: 10, seconds: 60 }]);
+        expect(result.headers['RateLimit-Remaining']).toBe('4');
+        expect(kv.store.get(`ratelimit:shared:60:${slot}`)).toBe('4');
+        expect((await check('shared', [{ limit: 5, seconds: 60 }])).allowed).toBe(false);
+    });
+
+    it('reports the tightest window', async () => {
+        const result = await check('windows', [{ limit: 100, seconds: 3600 }, { limit: 3, seconds: 60 }]);
+        expect(result.window).toEqual({ limit: 3, seconds: 60 });
+        expect(result.headers).toEqual({ 'RateLimit-Limit': '3', 'RateLimit-Remaining': '2', 'RateLimit-Reset': '40' });
+    });
+
+    it('keeps requests whose write failed for the next one', async () => {
+        const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(kv, 'put').mockRejectedValueOnce(new Error('429 Too Many Requests'));
+        await check('flaky');
+        expect(errors).toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+        await check('flaky');
+        expect(Array.from(kv.store.values())).toEqual(['2']);
+    });
+});
@@ -0,0 +1,167 @@
+// src/rate-limit.ts
+// --- RATE LIMITING ---
+// Sliding-window limits for the public quotas in api_access_settings, counted in KV per
+// endpoint and identifier (IP or domain). Each window is split into fixed slots; a request
+// is measured against the current slot plus the previous one, weighted by how much of it
+// the sliding window still covers.
+//
+// KV takes at most one write per second per key, so each isolate batches its increments:
+// requests are counted in memory straight away (and included in this isolate's estimate)
+// and written to the slot's key at most once per WRITE_INTERVAL_MS, the way api-usage.ts
+// batches its tallies. These limits are best effort: a write adds this isolate's batch to
+// the value it last read, and KV is not immediately consistent across data centres, so
+// isolates running side by side can undercount. That bounds abuse, which is what the
+// public quota is for; API keys, whose quotas are billed, keep their exact D1 counters
+// (api-keys.ts).
+
+import { Env, ExecutionContext } from './worker-types';
+
+const KEY_PREFIX = 'ratelimit';
+const KV_MIN_TTL = 60;
+const WRITE_INTERVAL_MS = 1000; // KV's limit for writes to one key
+const SWEEP_INTERVAL_MS = 60000;
+
+// This isolate's requests per slot key, counted but not yet written to KV
+interface PendingCount {
+    count: number;
+    lastWrite: number;
+    expires: number; // When the slot stops being read, even as the previous one
+}
+
+const pending = new Map<string, PendingCount>();
+let lastSweep = 0;
+
+export interface RateLimitWindow {
+    limit: number;
+    seconds: number;
+}
+
+export type RateLimitHeaders = Record<string, string>;
+
+interface WindowState {
+    window: RateLimitWindow;
+    key: string;
+    stored: number; // The current slot's count in KV
+    current: number; // Including this isolate's unwritten requests
+    estimate: number; // Requests in the sliding window ending now, before this one
+    secondsLeft: number; // Until the current slot ends
+}
+
+async function readWindow(env: Env, name: string, window: RateLimitWindow, nowSeconds: number): Promise<WindowState> {
+    const slot = Math.floor(nowSeconds / window.seconds);
+    const key = `${KEY_PREFIX}:${name}:${window.seconds}:${slot}`;
+    const previousKey = `${KEY_PREFIX}:${name}:${window.seconds}:${slot - 1}`;
+    const [current, previous] = await Promise.all([
+        env.API_SETTINGS_CACHE.get(key),
+        env.API_SETTINGS_CACHE.get(previousKey),
+    ]);
+
+    const elapsed = nowSeconds - slot * window.seconds;
+    const currentCount = (Number(current) || 0) + (pending.get(key)?.count || 0);
+    const previousCount = (Number(previous) || 0) + (pending.get(previousKey)?.count || 0);
+    return {
+        window,
+        key,
+        stored: Number(current) || 0,
+        current: currentCount,
+        estimate: previousCount * (1 - elapsed / window.seconds) + currentCount,
+        secondsLeft: window.seconds - elapsed,
+    };
+}
+
+/**
+ * Seconds until the sliding estimate drops below the limit again: later in this slot
+ * if the previous slot's share is what tips it over, otherwise part-way into the next.
+ */
+function secondsUntilAllowed({ window, current, estimate, secondsLeft }: WindowState): number {
+    const previous = estimate - current;
+    if (current < window.limit && previous > 0) {
+        const elapsed = window.seconds - secondsLeft;
+        return Math.max(1, Math.ceil(window.seconds * (1 - (window.limit - current) / previous) - elapsed));
+    }
+    const intoNextSlot = current > 0 ? Math.ceil(window.seconds * (1 - window.limit / current)) : 0;
+    return secondsLeft + Math.max(1, intoNextSlot);
+}
+
+/**
+ * Counts an allowed request in this isolate. Returns the KV write if the slot's key is
+ * due one, otherwise null and the request waits in memory for the next write.
+ */
+function countRequest(env: Env, state: WindowState, now: number): Promise<void> | null {
+    const entry = pending.get(state.key) || { count: 0, lastWrite: 0, expires: now + state.secondsLeft * 1000 + state.window.seconds * 1000 };
+    entry.count++;
+    pending.set(state.key, entry);
+    if (now - entry.lastWrite < WRITE_INTERVAL_MS) return null;
+
+    const batch = entry.count;
+    entry.count = 0;
+    entry.lastWrite = now;
+    return env.API_SETTINGS_CACHE.put(state.key, String(state.stored + batch), {
+        // The slot is still read as "previous" for one more window
+        expirationTtl: Math.max(KV_MIN_TTL, state.window.seconds * 2),
+    }).catch(e => {
+        // Kept for the next write
+        entry.count += batch;
+        throw e;
+    });
+}
+
+// Forgets slots no longer read; their unwritten requests no longer count anywhere
+function sweepPending(now: number): void {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, entry] of pending) {
+        if (entry.expires <= now) pending.delete(key);
+    }
+}
+
+/**
+ * Checks a request against every window (e.g. the hourly quota and a per-minute burst
+ * limit) and counts it if all allow it. `window` and the RateLimit-* headers describe
+ * the tightest window (on denial, the tightest exceeded one); a denial adds
+ * RateLimit-Remaining: 0 and Retry-After.
+ */
+export async function checkRateLimit(
+    env: Env,
+    ctx: ExecutionContext,
+    name: string, // e.g. '/api/export:203.0.113.7'
+    windows: RateLimitWindow[]
+): Promise<{ allowed: boolean; window: RateLimitWindow; headers: RateLimitHeaders }> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const states = await Promise.all(windows.map(window => readWindow(env, name, window, nowSeconds)));
+
+    const denied = states.filter(state => state.estimate >= state.window.limit);
+    if (denied.length > 0) {
+        const retryAfter = Math.max(...denied.map(secondsUntilAllowed));
+        const tightest = denied.reduce((a, b) => (a.window.limit <= b.window.limit ? a : b));
+        return {
+            allowed: false,
+            window: tightest.window,
+            headers: {
+                'RateLimit-Limit': String(tightest.window.limit),
+                'RateLimit-Remaining': '0',
+                'RateLimit-Reset': String(retryAfter),
+                'Retry-After': String(retryAfter),
+            },
+        };
+    }
+
+    const now = Date.now();
+    const writes = states.map(state => countRequest(env, state, now)).filter(write => write !== null);
+    if (writes.length > 0) {
+        ctx.waitUntil(Promise.all(writes).catch((e: any) => console.error('Failed to count rate-limited request:', e.message)));
+    }
+    sweepPending(now);
+
+    const remaining = states.map(state => Math.max(0, Math.floor(state.window.limit - state.estimate - 1)));
+    const tightest = remaining.indexOf(Math.min(...remaining));
+    return {
+        allowed: true,
+        window: states[tightest].window,
+        headers: {
+            'RateLimit-Limit': String(states[tightest].window.limit),
+            'RateLimit-Remaining': String(remaining[tightest]),
+            'RateLimit-Reset': String(states[tightest].secondsLeft),
+        },
+    };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { diffRates, getCurrencyStats, RateInput, StoredRate } from './rates-store';
+import { createTestD1 } from './test/cloudflare';
+
+const stored = (iso3: string, buy: number | null, sell: number | null): StoredRate => ({
+    date: '2025-01-15', iso3, buy, sell, unit: 1, source: 'nrb', fetched_at: '2025-01-15 05:00:00',
+});
+
+const incoming = (iso3: string, buy: number | null, sell: number | null): RateInput => ({
+    date: '2025-01-15', iso3, buy, sell, unit: 1, source: 'nrb',
+});
+
+describe('diffRates', () => {
+    const current = new Map([['2025-01-15', [stored('USD', 133.5, 134.1), stored('EUR', 145, 145.6)]]]);
+    const rates = [incoming('USD', 133.5, 134.1), incoming('EUR', 146, 146.6), incoming('GBP', 170, 170.8)];
+
+    it('marks new, different and identical rows for replace', () => {
+        expect(diffRates(current, rates, 'replace').map(d => [d.iso3, d.action])).toEqual([
+            ['USD', 'unchanged'],
+            ['EUR', 'change'],
+            ['GBP', 'insert'],
+        ]);
+    });
+
+    it('reports rows update would keep as skipped', () => {
+        const diff = diffRates(current, rates, 'update');
+        expect(diff.map(d => [d.iso3, d.action])).toEqual([
+            ['USD', 'unchanged'],
+            ['EUR', 'skipped'],
+            ['GBP', 'insert'],
+        ]);
+        expect(diff[1].old).toEqual({ buy: 145, sell: 145.6 });
+    });
+
+    it('ignores floating point noise', () => {
+        const diff = diffRates(current, [incoming('USD', 133.5 + 1e-12, 134.1)]);
+        expect(diff[0].action).toBe('unchanged');
+    });
+
+    it('treats a side appearing or disappearing as a change', () => {
+        const diff = diffRates(current, [incoming('USD', 133.5, null)]);
+        expect(diff[0].action).toBe('change');
+    });
+});
+
+describe('getCurrencyStats', () => {
+    const db = createTestD1('001_db.sql', '002_long_format_rates.sql');
+    const days: [string, number | null][] = [
+        ['2024-03-01', 133], // Friday
+        ['2024-03-03', 134], // Sunday: still the week of Monday 26 February
+        ['2024-03-04', 135], // Monday
+        ['2024-03-31', 137],
+        ['2024-04-01', 136],
+        ['2024-04-02', null], // No buy rate: left out
+    ];
+    for (const [date, buy] of days) {
+        db.exec(`INSERT INTO forex_rates (date, iso3, buy, sell, unit, source)
+                 VALUES ('${date}', 'USD', ${buy ?? 'NULL'}, ${buy === null ? 140 : buy + 0.6}, 1, 'nrb')`);
+    }
+
+    it('keys weeks by their Monday', async () => {
+        const weeks = await getCurrencyStats(db, 'USD', '2024-03-01', '2024-04-30', 'week');
+        expect(weeks.map(w => [w.bucket, w.days])).toEqual([
+            ['2024-02-26', 2],
+            ['2024-03-04', 1],
+            ['2024-03-25', 1],
+            ['2024-04-01', 1],
+        ]);
+    });
+
+    it('keys months, quarters and years', async () => {
+        const keys = async (bucket: 'month' | 'quarter' | 'year') =>
+            (await getCurrencyStats(db, 'USD', '2024-01-01', '2024-12-31', bucket)).map(p => p.bucket);
+        expect(await keys('month')).toEqual(['2024-03', '2024-04']);
+        expect(await keys('quarter')).toEqual(['2024-Q1', '2024-Q2']);
+        expect(await keys('year')).toEqual(['2024']);
+    });
+
+    it('computes OHLC, mean and change within a bucket', async () => {
+        const [march] = await getCurrencyStats(db, 'USD', '2024-03-01', '2024-03-31', 'all');
+        expect(march).toMatchObject({ bucket: 'all', start_date: '2024-03-01', end_date: '2024-03-31', days: 4 });
+        expect(march.buy).toMatchObject({ open: 133, high: 137, low: 133, close: 137, mean: 134.75 });
+        expect(march.buy.change_pct).toBeCloseTo(3.01, 2);
+        expect(march.spread).toMatchObject({ open: 0.6, close: 0.6, stddev: 0 });
+    });
+});
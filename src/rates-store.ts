@@ -0,0 +1,381 @@
+// src/rates-store.ts
+// --- DATA-ACCESS LAYER FOR THE LONG-FORMAT forex_rates TABLE ---
+// Every handler that reads or writes rates goes through here, so no SQL
+// ever has to be built from currency codes.
+
+import { D1Database, D1PreparedStatement, CurrencyRecord } from './worker-types';
+import type { Rate, RatesData, RateStatsPeriod, StatsBucketSize } from './types/forex';
+import { formatDate, nowInNepal } from './worker-utils';
+
+export type RateSource = 'nrb' | 'manual' | 'legacy';
+export type WriteMode = 'update' | 'replace';
+
+/**
+ * One row of forex_rates. buy/sell are NPR per single unit;
+ * `unit` is the quantity NRB quotes the currency in.
+ */
+export interface StoredRate {
+    date: string;
+    iso3: string;
+    buy: number | null;
+    sell: number | null;
+    unit: number;
+    source: RateSource;
+    fetched_at: string;
+}
+
+export type RateInput = Omit<StoredRate, 'fetched_at'>;
+
+/** Registered currencies keyed by ISO3 (see currency-registry.ts). */
+export type CurrencyLookup = Map<string, CurrencyRecord>;
+
+const RATE_COLUMNS = 'date, iso3, buy, sell, unit, source, fetched_at';
+
+/**
+ * Fetches all currency rows stored for one date.
+ */
+export async function getRatesForDate(db: D1Database, date: string): Promise<StoredRate[]> {
+    const { results } = await db.prepare(
+        `SELECT ${RATE_COLUMNS} FROM forex_rates WHERE date = ? ORDER BY iso3 ASC`
+    ).bind(date).all<StoredRate>();
+    return results || [];
+}
+
+/**
+ * Fetches rows for several dates at once, grouped by date.
+ */
+export async function getRatesForDates(db: D1Database, dates: string[]): Promise<Map<string, StoredRate[]>> {
+    const grouped = new Map<string, StoredRate[]>();
+    if (dates.length === 0) return grouped;
+
+    const placeholders = dates.map(() => '?').join(', ');
+    const { results } = await db.prepare(
+        `SELECT ${RATE_COLUMNS} FROM forex_rates WHERE date IN (${placeholders}) ORDER BY date ASC, iso3 ASC`
+    ).bind(...dates).all<StoredRate>();
+
+    for (const row of results || []) {
+        if (!grouped.has(row.date)) grouped.set(row.date, []);
+        grouped.get(row.date)!.push(row);
+    }
+    return grouped;
+}
+
+/**
+ * Returns the rows of the first date in `candidates` that has any data.
+ */
+export async function getFirstAvailableRates(db: D1Database, candidates: string[]): Promise<StoredRate[]> {
+    for (const date of candidates) {
+        const rows = await getRatesForDate(db, date);
+        if (rows.length > 0) return rows;
+    }
+    return [];
+}
+
+/**
+ * Today's rows (Nepal time), or yesterday's before NRB has published.
+ */
+export async function getLatestRates(db: D1Database): Promise<StoredRate[]> {
+    const nowNpt = nowInNepal();
+    return getFirstAvailableRates(db, [formatDate(nowNpt), formatDate(new Date(nowNpt.getTime() - 86400000))]);
+}
+
+/**
+ * Returns the rows of the latest date on or before `date` that has any data.
+ */
+export async function getRatesOnOrBefore(db: D1Database, date: string): Promise<StoredRate[]> {
+    const { results } = await db.prepare(
+        `SELECT ${RATE_COLUMNS} FROM forex_rates
+         WHERE date = (SELECT MAX(date) FROM forex_rates WHERE date <= ?)
+         ORDER BY iso3 ASC`
+    ).bind(date).all<StoredRate>();
+    return results || [];
+}
+
+/**
+ * Fetches rows for the most recent `limit` dates, grouped by date (newest first).
+ */
+export async function getRecentRates(db: D1Database, limit: number): Promise<Map<string, StoredRate[]>> {
+    const dates = await listDates(db, limit, 0);
+    const grouped = await getRatesForDates(db, dates);
+    return new Map(dates.map(date => [date, grouped.get(date) || []]));
+}
+
+/**
+ * Fetches the daily series of one currency between two dates (inclusive).
+ */
+export async function getCurrencySeries(db: D1Database, iso3: string, from: string, to: string): Promise<StoredRate[]> {
+    const { results } = await db.prepare(
+        `SELECT ${RATE_COLUMNS} FROM forex_rates
+         WHERE iso3 = ? AND date >= ? AND date <= ?
+         ORDER BY date ASC`
+    ).bind(iso3, from, to).all<StoredRate>();
+    return results || [];
+}
+
+export const STATS_BUCKET_SIZES: StatsBucketSize[] = ['week', 'month', 'quarter', 'year'];
+
+// Bucket key per row. Weeks start on Monday: 'weekday 0' moves to the coming Sunday.
+const STATS_BUCKETS: Record<StatsBucketSize | 'all', string> = {
+    week: `date(date, 'weekday 0', '-6 days')`,
+    month: `strftime('%Y-%m', date)`,
+    quarter: `strftime('%Y', date) || '-Q' || ((CAST(strftime('%m', date) AS INTEGER) + 2) / 3)`,
+    year: `strftime('%Y', date)`,
+    all: `'all'`,
+};
+
+const STATS_SERIES = ['buy', 'sell', 'spread'] as const;
+
+/**
+ * Aggregates one currency's daily series into OHLC, mean, standard deviation and
+ * change per bucket, entirely in SQL. Only days with both a buy and a sell rate count.
+ * SQLite has no STDDEV, so the variance comes back and the square root is taken here.
+ */
+export async function getCurrencyStats(
+    db: D1Database,
+    iso3: string,
+    from: string,
+    to: string,
+    bucket: StatsBucketSize | 'all'
+): Promise<RateStatsPeriod[]> {
+    const windowColumns = STATS_SERIES.map(col =>
+        `FIRST_VALUE(${col}) OVER w AS ${col}_open, LAST_VALUE(${col}) OVER w AS ${col}_close`
+    ).join(',\n                ');
+    const aggregateColumns = STATS_SERIES.map(col => `
+            MAX(${col}_open) AS ${col}_open, MAX(${col}) AS ${col}_high, MIN(${col}) AS ${col}_low,
+            MAX(${col}_close) AS ${col}_close, AVG(${col}) AS ${col}_mean,
+            MAX(AVG(${col} * ${col}) - AVG(${col}) * AVG(${col}), 0) AS ${col}_variance`
+    ).join(',');
+
+    const { results } = await db.prepare(
+        `WITH series AS (
+            SELECT date, buy, sell, sell - buy AS spread, ${STATS_BUCKETS[bucket]} AS bucket
+            FROM forex_rates
+            WHERE iso3 = ? AND date >= ? AND date <= ? AND buy IS NOT NULL AND sell IS NOT NULL
+        ),
+        framed AS (
+            SELECT *,
+                ${windowColumns}
+            FROM series
+            WINDOW w AS (PARTITION BY bucket ORDER BY date ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING)
+        )
+        SELECT bucket, MIN(date) AS start_date, MAX(date) AS end_date, COUNT(*) AS days,${aggregateColumns}
+        FROM framed
+        GROUP BY bucket
+        ORDER BY start_date ASC`
+    ).bind(iso3, from, to).all<Record<string, any>>();
+
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+    return (results || []).map(row => {
+        const period = { bucket: String(row.bucket), start_date: row.start_date, end_date: row.end_date, days: row.days } as RateStatsPeriod;
+        for (const col of STATS_SERIES) {
+            const open = row[`${col}_open`];
+            const close = row[`${col}_close`];
+            period[col] = {
+                open: round(open),
+                high: round(row[`${col}_high`]),
+                low: round(row[`${col}_low`]),
+                close: round(close),
+                mean: round(row[`${col}_mean`]),
+                stddev: round(Math.sqrt(row[`${col}_variance`])),
+                change_pct: open ? Math.round(((close - open) / open) * 10000) / 100 : 0,
+            };
+        }
+        return period;
+    });
+}
+
+/**
+ * Reads the rates of some currencies between two dates, one page at a time in
+ * (date, iso3) order. Pass the last row of the previous page as `after`.
+ */
+export async function getRatesPage(
+    db: D1Database,
+    iso3s: string[],
+    from: string,
+    to: string,
+    after: { date: string; iso3: string } | null,
+    limit: number
+): Promise<StoredRate[]> {
+    const placeholders = iso3s.map(() => '?').join(', ');
+    const { results } = await db.prepare(
+        `SELECT ${RATE_COLUMNS} FROM forex_rates
+         WHERE iso3 IN (${placeholders}) AND date >= ? AND date <= ?
+            AND (date > ? OR (date = ? AND iso3 > ?))
+         ORDER BY date ASC, iso3 ASC LIMIT ?`
+    ).bind(...iso3s, from, to, after?.date ?? '', after?.date ?? '', after?.iso3 ?? '', limit).all<StoredRate>();
+    return results || [];
+}
+
+/**
+ * Counts the rows getRatesPage would return in total.
+ */
+export async function countRates(db: D1Database, iso3s: string[], from: string, to: string): Promise<number> {
+    const placeholders = iso3s.map(() => '?').join(', ');
+    const result = await db.prepare(
+        `SELECT COUNT(*) as total FROM forex_rates WHERE iso3 IN (${placeholders}) AND date >= ? AND date <= ?`
+    ).bind(...iso3s, from, to).first<{ total: number }>();
+    return result?.total || 0;
+}
+
+/**
+ * Lists distinct dates that have data, newest first.
+ */
+export async function listDates(db: D1Database, limit: number, offset: number): Promise<string[]> {
+    const { results } = await db.prepare(
+        `SELECT DISTINCT date FROM forex_rates ORDER BY date DESC LIMIT ? OFFSET ?`
+    ).bind(limit, offset).all<{ date: string }>();
+    return (results || []).map(r => r.date);
+}
+
+/**
+ * Counts distinct dates that have data.
+ */
+export async function countDates(db: D1Database): Promise<number> {
+    const result = await db.prepare(`SELECT COUNT(DISTINCT date) as total FROM forex_rates`).first<{ total: number }>();
+    return result?.total || 0;
+}
+
+/**
+ * Builds the write statements for a set of rates. Nothing is executed, so callers
+ * can batch them together with other statements.
+ * 'update' only fills in missing (date, currency) rows; 'replace' overwrites them.
+ */
+export function buildUpsertStatements(db: D1Database, rates: RateInput[], mode: WriteMode = 'update'): D1PreparedStatement[] {
+    const verb = mode === 'replace' ? 'INSERT OR REPLACE' : 'INSERT OR IGNORE';
+    return rates.map(rate =>
+        db.prepare(
+            `${verb} INTO forex_rates (${RATE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`
+        ).bind(rate.date, rate.iso3, rate.buy, rate.sell, rate.unit || 1, rate.source)
+    );
+}
+
+/**
+ * Display name of a currency, falling back to its code for currencies we have no metadata for.
+ */
+export function getCurrencyName(iso3: string, currencies: CurrencyLookup): string {
+    return currencies.get(iso3)?.name || iso3;
+}
+
+/**
+ * Keeps only rows for enabled currencies, in registry display order.
+ */
+export function filterEnabled(rows: StoredRate[], currencies: CurrencyLookup): StoredRate[] {
+    return rows
+        .filter(row => currencies.has(row.iso3))
+        .sort((a, b) => currencies.get(a.iso3)!.display_order - currencies.get(b.iso3)!.display_order);
+}
+
+/**
+ * Converts stored rows into the public `RatesData` shape.
+ * Disabled currencies are dropped; with `requireBoth`, so are currencies missing either side.
+ */
+export function toRatesData(date: string, rows: StoredRate[], currencies: CurrencyLookup, requireBoth: boolean = false): RatesData {
+    const rates: Rate[] = [];
+    for (const row of filterEnabled(rows, currencies)) {
+        const hasBuy = typeof row.buy === 'number';
+        const hasSell = typeof row.sell === 'number';
+        if (requireBoth ? !(hasBuy && hasSell) : !(hasBuy || hasSell)) continue;
+
+        rates.push({
+            currency: { name: getCurrencyName(row.iso3, currencies), unit: row.unit || 1, iso3: row.iso3 },
+            buy: row.buy ?? 0,
+            sell: row.sell ?? 0,
+        });
+    }
+
+    const lastFetched = rows.reduce((latest, row) => (row.fetched_at > latest ? row.fetched_at : latest), '');
+    return {
+        date,
+        published_on: lastFetched || date,
+        modified_on: lastFetched || date,
+        rates,
+    };
+}
+
+/**
+ * Converts stored rows into the `{ date, USD_buy, USD_sell, ... }` shape the
+ * admin Forex Data screen edits.
+ */
+export function toWideRow(date: string, rows: StoredRate[]): Record<string, string | number | null> {
+    const wide: Record<string, string | number | null> = { date };
+    for (const row of rows) {
+        wide[`${row.iso3}_buy`] = row.buy;
+        wide[`${row.iso3}_sell`] = row.sell;
+    }
+    return wide;
+}
+
+/**
+ * Parses a `{ date, USD_buy, USD_sell, ... }` payload from the admin screen into rate rows.
+ * Any three-letter code is accepted, so new currencies need no code change.
+ */
+export function fromWideRow(date: string, data: Record<string, any>, source: RateSource, currencies: CurrencyLookup): RateInput[] {
+    const byCode = new Map<string, RateInput>();
+    const parse = (value: any) => (value === '' || value == null) ? null : parseFloat(value);
+
+    for (const key of Object.keys(data)) {
+        const match = key.match(/^([A-Z]{3})_(buy|sell)$/);
+        if (!match) continue;
+
+        const [, iso3, side] = match;
+        if (!byCode.has(iso3)) {
+            byCode.set(iso3, { date, iso3, buy: null, sell: null, unit: currencies.get(iso3)?.unit || 1, source });
+        }
+        const value = parse(data[key]);
+        byCode.get(iso3)![side as 'buy' | 'sell'] = value !== null && !isNaN(value) ? value : null;
+    }
+
+    return Array.from(byCode.values()).filter(r => r.buy !== null || r.sell !== null);
+}
+
+/**
+ * One (date, currency) entry of a dry-run comparison.
+ * 'insert' and 'change' are what the write would do; 'skipped' differs from what is
+ * stored but is kept as it is, because 'update' never overwrites a stored rate.
+ */
+export interface RateDiff {
+    date: string;
+    iso3: string;
+    action: 'insert' | 'change' | 'skipped' | 'unchanged';
+    old: { buy: number | null; sell: number | null } | null;
+    new: { buy: number | null; sell: number | null };
+}
+
+/**
+ * Compares incoming rates with what is stored, as a write in `mode` would treat them,
+ * without writing anything.
+ */
+export function diffRates(stored: Map<string, StoredRate[]>, incoming: RateInput[], mode: WriteMode = 'replace'): RateDiff[] {
+    const same = (a: number | null, b: number | null) =>
+        a === b || (a !== null && b !== null && Math.abs(a - b) < 1e-9);
+
+    return incoming.map(rate => {
+        const existing = (stored.get(rate.date) || []).find(row => row.iso3 === rate.iso3);
+        const next = { buy: rate.buy, sell: rate.sell };
+        if (!existing) {
+            return { date: rate.date, iso3: rate.iso3, action: 'insert', old: null, new: next };
+        }
+        const old = { buy: existing.buy, sell: existing.sell };
+        const action = same(old.buy, next.buy) && same(old.sell, next.sell) ? 'unchanged' : mode === 'update' ? 'skipped' : 'change';
+        return { date: rate.date, iso3: rate.iso3, action, old, new: next };
+    });
+}
+
+export type RateTrend = 'up' | 'down' | 'flat';
+
+/** The arrow and colour a trend is drawn with in the embed and emails. */
+export const TREND_STYLES: Record<RateTrend, { symbol: string; color: string }> = {
+    up: { symbol: '▲', color: '#10b981' },
+    down: { symbol: '▼', color: '#ef4444' },
+    flat: { symbol: '●', color: '#9ca3af' },
+};
+
+/**
+ * Day-over-day direction of one rate. Moves under 0.0001 per unit count as flat.
+ */
+export function rateTrend(current: number | null, previous: number | null, unit: number = 1): RateTrend {
+    const diff = (current || 0) / unit - (previous || 0) / unit;
+    if (diff > 0.0001) return 'up';
+    if (diff < -0.0001) return 'down';
+    return 'flat';
+}
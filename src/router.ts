@@ -0,0 +1,106 @@
+// src/router.ts
+// --- ROUTER ---
+// Matches /api requests against a route table (routes.ts) and runs the matched handler
+// through its middleware. Paths use `:name` segments; the matched values are passed to the
+// handler and to middleware as `params`.
+
+import { Env, ExecutionContext } from './worker-types';
+import { jsonError } from './middleware';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+export type RouteParams = Record<string, string>;
+
+export type RouteHandler = (request: Request, env: Env, ctx: ExecutionContext, params: RouteParams) => Promise<Response>;
+
+export interface RouteContext {
+    request: Request;
+    env: Env;
+    ctx: ExecutionContext;
+    params: RouteParams;
+    /** The matched route; undefined while producing a 404 or 405. */
+    route?: Route;
+}
+
+/**
+ * Runs around a handler (and any later middleware). Return without calling `next` to
+ * answer the request yourself.
+ */
+export type Middleware = (context: RouteContext, next: () => Promise<Response>) => Promise<Response>;
+
+export interface Route {
+    methods: HttpMethod[];
+    path: string;
+    handler: RouteHandler;
+    middleware?: Middleware[];
+    /** The api_access_settings key, when it isn't `path` (e.g. a v1 route sharing its legacy route's settings). */
+    accessEndpoint?: string;
+}
+
+interface CompiledRoute extends Route {
+    pattern: RegExp;
+    paramNames: string[];
+}
+
+function compile(route: Route): CompiledRoute {
+    const paramNames: string[] = [];
+    const source = route.path
+        .split('/')
+        .map(segment => {
+            if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            paramNames.push(segment.slice(1));
+            return '([^/]+)';
+        })
+        .join('/');
+    return { ...route, pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+function decodeParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+function runChain(middleware: Middleware[], context: RouteContext, last: () => Promise<Response>): Promise<Response> {
+    const dispatch = (index: number): Promise<Response> =>
+        index < middleware.length ? middleware[index](context, () => dispatch(index + 1)) : last();
+    return dispatch(0);
+}
+
+/**
+ * Builds the request handler for a route table. `middleware` runs for every request,
+ * including 404s and 405s, before the route's own middleware. Routes are tried in order.
+ */
+export function createRouter(routes: Route[], middleware: Middleware[] = []) {
+    const compiled = routes.map(compile);
+
+    return async function handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        const { pathname } = new URL(request.url);
+        const context: RouteContext = { request, env, ctx, params: {} };
+
+        const allowed = new Set<HttpMethod>();
+        for (const route of compiled) {
+            const match = route.pattern.exec(pathname);
+            if (!match) continue;
+            if (!route.methods.includes(request.method as HttpMethod)) {
+                route.methods.forEach(method => allowed.add(method));
+                continue;
+            }
+
+            context.route = route;
+            route.paramNames.forEach((name, i) => {
+                context.params[name] = decodeParam(match[i + 1]);
+            });
+            return runChain([...middleware, ...(route.middleware || [])], context,
+                () => route.handler(request, env, ctx, context.params));
+        }
+
+        if (allowed.size > 0) {
+            const allow = [...allowed, 'OPTIONS'].join(', ');
+            return runChain(middleware, context, async () =>
+                jsonError(405, 'Method not allowed', { Allow: allow }));
+        }
+        return runChain(middleware, context, async () => jsonError(404, 'API route not found'));
+    };
+}
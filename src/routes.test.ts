@@ -0,0 +1,75 @@
+import { readdirSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRouter } from './router';
+import { routes } from './routes';
+import type { HttpMethod } from './router';
+import type { Role } from './permissions';
+import { createSession } from './sessions';
+import { createTestD1, createTestKV, TestD1 } from './test/cloudflare';
+import type { Env, ExecutionContext } from './worker-types';
+
+const MIGRATIONS = readdirSync(new URL('../migrations', import.meta.url)).filter(file => file.endsWith('.sql')).sort();
+const handle = createRouter(routes);
+const ctx: ExecutionContext = { waitUntil: () => {}, passThroughOnException: () => {} };
+
+type Case = [method: HttpMethod, path: string, body: Record<string, unknown> | null, allowed: Role[]];
+
+const ALL: Role[] = ['superadmin', 'editor', 'data-operator', 'viewer'];
+
+// Representative /api/admin routes and the roles that may use them; every other role gets 403
+const CASES: Case[] = [
+    ['GET', '/api/admin/profile', null, ALL],
+    ['GET', '/api/admin/settings', null, ALL],
+    ['POST', '/api/admin/settings', { ticker_enabled: true, adsense_enabled: false }, ['superadmin']],
+    ['GET', '/api/admin/users', null, ['superadmin']],
+    ['PUT', '/api/admin/users/operator', { role: 'viewer' }, ['superadmin']],
+    ['DELETE', '/api/admin/users/operator', null, ['superadmin']],
+    ['GET', '/api/admin/posts', null, ['superadmin', 'editor', 'viewer']],
+    ['GET', '/api/admin/forex-data', null, ALL],
+    ['PUT', '/api/admin/currencies/USD', { name: 'U.S. Dollar', unit: 1, region: 'other', display_order: 1, enabled: true }, ['superadmin', 'data-operator']],
+    ['GET', '/api/admin/api-settings', null, ['superadmin']],
+    ['GET', '/api/admin/api-keys', null, ['superadmin']],
+    ['GET', '/api/admin/newsletter/subscribers', null, ['superadmin', 'editor']],
+];
+
+describe('admin route permissions', () => {
+    let db: TestD1;
+    let env: Env;
+
+    beforeEach(() => {
+        db = createTestD1(...MIGRATIONS);
+        db.exec(`INSERT INTO users (username, password_hash, role) VALUES ('operator', '', 'data-operator')`);
+        env = { FOREX_DB: db, API_SETTINGS_CACHE: createTestKV(), JWT_SECRET: 'test-secret' } as unknown as Env;
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    const call = async (method: HttpMethod, path: string, body: Record<string, unknown> | null, role?: Role) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (role) {
+            // Signed in as the seeded admin account, with the role under test in the token
+            const { token } = await createSession(new Request('https://forex.grisma.com.np/api/admin/login'), env, 'admin', role);
+            headers.Authorization = `Bearer ${token}`;
+        }
+        return handle(new Request(`https://forex.grisma.com.np${path}`, { method, headers, body: body && JSON.stringify(body) }), env, ctx);
+    };
+
+    const table = CASES.flatMap(([method, path, body, allowed]) =>
+        ALL.map(role => [role, method, path, body, allowed.includes(role) ? 200 : 403] as const));
+
+    it.each(table)('%s: %s %s', async (role, method, path, body, status) => {
+        const response = await call(method, path, body, role);
+        expect(response.status).toBe(status);
+        if (status === 403) {
+            expect(await response.json()).toEqual({ success: false, error: 'Forbidden: your role does not allow this action' });
+        }
+    });
+
+    it.each(CASES)('asks for a token on %s %s', async (method, path, body) => {
+        expect((await call(method, path, body)).status).toBe(401);
+    });
+
+    it('leaves a forbidden request without effect', async () => {
+        await call('DELETE', '/api/admin/users/operator', null, 'viewer');
+        expect(await db.prepare(`SELECT role FROM users WHERE username = 'operator'`).first()).toEqual({ role: 'data-operator' });
+    });
+});
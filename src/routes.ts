@@ -0,0 +1,210 @@
+// src/routes.ts
+// --- ROUTE TABLE ---
+// Every /api route, its methods and its middleware. A public route's path is also the
+// key of its row in api_access_settings, so add a migration alongside a new public route.
+// /api/v1 routes share the settings of the legacy route they replace.
+
+import type { HttpMethod, Route, RouteHandler } from './router';
+import type { Permission } from './permissions';
+import { apiAccess, deprecated, requireAuth } from './middleware';
+
+import {
+    handlePublicSettings,
+    handlePublicCurrencies,
+    handleLatestRates,
+    handleRatesByDate,
+    handleHistoricalRates,
+    handlePublicPosts,
+    handlePublicPostBySlug,
+    handleImageApi,
+    handleArchiveListApi,
+    handleArchiveDetailApi,
+    handleOpenApiSpec,
+    handleCurrencyStats,
+    handleExport,
+    handleConvert,
+    handleCrossRates
+} from './api-public';
+
+import {
+    handleV1LatestRates,
+    handleV1RatesByDate,
+    handleV1RatesRange,
+    handleV1Currencies,
+    handleV1Stats,
+    handleV1Convert,
+    handleV1CrossRates
+} from './api-v1';
+
+import { handleAlertSubscribe, handleAlertConfirm, handleAlertUnsubscribe } from './rate-alerts';
+import { handleNewsletterSubscribe, handleNewsletterConfirm, handleNewsletterUnsubscribe } from './newsletter';
+
+import {
+    handleSiteSettings,
+    handleCheckUser,
+    handleAdminLogin,
+    handleCheckAttempts,
+    handleChangePassword,
+    handleRequestPasswordReset,
+    handleResetPassword,
+    handleLoginWithResetToken,
+    handleGenerateResetToken,
+    handleUsers,
+    handleUserById,
+    handlePosts,
+    handlePostById,
+    handleForexData,
+    handleFetchNrb,
+    handleCurrencies,
+    handleCurrencyByCode,
+    handleBackfillJobs,
+    handleBackfillJobById,
+    handleDataHealth,
+    handleResolveAnomaly,
+    handleGetApiSettings,
+    handleUpdateApiSettings,
+    handleApiUsage,
+    handleTestApiAccess,
+    handleApiKeys,
+    handleApiKeyById,
+    handleWebhooks,
+    handleWebhookById,
+    handleNewsletterSubscribers,
+    handleNewsletterSubscriberById,
+    handleNewsletterIssues,
+    handleGoogleLoginCallback,
+    handleTwoFactorLogin,
+    handleTwoFactorProfile,
+    handleRefreshToken,
+    handleLogout,
+    handleSessions,
+    handleGetProfile,
+    handleUpdateProfile,
+    handleSendVerificationCode
+} from './api-admin';
+
+/** Public data endpoint: access level, restrictions, API keys and quotas apply. */
+const publicApi = (path: string, handler: RouteHandler): Route =>
+    ({ methods: ['GET'], path, handler, middleware: [apiAccess] });
+
+/** /api/v1 endpoint, gated by the settings of the legacy endpoint it replaces. */
+const v1Api = (path: string, handler: RouteHandler, accessEndpoint: string): Route =>
+    ({ methods: ['GET'], path, handler, middleware: [apiAccess], accessEndpoint });
+
+/** Public endpoint kept for existing clients, announcing its v1 successor. */
+const legacyApi = (path: string, handler: RouteHandler, successor: string): Route =>
+    ({ methods: ['GET'], path, handler, middleware: [deprecated(successor), apiAccess] });
+
+/** Login and recovery steps, reachable without a token. */
+const open = (methods: HttpMethod[], path: string, handler: RouteHandler): Route =>
+    ({ methods, path, handler });
+
+/**
+ * Token-protected admin route. The permission is required so that a new route is never
+ * open to every role by accident; 'self' is for a user's own account.
+ */
+const admin = (methods: HttpMethod[], path: string, handler: RouteHandler, permission: Permission | 'self'): Route =>
+    ({ methods, path, handler, middleware: [requireAuth(permission === 'self' ? undefined : permission)] });
+
+export const routes: Route[] = [
+    // --- Public v1 ---
+    // /rates/latest before /rates/:date, which would match it too
+    v1Api('/api/v1/rates/latest', handleV1LatestRates, '/api/latest-rates'),
+    v1Api('/api/v1/rates/:date', handleV1RatesByDate, '/api/rates/date/:date'),
+    v1Api('/api/v1/rates', handleV1RatesRange, '/api/historical-rates'),
+    v1Api('/api/v1/currencies', handleV1Currencies, '/api/currencies'),
+    v1Api('/api/v1/stats/:currency', handleV1Stats, '/api/stats/:currency'),
+    v1Api('/api/v1/convert', handleV1Convert, '/api/convert'),
+    v1Api('/api/v1/cross-rates', handleV1CrossRates, '/api/cross-rates'),
+
+    // --- Public ---
+    publicApi('/api/settings', handlePublicSettings),
+    legacyApi('/api/currencies', handlePublicCurrencies, '/api/v1/currencies'),
+    legacyApi('/api/latest-rates', handleLatestRates, '/api/v1/rates/latest'),
+    legacyApi('/api/rates/date/:date', handleRatesByDate, '/api/v1/rates/:date'),
+    legacyApi('/api/historical-rates', handleHistoricalRates, '/api/v1/rates'),
+    legacyApi('/api/stats/:currency', handleCurrencyStats, '/api/v1/stats/:currency'),
+    legacyApi('/api/convert', handleConvert, '/api/v1/convert'),
+    legacyApi('/api/cross-rates', handleCrossRates, '/api/v1/cross-rates'),
+    publicApi('/api/export', handleExport),
+    publicApi('/api/posts', handlePublicPosts),
+    publicApi('/api/posts/:slug', handlePublicPostBySlug),
+    publicApi('/api/image/latest-rates', handleImageApi),
+    publicApi('/api/archive/list', handleArchiveListApi),
+    publicApi('/api/archive/detail/:date', handleArchiveDetailApi),
+    // Not access-gated: the docs page needs it even when endpoints are restricted
+    open(['GET'], '/api/openapi.json', handleOpenApiSpec),
+    // Email rate alerts: rate-limited in the handler; confirm/unsubscribe are links from emails
+    open(['POST'], '/api/alerts/subscribe', handleAlertSubscribe),
+    open(['GET'], '/api/alerts/confirm', handleAlertConfirm),
+    open(['GET', 'POST'], '/api/alerts/unsubscribe', handleAlertUnsubscribe),
+    // Daily rates newsletter: the same signup, confirm and unsubscribe flow as rate alerts
+    open(['POST'], '/api/newsletter/subscribe', handleNewsletterSubscribe),
+    open(['GET'], '/api/newsletter/confirm', handleNewsletterConfirm),
+    open(['GET', 'POST'], '/api/newsletter/unsubscribe', handleNewsletterUnsubscribe),
+
+    // --- Admin auth (no token) ---
+    open(['POST'], '/api/admin/check-user', handleCheckUser),
+    open(['POST'], '/api/admin/login', handleAdminLogin),
+    open(['POST'], '/api/admin/login/2fa', handleTwoFactorLogin),
+    open(['POST'], '/api/admin/login/2fa/:action', handleTwoFactorLogin),
+    open(['POST'], '/api/admin/refresh', handleRefreshToken),
+    open(['POST'], '/api/admin/auth/google/callback', handleGoogleLoginCallback),
+    open(['GET'], '/api/admin/check-attempts', handleCheckAttempts),
+    open(['POST'], '/api/admin/request-password-reset', handleRequestPasswordReset),
+    open(['POST'], '/api/admin/reset-password', handleResetPassword),
+    open(['POST'], '/api/admin/login-with-token', handleLoginWithResetToken),
+
+    // --- Own account ---
+    admin(['GET'], '/api/admin/profile', handleGetProfile, 'self'),
+    admin(['POST'], '/api/admin/profile/update-details', handleUpdateProfile, 'self'),
+    admin(['POST'], '/api/admin/profile/send-verification-code', handleSendVerificationCode, 'self'),
+    admin(['GET'], '/api/admin/profile/2fa', handleTwoFactorProfile, 'self'),
+    admin(['POST'], '/api/admin/profile/2fa/:action', handleTwoFactorProfile, 'self'),
+    admin(['GET'], '/api/admin/profile/sessions', handleSessions, 'self'),
+    admin(['POST'], '/api/admin/profile/sessions/revoke-others', handleSessions, 'self'),
+    admin(['DELETE'], '/api/admin/profile/sessions/:id', handleSessions, 'self'),
+    admin(['POST'], '/api/admin/logout', handleLogout, 'self'),
+    admin(['POST'], '/api/admin/change-password', handleChangePassword, 'self'),
+
+    // --- Admin ---
+    admin(['GET'], '/api/admin/settings', handleSiteSettings, 'settings:read'),
+    admin(['POST'], '/api/admin/settings', handleSiteSettings, 'settings:write'),
+    admin(['GET', 'POST'], '/api/admin/users', handleUsers, 'users:manage'),
+    admin(['PUT', 'DELETE'], '/api/admin/users/:username', handleUserById, 'users:manage'),
+    admin(['POST'], '/api/admin/generate-reset-token', handleGenerateResetToken, 'users:manage'),
+    admin(['GET'], '/api/admin/posts', handlePosts, 'posts:read'),
+    admin(['POST'], '/api/admin/posts', handlePosts, 'posts:write'),
+    admin(['GET'], '/api/admin/posts/:id', handlePostById, 'posts:read'),
+    admin(['PUT', 'DELETE'], '/api/admin/posts/:id', handlePostById, 'posts:write'),
+    admin(['GET'], '/api/admin/forex-data', handleForexData, 'rates:read'),
+    admin(['POST'], '/api/admin/forex-data', handleForexData, 'rates:write'),
+    admin(['POST'], '/api/admin/fetch-nrb', handleFetchNrb, 'rates:write'),
+    admin(['GET'], '/api/admin/backfill', handleBackfillJobs, 'rates:read'),
+    admin(['POST'], '/api/admin/backfill', handleBackfillJobs, 'rates:write'),
+    admin(['GET'], '/api/admin/backfill/:id', handleBackfillJobById, 'rates:read'),
+    admin(['POST'], '/api/admin/backfill/:id/cancel', handleBackfillJobById, 'rates:write'),
+    admin(['GET'], '/api/admin/data-health', handleDataHealth, 'rates:read'),
+    admin(['POST'], '/api/admin/data-health', handleDataHealth, 'rates:write'),
+    admin(['POST'], '/api/admin/data-health/anomalies/:id/resolve', handleResolveAnomaly, 'rates:write'),
+    admin(['GET'], '/api/admin/currencies', handleCurrencies, 'rates:read'),
+    admin(['POST'], '/api/admin/currencies', handleCurrencies, 'currencies:write'),
+    admin(['PUT', 'DELETE'], '/api/admin/currencies/:code', handleCurrencyByCode, 'currencies:write'),
+    admin(['GET'], '/api/admin/api-settings', handleGetApiSettings, 'api:manage'),
+    admin(['POST'], '/api/admin/api-settings', handleUpdateApiSettings, 'api:manage'),
+    admin(['POST'], '/api/admin/api-settings/test', handleTestApiAccess, 'api:manage'),
+    admin(['GET'], '/api/admin/api-usage', handleApiUsage, 'api:manage'),
+    admin(['GET', 'POST'], '/api/admin/api-keys', handleApiKeys, 'api:manage'),
+    admin(['PUT', 'DELETE'], '/api/admin/api-keys/:id', handleApiKeyById, 'api:manage'),
+    admin(['POST'], '/api/admin/api-keys/:id/rotate', handleApiKeyById, 'api:manage'),
+    admin(['GET', 'POST'], '/api/admin/webhooks', handleWebhooks, 'api:manage'),
+    admin(['PUT', 'DELETE'], '/api/admin/webhooks/:id', handleWebhookById, 'api:manage'),
+    admin(['POST'], '/api/admin/webhooks/:id/rotate-secret', handleWebhookById, 'api:manage'),
+    admin(['POST'], '/api/admin/webhooks/:id/test', handleWebhookById, 'api:manage'),
+    admin(['GET'], '/api/admin/webhooks/:id/deliveries', handleWebhookById, 'api:manage'),
+    admin(['POST'], '/api/admin/webhooks/:id/deliveries/:deliveryId/retry', handleWebhookById, 'api:manage'),
+    admin(['GET'], '/api/admin/newsletter/subscribers', handleNewsletterSubscribers, 'newsletter:manage'),
+    admin(['DELETE'], '/api/admin/newsletter/subscribers/:id', handleNewsletterSubscriberById, 'newsletter:manage'),
+    admin(['GET'], '/api/admin/newsletter/issues', handleNewsletterIssues, 'newsletter:manage'),
+    admin(['GET'], '/api/admin/newsletter/issues/:date/deliveries', handleNewsletterIssues, 'newsletter:manage'),
+];
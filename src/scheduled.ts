@@ -1,9 +1,17 @@
 // src/scheduled.ts
-import { Env, ExecutionContext, ScheduledEvent, D1Database, D1PreparedStatement } from './worker-types';
-import { CURRENCIES, CURRENCY_MAP } from './constants';
+import { Env, ExecutionContext, ScheduledEvent, IngestionRun } from './worker-types';
 import { formatDate } from './worker-utils';
 import { handleSitemap } from './sitemapGenerator';
-import { pruneApiUsageLogs } from './api-helpers'; // NEW: Import log pruner
+import { pruneApiKeyUsage } from './api-helpers';
+import { flushApiUsage, pruneApiUsage } from './api-usage';
+import { buildUpsertStatements, getRatesForDate, getRatesForDates, RateInput, WriteMode, CurrencyLookup } from './rates-store';
+import { getCurrencyRegistry, buildRegisterStatements, invalidateCurrencyCache } from './currency-registry';
+import { BACKFILL_CRON, runPendingBackfill } from './backfill';
+import { recordIngestionRun, validateRatesForDate } from './data-quality';
+import { purgeRatesCache } from './http-cache';
+import { queueRateEvents, deliverDueWebhooks, pruneWebhookDeliveries } from './webhooks';
+import { evaluateRateAlerts, pruneUnconfirmedAlerts } from './rate-alerts';
+import { startNewsletterIssue, sendNewsletterBatch, pruneNewsletter } from './newsletter';
 
 interface NrbRate {
     date: string; // "2024-07-20"
@@ -22,7 +30,7 @@ interface NrbCurrencyRate {
     sell: string; // "134.10"
 }
 
-interface NrbApiResponse {
+export interface NrbApiResponse {
     status: {
         code: number;
         message: string;
@@ -36,67 +44,102 @@ interface NrbApiResponse {
     };
 }
 
+const NRB_RATES_URL = 'https://www.nrb.org.np/api/forex/v1/rates';
+
 /**
- * Parses and stores API data in D1.
+ * Fetches one page of NRB rates for a date range.
+ * Returns null when NRB has nothing for the range (it answers 404); throws on other failures.
  */
-export async function processAndStoreApiData(
-    data: NrbApiResponse,
-    env: Env,
-    mode: 'update' | 'replace' = 'update'
-): Promise<number> {
-    if (!data.payload || data.payload.length === 0) {
-        console.log('No payload in NRB data, skipping storage.');
-        return 0;
+export async function fetchNrbRates(from: string, to: string, page: number = 1, perPage: number = 100): Promise<NrbApiResponse | null> {
+    const apiUrl = `${NRB_RATES_URL}?page=${page}&per_page=${perPage}&from=${from}&to=${to}`;
+    const response = await fetch(apiUrl, { headers: { 'Accept': 'application/json' } });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw Object.assign(new Error(`NRB API request failed with status ${response.status}`), { status: response.status });
     }
+    return await response.json() as NrbApiResponse;
+}
 
-    const stmts: D1PreparedStatement[] = [];
+/**
+ * Converts an NRB response into per-unit rate rows, plus every currency it mentions.
+ */
+export function parseNrbPayload(
+    data: NrbApiResponse,
+    currencies: CurrencyLookup
+): { rates: RateInput[]; published: { iso3: string; name: string; unit: number }[]; dates: Set<string> } {
+    const rates: RateInput[] = [];
+    const published: { iso3: string; name: string; unit: number }[] = [];
     const datesProcessed = new Set<string>();
 
-    for (const dayData of data.payload) {
+    for (const dayData of data.payload || []) {
         const date = dayData.date;
         datesProcessed.add(date);
 
-        const wideColumns: string[] = ['date', 'updated_at'];
-        const widePlaceholders: string[] = ['?', "datetime('now')"];
-        const wideValues: (string | number | null)[] = [date];
+        for (const rate of dayData.rates) {
+            const code = rate.currency.iso3?.toUpperCase();
+            if (!code) continue;
+
+            const unit = rate.currency.unit || currencies.get(code)?.unit || 1;
+            published.push({ iso3: code, name: rate.currency.name, unit });
 
-        let validRatesFound = false;
+            // Parse buy/sell rates, handling "N/A" or empty strings
+            const buyRate = parseFloat(rate.buy);
+            const sellRate = parseFloat(rate.sell);
 
-        for (const rate of dayData.rates) {
-            const code = rate.currency.iso3;
-            if (CURRENCIES.includes(code)) {
-                const unit = CURRENCY_MAP[code]?.unit || rate.currency.unit || 1;
-                
-                // Parse buy/sell rates, handling "N/A" or empty strings
-                const buyRate = parseFloat(rate.buy);
-                const sellRate = parseFloat(rate.sell);
-                
-                // Use per-unit rate
-                const buyPerUnit = !isNaN(buyRate) ? buyRate / unit : null;
-                const sellPerUnit = !isNaN(sellRate) ? sellRate / unit : null;
-
-                wideColumns.push(`"${code}_buy"`, `"${code}_sell"`);
-                widePlaceholders.push('?', '?');
-                wideValues.push(buyPerUnit, sellPerUnit);
-                
-                if (buyPerUnit !== null || sellPerUnit !== null) {
-                    validRatesFound = true;
-                }
+            // Use per-unit rate
+            const buyPerUnit = !isNaN(buyRate) ? buyRate / unit : null;
+            const sellPerUnit = !isNaN(sellRate) ? sellRate / unit : null;
+
+            if (buyPerUnit !== null || sellPerUnit !== null) {
+                rates.push({ date, iso3: code, buy: buyPerUnit, sell: sellPerUnit, unit, source: 'nrb' });
             }
         }
+    }
 
-        if (validRatesFound) {
-            const query = (mode === 'replace')
-                ? `INSERT OR REPLACE INTO forex_rates (${wideColumns.join(', ')}) VALUES (${widePlaceholders.join(', ')})`
-                : `INSERT OR IGNORE INTO forex_rates (${wideColumns.join(', ')}) VALUES (${widePlaceholders.join(', ')})`;
-            
-            stmts.push(env.FOREX_DB.prepare(query).bind(...wideValues));
-        }
+    return { rates, published, dates: datesProcessed };
+}
+
+/**
+ * Parses and stores API data in D1.
+ * Every currency NRB publishes is stored; ones the registry doesn't know yet are registered.
+ * New and revised dates are sent to webhooks unless `notify` is false (historical backfill).
+ */
+export async function processAndStoreApiData(
+    data: NrbApiResponse,
+    env: Env,
+    mode: WriteMode = 'update',
+    notify: boolean = true
+): Promise<number> {
+    if (!data.payload || data.payload.length === 0) {
+        console.log('No payload in NRB data, skipping storage.');
+        return 0;
     }
 
-    if (stmts.length > 0) {
-        await env.FOREX_DB.batch(stmts);
-        console.log(`Successfully stored/updated data for ${stmts.length} dates.`);
+    const registry = await getCurrencyRegistry(env);
+    const registryByCode = new Map(registry.map(c => [c.iso3, c]));
+    const { rates, published, dates: datesProcessed } = parseNrbPayload(data, registryByCode);
+
+    const registerStmts = buildRegisterStatements(env.FOREX_DB, new Set(registryByCode.keys()), published);
+    const stmts = buildUpsertStatements(env.FOREX_DB, rates, mode);
+    const stored = notify ? await getRatesForDates(env.FOREX_DB, Array.from(datesProcessed)) : null;
+    if (registerStmts.length > 0 || stmts.length > 0) {
+        await env.FOREX_DB.batch([...registerStmts, ...stmts]);
+        console.log(`Successfully stored/updated ${stmts.length} rates across ${datesProcessed.size} dates.`);
+        await purgeRatesCache(env, datesProcessed);
+    }
+    if (stored) {
+        // A webhook failure must never fail ingestion; undelivered events are retried by the cron
+        try {
+            if (await queueRateEvents(env, stored, rates, mode) > 0) {
+                await deliverDueWebhooks(env);
+            }
+        } catch (error: any) {
+            console.error('Error sending rate webhooks:', error.message, error.cause);
+        }
+    }
+    if (registerStmts.length > 0) {
+        console.log(`Registered ${registerStmts.length} new currencies published by NRB.`);
+        await invalidateCurrencyCache(env);
     }
 
     return datesProcessed.size;
@@ -107,32 +150,93 @@ export async function processAndStoreApiData(
  */
 export async function handleScheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
     console.log(`Scheduled event triggered at: ${new Date(event.scheduledTime).toISOString()}`);
+
+    // The frequent cron only advances historical backfill jobs, retries webhook deliveries,
+    // finishes newsletter sends too large for one run and folds in API usage counts
+    if (event.cron === BACKFILL_CRON) {
+        try {
+            await runPendingBackfill(env);
+        } catch (error: any) {
+            console.error('Error running historical backfill:', error.message, error.cause);
+        }
+        try {
+            await deliverDueWebhooks(env);
+        } catch (error: any) {
+            console.error('Error delivering webhooks:', error.message, error.cause);
+        }
+        try {
+            await sendNewsletterBatch(env);
+        } catch (error: any) {
+            console.error('Error sending newsletter:', error.message, error.cause);
+        }
+        try {
+            await flushApiUsage(env);
+        } catch (error: any) {
+            console.error('Error flushing API usage:', error.message, error.cause);
+        }
+        return;
+    }
     
     const nowUtc = new Date();
     const nptOffsetMs = (5 * 60 + 45) * 60 * 1000;
     const nowNpt = new Date(nowUtc.getTime() + nptOffsetMs);
     const todayStr = formatDate(nowNpt);
 
-    // 1. Fetch data from NRB API
-    const apiUrl = `https://www.nrb.org.np/api/forex/v1/rates?page=1&per_page=1&from=${todayStr}&to=${todayStr}`;
-    
+    // 1. Fetch data from NRB API (every attempt is recorded in ingestion_runs)
+    const startedAt = Date.now();
+    const run: Omit<IngestionRun, 'id' | 'started_at'> = {
+        cron: event.cron, target_date: todayStr, status: 'error', http_status: null,
+        currencies_received: 0, currencies_stored: 0, duration_ms: 0, error: null,
+    };
     try {
-        const response = await fetch(apiUrl, { headers: { 'Accept': 'application/json' } });
-        if (!response.ok) {
-            if (response.status === 404) {
-                 console.log('No data available from NRB for today yet.');
-            } else {
-                throw new Error(`NRB API request failed with status ${response.status}`);
-            }
+        const data = await fetchNrbRates(todayStr, todayStr, 1, 1);
+        if (!data) {
+            console.log('No data available from NRB for today yet.');
+            run.status = 'no_data';
+            run.http_status = 404;
         } else {
-            const data = await response.json() as NrbApiResponse;
+            run.http_status = 200;
+            run.currencies_received = new Set((data.payload || []).flatMap(day => day.rates.map(r => r.currency.iso3))).size;
             await processAndStoreApiData(data, env, 'replace'); // Use 'replace' to ensure today's data is updated
+            run.currencies_stored = (await getRatesForDate(env.FOREX_DB, todayStr)).length;
+            run.status = run.currencies_stored > 0 ? 'success' : 'no_data';
         }
     } catch (error: any) {
         console.error('Error fetching or storing NRB data:', error.message, error.cause);
+        run.error = error.message;
+        run.http_status = error.status ?? null;
+    }
+
+    // 2. Record the run and check the stored day for anomalies
+    try {
+        const runId = await recordIngestionRun(env, { ...run, duration_ms: Date.now() - startedAt });
+        if (run.status === 'success') {
+            await validateRatesForDate(env, todayStr, runId);
+        }
+    } catch (error: any) {
+        console.error('Error recording ingestion run:', error.message, error.cause);
     }
     
-    // 2. Regenerate Sitemap
+    // 3. Email subscribers whose rate alerts the new rates triggered
+    if (run.status === 'success') {
+        try {
+            await evaluateRateAlerts(env, todayStr);
+        } catch (error: any) {
+            console.error('Error evaluating rate alerts:', error.message, error.cause);
+        }
+    }
+
+    // 4. Send the daily newsletter (once per rate date; later crons only continue the send)
+    if (run.status === 'success') {
+        try {
+            await startNewsletterIssue(env, todayStr);
+            await sendNewsletterBatch(env);
+        } catch (error: any) {
+            console.error('Error sending newsletter:', error.message, error.cause);
+        }
+    }
+
+    // 5. Regenerate Sitemap
     try {
         // We pass a dummy request to satisfy the handler's signature
         const dummyRequest = new Request('https://forex.grisma.com.np/sitemap.xml');
@@ -142,11 +246,15 @@ export async function handleScheduled(event: ScheduledEvent, env: Env, ctx: Exec
         console.error('Error regenerating sitemap:', error.message, error.cause);
     }
     
-    // 3. NEW: Prune old API usage logs
+    // 6. Prune old API key usage counters, usage rollups, webhook deliveries, unconfirmed alerts
+    //    and newsletter signups
     try {
-        await pruneApiUsageLogs(env.FOREX_DB);
-        console.log('Pruned old API usage logs.');
+        await pruneApiKeyUsage(env.FOREX_DB);
+        await pruneApiUsage(env.FOREX_DB);
+        await pruneWebhookDeliveries(env.FOREX_DB);
+        await pruneUnconfirmedAlerts(env.FOREX_DB);
+        await pruneNewsletter(env.FOREX_DB);
     } catch (error: any) {
-        console.error('Error pruning API usage logs:', error.message, error.cause);
+        console.error('Error pruning old records:', error.message, error.cause);
     }
 }
@@ -18,20 +18,99 @@ const getAuthToken = () => {
   return null;
 };
 
+export const AUTH_CHANGED_EVENT = 'auth-changed';
+
+/**
+ * Stores the tokens returned by a login or refresh and tells ProtectedRoute.
+ */
+export const saveAuthSession = (session: { token: string; refreshToken?: string; username: string }) => {
+  localStorage.setItem('authToken', session.token);
+  if (session.refreshToken) localStorage.setItem('refreshToken', session.refreshToken);
+  localStorage.setItem('username', session.username);
+  window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+};
+
+export const clearAuthSession = () => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('username');
+  window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+};
+
+// A 401 from these means bad credentials, not an expired access token
+const NO_REFRESH_PATHS = ['/api/admin/login', '/api/admin/refresh', '/api/admin/reset-password', '/api/admin/auth/'];
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Swaps the refresh token for a new access token. Concurrent callers share one
+ * request, since the server rotates the refresh token on every use.
+ */
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) return null;
+
+      let response: Response;
+      try {
+        response = await fetch('/api/admin/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+      } catch {
+        return null; // Offline: keep the session, this request just fails
+      }
+
+      if (response.ok) {
+        const data = await response.json();
+        saveAuthSession(data);
+        return data.token as string;
+      }
+      // Another tab may have rotated it first; its tokens are already stored
+      if (localStorage.getItem('refreshToken') !== refreshToken) {
+        return localStorage.getItem('authToken');
+      }
+      clearAuthSession();
+      return null;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * fetch() with the stored access token attached. On a 401 it refreshes the
+ * session once and retries, so callers never see an expired access token.
+ */
+export async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send(getAuthToken());
+  if (response.status !== 401 || NO_REFRESH_PATHS.some(p => url.startsWith(p)) || !localStorage.getItem('refreshToken')) {
+    return response;
+  }
+  const token = await refreshAccessToken();
+  return token ? send(token) : response;
+}
+
 /**
  * Base function for API requests, handling headers and error parsing.
  */
 async function fetcher(path: string, options: RequestInit = {}) {
-  const token = getAuthToken();
   const headers = {
     'Content-Type': 'application/json',
-    // Attach authorization header if a token exists
-    ...(token && { 'Authorization': `Bearer ${token}` }),
     ...options.headers,
   };
 
-  // Prepend /api to the path for all requests
-  const response = await fetch(`/api${path}`, { ...options, headers });
+  // Prepend /api to the path for all requests; the token is attached (and refreshed) there
+  const response = await fetchWithAuth(`/api${path}`, { ...options, headers });
 
   if (!response.ok) {
     const errorBody = await response.json().catch(() => ({ message: response.statusText }));
@@ -98,9 +177,11 @@ export const fetchRatesApiFirst = async (date: Date): Promise<RatesData | null>
 
     if (apiResponse && apiResponse.data.payload.length > 0) {
       console.log(`[APIClient] API-First success for ${dateString}`);
-      // Asynchronously trigger a background store to D1, but don't wait for it
-      fetch(`/api/fetch-and-store?from=${dateString}&to=${dateString}`, { method: 'POST', headers: { Authorization: `Bearer ${getAuthToken()}` } })
-        .catch(err => console.error(`[APIClient] Background store failed: ${err.message}`));
+      // Asynchronously trigger a background store to D1 (admins only), but don't wait for it
+      if (getAuthToken()) {
+        apiClient.post('/admin/fetch-nrb', { from: dateString, to: dateString, mode: 'update' })
+          .catch(err => console.error(`[APIClient] Background store failed: ${err.message}`));
+      }
       return apiResponse.data.payload[0];
     }
     // If API returns no data (e.g., 404 for holiday), try DB
@@ -133,9 +214,11 @@ export const fetchPreviousDayRatesApiFirst = async (currentDate: Date): Promise<
       const actualDate = apiResponse.data.payload[0].date;
       console.log(`[APIClient] API-First success for previous day (found ${actualDate})`);
       
-       // Asynchronously trigger a background store to D1
-      fetch(`/api/fetch-and-store?from=${actualDate}&to=${actualDate}`, { method: 'POST', headers: { Authorization: `Bearer ${getAuthToken()}` } })
-        .catch(err => console.error(`[APIClient] Background store failed: ${err.message}`));
+       // Asynchronously trigger a background store to D1 (admins only)
+      if (getAuthToken()) {
+        apiClient.post('/admin/fetch-nrb', { from: actualDate, to: actualDate, mode: 'update' })
+          .catch(err => console.error(`[APIClient] Background store failed: ${err.message}`));
+      }
       
       return apiResponse.data.payload[0];
     }
@@ -1,4 +1,4 @@
-import { Rate, RatesData, HistoricalRates, ForexResponse } from '../types/forex';
+import { Rate, RatesData, HistoricalRates, ForexResponse, CrossRatesResponse, RateSide } from '../types/forex';
 import { fetchForexRatesByDate, fetchHistoricalRates as fetchRatesFromApi } from './forexService';
 import { format, subDays } from 'date-fns';
 
@@ -99,15 +99,18 @@ export async function fetchRatesForDateWithCache(date: string, bypassCache: bool
 /**
  * Fetches historical rates for a currency (API-only) for charting/calculation.
  * NOTE: The data returned here is *always* for a single currency/multiple dates, not full daily rate tables.
+ * With `maxPoints`, the worker downsamples long ranges to that many representative days.
  */
 export async function fetchHistoricalRatesWithCache(
   currencyCode: string,
   from: string,
-  to: string
+  to: string,
+  maxPoints?: number
 ): Promise<any[]> { // Returns a simplified { date, buy, sell }[] payload
   try {
     // This hits the worker's /api/historical-rates?currency=USD... endpoint
-    const response = await fetch(`${API_URL}/historical-rates?currency=${currencyCode}&from=${from}&to=${to}`);
+    const pointsParam = maxPoints ? `&max_points=${maxPoints}` : '';
+    const response = await fetch(`${API_URL}/historical-rates?currency=${currencyCode}&from=${from}&to=${to}${pointsParam}`);
     
     if (!response.ok) {
         throw new Error(`Worker API error: ${response.statusText}`);
@@ -127,6 +130,19 @@ export async function fetchHistoricalRatesWithCache(
   }
 }
 
+/**
+ * Fetches the N×N cross-rate matrix (derived through NPR) for a date.
+ * The worker falls back to the latest published date before it.
+ */
+export async function fetchCrossRates(date: string, side: RateSide): Promise<CrossRatesResponse> {
+  const response = await fetch(`${API_URL}/cross-rates?date=${date}&side=${side}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `Worker API error: ${response.statusText}`);
+  }
+  return data;
+}
+
 /**
  * Fetches rates for today and (if needed) the previous day.
  * Caches results.
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createSession, isSessionActive, refreshSession, revokeUserSessions } from './sessions';
+import { createTestD1, TestD1 } from './test/cloudflare';
+import type { Env } from './worker-types';
+
+const request = new Request('https://forex.grisma.com.np/api/admin/refresh', {
+    headers: { 'CF-Connecting-IP': '203.0.113.7', 'User-Agent': 'vitest' },
+});
+
+describe('refreshSession', () => {
+    let db: TestD1;
+    let env: Env;
+
+    beforeEach(() => {
+        db = createTestD1('001_db.sql', '006_roles.sql', '008_sessions.sql');
+        env = { FOREX_DB: db, JWT_SECRET: 'test-secret' } as unknown as Env;
+    });
+
+    const sessionId = (refreshToken: string) => refreshToken.split('.')[0];
+    const ageRotation = (id: string) => db.exec(`UPDATE sessions SET rotated_at = datetime('now', '-5 minutes') WHERE id = '${id}'`);
+
+    it('rotates the refresh token and re-reads the role', async () => {
+        const login = await createSession(request, env, 'admin', 'superadmin');
+        db.exec(`UPDATE users SET role = 'viewer' WHERE username = 'admin'`);
+
+        const refreshed = await refreshSession(request, env, login.refreshToken);
+        expect(refreshed?.username).toBe('admin');
+        expect(refreshed?.role).toBe('viewer');
+        expect(refreshed?.refreshToken).toMatch(new RegExp(`^${sessionId(login.refreshToken)}\\.[0-9a-f]{64}$`));
+        expect(refreshed?.refreshToken).not.toBe(login.refreshToken);
+    });
+
+    it('gives a tab that lost the race an access token but no new refresh token', async () => {
+        const login = await createSession(request, env, 'admin', 'superadmin');
+        const winner = await refreshSession(request, env, login.refreshToken);
+
+        const loser = await refreshSession(request, env, login.refreshToken);
+        expect(loser?.token).toBeTruthy();
+        expect(loser?.refreshToken).toBeUndefined();
+        // The winner's token still works
+        expect(await refreshSession(request, env, winner!.refreshToken)).not.toBeNull();
+    });
+
+    it('revokes the session when the previous token is replayed after the grace period', async () => {
+        const login = await createSession(request, env, 'admin', 'superadmin');
+        const rotated = await refreshSession(request, env, login.refreshToken);
+        ageRotation(sessionId(login.refreshToken));
+
+        expect(await refreshSession(request, env, login.refreshToken)).toBeNull();
+        expect(await isSessionActive(db, sessionId(login.refreshToken))).toBe(false);
+        expect(await refreshSession(request, env, rotated!.refreshToken)).toBeNull();
+    });
+
+    it('rejects a wrong secret for a known session without revoking it', async () => {
+        const login = await createSession(request, env, 'admin', 'superadmin');
+        const id = sessionId(login.refreshToken);
+
+        expect(await refreshSession(request, env, `${id}.${'0'.repeat(64)}`)).toBeNull();
+        expect(await isSessionActive(db, id)).toBe(true);
+        expect(await refreshSession(request, env, login.refreshToken)).not.toBeNull();
+    });
+
+    it('treats a token two rotations old as a wrong secret', async () => {
+        const login = await createSession(request, env, 'admin', 'superadmin');
+        const second = await refreshSession(request, env, login.refreshToken);
+        await refreshSession(request, env, second!.refreshToken);
+        ageRotation(sessionId(login.refreshToken));
+
+        expect(await refreshSession(request, env, login.refreshToken)).toBeNull();
+        expect(await isSessionActive(db, sessionId(login.refreshToken))).toBe(true);
+    });
+
+    it('rejects malformed, revoked and inactive-user sessions', async () => {
+        expect(await refreshSession(request, env, 'not-a-token')).toBeNull();
+
+        const revoked = await createSession(request, env, 'admin', 'superadmin');
+        await revokeUserSessions(env, 'admin');
+        expect(await refreshSession(request, env, revoked.refreshToken)).toBeNull();
+
+        const inactive = await createSession(request, env, 'admin', 'superadmin');
+        db.exec(`UPDATE users SET is_active = 0 WHERE username = 'admin'`);
+        expect(await refreshSession(request, env, inactive.refreshToken)).toBeNull();
+    });
+});
@@ -0,0 +1,160 @@
+// src/sessions.ts
+// --- SERVER-SIDE SESSIONS ---
+// A login creates a session and returns a short-lived access token (its `jti` is the
+// session id) plus a refresh token of the form `<session id>.<secret>`. Refreshing
+// rotates the secret; presenting the previous one after a short grace period revokes the
+// session, since it means the token was copied. Any other wrong secret is just rejected,
+// because session ids are not secret.
+
+import { Env, D1Database, AdminSession } from './worker-types';
+import { generateToken, simpleHash } from './auth';
+import { Role, normalizeRole } from './permissions';
+
+export const REFRESH_TOKEN_TTL_DAYS = 14; // Sliding: every refresh pushes it out again
+const ROTATION_GRACE_SECONDS = 60; // Another tab may still hold the token we just rotated
+
+function newRefreshSecret(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Starts a session for a fully authenticated user.
+ */
+export async function createSession(
+    request: Request,
+    env: Env,
+    username: string,
+    role: Role
+): Promise<{ token: string; refreshToken: string }> {
+    const sessionId = crypto.randomUUID();
+    const secret = newRefreshSecret();
+
+    await env.FOREX_DB.prepare(
+        `INSERT INTO sessions (id, username, refresh_token_hash, ip_address, user_agent, expires_at)
+         VALUES (?, ?, ?, ?, ?, datetime('now', ?))`
+    ).bind(
+        sessionId,
+        username,
+        await simpleHash(secret),
+        request.headers.get('CF-Connecting-IP'),
+        request.headers.get('User-Agent')?.slice(0, 255) || null,
+        `+${REFRESH_TOKEN_TTL_DAYS} days`
+    ).run();
+
+    return {
+        token: await generateToken(username, env.JWT_SECRET, role, sessionId),
+        refreshToken: `${sessionId}.${secret}`,
+    };
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * The role is re-read, so role changes apply from the next refresh.
+ * Within the grace period after a rotation the previous token still gets an access token,
+ * but no new refresh token: the client keeps the one the winning tab stored.
+ * Returns null when the token is unknown, expired, revoked or the user is inactive.
+ */
+export async function refreshSession(
+    request: Request,
+    env: Env,
+    refreshToken: string
+): Promise<{ token: string; refreshToken?: string; username: string; role: Role } | null> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret) return null;
+
+    const session = await env.FOREX_DB.prepare(
+        `SELECT s.username, s.refresh_token_hash, u.role,
+            (s.previous_refresh_token_hash IS NOT NULL AND s.rotated_at > datetime('now', ?)) AS in_grace,
+            s.previous_refresh_token_hash
+         FROM sessions s JOIN users u ON u.username = s.username AND u.is_active = 1
+         WHERE s.id = ? AND s.revoked_at IS NULL AND s.expires_at > datetime('now')`
+    ).bind(`-${ROTATION_GRACE_SECONDS} seconds`, sessionId).first<{
+        username: string; refresh_token_hash: string; role: string; in_grace: number; previous_refresh_token_hash: string | null;
+    }>();
+    if (!session) return null;
+
+    const presentedHash = await simpleHash(secret);
+    const newSecret = newRefreshSecret();
+
+    // Guarded on the presented hash so two concurrent refreshes can't both rotate
+    const { meta } = await env.FOREX_DB.prepare(
+        `UPDATE sessions SET refresh_token_hash = ?, previous_refresh_token_hash = refresh_token_hash,
+            rotated_at = datetime('now'), last_seen_at = datetime('now'),
+            ip_address = ?, user_agent = ?, expires_at = datetime('now', ?)
+         WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`
+    ).bind(
+        await simpleHash(newSecret),
+        request.headers.get('CF-Connecting-IP'),
+        request.headers.get('User-Agent')?.slice(0, 255) || null,
+        `+${REFRESH_TOKEN_TTL_DAYS} days`,
+        sessionId,
+        presentedHash
+    ).run();
+
+    if (!meta?.changes) {
+        // Either this token was just rotated (here or while our UPDATE waited) or it is one
+        // step old. Anything else is a wrong secret for a public session id, not a leak.
+        const justRotated = session.refresh_token_hash === presentedHash
+            || (session.in_grace && session.previous_refresh_token_hash === presentedHash);
+        if (justRotated) {
+            // Another tab won the race and stored the new refresh token; only hand out an access token
+            const role = normalizeRole(session.role);
+            return {
+                token: await generateToken(session.username, env.JWT_SECRET, role, sessionId),
+                username: session.username,
+                role,
+            };
+        }
+        if (session.previous_refresh_token_hash === presentedHash) {
+            // A rotated token replayed after the grace period: assume it leaked and end the session
+            console.warn(`Refresh token reuse detected for session ${sessionId} (${session.username}); revoking.`);
+            await revokeSession(env, sessionId);
+        }
+        return null;
+    }
+
+    const role = normalizeRole(session.role);
+    return {
+        token: await generateToken(session.username, env.JWT_SECRET, role, sessionId),
+        refreshToken: `${sessionId}.${newSecret}`,
+        username: session.username,
+        role,
+    };
+}
+
+export async function isSessionActive(db: D1Database, sessionId: string): Promise<boolean> {
+    const row = await db.prepare(
+        `SELECT 1 AS active FROM sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > datetime('now')`
+    ).bind(sessionId).first<{ active: number }>();
+    return !!row;
+}
+
+export async function revokeSession(env: Env, sessionId: string, username?: string): Promise<boolean> {
+    const { meta } = username
+        ? await env.FOREX_DB.prepare(
+            `UPDATE sessions SET revoked_at = datetime('now') WHERE id = ? AND username = ? AND revoked_at IS NULL`
+        ).bind(sessionId, username).run()
+        : await env.FOREX_DB.prepare(
+            `UPDATE sessions SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`
+        ).bind(sessionId).run();
+    return !!meta?.changes;
+}
+
+/**
+ * Ends every session of a user, optionally keeping the one making the request.
+ */
+export async function revokeUserSessions(env: Env, username: string, exceptSessionId: string | null = null): Promise<number> {
+    const { meta } = await env.FOREX_DB.prepare(
+        `UPDATE sessions SET revoked_at = datetime('now') WHERE username = ? AND revoked_at IS NULL AND id != ?`
+    ).bind(username, exceptSessionId || '').run();
+    return meta?.changes || 0;
+}
+
+export async function listActiveSessions(env: Env, username: string): Promise<AdminSession[]> {
+    const { results } = await env.FOREX_DB.prepare(
+        `SELECT id, ip_address, user_agent, created_at, last_seen_at, expires_at
+         FROM sessions WHERE username = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+         ORDER BY last_seen_at DESC`
+    ).bind(username).all<AdminSession>();
+    return results || [];
+}
@@ -71,6 +71,8 @@ export const generatePageSitemap = () => {
   xml += createUrlEntry('/posts', today, 'daily', 0.8);
   xml += createUrlEntry('/historical-charts', today, 'monthly', 0.7);
   xml += createUrlEntry('/converter', today, 'monthly', 0.7);
+  xml += createUrlEntry('/cross-rates', today, 'daily', 0.6);
+  xml += createUrlEntry('/alerts', today, 'monthly', 0.5);
   xml += createUrlEntry('/about', today, 'yearly', 0.5);
   xml += createUrlEntry('/contact', today, 'yearly', 0.5);
   xml += createUrlEntry('/disclosure', today, 'yearly', 0.3);
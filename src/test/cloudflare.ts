@@ -0,0 +1,86 @@
+// src/test/cloudflare.ts
+// --- IN-MEMORY D1 AND KV FOR UNIT TESTS ---
+// D1 is SQLite, so the fake runs the real migrations and queries on sql.js. Only the parts
+// of the binding the worker uses are implemented.
+
+import { readFileSync } from 'node:fs';
+import initSqlJs from 'sql.js';
+import type { D1Database, D1PreparedStatement, D1Result, KVNamespace } from '../worker-types';
+
+const SQL = await initSqlJs();
+
+export interface TestD1 extends D1Database {
+    /** Runs raw SQL against the database, e.g. to age a row. */
+    exec(sql: string): void;
+}
+
+/**
+ * A fresh database with the given migration files (e.g. '001_db.sql') applied in order.
+ */
+export function createTestD1(...migrations: string[]): TestD1 {
+    const db = new SQL.Database();
+    for (const file of migrations) {
+        db.exec(readFileSync(new URL(`../../migrations/${file}`, import.meta.url), 'utf8'));
+    }
+
+    const execute = (sql: string, params: unknown[]) => {
+        const stmt = db.prepare(sql);
+        try {
+            stmt.bind(params.map(value => (value === undefined ? null : typeof value === 'boolean' ? Number(value) : value)));
+            const rows: Record<string, unknown>[] = [];
+            while (stmt.step()) rows.push(stmt.getAsObject());
+            return { results: rows, success: true, meta: { changes: db.getRowsModified() } };
+        } finally {
+            stmt.free();
+        }
+    };
+
+    const statement = (sql: string, params: unknown[] = []): D1PreparedStatement => ({
+        bind: (...values: unknown[]) => statement(sql, values),
+        all: async <T,>() => execute(sql, params) as D1Result<T>,
+        run: async <T,>() => execute(sql, params) as D1Result<T>,
+        first: async <T,>() => (execute(sql, params).results[0] as T) ?? null,
+    });
+
+    return {
+        prepare: (sql: string) => statement(sql),
+        batch: async <T,>(statements: D1PreparedStatement[]) => {
+            db.exec('BEGIN');
+            try {
+                const results: D1Result<T>[] = [];
+                for (const stmt of statements) results.push(await stmt.run<T>());
+                db.exec('COMMIT');
+                return results;
+            } catch (error) {
+                db.exec('ROLLBACK');
+                throw error;
+            }
+        },
+        exec: (sql: string) => db.exec(sql),
+    };
+}
+
+/**
+ * A KV namespace backed by a Map. Expiry is ignored.
+ */
+export function createTestKV(): KVNamespace & { store: Map<string, string> } {
+    const store = new Map<string, string>();
+    return {
+        store,
+        get: async (key: string, type?: string) => {
+            const value = store.get(key);
+            if (value === undefined) return null;
+            return type === 'json' ? JSON.parse(value) : value;
+        },
+        put: async (key: string, value: string) => {
+            store.set(key, value);
+        },
+        delete: async (key: string) => {
+            store.delete(key);
+        },
+        list: async ({ prefix = '', limit = 1000 } = {}) => {
+            const keys = Array.from(store.keys()).filter(name => name.startsWith(prefix)).sort().slice(0, limit);
+            return { keys: keys.map(name => ({ name })), list_complete: true };
+        },
+    };
+}
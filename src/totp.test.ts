@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildOtpAuthUri, generateTotpSecret, hashRecoveryCode, verifyTotpCode } from './totp';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", last six digits of each code
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTotpCode', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('matches the RFC 6238 SHA-1 test vectors', async () => {
+        vi.useFakeTimers();
+        for (const [seconds, code] of [[59, '287082'], [1111111109, '081804'], [1234567890, '005924']] as const) {
+            vi.setSystemTime(seconds * 1000);
+            expect(await verifyTotpCode(RFC_SECRET, code, null)).toBe(Math.floor(seconds / 30));
+        }
+    });
+
+    it('accepts one step of clock skew either way, but not two', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime((1111111109 + 30) * 1000);
+        expect(await verifyTotpCode(RFC_SECRET, '081804', null)).toBe(37037036);
+        vi.setSystemTime((1111111109 + 60) * 1000);
+        expect(await verifyTotpCode(RFC_SECRET, '081804', null)).toBeNull();
+    });
+
+    it('rejects a code from a step already used', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1111111109 * 1000);
+        expect(await verifyTotpCode(RFC_SECRET, '081804', 37037036)).toBeNull();
+    });
+
+    it('ignores spaces and rejects anything but six digits', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1111111109 * 1000);
+        expect(await verifyTotpCode(RFC_SECRET, '081 804', null)).toBe(37037036);
+        expect(await verifyTotpCode(RFC_SECRET, '81804', null)).toBeNull();
+        expect(await verifyTotpCode(RFC_SECRET, 'abcdef', null)).toBeNull();
+    });
+});
+
+describe('enrollment', () => {
+    it('generates 160-bit base32 secrets', () => {
+        expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+    });
+
+    it('builds an otpauth URI with the issuer in the label', () => {
+        const uri = buildOtpAuthUri('ram@example.com', RFC_SECRET);
+        expect(uri.startsWith('otpauth://totp/Forex%20Nepal%3Aram%40example.com?')).toBe(true);
+        expect(new URL(uri).searchParams.get('secret')).toBe(RFC_SECRET);
+    });
+});
+
+describe('hashRecoveryCode', () => {
+    it('normalizes case and whitespace', async () => {
+        expect(await hashRecoveryCode(' ABCDE-fghjk ')).toBe(await hashRecoveryCode('abcde-fghjk'));
+    });
+});
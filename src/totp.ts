@@ -0,0 +1,118 @@
+// src/totp.ts
+// --- TIME-BASED ONE-TIME PASSWORDS (RFC 6238) ---
+// HMAC-SHA1, 6 digits, 30 second steps: the defaults every authenticator app supports.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1; // Accept the previous and next code to allow for clock skew
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_ISSUER = 'Forex Nepal';
+
+function base32Encode(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+    const clean = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+async function codeForStep(secret: string, step: number): Promise<string> {
+    const counter = new Uint8Array(8);
+    let remaining = step;
+    for (let i = 7; i >= 0; i--) {
+        counter[i] = remaining & 255;
+        remaining = Math.floor(remaining / 256);
+    }
+    const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from the enrollment QR code.
+ */
+export function buildOtpAuthUri(username: string, secret: string): string {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${username}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Checks a code against the current step and its neighbours.
+ * Returns the matching step, or null. Steps at or before `lastStep` are rejected so
+ * a code can't be used twice.
+ */
+export async function verifyTotpCode(secret: string, code: string, lastStep: number | null): Promise<number | null> {
+    const cleaned = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(cleaned)) return null;
+
+    const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+    for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+        if (lastStep !== null && step <= lastStep) continue;
+        if (await codeForStep(secret, step) === cleaned) return step;
+    }
+    return null;
+}
+
+/**
+ * Generates one-time recovery codes formatted as `xxxxx-xxxxx`.
+ */
+export function generateRecoveryCodes(): string[] {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789'; // No look-alike characters
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), b => alphabet[b % alphabet.length]);
+        return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+}
+
+/**
+ * Recovery codes are random enough that a plain SHA-256 is sufficient.
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+    const normalized = code.trim().toLowerCase().replace(/\s/g, '');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -61,3 +61,155 @@ export interface DateRangeRequest {
   from: string;
   to: string;
 }
+
+export type StatsBucketSize = 'week' | 'month' | 'quarter' | 'year';
+
+/** Open/high/low/close plus distribution of one series (buy, sell or spread) over a period. */
+export interface OhlcStats {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  mean: number;
+  stddev: number;
+  change_pct: number; // close vs open
+}
+
+export interface RateStatsPeriod {
+  bucket: string; // e.g. '2024-03-04' (week start), '2024-03', '2024-Q1', '2024'; 'all' for the summary
+  start_date: string;
+  end_date: string;
+  days: number;
+  buy: OhlcStats;
+  sell: OhlcStats;
+  spread: OhlcStats;
+}
+
+export interface RateStatsResponse {
+  success: boolean;
+  currency: string;
+  from: string;
+  to: string;
+  bucket: StatsBucketSize | null;
+  summary: RateStatsPeriod | null;
+  buckets: RateStatsPeriod[];
+}
+
+/** Which NRB rate a conversion uses: buy, sell, or the average of the two. */
+export type RateSide = 'buy' | 'sell' | 'mid';
+
+export interface ConversionLeg {
+  iso3: string;
+  unit: number; // Quantity NRB quotes the currency in
+  npr_per_unit: number; // NPR for a single unit, on the requested side
+}
+
+export interface ConversionResponse {
+  success: boolean;
+  date: string; // Rates date actually used (the latest on or before the requested one)
+  side: RateSide;
+  via: 'NPR';
+  from: ConversionLeg;
+  to: ConversionLeg;
+  amount: number;
+  rate: number; // Units of `to` per single unit of `from`
+  result: number;
+}
+
+export interface CrossRatesResponse {
+  success: boolean;
+  date: string;
+  side: RateSide;
+  currencies: string[]; // NPR first, then display order
+  units: Record<string, number>;
+  rates: Record<string, Record<string, number | null>>; // rates[from][to]: units of `to` per single `from`
+}
+
+// --- API v1 ---
+// The frozen /api/v1 surface. Every response is a V1Envelope; fields are only ever added.
+
+export type V1ErrorCode =
+  | 'invalid_parameter'
+  | 'not_found'
+  | 'invalid_api_key'
+  | 'forbidden'
+  | 'quota_exceeded'
+  | 'method_not_allowed'
+  | 'payload_too_large'
+  | 'internal_error';
+
+export interface V1Error {
+  code: V1ErrorCode;
+  message: string;
+}
+
+export interface V1Meta {
+  api_version: 'v1';
+  [key: string]: unknown;
+}
+
+export interface V1Envelope<T> {
+  data: T | null;
+  meta: V1Meta;
+  error: V1Error | null;
+}
+
+/** One currency's rates. `_per_unit` is NPR for a single unit; `_quoted` is per `unit`, as NRB publishes. */
+export interface V1Rate {
+  iso3: string;
+  name: string;
+  unit: number;
+  buy_per_unit: number | null;
+  sell_per_unit: number | null;
+  buy_quoted: number | null;
+  sell_quoted: number | null;
+}
+
+export interface V1RatesDay {
+  date: string;
+  updated_at: string | null; // When the date was last written (UTC, ISO 8601)
+  rates: Partial<V1Rate>[]; // Every field unless narrowed with `fields=`
+}
+
+export interface V1Currency {
+  iso3: string;
+  name: string;
+  unit: number;
+  region: string;
+  flag_code: string | null;
+}
+
+export interface V1ConversionLeg {
+  iso3: string;
+  unit: number;
+  npr_per_unit: number;
+  npr_per_quoted: number;
+}
+
+export interface V1Conversion {
+  date: string;
+  side: RateSide;
+  via: 'NPR';
+  from: V1ConversionLeg;
+  to: V1ConversionLeg;
+  amount: number;
+  rate_per_unit: number; // Units of `to` per single unit of `from`
+  result: number;
+}
+
+export interface V1CrossRates {
+  date: string;
+  side: RateSide;
+  currencies: string[];
+  units: Record<string, number>;
+  rates_per_unit: Record<string, Record<string, number | null>>;
+}
+
+export interface V1Stats {
+  currency: string;
+  from: string;
+  to: string;
+  bucket: StatsBucketSize | null;
+  summary: RateStatsPeriod | null; // Per single unit
+  buckets: RateStatsPeriod[];
+}
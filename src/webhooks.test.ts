@@ -0,0 +1,85 @@
+import { createHmac } from 'node:crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateWebhookSecret, queueWebhookEvent, signWebhookPayload, validateWebhookInput } from './webhooks';
+import { createTestD1, TestD1 } from './test/cloudflare';
+import type { Env } from './worker-types';
+
+describe('signWebhookPayload', () => {
+    const secret = 'whsec_0123456789abcdef0123456789abcdef0123456789abcdef';
+    const body = JSON.stringify({ id: 'evt_1', event: 'ping', created_at: '2025-01-15T05:00:00Z', data: {} });
+
+    it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', async () => {
+        // What a receiver written against the docs computes
+        const expected = createHmac('sha256', secret).update(`1736917200.${body}`).digest('hex');
+        expect(await signWebhookPayload(secret, 1736917200, body)).toBe(expected);
+    });
+
+    it('changes with the timestamp, the body and the secret', async () => {
+        const signature = await signWebhookPayload(secret, 1736917200, body);
+        expect(await signWebhookPayload(secret, 1736917201, body)).not.toBe(signature);
+        expect(await signWebhookPayload(secret, 1736917200, `${body} `)).not.toBe(signature);
+        expect(await signWebhookPayload(generateWebhookSecret(), 1736917200, body)).not.toBe(signature);
+    });
+});
+
+describe('generateWebhookSecret', () => {
+    it('prefixes 24 random bytes', () => {
+        expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+        expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+    });
+});
+
+describe('validateWebhookInput', () => {
+    const valid = { url: 'https://example.com/hooks/forex', events: ['rates.published'], currencies: ['USD', 'eur'] };
+
+    it('accepts an https URL with known events', () => {
+        expect(validateWebhookInput(valid)).toBeNull();
+        expect(validateWebhookInput({ ...valid, currencies: undefined })).toBeNull();
+    });
+
+    it('explains what is wrong', () => {
+        expect(validateWebhookInput({ ...valid, url: 'not a url' })).toBe('Enter a valid URL');
+        expect(validateWebhookInput({ ...valid, url: 'http://example.com/hook' })).toBe('Webhook URLs must use https');
+        expect(validateWebhookInput({ ...valid, events: [] })).toBe('Choose at least one event');
+        expect(validateWebhookInput({ ...valid, events: ['rates.published', 'rates.deleted'] })).toBe('Unknown events: rates.deleted');
+        expect(validateWebhookInput({ ...valid, currencies: ['USDT'] })).toBe('Currencies must be 3-letter ISO codes');
+    });
+});
+
+describe('queueWebhookEvent', () => {
+    let db: TestD1;
+    let env: Env;
+
+    beforeEach(() => {
+        db = createTestD1('001_db.sql', '015_webhooks.sql');
+        env = { FOREX_DB: db } as unknown as Env;
+        db.exec(`INSERT INTO webhooks (url, secret, events, currencies) VALUES
+            ('https://example.com/all', 'whsec_a', '["rates.published","rates.revised","post.published"]', '[]'),
+            ('https://example.com/usd', 'whsec_b', '["rates.published","rates.revised","post.published"]', '["usd"]')`);
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    const payloads = async () => (await db.prepare(`SELECT webhook_id, payload FROM webhook_deliveries ORDER BY id`).all<{ webhook_id: number; payload: string }>())
+        .results.map(row => [row.webhook_id, JSON.parse(row.payload).data]);
+
+    const rate = (iso3: string) => ({ iso3, unit: 1, buy_per_unit: 136.8, sell_per_unit: 137.4 });
+
+    it("narrows rate events to a webhook's currencies", async () => {
+        expect(await queueWebhookEvent(env, 'rates.published', { date: '2025-01-15', rates: [rate('USD'), rate('EUR')] })).toBe(2);
+        expect(await payloads()).toEqual([
+            [1, { date: '2025-01-15', rates: [rate('USD'), rate('EUR')] }],
+            [2, { date: '2025-01-15', rates: [rate('USD')] }],
+        ]);
+    });
+
+    it('skips webhooks with none of their currencies in the event', async () => {
+        const changes = [{ ...rate('EUR'), previous: { buy_per_unit: 140, sell_per_unit: 141 } }];
+        expect(await queueWebhookEvent(env, 'rates.revised', { date: '2025-01-15', changes })).toBe(1);
+        expect(await payloads()).toEqual([[1, { date: '2025-01-15', changes }]]);
+    });
+
+    it('sends post events whatever the currencies', async () => {
+        const post = { id: 7, title: 'Rates', slug: 'rates', excerpt: null, url: 'https://forex.grisma.com.np/posts/rates', published_at: null };
+        expect(await queueWebhookEvent(env, 'post.published', post)).toBe(2);
+    });
+});
@@ -0,0 +1,312 @@
+// src/webhooks.ts
+// --- WEBHOOKS ---
+// Subscribers are POSTed a signed JSON payload when new rates are published, stored rates
+// are revised or a post is published. An event is queued as one webhook_deliveries row per
+// matching webhook and sent straight away; failures are retried with exponential backoff
+// by the */5 cron until MAX_ATTEMPTS, and every attempt is visible in the delivery log.
+//
+// The body is signed with the webhook's secret: X-Webhook-Signature is
+// `sha256=<hex HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>">`.
+
+import { Env, ExecutionContext, D1Database, Webhook, WebhookEvent, WebhookDelivery } from './worker-types';
+import { SITE_URL } from './constants';
+import { diffRates, RateDiff, RateInput, StoredRate, WriteMode } from './rates-store';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['rates.published', 'rates.revised', 'post.published'];
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+const SECRET_PREFIX = 'whsec_';
+const MAX_ATTEMPTS = 6; // Retried after 1m, 5m, 25m, ~2h and ~10h before giving up
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 12 * 3600;
+const DELIVERIES_PER_RUN = 20; // Keeps each invocation well inside the subrequest limit
+const DELIVERY_TIMEOUT_MS = 10000;
+const LEASE_SECONDS = 120; // A claimed delivery isn't picked up by another run for this long
+const MAX_ERROR_LENGTH = 500;
+
+type RatesPayloadRow = { iso3: string; unit: number; buy_per_unit: number | null; sell_per_unit: number | null };
+type RevisedRatesPayloadRow = RatesPayloadRow & { previous: { buy_per_unit: number | null; sell_per_unit: number | null } | null };
+
+// The `data` of each event's payload
+export interface WebhookEventData {
+    'rates.published': { date: string; rates: RatesPayloadRow[] };
+    'rates.revised': { date: string; changes: RevisedRatesPayloadRow[] };
+    'post.published': { id: number; title: string; slug: string; excerpt: string | null; url: string; published_at: string | null };
+    ping: { webhook_id: number; message: string };
+}
+
+export interface WebhookPayload<E extends WebhookEvent | 'ping' = WebhookEvent | 'ping'> {
+    id: string; // Shared by every delivery of one event, for de-duplication
+    event: E;
+    created_at: string;
+    data: WebhookEventData[E];
+}
+
+export interface WebhookInput {
+    url?: string;
+    description?: string | null;
+    events?: string[];
+    currencies?: string[];
+    enabled?: boolean;
+}
+
+export function generateWebhookSecret(): string {
+    return SECRET_PREFIX + Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The hex HMAC-SHA256 of `<timestamp>.<body>`, which receivers recompute to verify a delivery.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Why a webhook can't be saved, or null if it is fine.
+ */
+export function validateWebhookInput(input: WebhookInput): string | null {
+    let url: URL;
+    try {
+        url = new URL(input.url || '');
+    } catch {
+        return 'Enter a valid URL';
+    }
+    if (url.protocol !== 'https:') return 'Webhook URLs must use https';
+    if (!Array.isArray(input.events) || input.events.length === 0) return 'Choose at least one event';
+    const unknown = input.events.filter(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+    if (unknown.length > 0) return `Unknown events: ${unknown.join(', ')}`;
+    if (input.currencies !== undefined) {
+        if (!Array.isArray(input.currencies) || input.currencies.some(code => typeof code !== 'string' || !/^[A-Za-z]{3}$/.test(code))) {
+            return 'Currencies must be 3-letter ISO codes';
+        }
+    }
+    return null;
+}
+
+function parseList(stored: string | null | undefined): string[] {
+    try {
+        const parsed = JSON.parse(stored || '[]');
+        return Array.isArray(parsed) ? parsed.filter(item => typeof item === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * What a webhook receives for an event: rate events are narrowed to its currencies, and
+ * null means there's nothing in it for this webhook.
+ */
+function dataForWebhook<T extends WebhookEventData[WebhookEvent]>(webhook: Pick<Webhook, 'currencies'>, data: T): T | null {
+    const currencies = parseList(webhook.currencies).map(code => code.toUpperCase());
+    if (currencies.length === 0) return data;
+
+    const wanted = (row: { iso3: string }) => currencies.includes(row.iso3);
+    if ('rates' in data) {
+        const rates = data.rates.filter(wanted);
+        return rates.length > 0 ? { ...data, rates } : null;
+    }
+    if ('changes' in data) {
+        const changes = data.changes.filter(wanted);
+        return changes.length > 0 ? { ...data, changes } : null;
+    }
+    return data;
+}
+
+/**
+ * Queues an event for every enabled webhook subscribed to it. Returns the number of
+ * deliveries queued; call deliverDueWebhooks to send them.
+ */
+export async function queueWebhookEvent<E extends WebhookEvent>(env: Env, event: E, data: WebhookEventData[E]): Promise<number> {
+    const { results } = await env.FOREX_DB.prepare(
+        `SELECT id, events, currencies FROM webhooks WHERE enabled = 1`
+    ).all<Pick<Webhook, 'id' | 'events' | 'currencies'>>();
+
+    const id = crypto.randomUUID();
+    const created_at = new Date().toISOString();
+    const stmts = (results || []).flatMap(webhook => {
+        if (!parseList(webhook.events).includes(event)) return [];
+        const filtered = dataForWebhook(webhook, data);
+        if (!filtered) return [];
+        const payload: WebhookPayload<E> = { id, event, created_at, data: filtered };
+        return [env.FOREX_DB.prepare(
+            `INSERT INTO webhook_deliveries (webhook_id, event, payload, status, next_attempt_at) VALUES (?, ?, ?, 'pending', datetime('now'))`
+        ).bind(webhook.id, event, JSON.stringify(payload))];
+    });
+
+    if (stmts.length > 0) {
+        await env.FOREX_DB.batch(stmts);
+        console.log(`Queued ${stmts.length} webhook deliveries for ${event}.`);
+    }
+    return stmts.length;
+}
+
+/**
+ * Queues a `ping` delivery for one webhook, regardless of its events, to test the receiver.
+ */
+export async function queueWebhookPing(env: Env, webhookId: number): Promise<void> {
+    const payload: WebhookPayload<'ping'> = {
+        id: crypto.randomUUID(),
+        event: 'ping',
+        created_at: new Date().toISOString(),
+        data: { webhook_id: webhookId, message: 'Test delivery from the Forex Nepal dashboard' },
+    };
+    await env.FOREX_DB.prepare(
+        `INSERT INTO webhook_deliveries (webhook_id, event, payload, status, next_attempt_at) VALUES (?, 'ping', ?, 'pending', datetime('now'))`
+    ).bind(webhookId, JSON.stringify(payload)).run();
+}
+
+/**
+ * Queues rates.published for dates that had no rates before this write, and rates.revised
+ * (with the previous values) for stored dates whose rates it changes. 'update' writes never
+ * overwrite a stored rate, so only their new rows count (see diffRates).
+ */
+export async function queueRateEvents(
+    env: Env,
+    stored: Map<string, StoredRate[]>,
+    incoming: RateInput[],
+    mode: WriteMode
+): Promise<number> {
+    const units = new Map(incoming.map(rate => [`${rate.date}:${rate.iso3}`, rate.unit || 1]));
+    const byDate = new Map<string, RateDiff[]>();
+    for (const diff of diffRates(stored, incoming, mode)) {
+        if (diff.action !== 'insert' && diff.action !== 'change') continue;
+        byDate.set(diff.date, [...(byDate.get(diff.date) || []), diff]);
+    }
+
+    let queued = 0;
+    for (const [date, diffs] of Array.from(byDate.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+        const row = (iso3: string, values: { buy: number | null; sell: number | null }): RatesPayloadRow => ({
+            iso3, unit: units.get(`${date}:${iso3}`) || 1, buy_per_unit: values.buy, sell_per_unit: values.sell,
+        });
+
+        if ((stored.get(date) || []).length === 0) {
+            queued += await queueWebhookEvent(env, 'rates.published', {
+                date,
+                rates: diffs.map(diff => row(diff.iso3, diff.new)),
+            });
+        } else {
+            queued += await queueWebhookEvent(env, 'rates.revised', {
+                date,
+                changes: diffs.map(diff => ({
+                    ...row(diff.iso3, diff.new),
+                    previous: diff.old ? { buy_per_unit: diff.old.buy, sell_per_unit: diff.old.sell } : null,
+                })),
+            });
+        }
+    }
+    return queued;
+}
+
+/**
+ * The post.published payload for a post row.
+ */
+export function postPublishedData(id: number, post: { title: string; slug: string; excerpt: string | null; published_at: string | null }): WebhookEventData['post.published'] {
+    return {
+        id,
+        title: post.title,
+        slug: post.slug,
+        excerpt: post.excerpt,
+        url: `${SITE_URL}/posts/${post.slug}`,
+        published_at: post.published_at,
+    };
+}
+
+/**
+ * Sends what `queued` queued once the response is out (don't await).
+ */
+export function deliverInBackground(env: Env, ctx: ExecutionContext, queued: Promise<number>): void {
+    ctx.waitUntil(
+        queued
+            .then(count => (count > 0 ? deliverDueWebhooks(env) : 0))
+            .catch((e: any) => console.error('Error sending webhooks:', e.message, e.cause))
+    );
+}
+
+function backoffSeconds(attempts: number): number {
+    return Math.min(BACKOFF_BASE_SECONDS * 5 ** (attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+async function attemptDelivery(env: Env, delivery: WebhookDelivery & { url: string; secret: string }): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+        const signature = await signWebhookPayload(delivery.secret, timestamp, delivery.payload);
+        const response = await fetch(delivery.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'ForexNepal-Webhooks/1.0',
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Delivery': String(delivery.id),
+                'X-Webhook-Timestamp': String(timestamp),
+                'X-Webhook-Signature': `sha256=${signature}`,
+            },
+            body: delivery.payload,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+            error = `HTTP ${response.status}: ${(await response.text().catch(() => '')).slice(0, 200)}`;
+        }
+    } catch (e: any) {
+        error = e.name === 'TimeoutError' ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s` : (e.message || 'Request failed');
+    }
+
+    if (!error) {
+        await env.FOREX_DB.prepare(
+            `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, last_error = NULL,
+             last_attempt_at = datetime('now'), delivered_at = datetime('now'), next_attempt_at = NULL WHERE id = ?`
+        ).bind(attempts, responseStatus, delivery.id).run();
+        return;
+    }
+
+    const givingUp = attempts >= MAX_ATTEMPTS;
+    await env.FOREX_DB.prepare(
+        `UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, last_error = ?, last_attempt_at = datetime('now'),
+         next_attempt_at = ${givingUp ? 'NULL' : `datetime('now', '+${backoffSeconds(attempts)} seconds')`} WHERE id = ?`
+    ).bind(givingUp ? 'failed' : 'pending', attempts, responseStatus, error.slice(0, MAX_ERROR_LENGTH), delivery.id).run();
+}
+
+/**
+ * Sends deliveries that are due (new ones and retries), in parallel. Each is leased first so
+ * an overlapping run doesn't send it twice. Deliveries of disabled webhooks wait.
+ */
+export async function deliverDueWebhooks(env: Env): Promise<number> {
+    const { results: claimed } = await env.FOREX_DB.prepare(
+        `UPDATE webhook_deliveries SET next_attempt_at = datetime('now', '+${LEASE_SECONDS} seconds')
+         WHERE id IN (
+            SELECT d.id FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+            WHERE d.status = 'pending' AND d.next_attempt_at <= datetime('now') AND w.enabled = 1
+            ORDER BY d.next_attempt_at, d.id LIMIT ${DELIVERIES_PER_RUN}
+         )
+         RETURNING id`
+    ).all<{ id: number }>();
+    if (!claimed || claimed.length === 0) return 0;
+
+    const ids = claimed.map(row => row.id);
+    const { results: deliveries } = await env.FOREX_DB.prepare(
+        `SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+         WHERE d.id IN (${ids.map(() => '?').join(', ')})`
+    ).bind(...ids).all<WebhookDelivery & { url: string; secret: string }>();
+
+    await Promise.all((deliveries || []).map(delivery =>
+        attemptDelivery(env, delivery).catch((e: any) =>
+            console.error(`Failed to record webhook delivery ${delivery.id}:`, e.message))
+    ));
+    return ids.length;
+}
+
+/**
+ * Drops finished deliveries older than the retention period. Called by the scheduled worker.
+ */
+export async function pruneWebhookDeliveries(db: D1Database): Promise<void> {
+    await db.prepare(`DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', ?)`)
+        .bind(`-${WEBHOOK_DELIVERY_RETENTION_DAYS} days`).run();
+}
@@ -24,6 +24,7 @@ export interface KVNamespace {
     get(key: string, options?: any): Promise<any>;
     put(key: string, value: any, options?: any): Promise<void>;
     delete(key: string): Promise<void>;
+    list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
 }
 
 export interface ExecutionContext {
@@ -54,6 +55,7 @@ export interface SiteSettings {
     ticker_enabled: boolean;
     adsense_enabled: boolean;
     adsense_exclusions: string;
+    require_2fa: boolean;
 }
 
 // --- NEWLY ADDED: The missing UserProfile type ---
@@ -67,21 +69,261 @@ export interface UserProfile {
 }
 // --- END OF FIX ---
 
+// --- Types for the Currency Registry ---
+export type CurrencyRegion = 'asian' | 'european' | 'middle-east' | 'other';
+
+export interface CurrencyRecord {
+    iso3: string;
+    name: string;
+    unit: number;
+    region: CurrencyRegion;
+    flag_code: string | null;
+    display_order: number;
+    enabled: number; // 1 or 0 (SQLite boolean)
+    created_at?: string;
+    updated_at?: string;
+}
+
+// --- Types for Historical Backfill Jobs ---
+export type BackfillStatus = 'pending' | 'running' | 'completed' | 'cancelled';
+export type BackfillDateStatus = 'stored' | 'no_data' | 'error';
+
+export interface BackfillJob {
+    id: number;
+    from_date: string;
+    to_date: string;
+    mode: 'update' | 'replace';
+    chunk_days: number;
+    status: BackfillStatus;
+    cursor_date: string; // First date of the next window to fetch
+    cursor_page: number;
+    attempts: number;
+    pages_fetched: number;
+    dates_stored: number;
+    error_count: number;
+    last_error: string | null;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+}
+
+export interface BackfillDateLog {
+    job_id: number;
+    date: string;
+    status: BackfillDateStatus;
+    rates_count: number;
+    message: string | null;
+    updated_at: string;
+}
+
+// --- Types for the Ingestion Audit Log ---
+export type IngestionStatus = 'success' | 'no_data' | 'error';
+export type AnomalyType = 'buy_gt_sell' | 'jump' | 'missing_currency' | 'gap';
+
+export interface IngestionRun {
+    id: number;
+    cron: string;
+    target_date: string;
+    status: IngestionStatus;
+    http_status: number | null;
+    currencies_received: number;
+    currencies_stored: number;
+    duration_ms: number;
+    error: string | null;
+    started_at: string;
+}
+
+export interface DataAnomaly {
+    id: number;
+    run_id: number | null;
+    date: string;
+    iso3: string; // '' for date-level anomalies
+    type: AnomalyType;
+    detail: string;
+    status: 'open' | 'resolved';
+    created_at: string;
+    resolved_at: string | null;
+    resolved_by: string | null;
+}
+
+// --- Types for Sessions ---
+export interface AdminSession {
+    id: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: string;
+    last_seen_at: string;
+    expires_at: string;
+}
+
 // --- Types for API Access Control ---
 export type ApiAccessLevel = 'public' | 'disabled' | 'restricted';
 
+export interface ApiAccessRule {
+    effect: 'allow' | 'deny';
+    match: string; // IPv4/IPv6 address or CIDR range, hostname or glob ('*.example.com'), or '*'
+    quota_per_hour?: number | null; // Allow rules only: replaces the endpoint's hourly quota; -1 for unlimited
+    note?: string;
+}
+
 export interface ApiAccessSetting {
     id: number;
     endpoint: string;
     access_level: ApiAccessLevel;
-    allowed_rules: string; // JSON string array
+    allowed_rules: string; // JSON array of ApiAccessRule (plain strings in older rows are allow rules)
     quota_per_hour: number; // -1 for unlimited
+    burst_per_minute: number; // Requests allowed within any minute; -1 for no limit beyond the hourly quota
     updated_at: string;
 }
 
-export interface ApiUsageLog {
-    id?: number;
+export interface ApiKey {
+    id: number;
+    key_prefix: string; // e.g. 'fxn_1a2b3c4d'; the full key is only shown once
+    owner: string;
+    label: string | null;
+    scopes: string; // JSON string array of endpoints, or ["*"]
+    quota_per_hour: number; // -1 for unlimited
+    quota_per_day: number; // -1 for unlimited
+    expires_at: string | null;
+    revoked_at: string | null;
+    last_used_at: string | null;
+    created_by: string | null;
+    created_at: string;
+    requests_this_hour: number;
+    requests_today: number;
+}
+
+// 401, 403 and 429 are kept apart from other 4xx responses: they are access decisions
+export type ApiUsageStatusClass = '2xx' | '3xx' | '401' | '403' | '429' | '4xx' | '5xx';
+
+export interface ApiUsageHourly {
+    hour: string; // 'YYYY-MM-DD HH:00:00' (UTC)
+    endpoint: string; // api_access_settings key
+    identifier: string; // 'key:<key prefix>', or the caller's IP
+    status_class: ApiUsageStatusClass;
+    requests: number;
+}
+
+export interface ApiUsageConsumer {
     identifier: string;
-    endpoint: string;
-    request_time: string;
+    requests: number;
+    rate_limited: number; // 429s
+    forbidden: number; // 403s
+}
+
+export interface ApiUsageReport {
+    from: string; // First hour included
+    to: string; // Last hour included
+    bucket: 'hour' | 'day';
+    totals: { requests: number; rate_limited: number; forbidden: number };
+    top_consumers: ApiUsageConsumer[];
+    endpoints: { endpoint: string; requests: number }[]; // Busiest first
+    series: { period: string; endpoint: string; requests: number }[];
+    denials: { period: string; rate_limited: number; forbidden: number }[];
+}
+
+// --- Types for Webhooks ---
+export type WebhookEvent = 'rates.published' | 'rates.revised' | 'post.published';
+
+export interface Webhook {
+    id: number;
+    url: string;
+    description: string | null;
+    events: string; // JSON array of WebhookEvent
+    currencies: string; // JSON array of ISO codes; empty for every currency
+    enabled: number; // 0 or 1
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    // From the delivery log
+    last_delivery_status: WebhookDeliveryStatus | null;
+    last_delivery_at: string | null;
+    pending_deliveries: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: number;
+    webhook_id: number;
+    event: WebhookEvent | 'ping';
+    payload: string; // The JSON body, exactly as signed
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    next_attempt_at: string | null;
+    last_attempt_at: string | null;
+    response_status: number | null;
+    last_error: string | null;
+    created_at: string;
+    delivered_at: string | null;
+}
+
+// --- Types for Email Rate Alerts ---
+export type RateAlertSide = 'buy' | 'sell';
+export type RateAlertCondition = 'above' | 'below' | 'percent_change';
+
+export interface RateAlertRequest {
+    email: string;
+    iso3: string;
+    side: RateAlertSide;
+    condition: RateAlertCondition;
+    threshold: number; // NPR per quoted unit for above/below; percent for percent_change
+}
+
+export interface RateAlert {
+    id: number;
+    subscriber_id: number;
+    iso3: string;
+    side: RateAlertSide;
+    condition: RateAlertCondition;
+    threshold: number;
+    status: 'pending' | 'active' | 'cancelled';
+    confirm_token: string | null;
+    created_at: string;
+    confirmed_at: string | null;
+    last_triggered_date: string | null;
+    last_triggered_at: string | null;
+}
+
+// --- Types for the Daily Rates Newsletter ---
+export type SubscriberStatus = 'pending' | 'active' | 'unsubscribed';
+
+export interface NewsletterSubscribeRequest {
+    email: string;
+    currencies?: string[]; // ISO3 codes; empty or missing for every currency
+}
+
+export interface NewsletterSubscriber {
+    id: number;
+    email: string;
+    currencies: string; // JSON array of ISO3 codes; empty for every currency
+    status: SubscriberStatus;
+    created_at: string;
+    confirmed_at: string | null;
+    unsubscribed_at: string | null;
+    // From the send log
+    last_sent_date: string | null;
+}
+
+export interface NewsletterIssue {
+    rate_date: string;
+    started_at: string;
+    completed_at: string | null;
+    sent: number;
+    failed: number;
+    sending: number; // Claimed by a run that hasn't finished (or died mid-send)
+}
+
+export type NewsletterDeliveryStatus = 'sending' | 'sent' | 'failed';
+
+export interface NewsletterDelivery {
+    rate_date: string;
+    subscriber_id: number;
+    email: string | null; // Null once the subscriber has been deleted
+    status: NewsletterDeliveryStatus;
+    error: string | null;
+    attempts: number; // Failed sends are retried up to three attempts in all
+    created_at: string;
+    sent_at: string | null;
 }
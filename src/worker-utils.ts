@@ -18,6 +18,24 @@ export function formatDate(date: Date): string {
     return `${year}-${month}-${day}`;
 }
 
+/**
+ * The current time shifted to Nepal (UTC+5:45), for use with formatDate: NRB's dates
+ * follow Nepal's calendar day.
+ */
+export function nowInNepal(): Date {
+    const nptOffsetMs = (5 * 60 + 45) * 60 * 1000;
+    return new Date(Date.now() + nptOffsetMs);
+}
+
+/**
+ * Shifts a 'yyyy-mm-dd' date string by a number of days (UTC, so no DST surprises).
+ */
+export function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
 /**
  * Generates a URL-friendly slug from a title string.
  */
@@ -27,3 +45,10 @@ export function generateSlug(title: string): string {
         .replace(/&/g, '-and-').replace(/[^\w\s-]/g, '').trim()
         .replace(/\s+/g, '-').replace(/-+/g, '-');
 }
+
+/**
+ * Escapes text for HTML and XML (emails, the pages behind email links, feeds).
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
@@ -0,0 +1,117 @@
+// src/xlsx.ts
+// --- MINIMAL XLSX WRITER ---
+// An .xlsx file is a ZIP of a few XML parts. This writes a single-sheet workbook with
+// inline strings and stores the parts uncompressed, which every spreadsheet app reads
+// and keeps the worker free of a zip dependency.
+
+export type XlsxCell = string | number | null;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c] as string));
+}
+
+/**
+ * Packs files into a ZIP archive without compression ("stored").
+ */
+function zipStored(files: { name: string; data: Uint8Array }[]): Uint8Array {
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const crc = crc32(file.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true); // Local file header signature
+        lv.setUint16(4, 20, true);         // Version needed to extract
+        lv.setUint16(8, 0, true);          // Method: stored
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, file.data.length, true);
+        lv.setUint32(22, file.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true); // Central directory signature
+        cv.setUint16(4, 20, true);         // Version made by
+        cv.setUint16(6, 20, true);         // Version needed to extract
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, file.data.length, true);
+        cv.setUint32(24, file.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);    // Offset of the local header
+        central.set(name, 46);
+
+        locals.push(local, file.data);
+        centrals.push(central);
+        offset += local.length + file.data.length;
+    }
+
+    const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true); // End of central directory signature
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const parts = [...locals, ...centrals, end];
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        out.set(part, position);
+        position += part.length;
+    }
+    return out;
+}
+
+function cellXml(value: XlsxCell): string {
+    if (value === null || value === '') return '<c/>';
+    if (typeof value === 'number') return Number.isFinite(value) ? `<c><v>${value}</v></c>` : '<c/>';
+    return `<c t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Builds a single-sheet workbook. The first row is frozen as a header.
+ */
+export function buildXlsx(sheetName: string, rows: XlsxCell[][]): Uint8Array {
+    const sheetRows = rows.map(row => `<row>${row.map(cellXml).join('')}</row>`).join('');
+    const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows}</sheetData></worksheet>`;
+
+    const files: Record<string, string> = {
+        '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+        '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+        'xl/worksheets/sheet1.xml': sheet,
+    };
+
+    return zipStored(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+}